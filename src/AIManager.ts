@@ -1,66 +1,1999 @@
 import { GameAdapter } from './integrations/GameAdapter';
+import { AIPluginErrorStage, AIPluginEvent, AIPluginEventMap, FallbackKind } from './integrations/GameEvents';
+import { AssetLibrary } from './core/assets/AssetLibrary';
+import { AudioProcessingOptions, processSpeech } from './core/audio/processing';
+import { BarkDirector, BarkOptions, GameEvent } from './core/barks/BarkDirector';
+import { AudioCacheStore, InMemoryAudioCacheStore } from './core/cache/AudioCacheStore';
+import { CachedTTSProvider } from './core/cache/CachedTTSProvider';
+import { ConversationController, ConversationOptions, ConversationSession } from './core/conversation/ConversationSession';
+import { DialogueControlOptions, DialogueHandle, DialogueQueue, InterruptPolicy } from './core/dialogue/DialogueQueue';
+import { generateScene, readingTimeMs, SceneLine, sceneSchema } from './core/dialogue/Scene';
+import { EventEmitter, EventListener } from './core/events/EventEmitter';
+import { MemoryExtractor } from './core/memory/MemoryExtractor';
+import { selectRelevantMemories } from './core/memory/MemoryRetriever';
+import { InMemoryMemoryStore, MemoryStore } from './core/memory/MemoryStore';
 import { GeminiService } from './core/llm/GeminiService';
-import { ElevenLabsTTSService } from './core/tts/ElevenLabsTTSService';
+import { LLMGenerationOptions, LLMMessage, LLMProvider, LLMTurn, LLMUsage } from './core/llm/LLMProvider';
+import { isSameLanguage, languageInstruction, languageOf, translationPrompt } from './core/locale/Locale';
+import { UsageLimits, UsageMetrics, UsageMetricsOptions } from './core/metrics/UsageMetrics';
+import { ContentModerator, ModerationOptions, ModerationVerdict } from './core/moderation/ContentModerator';
+import { abortable, sleep, throwIfAborted } from './core/net/abort';
+import {
+    AIPluginError,
+    BudgetExceededError,
+    CancelledError,
+    ContentBlockedError,
+    ContentRejectedError,
+    RequestDroppedError,
+} from './core/net/errors';
+import { RequestPolicy } from './core/net/RequestPolicy';
+import { RequestPriority, RequestScheduler, RequestSchedulerOptions } from './core/net/RequestScheduler';
+import { describeCast, PromptBuilder, PromptBuilderOptions } from './core/prompt/PromptBuilder';
+import { JsonSchema } from './core/structured/JsonSchema';
+import {
+    EMOTION_VOICE_SETTINGS,
+    generateNpcResponse,
+    NPC_RESPONSE_SCHEMA,
+    NpcResponse,
+    structuredResponseInstruction,
+} from './core/structured/NpcResponse';
+import { ElevenLabsSTTService } from './core/stt/ElevenLabsSTTService';
+import { STTProvider } from './core/stt/STTProvider';
+import { SentenceSplitter } from './core/text/SentenceSplitter';
+import { runToolLoop } from './core/tools/ToolLoop';
+import { ToolDefinition, ToolRegistry } from './core/tools/ToolRegistry';
+import { ElevenLabsOutputFormat, ElevenLabsTTSService } from './core/tts/ElevenLabsTTSService';
+import { speechDurationMs, speechTimings } from './core/tts/SpeechTiming';
+import { TTSProvider, TTSResult, TTSSpeechOptions, TTSUsage, VoiceSettings } from './core/tts/TTSProvider';
+import { VoiceRegistry, VoiceRegistryConfig } from './core/tts/VoiceRegistry';
+
+export interface MemoryOptions {
+    /** Where memories are kept. Defaults to an InMemoryMemoryStore. */
+    store?: MemoryStore;
+    /** Whether facts are extracted with the LLM when a conversation ends. Defaults to true. */
+    extractAfterConversation?: boolean;
+    /** The maximum number of memories put into a prompt. Defaults to 5. */
+    maxMemoriesInPrompt?: number;
+}
+
+export interface AudioCacheOptions {
+    /** Where audio is cached. Defaults to an InMemoryAudioCacheStore with a 32 MB budget. */
+    store?: AudioCacheStore;
+    /** How long cached audio stays valid, in milliseconds. Never expires when omitted. */
+    ttlMs?: number;
+}
+
+/**
+ * A line to synthesize ahead of time with `prewarmAudio`. A plain string is spoken with the
+ * default voice; with an `entityId`, the line is spoken with that NPC's voice and TTS provider.
+ * A `locale` (by default the AIManager's) picks the voice for that language.
+ */
+export type PrewarmLine = string | { text: string; entityId?: string; locale?: string };
+
+/**
+ * How a line is shown with `adapter.showDialogue`.
+ */
+type DialogueDisplayOptions = Parameters<GameAdapter['showDialogue']>[1];
+
+/**
+ * A provider in a fallback chain, with the name reported in Fallback events.
+ */
+interface NamedProvider<T> {
+    name: string;
+    provider: T;
+}
+
+/**
+ * What the requests of a running dialogue are scheduled and billed under, and its languages.
+ */
+interface DialogueContext {
+    priority: RequestPriority;
+    /** The player whose usage the requests count against, once the player state is known. */
+    playerId?: string;
+    locale?: string;
+    subtitleLocale?: string;
+}
+
+export interface BudgetOptions {
+    /** Limits on everything used until `aiManager.metrics.reset()`. */
+    session?: UsageLimits;
+    /** Limits for each player, identified by the `id` (or `name`) of the player state. */
+    perPlayer?: UsageLimits;
+    /**
+     * The LLM that answers once tokens or cost are used up, e.g. a cheaper Gemini model (by name) or a
+     * local server. When omitted, NPCs fall back to their canned lines.
+     */
+    cheaperLLM?: LLMProvider | string;
+    /**
+     * The speech backend (or name from `ttsProviders`) used once characters or cost are used up.
+     * When omitted, lines stay text-only.
+     */
+    cheaperTTS?: TTSProvider | string;
+}
+
+export interface StructuredOutputOptions {
+    /** The schema responses must match. Must require a string `line`. Defaults to NPC_RESPONSE_SCHEMA. */
+    schema?: JsonSchema;
+    /** How many times to ask again after an invalid JSON answer. Defaults to 2. */
+    maxRetries?: number;
+    /** Voice settings applied for each emotion. Defaults to EMOTION_VOICE_SETTINGS. */
+    emotionVoiceSettings?: Record<string, VoiceSettings>;
+}
+
+/**
+ * Per-call options for generateNpcDialogue.
+ */
+export interface DialogueRequestOptions extends DialogueControlOptions {
+    /**
+     * Which prompt template to use, e.g. `greeting` (the default), `bark`, `quest-giver`, `merchant`
+     * or any type registered with `aiManager.prompts.registerTemplate`.
+     */
+    interaction?: string;
+    /** What just happened, for a line that reacts to it. Available to prompt templates as `{{event}}`. */
+    event?: string;
+}
+
+/**
+ * Per-call options for playScene.
+ */
+export interface SceneOptions extends DialogueControlOptions {
+    /** The most lines the scene may have. Defaults to 8. */
+    maxLines?: number;
+    /** Milliseconds of silence between two lines. Defaults to 300. */
+    pauseMs?: number;
+}
+
+/**
+ * A line checked by moderation, with the NPC that would say it.
+ */
+interface ModeratedLine {
+    entityId: string;
+    npcState: { [key: string]: any };
+    text: string;
+}
+
+/**
+ * Per-call options for sendPlayerSpeech.
+ */
+export interface PlayerSpeechOptions extends DialogueControlOptions {
+    /** MIME type of the recording, e.g. `audio/webm` or `audio/wav`. */
+    mimeType?: string;
+    /** The language the player speaks, as an ISO 639 code. Defaults to the locale's language, or is detected without one. */
+    languageCode?: string;
+}
 
 export interface AIManagerOptions {
-    geminiApiKey: string;
-    elevenLabsApiKey: string;
+    /**
+     * The text generation backend to use. When omitted, a GeminiService is
+     * created from `geminiApiKey` and `geminiModelName`.
+     */
+    llmProvider?: LLMProvider;
+    /** Default generation settings applied to every dialogue request. */
+    llmOptions?: LLMGenerationOptions;
+    /**
+     * LLMs tried in order when the main one fails or returns nothing, e.g. a cheaper Gemini model or a
+     * local server. Strings are Gemini model names and use `geminiApiKey`.
+     */
+    llmFallbacks?: (LLMProvider | string)[];
+    /**
+     * Lines shown (and voiced) when no LLM can answer, for NPCs without `fallbackLines` in their
+     * entity state. When neither is set, `...` is shown.
+     */
+    fallbackLines?: string[];
+    /**
+     * The default speech backend. When omitted, an ElevenLabsTTSService is
+     * created from `elevenLabsApiKey` and `elevenLabsModelId`.
+     */
+    ttsProvider?: TTSProvider;
+    /**
+     * Additional named speech backends. An NPC uses one of these when its entity
+     * state has a matching `ttsProvider` field, e.g. `{ ttsProvider: 'piper' }`.
+     */
+    ttsProviders?: Record<string, TTSProvider>;
+    /**
+     * Speech backends tried in order when an NPC's own provider fails, given as providers or as names
+     * from `ttsProviders`. They speak with their default voice. When all of them fail, the line is
+     * shown without audio.
+     */
+    ttsFallbacks?: (TTSProvider | string)[];
+    /**
+     * Transcribes what players say into the microphone, for `sendPlayerSpeech`. When omitted, an
+     * ElevenLabsSTTService is created from `elevenLabsApiKey` and `elevenLabsSTTModelId`.
+     */
+    sttProvider?: STTProvider;
+    /**
+     * Caches synthesized audio keyed by text, voice, model and voice settings, so repeated lines
+     * are not synthesized again. Applies to every TTS provider. Disabled when omitted.
+     */
+    audioCache?: boolean | AudioCacheOptions;
+    /**
+     * Maps NPCs to voices based on their entity state (`voiceId`, `voice`, `archetype`, `gender`).
+     * Accepts a ready-made registry or the configuration to build one.
+     */
+    voices?: VoiceRegistry | VoiceRegistryConfig;
+    /**
+     * Streams dialogue instead of waiting for complete responses: text is pushed to the adapter as
+     * the LLM produces it, and each finished sentence is voiced while later ones are still generating.
+     * Works best with an adapter that implements `appendDialogue` and `enqueueAudioChunk`.
+     */
+    streaming?: boolean;
+    /**
+     * Makes the LLM answer with validated JSON (line, emotion, animation, player choices, actions)
+     * instead of plain text. The emotion shapes the voice, choices go to `adapter.showChoices` and
+     * actions to `adapter.performAction`. Takes precedence over `streaming`.
+     */
+    structuredOutput?: boolean | StructuredOutputOptions;
+    /**
+     * Game actions NPCs can trigger through function calling, dispatched to `adapter.executeTool`.
+     * Each NPC may only call the tools listed in the `tools` field of its entity state.
+     * Tools are not offered in streaming or structured output mode.
+     */
+    tools?: ToolRegistry | ToolDefinition[];
+    /** How many rounds of tool calls the model may make before it has to answer. Defaults to 3. */
+    maxToolRounds?: number;
+    /**
+     * Prompt templates and the world description shared by all of them.
+     * Accepts a ready-made builder or the options to create one.
+     */
+    prompts?: PromptBuilder | PromptBuilderOptions;
+    /** History budget and summarization settings for conversations started with `startConversation`. */
+    conversation?: ConversationOptions;
+    /**
+     * Enables long-term NPC memory: facts about the player are extracted after each conversation
+     * and the most relevant ones are added to later prompts. Disabled when omitted.
+     */
+    memory?: MemoryOptions;
+    geminiApiKey?: string;
+    elevenLabsApiKey?: string;
     geminiModelName?: string;
     elevenLabsModelId?: string;
+    /**
+     * The audio format ElevenLabs returns, e.g. `pcm_24000` for raw PCM an engine can play without
+     * decoding, or `opus_48000_64` for small files. Defaults to `mp3_44100_128`.
+     */
+    elevenLabsOutputFormat?: ElevenLabsOutputFormat;
+    elevenLabsSTTModelId?: string;
+    /** Timeout and retry settings for the built-in Gemini and ElevenLabs services. */
+    requestPolicy?: RequestPolicy;
+    /**
+     * Concurrency and requests-per-minute limits per provider. Requests over the limits wait by
+     * priority, identical pending requests are sent once, and low-priority requests are dropped
+     * when too many wait. Accepts a ready-made scheduler or the options to create one.
+     */
+    scheduler?: RequestScheduler | RequestSchedulerOptions;
+    /**
+     * Collects token, character, cost and latency metrics, available as `aiManager.metrics`.
+     * Accepts a ready-made collector or the options (model prices) to create one.
+     */
+    metrics?: UsageMetrics | UsageMetricsOptions;
+    /** Usage limits per session and per player, and the cheaper providers to switch to once they are reached. */
+    budgets?: BudgetOptions;
+    /**
+     * Checks every line before it is shown: provider safety settings, profanity, a denylist, length,
+     * the model breaking character or leaking its prompt, and a custom validator. Rejected lines are
+     * generated again, then replaced by a canned line. Disabled when omitted.
+     */
+    moderation?: ModerationOptions;
+    /**
+     * The language NPCs speak, as a locale like `de-DE` or `ja`. It is added to every prompt, passed to
+     * the TTS provider and picks the voices registered for it. NPCs speak English when omitted.
+     * Can be overridden per request.
+     */
+    locale?: string;
+    /**
+     * A second language every line is translated into by the LLM, passed to `adapter.showDialogue` as
+     * `translation`, e.g. for subtitles in the player's language. Lines already in that language are not
+     * translated. Can be overridden per request.
+     */
+    subtitleLocale?: string;
+    /**
+     * Post-processing of synthesized lines before they reach the adapter: raw PCM is wrapped in a WAV
+     * header unless `wrapPcm` is false, and `normalizeLoudness` brings all voices to one level.
+     * Streamed audio chunks are passed on as they arrive.
+     */
+    audioProcessing?: AudioProcessingOptions;
+    /**
+     * Rules for barks: short lines NPCs say on their own in reaction to events pushed with
+     * `pushGameEvent`. Accepts a ready-made director or the options to create one.
+     */
+    barks?: BarkDirector | BarkOptions;
+    /**
+     * Lines and audio pre-generated with the `bake` CLI. For NPCs with pre-baked lines for an interaction,
+     * one of them is picked instead of asking the LLM, unless the line is for an event or has player context
+     * overrides; any line spoken with the voice and language it was baked for plays its pre-baked audio.
+     */
+    assets?: AssetLibrary;
+    /**
+     * What happens when a line is requested for an NPC that is still generating or speaking one:
+     * `queue` (the default) waits for it, `replace` interrupts it, `drop` discards the new line.
+     */
+    interruptPolicy?: InterruptPolicy;
 }
 
-export class AIManager {
+export class AIManager implements ConversationController {
     private adapter: GameAdapter;
-    private llmService: GeminiService;
-    private ttsService: ElevenLabsTTSService;
+    private llmService: LLMProvider;
+    /** The main LLM followed by its fallbacks, in the order they are tried. */
+    private llmChain: NamedProvider<LLMProvider>[];
+    private llmOptions: LLMGenerationOptions;
+    private fallbackLines: string[];
+    private ttsService: TTSProvider;
+    private ttsProviders: Record<string, TTSProvider>;
+    private ttsFallbacks: NamedProvider<TTSProvider>[];
+    private sttService: STTProvider | null;
+    private audioCacheStore: AudioCacheStore | null;
+    private voiceRegistry: VoiceRegistry;
+    private streaming: boolean;
+    private structuredOutput: Required<StructuredOutputOptions> | null;
+    private promptBuilder: PromptBuilder;
+    private toolRegistry: ToolRegistry;
+    private maxToolRounds: number;
+    private conversationOptions: ConversationOptions;
+    private conversations = new Map<string, ConversationSession>();
+    private dialogues: DialogueQueue;
+    private requestScheduler: RequestScheduler;
+    /** The context of each running dialogue, keyed by the dialogue's signal. */
+    private dialogueContexts = new WeakMap<AbortSignal, DialogueContext>();
+    private usageMetrics: UsageMetrics;
+    private budgets: BudgetOptions;
+    private budgetLLM: NamedProvider<LLMProvider> | null;
+    private budgetTTS: NamedProvider<TTSProvider> | null;
+    private moderator: ContentModerator | null;
+    private locale?: string;
+    private subtitleLocale?: string;
+    private audioProcessing: AudioProcessingOptions;
+    private barkDirector: BarkDirector;
+    private assetLibrary: AssetLibrary | null;
+    private events = new EventEmitter<AIPluginEventMap>();
+    private memoryStore: MemoryStore | null;
+    private memoryOptions: MemoryOptions;
 
     constructor(adapter: GameAdapter, options: AIManagerOptions) {
         this.adapter = adapter;
-        this.llmService = new GeminiService(options.geminiApiKey, options.geminiModelName);
-        this.ttsService = new ElevenLabsTTSService(options.elevenLabsApiKey, options.elevenLabsModelId);
+        this.llmService = options.llmProvider || AIManager.createDefaultLLMProvider(options);
+        this.llmChain = [
+            { name: 'default', provider: this.llmService },
+            ...(options.llmFallbacks || []).map((fallback) => AIManager.createFallbackLLMProvider(fallback, options)),
+        ];
+        this.llmOptions = options.llmOptions || {};
+        if (options.moderation?.safetySettings) {
+            this.llmOptions = { ...this.llmOptions, safetySettings: options.moderation.safetySettings };
+        }
+        this.fallbackLines = options.fallbackLines || [];
+        this.ttsService = options.ttsProvider || AIManager.createDefaultTTSProvider(options);
+        this.ttsProviders = options.ttsProviders || {};
+        this.ttsFallbacks = (options.ttsFallbacks || []).map((fallback) => this.resolveFallbackTTSProvider(fallback));
+        this.sttService = options.sttProvider
+            || (options.elevenLabsApiKey ? new ElevenLabsSTTService(options.elevenLabsApiKey, options.elevenLabsSTTModelId, options.requestPolicy) : null);
+        this.audioCacheStore = null;
+        if (options.audioCache) {
+            this.enableAudioCache(options.audioCache === true ? {} : options.audioCache);
+        }
+        this.budgets = options.budgets || {};
+        this.budgetLLM = this.budgets.cheaperLLM ? AIManager.createFallbackLLMProvider(this.budgets.cheaperLLM, options) : null;
+        this.budgetTTS = this.budgets.cheaperTTS ? this.resolveFallbackTTSProvider(this.budgets.cheaperTTS) : null;
+        this.usageMetrics = options.metrics instanceof UsageMetrics ? options.metrics : new UsageMetrics(options.metrics);
+        this.moderator = options.moderation ? new ContentModerator(options.moderation) : null;
+        this.locale = options.locale;
+        this.subtitleLocale = options.subtitleLocale;
+        this.audioProcessing = options.audioProcessing || {};
+        this.barkDirector = options.barks instanceof BarkDirector ? options.barks : new BarkDirector(options.barks);
+        this.assetLibrary = options.assets || null;
+        this.voiceRegistry = options.voices instanceof VoiceRegistry ? options.voices : new VoiceRegistry(options.voices);
+        this.streaming = options.streaming || false;
+        this.structuredOutput = options.structuredOutput ? AIManager.resolveStructuredOutputOptions(options.structuredOutput) : null;
+        this.promptBuilder = options.prompts instanceof PromptBuilder ? options.prompts : new PromptBuilder(options.prompts);
+        this.toolRegistry = options.tools instanceof ToolRegistry ? options.tools : new ToolRegistry(options.tools);
+        this.maxToolRounds = options.maxToolRounds ?? 3;
+        this.conversationOptions = options.conversation || {};
+        this.memoryOptions = options.memory || {};
+        this.memoryStore = options.memory ? options.memory.store || new InMemoryMemoryStore() : null;
+        this.dialogues = new DialogueQueue(options.interruptPolicy || 'queue', (entityId) => {
+            this.adapter.stopAudio(entityId);
+            this.adapter.hideDialogue(entityId);
+        });
+        this.requestScheduler = options.scheduler instanceof RequestScheduler ? options.scheduler : new RequestScheduler(options.scheduler);
         console.log('AIManager initialized.');
     }
 
-    public async generateNpcDialogue(entityId: string, playerContextOverrides?: any): Promise<void> {
+    private static createDefaultLLMProvider(options: AIManagerOptions): LLMProvider {
+        if (!options.geminiApiKey) {
+            throw new Error("Either llmProvider or geminiApiKey must be provided.");
+        }
+        return new GeminiService(options.geminiApiKey, options.geminiModelName, options.requestPolicy);
+    }
+
+    private static createFallbackLLMProvider(fallback: LLMProvider | string, options: AIManagerOptions): NamedProvider<LLMProvider> {
+        if (typeof fallback !== 'string') {
+            return { name: fallback.constructor.name, provider: fallback };
+        }
+        if (!options.geminiApiKey) {
+            throw new Error(`geminiApiKey must be provided to fall back to the Gemini model "${fallback}".`);
+        }
+        return { name: fallback, provider: new GeminiService(options.geminiApiKey, fallback, options.requestPolicy) };
+    }
+
+    private resolveFallbackTTSProvider(fallback: TTSProvider | string): NamedProvider<TTSProvider> {
+        if (typeof fallback !== 'string') {
+            return { name: fallback.constructor.name, provider: fallback };
+        }
+        if (!this.ttsProviders[fallback]) {
+            throw new Error(`Unknown TTS fallback provider "${fallback}"; register it in ttsProviders.`);
+        }
+        return { name: fallback, provider: this.ttsProviders[fallback] };
+    }
+
+    private static resolveStructuredOutputOptions(options: true | StructuredOutputOptions): Required<StructuredOutputOptions> {
+        const custom = options === true ? {} : options;
+        return {
+            schema: custom.schema || NPC_RESPONSE_SCHEMA,
+            maxRetries: custom.maxRetries ?? 2,
+            emotionVoiceSettings: custom.emotionVoiceSettings || EMOTION_VOICE_SETTINGS,
+        };
+    }
+
+    /**
+     * Puts a cache in front of every TTS provider. Providers share one store; each gets its own
+     * namespace so identical lines from different engines do not collide.
+     */
+    private enableAudioCache(options: AudioCacheOptions): void {
+        const store = options.store || new InMemoryAudioCacheStore();
+        const cache = (provider: TTSProvider, namespace: string) => new CachedTTSProvider(provider, store, {
+            namespace,
+            ttlMs: options.ttlMs,
+            onLookup: ({ hit, ...data }) => this.events.emit(hit ? AIPluginEvent.AudioCacheHit : AIPluginEvent.AudioCacheMiss, data),
+        });
+
+        this.audioCacheStore = store;
+        this.ttsService = cache(this.ttsService, 'default');
+        const uncached = this.ttsProviders;
+        this.ttsProviders = Object.fromEntries(
+            Object.entries(uncached).map(([name, provider]) => [name, cache(provider, name)]),
+        );
+        // Fallbacks named after a registered provider share its cache.
+        this.ttsFallbacks = this.ttsFallbacks.map(({ name, provider }) => ({
+            name,
+            provider: uncached[name] === provider ? this.ttsProviders[name] : cache(provider, `fallback:${name}`),
+        }));
+    }
+
+    private static createDefaultTTSProvider(options: AIManagerOptions): TTSProvider {
+        if (!options.elevenLabsApiKey) {
+            throw new Error("Either ttsProvider or elevenLabsApiKey must be provided.");
+        }
+        return new ElevenLabsTTSService(options.elevenLabsApiKey, options.elevenLabsModelId, options.requestPolicy, options.elevenLabsOutputFormat);
+    }
+
+    /**
+     * Picks the speech backend for an NPC: a named provider selected by the entity's
+     * `ttsProvider` field, otherwise the default one.
+     */
+    private resolveTTSProvider(npcState: { [key: string]: any }): TTSProvider {
+        const name = npcState.ttsProvider;
+        if (name) {
+            if (this.ttsProviders[name]) {
+                return this.ttsProviders[name];
+            }
+            console.warn(`[AIManager] Unknown TTS provider "${name}", using the default.`);
+        }
+        return this.ttsService;
+    }
+
+    /**
+     * The registry used to pick a voice for each NPC. Voices can be registered at any time.
+     */
+    public get voices(): VoiceRegistry {
+        return this.voiceRegistry;
+    }
+
+    /**
+     * The builder that turns game state into prompts. Templates can be registered at any time.
+     */
+    public get prompts(): PromptBuilder {
+        return this.promptBuilder;
+    }
+
+    /**
+     * The game actions NPCs can call. Tools can be registered at any time.
+     */
+    public get tools(): ToolRegistry {
+        return this.toolRegistry;
+    }
+
+    /**
+     * The scheduler that keeps LLM and TTS requests within each provider's limits.
+     */
+    public get scheduler(): RequestScheduler {
+        return this.requestScheduler;
+    }
+
+    /**
+     * Tokens, TTS characters, cost and stage latencies so far. `metrics.reset()` starts a new session.
+     */
+    public get metrics(): UsageMetrics {
+        return this.usageMetrics;
+    }
+
+    /**
+     * The store holding cached audio, or null if the audio cache is disabled.
+     */
+    public get audioCache(): AudioCacheStore | null {
+        return this.audioCacheStore;
+    }
+
+    /**
+     * The store holding NPC memories, or null if memory is disabled.
+     */
+    public get memories(): MemoryStore | null {
+        return this.memoryStore;
+    }
+
+    /**
+     * The rules and cooldowns of barks. Rules can be added at any time.
+     */
+    public get barks(): BarkDirector {
+        return this.barkDirector;
+    }
+
+    public on<K extends keyof AIPluginEventMap>(event: K, listener: EventListener<AIPluginEventMap[K]>): void {
+        this.events.on(event, listener);
+    }
+
+    public off<K extends keyof AIPluginEventMap>(event: K, listener: EventListener<AIPluginEventMap[K]>): void {
+        this.events.off(event, listener);
+    }
+
+    public once<K extends keyof AIPluginEventMap>(event: K, listener: EventListener<AIPluginEventMap[K]>): void {
+        this.events.once(event, listener);
+    }
+
+    /**
+     * Generates a line of dialogue for an NPC, shows it and plays it through the adapter.
+     * If the NPC is already speaking, the `interruptPolicy` decides whether the line waits, interrupts or is dropped.
+     * @param entityId The NPC that speaks.
+     * @param playerContextOverrides Values merged over the player state for this line only.
+     * @param options Per-call options such as the interaction type, an AbortSignal and the interrupt policy.
+     * @returns A handle that resolves once the line has been delivered and can cancel it.
+     */
+    public generateNpcDialogue(entityId: string, playerContextOverrides?: any, options: DialogueRequestOptions = {}): DialogueHandle<void> {
+        const priority = options.priority || (options.interaction === 'bark' ? 'low' : 'normal');
+        return this.dialogues.run(entityId, async (signal) => {
+            this.dialogueContexts.set(signal, this.dialogueContext(priority, options));
+            await this.deliverNpcDialogue(entityId, playerContextOverrides, options, signal);
+        }, undefined, options);
+    }
+
+    /**
+     * Lets NPCs react to something that happened in the game, e.g. the player entering an area, taking
+     * damage or picking up a rare item. The bark rules for the event's type choose which of its NPCs
+     * react; each says a short line, generated with the `bark` template or taken from the rule's fixed
+     * or previously said lines. NPCs that are already speaking do not react, and barks never interrupt.
+     * @returns A handle for each NPC that reacts, resolving to its line, or to null if none could be delivered.
+     */
+    public async pushGameEvent(event: GameEvent): Promise<DialogueHandle<string | null>[]> {
+        if (this.barkDirector.rulesFor(event.type).length === 0) {
+            return [];
+        }
+        const npcStates: Record<string, { [key: string]: any }> = {};
+        for (const entityId of event.entityIds) {
+            if (!this.isSpeaking(entityId)) {
+                npcStates[entityId] = await this.adapter.getEntityState(entityId);
+            }
+        }
+
+        return this.barkDirector.select(event, npcStates).map(({ entityId, rule, description, line }) => {
+            const options: DialogueRequestOptions = { interaction: rule.interaction || 'bark', event: description, ifSpeaking: 'drop', priority: 'low' };
+            return this.dialogues.run(entityId, async (signal) => {
+                this.dialogueContexts.set(signal, this.dialogueContext('low', options));
+                if (line !== undefined) {
+                    return this.deliverLine(entityId, npcStates[entityId], line, signal);
+                }
+                const generated = await this.deliverNpcDialogue(entityId, undefined, options, signal);
+                if (generated) {
+                    this.barkDirector.remember(rule, entityId, generated);
+                }
+                return generated;
+            }, null, options);
+        });
+    }
+
+    /**
+     * Cancels what an NPC is saying or about to say: pending requests are aborted, its audio is
+     * stopped and its dialogue hidden. Use it when the player walks away.
+     */
+    public interrupt(entityId: string): void {
+        this.dialogues.interrupt(entityId);
+    }
+
+    /**
+     * Whether an NPC has a line queued, generating or playing.
+     */
+    public isSpeaking(entityId: string): boolean {
+        return this.dialogues.isSpeaking(entityId);
+    }
+
+    /**
+     * Plays an ambient scene: the LLM writes a conversation between several NPCs about a situation,
+     * then each line is shown, voiced with its speaker's voice and hidden again, in order. The scene
+     * holds every NPC of its cast like a line of their own would, so `interrupt` on any of them ends
+     * it, and it ends by itself when the player starts talking to one of them.
+     * @param entityIds The cast: at least two NPCs.
+     * @param situation What the scene is about, e.g. `two guards complain about the night shift`.
+     * @param options The length of the scene, the pause between lines, an AbortSignal and the interrupt policy.
+     * @returns A handle that resolves to the lines that were delivered: all of them, those before the
+     * scene was cancelled, or none if it could not be written.
+     */
+    public playScene(entityIds: string[], situation: string, options: SceneOptions = {}): DialogueHandle<SceneLine[]> {
+        const cast = Array.from(new Set(entityIds));
+        if (cast.length < 2) {
+            throw new Error('A scene needs at least two NPCs.');
+        }
+        return this.dialogues.run(cast, (signal) => {
+            this.dialogueContexts.set(signal, this.dialogueContext(options.priority || 'low', options));
+            return this.deliverScene(cast, situation, options, signal);
+        }, [], options);
+    }
+
+    /**
+     * Generates, shows and voices a line of dialogue.
+     * @returns The line, or null if it was cancelled, dropped or replaced by a fallback.
+     */
+    private async deliverNpcDialogue(
+        entityId: string,
+        playerContextOverrides: any,
+        options: DialogueRequestOptions,
+        signal: AbortSignal,
+    ): Promise<string | null> {
         console.log(`Generating dialogue for entity: ${entityId}`);
+        const startedAt = Date.now();
+        let npcState: { [key: string]: any } | undefined;
         try {
             // 1. Get game state from adapter
-            const npcState = await this.adapter.getEntityState(entityId);
+            const stateStartedAt = Date.now();
+            npcState = await this.adapter.getEntityState(entityId);
             const playerState = await this.adapter.getPlayerState();
             const gameState = await this.adapter.getGameState();
+            this.usageMetrics.recordLatency('state', Date.now() - stateStartedAt);
+            this.setPlayer(signal, playerState);
+
+            // Pre-baked lines were written for the usual situation, so events and overrides are always generated
+            const bakedLines = options.event || playerContextOverrides
+                ? []
+                : this.assetLibrary?.linesFor(entityId, options.interaction || 'greeting', this.localeOf(signal)) || [];
+            if (bakedLines.length > 0) {
+                const bakedLine = bakedLines[Math.floor(Math.random() * bakedLines.length)];
+                await this.presentLine(entityId, npcState, bakedLine, signal, startedAt);
+                return bakedLine;
+            }
 
-            // 2. Construct a prompt for the LLM
-            const prompt = `
-                You are ${npcState.name}, a character in a fantasy RPG.
-                Your personality is: ${npcState.personality || 'a mysterious stranger'}.
-                You are talking to a player named ${playerState.name}.
-                The player's level is ${playerState.level}.
-                Current situation: You are at ${gameState.location}, and it is ${gameState.timeOfDay}.
-                
-                Based on this, generate a single, short, engaging line of dialogue for the player. Be creative.`;
-
-            // 3. Generate text with LLM
-            const dialogueText = await this.llmService.generateText(prompt);
+            // 2. Construct a prompt for the LLM, in the dialogue's language
+            const prompt = [
+                this.promptBuilder.build(options.interaction || 'greeting', {
+                    npc: npcState,
+                    player: { ...playerState, ...playerContextOverrides },
+                    game: gameState,
+                    memories: await this.recallMemories(entityId, `${gameState.location} ${gameState.timeOfDay}`),
+                    event: options.event,
+                }),
+                this.languageInstructionFor(signal),
+            ].filter(Boolean).join('\n\n');
+
+            if (this.structuredOutput) {
+                const { schema, maxRetries } = this.structuredOutput;
+                const response = await this.moderate(entityId, npcState, prompt, (rejection) => generateNpcResponse(
+                    (correction) => this.requestLLM(entityId, prompt, (llm, requestOptions) => llm.generateText(
+                        [prompt, rejection, structuredResponseInstruction(schema), correction].filter(Boolean).join('\n\n'),
+                        { ...this.llmOptions, responseSchema: schema, ...requestOptions },
+                    ), signal),
+                    schema,
+                    maxRetries,
+                ), (result) => result.line, signal);
+                if (!response) {
+                    throw new Error('Failed to generate dialogue text.');
+                }
+                const translation = await this.translate(entityId, response.line, signal);
+                this.events.emit(AIPluginEvent.DialogueStart, { entityId, text: response.line, ...(translation && { translation }) });
+                await this.presentResponse(entityId, npcState, response, signal, translation);
+                this.events.emit(AIPluginEvent.DialogueEnd, { entityId, text: response.line, durationMs: Date.now() - startedAt });
+                return response.line;
+            }
+
+            if (this.streaming) {
+                const streamedText = await this.streamDialogue(entityId, npcState, prompt, signal);
+                this.events.emit(AIPluginEvent.DialogueEnd, { entityId, text: streamedText, durationMs: Date.now() - startedAt });
+                return streamedText;
+            }
+
+            // 3. Generate text with LLM, letting the NPC call its tools
+            const tools = this.toolsFor(npcState);
+            const dialogueText = await this.moderate(entityId, npcState, prompt, (rejection) => {
+                const request = rejection ? `${prompt}\n\n${rejection}` : prompt;
+                return tools.length > 0
+                    ? this.generateWithTools(entityId, [{ role: 'user', text: request }], tools, { ...this.llmOptions, signal })
+                    : this.requestLLM(
+                        entityId,
+                        request,
+                        (llm, requestOptions) => llm.generateText(request, { ...this.llmOptions, ...requestOptions }),
+                        signal,
+                        { key: request },
+                    );
+            }, (text) => text, signal);
             if (!dialogueText) {
                 throw new Error('Failed to generate dialogue text.');
             }
 
-            // 4. Show dialogue in UI immediately
-            this.adapter.showDialogue(dialogueText, { entityId });
+            // 4-5. Show and voice it
+            await this.presentLine(entityId, npcState, dialogueText, signal, startedAt);
+            return dialogueText;
+        } catch (error) {
+            if (signal.aborted) {
+                console.log(`Dialogue for entity ${entityId} was cancelled.`);
+                return null;
+            }
+            if (error instanceof RequestDroppedError) {
+                console.warn(`[AIManager] Dialogue for ${entityId} was dropped: ${error.message}`);
+                return null;
+            }
+            console.error(`[AIManager] Error generating dialogue for ${entityId}:`, error);
+            await this.showFallback(entityId, error, npcState, signal);
+            return null;
+        }
+    }
+
+    /**
+     * Shows and voices a line that is already known, e.g. a bark said before.
+     * @returns The line, or null if it was cancelled or could not be shown.
+     */
+    private async deliverLine(entityId: string, npcState: { [key: string]: any }, text: string, signal: AbortSignal): Promise<string | null> {
+        try {
+            await this.presentLine(entityId, npcState, text, signal, Date.now());
+            return text;
+        } catch (error) {
+            if (signal.aborted) {
+                console.log(`Dialogue for entity ${entityId} was cancelled.`);
+                return null;
+            }
+            console.error(`[AIManager] Error delivering a line for ${entityId}:`, error);
+            this.emitError('dialogue', error instanceof Error ? error.message : String(error), error, entityId);
+            return null;
+        }
+    }
+
+    /**
+     * Steps 4 and 5 of a line: shows it in the UI immediately, with its translation if subtitles are in
+     * another language, then generates its audio with TTS and plays it via the game adapter.
+     * @param startedAt When the line was requested, for the duration reported on DialogueEnd.
+     */
+    private async presentLine(entityId: string, npcState: { [key: string]: any }, text: string, signal: AbortSignal, startedAt: number): Promise<void> {
+        const translation = await this.translate(entityId, text, signal);
+        throwIfAborted(signal, 'dialogue');
+        const display: DialogueDisplayOptions = { entityId, ...(translation && { translation }) };
+        this.events.emit(AIPluginEvent.DialogueStart, { entityId, text, ...(translation && { translation }) });
+        this.adapter.showDialogue(text, display);
+
+        await this.speak(entityId, npcState, text, undefined, signal, display);
+        this.events.emit(AIPluginEvent.DialogueEnd, { entityId, text, durationMs: Date.now() - startedAt });
+    }
+
+    private async deliverScene(cast: string[], situation: string, options: SceneOptions, signal: AbortSignal): Promise<SceneLine[]> {
+        console.log(`Generating a scene for entities: ${cast.join(', ')}`);
+        const [firstId] = cast;
+        const delivered: SceneLine[] = [];
+        try {
+            const npcStates: Record<string, { [key: string]: any }> = {};
+            for (const entityId of cast) {
+                npcStates[entityId] = await this.adapter.getEntityState(entityId);
+            }
+            const playerState = await this.adapter.getPlayerState();
+            const gameState = await this.adapter.getGameState();
+            this.setPlayer(signal, playerState);
+
+            // Write the whole scene at once, so the lines answer each other
+            const schema = sceneSchema(cast, options.maxLines ?? 8);
+            const prompt = [
+                this.promptBuilder.build('scene', {
+                    npc: {},
+                    player: playerState,
+                    game: gameState,
+                    cast: describeCast(cast.map((entityId) => ({ entityId, state: npcStates[entityId] }))),
+                    situation,
+                }),
+                this.languageInstructionFor(signal),
+            ].filter(Boolean).join('\n\n');
+            const lines = await this.moderate(firstId, npcStates[firstId], prompt, (rejection) => generateScene(
+                (correction) => this.requestLLM(firstId, prompt, (llm, requestOptions) => llm.generateText(
+                    [prompt, rejection, structuredResponseInstruction(schema), correction].filter(Boolean).join('\n\n'),
+                    { ...this.llmOptions, responseSchema: schema, ...requestOptions },
+                ), signal),
+                schema,
+                this.structuredOutput?.maxRetries ?? 2,
+            ), (scene) => scene.map(({ entityId, line }) => ({ entityId, npcState: npcStates[entityId], text: line })), signal);
+            if (!lines?.length) {
+                throw new Error('Failed to generate the scene.');
+            }
+
+            // Deliver the lines in turn, synthesizing each while the one before it plays
+            const synthesizeLine = ({ entityId, line, emotion }: SceneLine) => {
+                const speech = this.synthesizeLine(entityId, npcStates[entityId], line, emotion, signal);
+                speech.catch(() => undefined);
+                return speech;
+            };
+            let nextSpeech = synthesizeLine(lines[0]);
+            for (let i = 0; i < lines.length; i++) {
+                const { entityId, line, emotion } = lines[i];
+                const speech = await nextSpeech;
+                if (i + 1 < lines.length) {
+                    nextSpeech = synthesizeLine(lines[i + 1]);
+                }
+                const translation = await this.translate(entityId, line, signal);
+                throwIfAborted(signal, 'dialogue');
+
+                const startedAt = Date.now();
+                const display: DialogueDisplayOptions = { entityId, ...(emotion && { emotion }), ...(translation && { translation }) };
+                this.events.emit(AIPluginEvent.DialogueStart, { entityId, text: line, ...(translation && { translation }) });
+                this.adapter.showDialogue(line, display);
+                const duration = speech ? speechDurationMs(speech) : undefined;
+                if (duration !== undefined) {
+                    this.adapter.showDialogue(line, { ...display, duration });
+                }
+                if (speech) {
+                    await this.playSpeech(entityId, line, speech, signal);
+                } else {
+                    // Without audio, the line stays up long enough to be read
+                    await sleep(readingTimeMs(line), signal, 'dialogue');
+                }
+                this.adapter.hideDialogue(entityId);
+                this.events.emit(AIPluginEvent.DialogueEnd, { entityId, text: line, durationMs: Date.now() - startedAt });
+                delivered.push(lines[i]);
+
+                if (i + 1 < lines.length) {
+                    await sleep(options.pauseMs ?? 300, signal, 'dialogue');
+                }
+            }
+        } catch (error) {
+            if (signal.aborted) {
+                console.log(`Scene of ${cast.join(', ')} was cancelled.`);
+                return delivered;
+            }
+            if (error instanceof RequestDroppedError) {
+                console.warn(`[AIManager] Scene of ${cast.join(', ')} was dropped: ${error.message}`);
+                return delivered;
+            }
+            console.error(`[AIManager] Error playing the scene of ${cast.join(', ')}:`, error);
+            this.emitError('dialogue', error instanceof Error ? error.message : String(error), error, firstId);
+        }
+        return delivered;
+    }
+
+    /**
+     * Synthesizes lines ahead of time so they play from the audio cache later, e.g. common
+     * barks and greetings at level load. Lines that are already cached are skipped.
+     * @returns How many lines are now cached and how many could not be synthesized.
+     */
+    public async prewarmAudio(lines: PrewarmLine[]): Promise<{ cached: number; failed: number }> {
+        if (!this.audioCacheStore) {
+            throw new Error("The audio cache is disabled; enable it with the audioCache option.");
+        }
+
+        let cached = 0;
+        let failed = 0;
+        for (const line of lines) {
+            const { text, entityId, locale = this.locale } = typeof line === 'string' ? { text: line, entityId: undefined } : line;
+            try {
+                const npcState = entityId ? await this.adapter.getEntityState(entityId) : {};
+                const speechOptions = this.speechOptionsFor(npcState, locale);
+                const provider = this.resolveTTSProvider(npcState);
+                if (!(provider instanceof CachedTTSProvider)) {
+                    console.warn(`[AIManager] Not pre-warming "${text}": its TTS provider is not cached.`);
+                    failed++;
+                    continue;
+                }
+                const prewarmed = await this.requestScheduler.run(
+                    this.ttsLane(provider),
+                    () => provider.prewarm(text, { ...speechOptions, onUsage: this.ttsUsageRecorder() }),
+                    { priority: 'low' },
+                );
+                if (prewarmed) {
+                    cached++;
+                } else {
+                    failed++;
+                }
+            } catch (error) {
+                console.error(`[AIManager] Error pre-warming audio for "${text}":`, error);
+                failed++;
+            }
+        }
+        console.log(`Pre-warmed audio cache: ${cached} cached, ${failed} failed.`);
+        return { cached, failed };
+    }
+
+    /**
+     * Starts a multi-turn conversation between the player and an NPC. The NPC's persona and the
+     * situation are captured once from the adapter; each call to `sendPlayerMessage` then adds
+     * to a rolling history. Returns the already active session if there is one.
+     * A scene the NPC is playing in ends, as the player joins it.
+     */
+    public async startConversation(entityId: string): Promise<ConversationSession> {
+        this.dialogues.interruptScenes(entityId);
+        const existing = this.conversations.get(entityId);
+        if (existing) {
+            return existing;
+        }
+
+        const npcState = await this.adapter.getEntityState(entityId);
+        const playerState = await this.adapter.getPlayerState();
+        const gameState = await this.adapter.getGameState();
+
+        const systemPrompt = this.promptBuilder.build('conversation', {
+            npc: npcState,
+            player: playerState,
+            game: gameState,
+            memories: await this.recallMemories(entityId, `${gameState.location} ${gameState.timeOfDay}`),
+        });
+
+        const session = new ConversationSession(entityId, systemPrompt, this, this.scheduledLLM(entityId), this.conversationOptions);
+        this.conversations.set(entityId, session);
+        console.log(`Started conversation with entity: ${entityId}`);
+        this.events.emit(AIPluginEvent.DialogueStart, { entityId, text: '' });
+        return session;
+    }
+
+    /**
+     * Sends the player's line to an NPC in an active conversation. The reply is shown and voiced
+     * through the adapter like any other dialogue, subject to the `interruptPolicy`. A scene the NPC
+     * is playing in ends first.
+     * @param options An AbortSignal and the interrupt policy for this reply.
+     * @returns A handle that resolves to the NPC's reply, or to null if none could be generated
+     * (a fallback line is shown instead) or the reply was cancelled or dropped. It rejects if
+     * there is no conversation with the NPC.
+     */
+    public sendPlayerMessage(entityId: string, text: string, options: DialogueControlOptions = {}): DialogueHandle<string | null> {
+        this.dialogues.interruptScenes(entityId);
+        return this.dialogues.run(entityId, (signal) => {
+            this.dialogueContexts.set(signal, this.dialogueContext(options.priority || 'high', options));
+            return this.deliverReply(entityId, text, signal);
+        }, null, options);
+    }
+
+    /**
+     * Answers the player speaking to an NPC through the microphone. The recording is transcribed,
+     * the transcript shown with `adapter.showTranscript` and then answered like `sendPlayerMessage`,
+     * starting a conversation with the NPC if there is none.
+     * @param audioData The recording, as captured by the game.
+     * @param options The recording's format and language, an AbortSignal and the interrupt policy.
+     * @returns A handle that resolves to the NPC's reply, or to null if the recording could not be
+     * understood, no reply could be generated, or the reply was cancelled or dropped. It rejects if
+     * there is no speech recognition provider.
+     */
+    public sendPlayerSpeech(entityId: string, audioData: ArrayBuffer, options: PlayerSpeechOptions = {}): DialogueHandle<string | null> {
+        this.dialogues.interruptScenes(entityId);
+        return this.dialogues.run(entityId, async (signal) => {
+            this.dialogueContexts.set(signal, this.dialogueContext(options.priority || 'high', options));
+            const transcript = await this.transcribe(entityId, audioData, options, signal);
+            if (!transcript) {
+                return null;
+            }
+            if (!this.conversations.has(entityId)) {
+                await this.startConversation(entityId);
+            }
+            return this.deliverReply(entityId, transcript, signal);
+        }, null, options);
+    }
+
+    /**
+     * Transcribes a recording of the player and reports the transcript.
+     * @returns The transcript, or null if it is empty, failed or was cancelled.
+     * @throws If there is no speech recognition provider.
+     */
+    private async transcribe(entityId: string, audioData: ArrayBuffer, options: PlayerSpeechOptions, signal: AbortSignal): Promise<string | null> {
+        const sttService = this.sttService;
+        if (!sttService) {
+            throw new Error('Speech input needs an sttProvider or elevenLabsApiKey.');
+        }
+
+        const locale = this.localeOf(signal);
+        // The player is expected to speak the NPC's language unless the game says otherwise.
+        const languageCode = options.languageCode ?? (locale && languageOf(locale));
+        const startedAt = Date.now();
+        try {
+            const result = await this.requestScheduler.run(
+                'stt',
+                (requestSignal) => abortable(
+                    sttService.transcribe(audioData, { mimeType: options.mimeType, languageCode, signal: requestSignal }),
+                    requestSignal,
+                    'stt',
+                ),
+                { priority: this.priorityOf(signal), signal },
+            );
+            const text = result?.text.trim();
+            if (!result) {
+                this.emitError('stt', 'Could not transcribe the recording.', undefined, entityId);
+                return null;
+            }
+            if (!text) {
+                console.warn(`[AIManager] The player's recording for ${entityId} held no speech.`);
+                return null;
+            }
+
+            const durationMs = Date.now() - startedAt;
+            this.usageMetrics.recordLatency('stt', durationMs);
+            this.events.emit(AIPluginEvent.PlayerTranscript, {
+                entityId,
+                text,
+                ...(result.languageCode && { languageCode: result.languageCode }),
+                durationMs,
+            });
+            this.adapter.showTranscript?.(text, { entityId });
+            return text;
+        } catch (error) {
+            if (signal.aborted) {
+                console.log(`Transcription for entity ${entityId} was cancelled.`);
+                return null;
+            }
+            console.error(`[AIManager] Error transcribing the player's recording for ${entityId}:`, error);
+            this.emitError('stt', 'Could not transcribe the recording.', error, entityId);
+            return null;
+        }
+    }
+
+    private async deliverReply(entityId: string, text: string, signal: AbortSignal): Promise<string | null> {
+        const session = this.conversations.get(entityId);
+        if (!session) {
+            throw new Error(`No active conversation with ${entityId}.`);
+        }
+
+        const startedAt = Date.now();
+        let npcState: { [key: string]: any } | undefined;
+        let awaitingReply = false;
+        try {
+            const stateStartedAt = Date.now();
+            npcState = await this.adapter.getEntityState(entityId);
+            this.setPlayer(signal, await this.adapter.getPlayerState());
+            this.usageMetrics.recordLatency('state', Date.now() - stateStartedAt);
+            throwIfAborted(signal, 'dialogue');
+            session.addTurn('user', text);
+            awaitingReply = true;
+            await session.fitToBudget(signal);
+
+            let response: NpcResponse | null = null;
+            let reply: string | null;
+            const systemPrompt = session.buildSystemPrompt();
+            if (this.structuredOutput) {
+                const { schema, maxRetries } = this.structuredOutput;
+                response = await this.moderate(entityId, npcState, systemPrompt, (rejection) => generateNpcResponse(
+                    (correction) => this.generateReply(
+                        session,
+                        { responseSchema: schema, signal },
+                        [rejection, structuredResponseInstruction(schema), correction].filter(Boolean).join('\n\n'),
+                    ),
+                    schema,
+                    maxRetries,
+                ), (result) => result.line, signal);
+                reply = response?.line ?? null;
+            } else {
+                const tools = this.toolsFor(npcState);
+                reply = await this.moderate(entityId, npcState, systemPrompt, (rejection) => this.generateReply(session, { signal }, rejection, tools), (text) => text, signal);
+            }
+            if (!reply) {
+                throw new Error('Failed to generate dialogue text.');
+            }
+            throwIfAborted(signal, 'dialogue');
+            session.addTurn('model', reply);
+            awaitingReply = false;
+
+            const translation = await this.translate(entityId, reply, signal);
+            this.events.emit(AIPluginEvent.DialogueStart, { entityId, text: reply, ...(translation && { translation }) });
+            if (response) {
+                await this.presentResponse(entityId, npcState, response, signal, translation);
+            } else {
+                const display: DialogueDisplayOptions = { entityId, ...(translation && { translation }) };
+                this.adapter.showDialogue(reply, display);
+                await this.speak(entityId, npcState, reply, undefined, signal, display);
+            }
+            this.events.emit(AIPluginEvent.DialogueEnd, { entityId, text: reply, durationMs: Date.now() - startedAt });
+            return reply;
+        } catch (error) {
+            if (awaitingReply) {
+                // Forget the unanswered message so the history keeps alternating between turns.
+                session.removeLastTurn();
+            }
+            if (signal.aborted) {
+                console.log(`Reply of entity ${entityId} was cancelled.`);
+                return null;
+            }
+            if (error instanceof RequestDroppedError) {
+                console.warn(`[AIManager] Reply of ${entityId} was dropped: ${error.message}`);
+                return null;
+            }
+            console.error(`[AIManager] Error in conversation with ${entityId}:`, error);
+            await this.showFallback(entityId, error, npcState, signal);
+            return null;
+        }
+    }
+
+    /**
+     * Ends the conversation with an NPC, interrupts a reply still in progress and hides its dialogue.
+     * Does nothing if there is none.
+     * When memory is enabled, resolves once the facts worth remembering have been extracted and saved.
+     */
+    public async endConversation(entityId: string): Promise<void> {
+        const session = this.conversations.get(entityId);
+        if (!session) {
+            return;
+        }
+
+        this.dialogues.interrupt(entityId);
+        session.close();
+        this.conversations.delete(entityId);
+        this.adapter.hideDialogue(entityId);
+        console.log(`Ended conversation with entity: ${entityId}`);
+        this.events.emit(AIPluginEvent.DialogueEnd, { entityId, text: '' });
+
+        if (this.memoryStore && this.memoryOptions.extractAfterConversation !== false && session.turns.length > 0) {
+            await this.rememberConversation(session, this.memoryStore);
+        }
+    }
+
+    /**
+     * Returns the active conversation with an NPC, if any.
+     */
+    public getConversation(entityId: string): ConversationSession | undefined {
+        return this.conversations.get(entityId);
+    }
+
+    /**
+     * Extracts what the NPC should remember from a finished conversation and saves it.
+     * Failures are logged; losing a memory must never break the game.
+     */
+    private async rememberConversation(session: ConversationSession, store: MemoryStore): Promise<void> {
+        try {
+            const npcState = await this.adapter.getEntityState(session.entityId);
+            // Extraction can wait for dialogue that is still going on.
+            const extractor = new MemoryExtractor(this.scheduledLLM(session.entityId, 'low'));
+            const memories = await extractor.extract(npcState.name, session.buildTranscript());
+            await store.addMemories(session.entityId, memories);
+            console.log(`Saved ${memories.length} memories for entity: ${session.entityId}`);
+        } catch (error) {
+            console.error(`[AIManager] Error saving memories for ${session.entityId}:`, error);
+            this.emitError('memory', 'Could not save memories.', error, session.entityId);
+        }
+    }
+
+    /**
+     * Formats the NPC's most relevant memories as a prompt section, or returns an empty string
+     * if memory is disabled or the NPC remembers nothing.
+     */
+    private async recallMemories(entityId: string, context: string): Promise<string> {
+        if (!this.memoryStore) {
+            return '';
+        }
+        try {
+            const memories = await this.memoryStore.getMemories(entityId);
+            const relevant = selectRelevantMemories(memories, context, this.memoryOptions.maxMemoriesInPrompt ?? 5);
+            if (relevant.length === 0) {
+                return '';
+            }
+            return `Things you remember about the player:\n${relevant.map((memory) => `- ${memory.text}`).join('\n')}`;
+        } catch (error) {
+            console.error(`[AIManager] Error loading memories for ${entityId}:`, error);
+            this.emitError('memory', 'Could not load memories.', error, entityId);
+            return '';
+        }
+    }
+
+    /**
+     * Asks the LLM for the NPC's next turn, letting it call `tools` if any are given.
+     * Providers without multi-turn support get the history flattened into a single prompt.
+     */
+    private async generateReply(
+        session: ConversationSession,
+        extraOptions: LLMGenerationOptions = {},
+        extraInstructions?: string,
+        tools: ToolDefinition[] = [],
+    ): Promise<string | null> {
+        const systemPrompt = [
+            this.llmOptions.systemPrompt,
+            session.buildSystemPrompt(),
+            this.languageInstructionFor(extraOptions.signal),
+            extraInstructions,
+        ].filter(Boolean).join('\n\n');
+
+        if (tools.length > 0) {
+            return this.generateWithTools(session.entityId, [...session.turns], tools, { ...this.llmOptions, ...extraOptions, systemPrompt });
+        }
+
+        const latestMessage = session.turns[session.turns.length - 1]?.text || '';
+        return this.requestLLM(session.entityId, latestMessage, (llm, requestOptions) => {
+            if (llm.generateChat) {
+                return llm.generateChat([...session.turns], { ...this.llmOptions, ...extraOptions, systemPrompt, ...requestOptions });
+            }
+            const transcript = session.turns
+                .map((message) => `${message.role === 'user' ? 'Player' : 'You'}: ${message.text}`)
+                .join('\n');
+            return llm.generateText(`${systemPrompt}\n\n${transcript}\nYou:`, { ...this.llmOptions, ...extraOptions, ...requestOptions });
+        }, extraOptions.signal);
+    }
+
+    /**
+     * The tools an NPC may call, or none if the LLM provider or the adapter cannot handle function calls.
+     */
+    private toolsFor(npcState: { [key: string]: any }): ToolDefinition[] {
+        const tools = this.toolRegistry.allowedFor(npcState);
+        if (tools.length === 0) {
+            return [];
+        }
+        if (!this.llmService.generateTurn || !this.adapter.executeTool) {
+            console.warn(`[AIManager] ${this.llmService.generateTurn ? 'The adapter does not implement executeTool' : 'The LLM provider does not support function calling'}; tools are disabled.`);
+            return [];
+        }
+        return tools;
+    }
+
+    /**
+     * Generates the NPC's text while letting it call tools, which are dispatched to the adapter.
+     */
+    private generateWithTools(
+        entityId: string,
+        messages: LLMMessage[],
+        tools: ToolDefinition[],
+        options: LLMGenerationOptions,
+    ): Promise<string | null> {
+        return runToolLoop(
+            messages,
+            tools,
+            (exchange) => this.requestLLM(
+                entityId,
+                exchange[exchange.length - 1].text,
+                (llm, requestOptions) => llm.generateTurn!(exchange, { ...options, tools, ...requestOptions }),
+                options.signal,
+                { filter: (llm) => !!llm.generateTurn },
+            ),
+            (call) => {
+                throwIfAborted(options.signal, 'dialogue');
+                console.log(`Entity ${entityId} called tool "${call.name}".`);
+                return this.adapter.executeTool!({ name: call.name, args: call.args }, { entityId });
+            },
+            this.maxToolRounds,
+        );
+    }
+
+    /**
+     * Hands a structured response to the game: the line with its emotion and animation, the
+     * player's choices and the NPC's actions, then voices the line in the matching emotion.
+     */
+    private async presentResponse(
+        entityId: string,
+        npcState: { [key: string]: any },
+        response: NpcResponse,
+        signal?: AbortSignal,
+        translation?: string,
+    ): Promise<void> {
+        const display: DialogueDisplayOptions = {
+            entityId,
+            ...(response.emotion && { emotion: response.emotion }),
+            ...(response.animation && { animation: response.animation }),
+            ...(translation && { translation }),
+        };
+        this.adapter.showDialogue(response.line, display);
+
+        if (response.playerChoices?.length && this.adapter.showChoices) {
+            this.adapter.showChoices(response.playerChoices, { entityId });
+        }
+
+        for (const action of response.actions || []) {
+            throwIfAborted(signal, 'dialogue');
+            if (!this.adapter.performAction) {
+                console.warn(`[AIManager] Adapter cannot perform action "${action.type}" for ${entityId}.`);
+                break;
+            }
+            try {
+                await this.adapter.performAction(action, { entityId });
+            } catch (error) {
+                console.error(`[AIManager] Error performing action "${action.type}" for ${entityId}:`, error);
+            }
+        }
+
+        await this.speak(entityId, npcState, response.line, response.emotion, signal, display);
+    }
+
+    /**
+     * Synthesizes a line with the NPC's TTS provider and voice (adjusted for the emotion, if any),
+     * and plays it via the adapter.
+     * Audio is non-critical: when no provider can voice the line, the dialogue stays visible without it.
+     * @param display How the line is shown; it is shown again with the audio's `duration` once that is known.
+     */
+    private async speak(
+        entityId: string,
+        npcState: { [key: string]: any },
+        text: string,
+        emotion?: string,
+        signal?: AbortSignal,
+        display?: DialogueDisplayOptions,
+    ): Promise<void> {
+        const speech = await this.synthesizeLine(entityId, npcState, text, emotion, signal);
+        if (!speech) {
+            // Non-critical error, dialogue is already visible
+            return;
+        }
+
+        const duration = speechDurationMs(speech);
+        if (display && duration !== undefined && !signal?.aborted) {
+            this.adapter.showDialogue(text, { ...display, duration });
+        }
+        await this.playSpeech(entityId, text, speech, signal);
+    }
+
+    /**
+     * Synthesizes a line with the NPC's TTS provider and voice, adjusted for the emotion, if any.
+     * @returns The audio, or null if the line has to stay text-only.
+     */
+    private synthesizeLine(
+        entityId: string,
+        npcState: { [key: string]: any },
+        text: string,
+        emotion?: string,
+        signal?: AbortSignal,
+    ): Promise<TTSResult | null> {
+        const speechOptions = this.speechOptionsFor(npcState, this.localeOf(signal));
+        const emotionSettings = emotion && (this.structuredOutput?.emotionVoiceSettings || EMOTION_VOICE_SETTINGS)[emotion.toLowerCase()];
+        if (emotionSettings && Object.keys(emotionSettings).length > 0) {
+            speechOptions.voiceSettings = { ...speechOptions.voiceSettings, ...emotionSettings };
+        }
+        return this.synthesize(entityId, text, this.resolveTTSProvider(npcState), speechOptions, signal);
+    }
+
+    /**
+     * Streaming counterpart of steps 3-5 of generateNpcDialogue. Text reaches the adapter as it
+     * arrives; completed sentences are voiced in order while the LLM keeps generating.
+     * A translation for subtitles is shown with the whole line once the stream has ended.
+     * With moderation enabled, text is shown a sentence at a time once the sentence has passed. As
+     * shown text cannot be taken back, a rejected sentence ends the line; if it is the first one, a
+     * canned line is used instead.
+     */
+    private async streamDialogue(entityId: string, npcState: { [key: string]: any }, prompt: string, signal: AbortSignal): Promise<string> {
+        const ttsProvider = this.resolveTTSProvider(npcState);
+        const speechOptions = this.speechOptionsFor(npcState, this.localeOf(signal));
+        const splitter = new SentenceSplitter();
+        let dialogueText = '';
+        let speechQueue: Promise<void> = Promise.resolve();
+
+        const speak = (sentence: string) => {
+            speechQueue = this.queueSentence(speechQueue, entityId, sentence, ttsProvider, speechOptions, signal);
+        };
+        const show = (text: string) => {
+            if (!dialogueText) {
+                this.events.emit(AIPluginEvent.DialogueStart, { entityId, text });
+                this.adapter.showDialogue(text, { entityId });
+            } else if (this.adapter.appendDialogue) {
+                this.adapter.appendDialogue(text, { entityId });
+            } else {
+                this.adapter.showDialogue(dialogueText + text, { entityId });
+            }
+            dialogueText += text;
+        };
+        const passes = async (sentence: string): Promise<boolean> => {
+            const verdict = await this.moderator!.check(sentence, { entityId, npcState, prompt });
+            throwIfAborted(signal, 'dialogue');
+            if (!verdict) {
+                return true;
+            }
+            this.rejectLine(entityId, sentence, verdict, false);
+            if (!dialogueText) {
+                throw new ContentRejectedError(verdict.filter, verdict.reason);
+            }
+            return false;
+        };
+
+        let rejected = false;
+        for await (const chunk of this.streamText(entityId, prompt, signal)) {
+            throwIfAborted(signal, 'dialogue');
+            if (!this.moderator) {
+                show(chunk);
+                splitter.push(chunk).forEach(speak);
+                continue;
+            }
+            for (const sentence of splitter.push(chunk)) {
+                rejected = !(await passes(sentence));
+                if (rejected) {
+                    break;
+                }
+                show(dialogueText ? ` ${sentence}` : sentence);
+                speak(sentence);
+            }
+            if (rejected) {
+                break;
+            }
+        }
+
+        const rest = rejected ? null : splitter.flush();
+        if (rest && (!this.moderator || await passes(rest))) {
+            if (this.moderator) {
+                show(dialogueText ? ` ${rest}` : rest);
+            }
+            speak(rest);
+        }
+        if (!dialogueText.trim()) {
+            throw new Error('Failed to generate dialogue text.');
+        }
+
+        // The translation needs the whole line, so it is added once the stream is done.
+        const translation = await this.translate(entityId, dialogueText, signal);
+        if (translation) {
+            this.adapter.showDialogue(dialogueText, { entityId, translation });
+        }
+
+        await speechQueue;
+        throwIfAborted(signal, 'dialogue');
+        return dialogueText;
+    }
 
-            // 5. Generate audio with TTS in parallel
-            const audioData = await this.ttsService.generateSpeech(dialogueText);
-            if (!audioData) {
-                // Non-critical error, dialogue is already visible
-                console.error('Failed to generate audio.');
+    /**
+     * Streams text from the LLM, falling back to a single chunk for providers without streaming support.
+     * LLMRequestEnd fires once the stream is complete. If the stream fails before producing any text,
+     * the answer is requested from `llmFallbacks` instead.
+     */
+    private async *streamText(entityId: string, prompt: string, signal: AbortSignal): AsyncGenerator<string> {
+        const generate = (llm: LLMProvider, requestOptions: LLMGenerationOptions) => llm.generateText(prompt, { ...this.llmOptions, ...requestOptions });
+        // Over budget, the cheaper LLM answers through requestLLM.
+        if (!this.llmService.generateTextStream || this.budgetExceeded('llm', signal)) {
+            const text = await this.requestLLM(entityId, prompt, generate, signal);
+            if (text) {
+                yield text;
+            }
+            return;
+        }
+
+        const fallbacks = this.llmChain.slice(1);
+        // The stream holds its slot with the provider until it has been read to the end.
+        const release = await this.requestScheduler.acquire('llm', { priority: this.priorityOf(signal), signal });
+        const startedAt = Date.now();
+        let text = '';
+        let streamError: unknown;
+        this.events.emit(AIPluginEvent.LLMRequestStart, { entityId, prompt });
+        try {
+            for await (const chunk of this.llmService.generateTextStream(prompt, { ...this.llmOptions, signal, onUsage: this.llmUsageRecorder(signal) })) {
+                text += chunk;
+                yield chunk;
+            }
+        } catch (error) {
+            // Text already shown cannot be taken back, so only a stream that produced nothing is retried.
+            if (text || fallbacks.length === 0 || signal.aborted) {
+                throw error;
+            }
+            streamError = error;
+        } finally {
+            release();
+            this.events.emit(AIPluginEvent.LLMRequestEnd, { entityId, text: text || null, success: text !== '', durationMs: Date.now() - startedAt });
+            if (text) {
+                this.usageMetrics.recordLatency('llm', Date.now() - startedAt);
+            }
+            if (!text && !signal.aborted) {
+                this.emitError('llm', 'The LLM stream produced no text.', streamError, entityId);
+            }
+        }
+
+        if (!text && fallbacks.length > 0) {
+            console.warn(`[AIManager] Falling back to LLM provider "${fallbacks[0].name}" for ${entityId}.`);
+            this.emitFallback(entityId, 'llm-provider', streamError ?? 'The LLM stream produced no text.', { provider: fallbacks[0].name });
+            const fallbackText = await this.requestLLM(entityId, prompt, generate, signal, { chain: fallbacks });
+            if (fallbackText) {
+                yield fallbackText;
+            }
+        }
+    }
+
+    /**
+     * Voices one sentence after everything already in `queue` has been voiced.
+     * With `enqueueAudioChunk`, audio is streamed to the adapter chunk by chunk. Otherwise the
+     * sentence is synthesized right away and played with `playAudio` once its turn comes, so
+     * synthesis of later sentences overlaps playback of earlier ones.
+     */
+    private queueSentence(
+        queue: Promise<void>,
+        entityId: string,
+        sentence: string,
+        ttsProvider: TTSProvider,
+        speechOptions: TTSSpeechOptions,
+        signal: AbortSignal,
+    ): Promise<void> {
+        const enqueueAudioChunk = this.adapter.enqueueAudioChunk?.bind(this.adapter);
+
+        if (enqueueAudioChunk && ttsProvider.generateSpeechStream && !this.budgetExceeded('tts', signal)) {
+            const stream = ttsProvider.generateSpeechStream.bind(ttsProvider);
+            return queue.then(async () => {
+                if (signal.aborted) {
+                    return;
+                }
+                let release: (() => void) | undefined;
+                const startedAt = Date.now();
+                let success = true;
+                this.events.emit(AIPluginEvent.TTSRequestStart, { entityId, text: sentence, voiceId: speechOptions.voiceId });
+                try {
+                    release = await this.requestScheduler.acquire(this.ttsLane(ttsProvider), { priority: this.priorityOf(signal), signal });
+                    for await (const chunk of stream(sentence, { ...speechOptions, signal, onUsage: this.ttsUsageRecorder(signal) })) {
+                        throwIfAborted(signal, 'tts');
+                        enqueueAudioChunk(chunk.audioData, { entityId, mimeType: chunk.mimeType });
+                    }
+                } catch (error) {
+                    success = false;
+                    if (signal.aborted) {
+                        return;
+                    }
+                    console.error(`[AIManager] Error streaming audio for ${entityId}:`, error);
+                    this.emitError('tts', 'Could not stream audio.', error, entityId);
+                } finally {
+                    release?.();
+                }
+                this.events.emit(AIPluginEvent.TTSRequestEnd, { entityId, text: sentence, success, durationMs: Date.now() - startedAt });
+                if (success) {
+                    this.usageMetrics.recordLatency('tts', Date.now() - startedAt);
+                }
+            });
+        }
+
+        // Only a cancellation makes synthesize throw; the queue then skips the sentence.
+        const pendingSpeech = this.synthesize(entityId, sentence, ttsProvider, speechOptions, signal).catch(() => null);
+        return queue.then(async () => {
+            const speech = await pendingSpeech;
+            if (!speech || signal.aborted) {
+                // Non-critical error, the text is already visible
                 return;
             }
+            try {
+                if (enqueueAudioChunk) {
+                    enqueueAudioChunk(speech.audioData, { entityId, mimeType: speech.mimeType });
+                } else {
+                    await this.playSpeech(entityId, sentence, speech, signal);
+                }
+            } catch (error) {
+                if (signal.aborted) {
+                    return;
+                }
+                console.error(`[AIManager] Error playing audio for ${entityId}:`, error);
+                this.emitError('audio', 'Could not play audio.', error, entityId);
+            }
+        });
+    }
 
-            // 6. Play audio via game adapter
-            await this.adapter.playAudio(audioData, { entityId });
+    /**
+     * Synthesizes a line with the given provider, then with each of `ttsFallbacks` until one produces
+     * audio. Fallback providers keep the voice settings, language and timings but speak with their own default voice.
+     * Once the TTS budget is used up, only the budget's `cheaperTTS` is tried. Pre-baked audio of the
+     * line in the same voice is played without asking any provider.
+     * @returns The audio after `audioProcessing`, or null if the line has to stay text-only.
+     * @throws CancelledError if `signal` fires.
+     */
+    private async synthesize(
+        entityId: string,
+        text: string,
+        ttsProvider: TTSProvider,
+        speechOptions: TTSSpeechOptions,
+        signal?: AbortSignal,
+    ): Promise<TTSResult | null> {
+        const baked = await this.assetLibrary?.speechFor(text, speechOptions);
+        if (baked) {
+            throwIfAborted(signal, 'tts');
+            return processSpeech(baked, this.audioProcessing);
+        }
+        let chain = [{ name: 'default', provider: ttsProvider }, ...this.ttsFallbacks.filter(({ provider }) => provider !== ttsProvider)];
+        const budgetExceeded = this.budgetExceeded('tts', signal);
+        if (budgetExceeded) {
+            chain = this.budgetTTS ? [this.budgetTTS] : [];
+            this.emitFallback(entityId, this.budgetTTS ? 'tts-provider' : 'text-only', budgetExceeded, { text, ...(this.budgetTTS && { provider: this.budgetTTS.name }) });
+        }
+        const onUsage = this.ttsUsageRecorder(signal);
+        for (let i = 0; i < chain.length; i++) {
+            const options: TTSSpeechOptions = i === 0 && !budgetExceeded
+                ? speechOptions
+                : {
+                    ...(speechOptions.voiceSettings && { voiceSettings: speechOptions.voiceSettings }),
+                    ...(speechOptions.languageCode && { languageCode: speechOptions.languageCode }),
+                    ...(speechOptions.withTimings && { withTimings: true }),
+                };
+            let failure: unknown;
+            try {
+                const speech = await this.requestScheduler.run(
+                    this.ttsLane(chain[i].provider),
+                    (requestSignal) => this.trackTTSRequest(entityId, text, options, () => abortable(
+                        chain[i].provider.generateSpeech(text, { ...options, signal: requestSignal, onUsage }),
+                        requestSignal,
+                        'tts',
+                    )),
+                    { priority: this.priorityOf(signal), key: JSON.stringify([text, options]), signal },
+                );
+                if (speech) {
+                    return processSpeech(speech, this.audioProcessing);
+                }
+                failure = 'The TTS provider returned no audio.';
+            } catch (error) {
+                if (error instanceof CancelledError) {
+                    throw error;
+                }
+                console.error(`[AIManager] Error generating audio for ${entityId}:`, error);
+                failure = error;
+            }
+
+            const next = chain[i + 1];
+            if (next) {
+                console.warn(`[AIManager] Falling back to TTS provider "${next.name}" for ${entityId}.`);
+            }
+            this.emitFallback(entityId, next ? 'tts-provider' : 'text-only', failure, { text, ...(next && { provider: next.name }) });
+        }
+        return null;
+    }
+
+    /**
+     * Plays synthesized speech through the adapter, firing AudioStart/End around it and handing its
+     * timings to `adapter.animateSpeech` as it starts.
+     * When `signal` fires, stops waiting for playback (the interrupt itself calls `stopAudio`).
+     */
+    private async playSpeech(entityId: string, text: string, speech: TTSResult, signal?: AbortSignal): Promise<void> {
+        throwIfAborted(signal, 'audio');
+        const startedAt = Date.now();
+        const timings = this.adapter.animateSpeech && speechTimings(text, speech);
+        if (timings) {
+            this.adapter.animateSpeech!(timings, { entityId });
+        }
+        this.events.emit(AIPluginEvent.AudioStart, { entityId, text, mimeType: speech.mimeType });
+        await abortable(this.adapter.playAudio(speech.audioData, { entityId, mimeType: speech.mimeType }), signal, 'audio');
+        this.usageMetrics.recordLatency('playback', Date.now() - startedAt);
+        this.events.emit(AIPluginEvent.AudioEnd, { entityId, text, mimeType: speech.mimeType, durationMs: Date.now() - startedAt });
+    }
+
+    /**
+     * Generates a line and, with moderation enabled, checks it before it is shown. Rejected lines are
+     * generated again with a correction, up to `maxRegenerations` times; lines withheld by the
+     * provider's safety filter count as rejected.
+     * @param generate Generates the line, adding `rejection` (why the last line was rejected) to the prompt.
+     * @param lineOf The text of a result that the player would see, or for a scene each of its lines
+     * with the NPC that says it.
+     * @throws ContentRejectedError if the last line is rejected too.
+     */
+    private async moderate<T>(
+        entityId: string,
+        npcState: { [key: string]: any },
+        prompt: string,
+        generate: (rejection?: string) => Promise<T | null>,
+        lineOf: (result: T) => string | ModeratedLine[],
+        signal?: AbortSignal,
+    ): Promise<T | null> {
+        if (!this.moderator) {
+            return generate();
+        }
+        let rejection: string | undefined;
+        for (let i = 0; ; i++) {
+            let result: T | null;
+            let verdict: ModerationVerdict | null = null;
+            let rejected: ModeratedLine | undefined;
+            try {
+                result = await generate(rejection);
+                if (result === null) {
+                    return null;
+                }
+                const line = lineOf(result);
+                for (const candidate of typeof line === 'string' ? [{ entityId, npcState, text: line }] : line) {
+                    verdict = await this.moderator.check(candidate.text, { entityId: candidate.entityId, npcState: candidate.npcState, prompt });
+                    if (verdict) {
+                        rejected = candidate;
+                        break;
+                    }
+                }
+            } catch (error) {
+                if (!(error instanceof ContentBlockedError)) {
+                    throw error;
+                }
+                result = null;
+                verdict = { filter: 'safety', reason: error.message };
+            }
+            if (!verdict) {
+                return result;
+            }
+
+            throwIfAborted(signal, 'dialogue');
+            const regenerating = i < this.moderator.maxRegenerations;
+            this.rejectLine(rejected?.entityId ?? entityId, rejected?.text, verdict, regenerating);
+            if (!regenerating) {
+                throw new ContentRejectedError(verdict.filter, verdict.reason);
+            }
+            rejection = this.moderator.correction(verdict);
+        }
+    }
+
+    private rejectLine(entityId: string, text: string | undefined, verdict: ModerationVerdict, regenerating: boolean): void {
+        console.warn(`[AIManager] Rejected a line of ${entityId} (${verdict.filter}): ${verdict.reason}`);
+        this.events.emit(AIPluginEvent.LineRejected, { entityId, ...(text !== undefined && { text }), ...verdict, regenerating });
+    }
+
+    /**
+     * Runs an LLM request with each provider of the chain in turn until one returns a result.
+     * Every attempt is tracked on its own; switching providers fires Fallback.
+     * Requests go through the scheduler, in the priority of the dialogue `signal` belongs to. Once the
+     * LLM budget is used up, only the budget's `cheaperLLM` is tried.
+     * @param request Sends the request to one provider, adding `requestOptions` (the signal to pass
+     * on and the usage callback) to the generation options.
+     * @param signal Cancels the request; no further provider is tried.
+     * @param options `chain`: the providers to try, by default the main LLM followed by `llmFallbacks`.
+     * `filter`: skips providers that cannot handle the request. `key`: identifies requests that
+     * identical pending requests may share. `priority`: the priority of a request outside any dialogue.
+     * @returns The first result, or null if the last provider returned nothing.
+     * @throws The last provider's error, if it threw, CancelledError if `signal` fired, or
+     * BudgetExceededError if the budget is used up and there is no cheaper LLM.
+     */
+    private async requestLLM<T extends string | LLMTurn>(
+        entityId: string,
+        prompt: string,
+        request: (llm: LLMProvider, requestOptions: LLMGenerationOptions) => Promise<T | null>,
+        signal?: AbortSignal,
+        options: { chain?: NamedProvider<LLMProvider>[]; filter?: (llm: LLMProvider) => boolean; key?: string; priority?: RequestPriority } = {},
+    ): Promise<T | null> {
+        const budgetExceeded = this.budgetExceeded('llm', signal);
+        let chain = budgetExceeded ? (this.budgetLLM ? [this.budgetLLM] : []) : options.chain || this.llmChain;
+        if (options.filter) {
+            chain = chain.filter(({ provider }) => options.filter!(provider));
+        }
+        if (budgetExceeded) {
+            if (chain.length === 0) {
+                throw budgetExceeded;
+            }
+            this.emitFallback(entityId, 'llm-provider', budgetExceeded, { provider: chain[0].name });
+        }
+        const onUsage = this.llmUsageRecorder(signal);
+        for (let i = 0; ; i++) {
+            const isLast = i === chain.length - 1;
+            const { name, provider } = chain[i];
+            let failure: unknown;
+            try {
+                const result = await this.requestScheduler.run(
+                    name === 'default' ? 'llm' : `llm:${name}`,
+                    (requestSignal) => this.trackLLMRequest(entityId, prompt, () => abortable(request(provider, { signal: requestSignal, onUsage }), requestSignal, 'llm')),
+                    { priority: this.priorityOf(signal, options.priority), key: options.key, signal },
+                );
+                if (result !== null || isLast) {
+                    return result;
+                }
+                failure = 'The LLM returned no result.';
+            } catch (error) {
+                if (isLast || error instanceof CancelledError) {
+                    throw error;
+                }
+                failure = error;
+            }
+
+            console.warn(`[AIManager] Falling back to LLM provider "${chain[i + 1].name}" for ${entityId}.`);
+            this.emitFallback(entityId, 'llm-provider', failure, { provider: chain[i + 1].name });
+        }
+    }
+
+    /**
+     * An LLMProvider for the helpers that ask the LLM on an NPC's behalf, such as conversation
+     * summaries and the memory extractor. Its requests go through `requestLLM`, so they are scheduled,
+     * budgeted, billed and fall back like dialogue; the `signal` in their options is the dialogue
+     * they belong to, if any.
+     * @param priority The priority of requests outside any dialogue.
+     */
+    private scheduledLLM(entityId: string, priority: RequestPriority = 'normal'): LLMProvider {
+        return {
+            generateText: (prompt, options = {}) => this.requestLLM(
+                entityId,
+                prompt,
+                (llm, requestOptions) => llm.generateText(prompt, { ...options, ...requestOptions }),
+                options.signal,
+                { priority },
+            ),
+        };
+    }
+
+    /**
+     * Runs an LLM request for an NPC, firing LLMRequestStart/End around it and Error if it fails
+     * for any reason other than a cancellation.
+     */
+    private async trackLLMRequest<T extends string | LLMTurn>(
+        entityId: string,
+        prompt: string,
+        request: () => Promise<T | null>,
+    ): Promise<T | null> {
+        const startedAt = Date.now();
+        this.events.emit(AIPluginEvent.LLMRequestStart, { entityId, prompt });
+        let result: T | null;
+        try {
+            result = await request();
         } catch (error) {
-            console.error(`[AIManager] Error generating dialogue for ${entityId}:`, error);
-            this.adapter.showDialogue("...", { entityId }); // Show fallback text
+            this.events.emit(AIPluginEvent.LLMRequestEnd, { entityId, text: null, success: false, durationMs: Date.now() - startedAt });
+            if (!(error instanceof CancelledError)) {
+                this.emitError('llm', 'The LLM request failed.', error, entityId);
+            }
+            throw error;
+        }
+
+        const text = typeof result === 'string' ? result : (result as LLMTurn | null)?.text ?? null;
+        this.events.emit(AIPluginEvent.LLMRequestEnd, { entityId, text, success: result !== null, durationMs: Date.now() - startedAt });
+        this.usageMetrics.recordLatency('llm', Date.now() - startedAt);
+        if (result === null) {
+            this.emitError('llm', 'The LLM returned no result.', undefined, entityId);
+        }
+        return result;
+    }
+
+    /**
+     * Runs a speech synthesis request for an NPC, firing TTSRequestStart/End around it and Error if it fails
+     * for any reason other than a cancellation.
+     */
+    private async trackTTSRequest(
+        entityId: string,
+        text: string,
+        speechOptions: TTSSpeechOptions,
+        request: () => Promise<TTSResult | null>,
+    ): Promise<TTSResult | null> {
+        const startedAt = Date.now();
+        this.events.emit(AIPluginEvent.TTSRequestStart, { entityId, text, voiceId: speechOptions.voiceId });
+        let result: TTSResult | null;
+        try {
+            result = await request();
+        } catch (error) {
+            this.events.emit(AIPluginEvent.TTSRequestEnd, { entityId, text, success: false, durationMs: Date.now() - startedAt });
+            if (!(error instanceof CancelledError)) {
+                this.emitError('tts', 'The TTS request failed.', error, entityId);
+            }
+            throw error;
+        }
+
+        this.events.emit(AIPluginEvent.TTSRequestEnd, { entityId, text, success: result !== null, durationMs: Date.now() - startedAt });
+        this.usageMetrics.recordLatency('tts', Date.now() - startedAt);
+        if (result === null) {
+            this.emitError('tts', 'The TTS provider returned no audio.', undefined, entityId);
         }
+        return result;
+    }
+
+    /**
+     * The scheduler's name for a TTS provider: `tts` for the default one, `tts:<name>` for named ones.
+     */
+    private ttsLane(provider: TTSProvider): string {
+        const named = Object.entries(this.ttsProviders).find(([, other]) => other === provider)?.[0]
+            ?? this.ttsFallbacks.find((fallback) => fallback.provider === provider)?.name;
+        return provider !== this.ttsService && named ? `tts:${named}` : 'tts';
+    }
+
+    private dialogueContext(priority: RequestPriority, options: DialogueControlOptions): DialogueContext {
+        return {
+            priority,
+            locale: options.locale ?? this.locale,
+            subtitleLocale: options.subtitleLocale ?? this.subtitleLocale,
+        };
+    }
+
+    private localeOf(signal?: AbortSignal): string | undefined {
+        return signal ? this.dialogueContexts.get(signal)?.locale : this.locale;
+    }
+
+    /**
+     * The instruction that makes the NPC speak the dialogue's language, or undefined for English.
+     */
+    private languageInstructionFor(signal?: AbortSignal): string | undefined {
+        const locale = this.localeOf(signal);
+        return locale ? languageInstruction(locale) : undefined;
+    }
+
+    /**
+     * The NPC's voice for a locale, with the locale's language for the TTS provider. Timings are
+     * asked for when the adapter can animate speech.
+     */
+    private speechOptionsFor(npcState: { [key: string]: any }, locale?: string): TTSSpeechOptions {
+        const speechOptions = this.voiceRegistry.resolve(npcState, locale);
+        if (locale) {
+            speechOptions.languageCode = languageOf(locale);
+        }
+        if (this.adapter.animateSpeech) {
+            speechOptions.withTimings = true;
+        }
+        return speechOptions;
+    }
+
+    /**
+     * Translates a line into the dialogue's subtitle language with the LLM.
+     * Subtitles are non-critical: when the translation fails, the line is shown without one.
+     * @returns The translation, or undefined if there is no subtitle language, the line is already
+     * in it or it could not be translated.
+     * @throws CancelledError if `signal` fires.
+     */
+    private async translate(entityId: string, text: string, signal: AbortSignal): Promise<string | undefined> {
+        const { locale, subtitleLocale } = this.dialogueContexts.get(signal) || {};
+        if (!subtitleLocale || isSameLanguage(subtitleLocale, locale || 'en')) {
+            return undefined;
+        }
+        const prompt = translationPrompt(text, subtitleLocale);
+        try {
+            const translation = await this.requestLLM(entityId, prompt, (llm, requestOptions) => llm.generateText(prompt, requestOptions), signal, { key: prompt });
+            return translation?.trim() || undefined;
+        } catch (error) {
+            if (signal.aborted) {
+                throw error;
+            }
+            console.error(`[AIManager] Error translating a line of ${entityId}:`, error);
+            this.emitError('llm', 'Could not translate the line.', error, entityId);
+            return undefined;
+        }
+    }
+
+    private priorityOf(signal?: AbortSignal, otherwise: RequestPriority = 'normal'): RequestPriority {
+        return (signal && this.dialogueContexts.get(signal)?.priority) || otherwise;
+    }
+
+    /**
+     * Bills the rest of a dialogue's requests to the player, identified by the `id` or `name` of its state.
+     */
+    private setPlayer(signal: AbortSignal, playerState: { [key: string]: any }): void {
+        const playerId = playerState?.id ?? playerState?.name;
+        const context = this.dialogueContexts.get(signal);
+        if (context && playerId !== undefined) {
+            context.playerId = String(playerId);
+        }
+    }
+
+    private llmUsageRecorder(signal?: AbortSignal): (usage: LLMUsage) => void {
+        const playerId = signal && this.dialogueContexts.get(signal)?.playerId;
+        return (usage) => this.usageMetrics.recordLLMUsage(usage, playerId);
+    }
+
+    private ttsUsageRecorder(signal?: AbortSignal): (usage: TTSUsage) => void {
+        const playerId = signal && this.dialogueContexts.get(signal)?.playerId;
+        return (usage) => this.usageMetrics.recordTTSUsage(usage, playerId);
+    }
+
+    /**
+     * Returns why LLM or TTS requests of a dialogue may not be sent to the regular providers, or
+     * null while the session and the dialogue's player are within their budgets.
+     */
+    private budgetExceeded(kind: 'llm' | 'tts', signal?: AbortSignal): BudgetExceededError | null {
+        const { session, perPlayer } = this.budgets;
+        const playerId = signal && this.dialogueContexts.get(signal)?.playerId;
+        if (session && this.usageMetrics.exceededLimits(session).includes(kind)) {
+            return new BudgetExceededError(kind, 'session');
+        }
+        if (perPlayer && playerId !== undefined && this.usageMetrics.exceededLimits(perPlayer, playerId).includes(kind)) {
+            return new BudgetExceededError(kind, `player "${playerId}"`);
+        }
+        return null;
+    }
+
+    private emitError(stage: AIPluginErrorStage, message: string, error?: unknown, entityId?: string): void {
+        this.events.emit(AIPluginEvent.Error, { ...(entityId && { entityId }), stage, message, ...(error !== undefined && { error }) });
+    }
+
+    /**
+     * Shows a canned line after dialogue generation failed, or `...` if there is none, and reports why.
+     * Canned lines come from the NPC's `fallbackLines` or the `fallbackLines` option and are voiced.
+     */
+    private async showFallback(entityId: string, error: unknown, npcState?: { [key: string]: any }, signal?: AbortSignal): Promise<void> {
+        const lines: string[] = Array.isArray(npcState?.fallbackLines) && npcState!.fallbackLines.length > 0
+            ? npcState!.fallbackLines
+            : this.fallbackLines;
+        const text = lines.length > 0 ? lines[Math.floor(Math.random() * lines.length)] : '...';
+
+        this.adapter.showDialogue(text, { entityId });
+        this.emitError('dialogue', error instanceof Error ? error.message : String(error), error, entityId);
+        this.emitFallback(entityId, lines.length > 0 ? 'canned-line' : 'placeholder', error, { text });
+
+        if (lines.length > 0) {
+            try {
+                await this.speak(entityId, npcState || {}, text, undefined, signal, { entityId });
+            } catch (error) {
+                if (signal?.aborted) {
+                    return;
+                }
+                console.error(`[AIManager] Error playing the fallback line for ${entityId}:`, error);
+                this.emitError('audio', 'Could not play audio.', error, entityId);
+            }
+        }
+    }
+
+    private emitFallback(entityId: string, kind: FallbackKind, cause: unknown, details: { text?: string; provider?: string }): void {
+        this.events.emit(AIPluginEvent.Fallback, {
+            entityId,
+            kind,
+            ...details,
+            reason: cause instanceof Error ? cause.message : String(cause),
+            ...(cause instanceof AIPluginError && { code: cause.code }),
+        });
     }
 }
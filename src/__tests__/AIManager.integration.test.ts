@@ -0,0 +1,71 @@
+import { AIManager } from '../AIManager';
+import { AIPluginEvent } from '../integrations/GameEvents';
+import { MockElevenLabsServer } from '../core/testing/MockElevenLabsServer';
+import { MockGeminiServer } from '../core/testing/MockGeminiServer';
+import { MockGameAdapter } from './mocks/MockGameAdapter';
+
+// The whole pipeline with the real Gemini and ElevenLabs services, talking to local stand-ins of their APIs.
+describe('AIManager against mock servers', () => {
+    const environment = { ...process.env };
+    let gemini: MockGeminiServer;
+    let elevenLabs: MockElevenLabsServer;
+    let adapter: MockGameAdapter;
+    let aiManager: AIManager;
+    let consoleSpies: jest.SpyInstance[];
+
+    beforeEach(async () => {
+        gemini = new MockGeminiServer({ replies: ['Mind the wolves, Eldrin.'] });
+        elevenLabs = new MockElevenLabsServer({ transcripts: ['Which way to the village?'] });
+        process.env.GEMINI_BASE_URL = await gemini.start();
+        process.env.ELEVENLABS_BASE_URL = await elevenLabs.start();
+        consoleSpies = (['log', 'warn', 'error'] as const).map((method) => jest.spyOn(console, method).mockImplementation(() => {}));
+        adapter = new MockGameAdapter();
+        aiManager = new AIManager(adapter, {
+            geminiApiKey: 'fake-gemini-key',
+            elevenLabsApiKey: 'fake-elevenlabs-key',
+            elevenLabsOutputFormat: 'pcm_16000',
+            requestPolicy: { maxRetries: 0 },
+            fallbackLines: ['Hm.'],
+        });
+    });
+
+    afterEach(async () => {
+        consoleSpies.forEach((spy) => spy.mockRestore());
+        process.env = { ...environment };
+        await gemini.stop();
+        await elevenLabs.stop();
+    });
+
+    it('should generate, show and voice a line', async () => {
+        await aiManager.generateNpcDialogue('npc-1');
+
+        expect(gemini.prompts[0]).toContain('You are Mysterious Old Man');
+        expect(elevenLabs.lines).toEqual(['Mind the wolves, Eldrin.']);
+        expect(adapter.showDialogue).toHaveBeenCalledWith('Mind the wolves, Eldrin.', { entityId: 'npc-1' });
+        // Raw PCM reaches the adapter wrapped in a WAV header.
+        expect(adapter.playAudio).toHaveBeenCalledWith(expect.any(ArrayBuffer), { entityId: 'npc-1', mimeType: 'audio/wav' });
+        expect(aiManager.metrics.snapshot().session.characters).toBe(24);
+    });
+
+    it('should fall back to a canned line when Gemini fails, and to text when ElevenLabs does', async () => {
+        const fallbacks = jest.fn();
+        aiManager.on(AIPluginEvent.Fallback, fallbacks);
+        gemini.failNext({ status: 500 });
+        elevenLabs.failNext({ status: 503 });
+
+        await aiManager.generateNpcDialogue('npc-1');
+
+        expect(adapter.showDialogue).toHaveBeenCalledWith('Hm.', expect.objectContaining({ entityId: 'npc-1' }));
+        expect(adapter.playAudio).not.toHaveBeenCalled();
+        expect(fallbacks.mock.calls.map(([event]) => event.kind)).toEqual(['canned-line', 'text-only']);
+    });
+
+    it('should transcribe what the player said and answer it', async () => {
+        gemini.reply('East, past the old mill.');
+
+        await expect(aiManager.sendPlayerSpeech('npc-1', new ArrayBuffer(32), { mimeType: 'audio/webm' })).resolves.toBe('East, past the old mill.');
+
+        expect(gemini.prompts[0]).toContain('Which way to the village?');
+        expect(elevenLabs.lines).toEqual(['East, past the old mill.']);
+    });
+});
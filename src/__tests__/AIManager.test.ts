@@ -1,7 +1,14 @@
-import { AIManager } from '../AIManager';
+import { AIManager, AIManagerOptions } from '../AIManager';
 import { MockGameAdapter } from './mocks/MockGameAdapter';
 import { GeminiService } from '../core/llm/GeminiService';
 import { ElevenLabsTTSService } from '../core/tts/ElevenLabsTTSService';
+import { AIPluginEvent } from '../integrations/GameEvents';
+import { createMemory, InMemoryMemoryStore } from '../core/memory/MemoryStore';
+import { ContentBlockedError, QuotaExceededError, ServiceUnavailableError } from '../core/net/errors';
+import { StubSTTService } from '../core/stt/StubSTTService';
+import { pcmToWav, readWav } from '../core/audio/wav';
+import { EMOTION_VOICE_SETTINGS } from '../core/structured/NpcResponse';
+import { AssetLibrary, bakedAudioKey } from '../core/assets/AssetLibrary';
 
 // Mock the services to prevent actual API calls
 jest.mock('../core/llm/GeminiService');
@@ -11,6 +18,10 @@ const MockedGeminiService = GeminiService as jest.MockedClass<typeof GeminiServi
 const MockedElevenLabsTTSService = ElevenLabsTTSService as jest.MockedClass<typeof ElevenLabsTTSService>;
 
 describe('AIManager', () => {
+    // Every request of a dialogue line carries the signal that cancels it.
+    const signal = expect.any(AbortSignal);
+    // ...along with the callback that records its usage.
+    const onUsage = expect.any(Function);
     let adapter: MockGameAdapter;
     let aiManager: AIManager;
     const options = {
@@ -31,14 +42,46 @@ describe('AIManager', () => {
 
     it('should initialize services with API keys and model name from options', () => {
         // The constructor is called in `beforeEach`, so we can assert it was called correctly.
-        expect(MockedGeminiService).toHaveBeenCalledWith(options.geminiApiKey, options.geminiModelName);
-        expect(MockedElevenLabsTTSService).toHaveBeenCalledWith(options.elevenLabsApiKey);
+        expect(MockedGeminiService).toHaveBeenCalledWith(options.geminiApiKey, options.geminiModelName, undefined);
+        expect(MockedElevenLabsTTSService).toHaveBeenCalledWith(options.elevenLabsApiKey, undefined, undefined, undefined);
+    });
+
+    it('should pass the request policy to the built-in services', () => {
+        const requestPolicy = { timeoutMs: 5000, maxRetries: 1 };
+        new AIManager(adapter, { ...options, requestPolicy });
+
+        expect(MockedGeminiService).toHaveBeenLastCalledWith(options.geminiApiKey, options.geminiModelName, requestPolicy);
+        expect(MockedElevenLabsTTSService).toHaveBeenLastCalledWith(options.elevenLabsApiKey, undefined, requestPolicy, undefined);
+    });
+
+    it('should throw if neither an LLM provider nor a Gemini API key is given', () => {
+        expect(() => new AIManager(adapter, { elevenLabsApiKey: 'fake-elevenlabs-key' }))
+            .toThrow('Either llmProvider or geminiApiKey must be provided.');
+    });
+
+    it('should use a custom LLM provider and generation options instead of Gemini', async () => {
+        MockedGeminiService.mockClear();
+        const llmProvider = { generateText: jest.fn().mockResolvedValue('Hello from a local model.') };
+        const llmOptions = { temperature: 0.2, maxOutputTokens: 64 };
+
+        const customManager = new AIManager(adapter, { llmProvider, llmOptions, elevenLabsApiKey: 'fake-elevenlabs-key' });
+        const ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+        ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue(null);
+        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        await customManager.generateNpcDialogue('npc-1');
+        consoleErrorSpy.mockRestore();
+
+        expect(MockedGeminiService).not.toHaveBeenCalled();
+        expect(llmProvider.generateText).toHaveBeenCalledWith(expect.stringContaining('You are Mysterious Old Man'), { ...llmOptions, signal, onUsage });
+        expect(adapter.showDialogue).toHaveBeenCalledWith('Hello from a local model.', { entityId: 'npc-1' });
     });
 
     it('should generate NPC dialogue, show text, and play audio', async () => {
         const entityId = 'npc-1';
         const dialogueText = 'Greetings, traveler.';
         const audioData = new ArrayBuffer(128);
+        const speech = { audioData, mimeType: 'audio/mpeg', format: 'mp3' };
 
         // Get the mock instances created for this specific test run
         const llmServiceInstance = MockedGeminiService.mock.instances[0] as jest.Mocked<GeminiService>;
@@ -46,7 +89,7 @@ describe('AIManager', () => {
 
         // Define mock behavior on the instances
         llmServiceInstance.generateText = jest.fn().mockResolvedValue(dialogueText);
-        ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue(audioData);
+        ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue(speech);
 
         await aiManager.generateNpcDialogue(entityId);
 
@@ -57,17 +100,1564 @@ describe('AIManager', () => {
 
         // 2. Check if LLM was called with a constructed prompt
         expect(llmServiceInstance.generateText).toHaveBeenCalledTimes(1);
-        expect(llmServiceInstance.generateText).toHaveBeenCalledWith(expect.stringContaining('You are Mysterious Old Man'));
-        expect(llmServiceInstance.generateText).toHaveBeenCalledWith(expect.stringContaining('talking to a player named Eldrin'));
+        expect(llmServiceInstance.generateText).toHaveBeenCalledWith(expect.stringContaining('You are Mysterious Old Man'), { signal, onUsage });
+        expect(llmServiceInstance.generateText).toHaveBeenCalledWith(expect.stringContaining('talking to a player named Eldrin'), { signal, onUsage });
 
         // 3. Check if dialogue was shown in UI
         expect(adapter.showDialogue).toHaveBeenCalledWith(dialogueText, { entityId });
 
         // 4. Check if TTS was called
-        expect(ttsServiceInstance.generateSpeech).toHaveBeenCalledWith(dialogueText);
+        expect(ttsServiceInstance.generateSpeech).toHaveBeenCalledWith(dialogueText, { signal, onUsage });
 
         // 5. Check if audio was played
-        expect(adapter.playAudio).toHaveBeenCalledWith(audioData, { entityId });
+        expect(adapter.playAudio).toHaveBeenCalledWith(audioData, { entityId, mimeType: 'audio/mpeg' });
+    });
+
+    it('should throw if neither a TTS provider nor an ElevenLabs API key is given', () => {
+        expect(() => new AIManager(adapter, { geminiApiKey: 'fake-gemini-key' }))
+            .toThrow('Either ttsProvider or elevenLabsApiKey must be provided.');
+    });
+
+    it('should use a custom default TTS provider instead of ElevenLabs', async () => {
+        MockedElevenLabsTTSService.mockClear();
+        const audioData = new ArrayBuffer(16);
+        const ttsProvider = { generateSpeech: jest.fn().mockResolvedValue({ audioData, mimeType: 'audio/wav', format: 'wav' }) };
+        const customManager = new AIManager(adapter, { geminiApiKey: 'fake-gemini-key', ttsProvider });
+        const llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+        llmServiceInstance.generateText = jest.fn().mockResolvedValue('Offline and proud.');
+
+        await customManager.generateNpcDialogue('npc-1');
+
+        expect(MockedElevenLabsTTSService).not.toHaveBeenCalled();
+        expect(ttsProvider.generateSpeech).toHaveBeenCalledWith('Offline and proud.', { signal, onUsage });
+        expect(adapter.playAudio).toHaveBeenCalledWith(audioData, { entityId: 'npc-1', mimeType: 'audio/wav' });
+    });
+
+    it('should use the named TTS provider selected by the entity state', async () => {
+        const piperAudio = new ArrayBuffer(32);
+        const piper = { generateSpeech: jest.fn().mockResolvedValue({ audioData: piperAudio, mimeType: 'audio/wav', format: 'wav' }) };
+        const customManager = new AIManager(adapter, { ...options, ttsProviders: { piper } });
+        const llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+        const ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+        llmServiceInstance.generateText = jest.fn().mockResolvedValue('Hm.');
+        ttsServiceInstance.generateSpeech = jest.fn();
+        adapter.getEntityState.mockResolvedValueOnce({ name: 'Golem', ttsProvider: 'piper' });
+
+        await customManager.generateNpcDialogue('golem-1');
+
+        expect(piper.generateSpeech).toHaveBeenCalledWith('Hm.', { signal, onUsage });
+        expect(ttsServiceInstance.generateSpeech).not.toHaveBeenCalled();
+        expect(adapter.playAudio).toHaveBeenCalledWith(piperAudio, { entityId: 'golem-1', mimeType: 'audio/wav' });
+    });
+
+    it('should build the prompt from the template for the requested interaction and merge player overrides', async () => {
+        const promptManager = new AIManager(adapter, { ...options, prompts: { setting: 'A gritty noir detective story.' } });
+        const llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+        const ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+        llmServiceInstance.generateText = jest.fn().mockResolvedValue('Whiskey and lies, friend.');
+        ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue(null);
+        adapter.getEntityState.mockResolvedValueOnce({ name: 'Sal', personality: 'weary', inventory: ['whiskey', 'rumors'], mood: 'suspicious' });
+        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        await promptManager.generateNpcDialogue('sal-1', { heldItem: 'a badge' }, { interaction: 'merchant' });
+        consoleErrorSpy.mockRestore();
+
+        const prompt = llmServiceInstance.generateText.mock.calls[0][0];
+        expect(prompt).toContain('A gritty noir detective story.');
+        expect(prompt).toContain('Your wares: whiskey, rumors.');
+        expect(prompt).toContain('- mood: suspicious');
+        expect(prompt).toContain('- heldItem: a badge');
+        expect(prompt).not.toContain('fantasy');
+        expect(promptManager.prompts.hasTemplate('merchant')).toBe(true);
+    });
+
+    it('should voice each NPC with the voice resolved from its entity state', async () => {
+        const voicedManager = new AIManager(adapter, {
+            ...options,
+            voices: {
+                defaultVoice: { voiceId: 'narrator' },
+                archetypes: { merchant: { voiceId: 'merchant-voice', settings: { stability: 0.3 } } },
+            },
+        });
+        const llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+        const ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+        llmServiceInstance.generateText = jest.fn().mockResolvedValue('Finest wares!');
+        ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue({ audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' });
+        adapter.getEntityState.mockResolvedValueOnce({ name: 'Trader Joe', archetype: 'Merchant', voiceSettings: { speed: 1.2 } });
+
+        await voicedManager.generateNpcDialogue('merchant-1');
+
+        expect(ttsServiceInstance.generateSpeech).toHaveBeenCalledWith('Finest wares!', {
+            voiceId: 'merchant-voice',
+            voiceSettings: { stability: 0.3, speed: 1.2 },
+            signal,
+            onUsage,
+        });
+    });
+
+    describe('in streaming mode', () => {
+        let llmServiceInstance: jest.Mocked<GeminiService>;
+        let ttsServiceInstance: jest.Mocked<ElevenLabsTTSService>;
+
+        async function* chunksOf<T>(...chunks: T[]) {
+            for (const chunk of chunks) {
+                yield chunk;
+            }
+        }
+
+        beforeEach(() => {
+            aiManager = new AIManager(adapter, { ...options, streaming: true });
+            llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+            llmServiceInstance.generateTextStream = jest.fn().mockImplementation(() => chunksOf('Welcome, trav', 'eler. Sit ', 'down.'));
+        });
+
+        it('should append streamed text and enqueue streamed audio per sentence', async () => {
+            const streamingAdapter = adapter as MockGameAdapter & { appendDialogue: jest.Mock; enqueueAudioChunk: jest.Mock };
+            streamingAdapter.appendDialogue = jest.fn();
+            streamingAdapter.enqueueAudioChunk = jest.fn();
+            const first = new ArrayBuffer(1);
+            const second = new ArrayBuffer(2);
+            const third = new ArrayBuffer(3);
+            ttsServiceInstance.generateSpeechStream = jest.fn()
+                .mockImplementationOnce(() => chunksOf({ audioData: first, mimeType: 'audio/mpeg', format: 'mp3' }, { audioData: second, mimeType: 'audio/mpeg', format: 'mp3' }))
+                .mockImplementationOnce(() => chunksOf({ audioData: third, mimeType: 'audio/mpeg', format: 'mp3' }));
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(adapter.showDialogue).toHaveBeenCalledTimes(1);
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Welcome, trav', { entityId: 'npc-1' });
+            expect(streamingAdapter.appendDialogue.mock.calls).toEqual([
+                ['eler. Sit ', { entityId: 'npc-1' }],
+                ['down.', { entityId: 'npc-1' }],
+            ]);
+            expect(ttsServiceInstance.generateSpeechStream).toHaveBeenNthCalledWith(1, 'Welcome, traveler.', { signal, onUsage });
+            expect(ttsServiceInstance.generateSpeechStream).toHaveBeenNthCalledWith(2, 'Sit down.', { signal, onUsage });
+            expect(streamingAdapter.enqueueAudioChunk.mock.calls.map(([audio]) => audio)).toEqual([first, second, third]);
+            expect(adapter.playAudio).not.toHaveBeenCalled();
+        });
+
+        it('should fall back to showDialogue and playAudio per sentence for adapters without streaming hooks', async () => {
+            const first = new ArrayBuffer(1);
+            const second = new ArrayBuffer(2);
+            ttsServiceInstance.generateSpeech = jest.fn()
+                .mockResolvedValueOnce({ audioData: first, mimeType: 'audio/mpeg', format: 'mp3' })
+                .mockResolvedValueOnce({ audioData: second, mimeType: 'audio/mpeg', format: 'mp3' });
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(adapter.showDialogue).toHaveBeenLastCalledWith('Welcome, traveler. Sit down.', { entityId: 'npc-1' });
+            expect(adapter.playAudio.mock.calls).toEqual([
+                [first, { entityId: 'npc-1', mimeType: 'audio/mpeg' }],
+                [second, { entityId: 'npc-1', mimeType: 'audio/mpeg' }],
+            ]);
+        });
+
+        it('should show fallback dialogue if the stream produces no text', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            llmServiceInstance.generateTextStream = jest.fn().mockImplementation(() => chunksOf<string>());
+            ttsServiceInstance.generateSpeech = jest.fn();
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(adapter.showDialogue).toHaveBeenCalledWith('...', { entityId: 'npc-1' });
+            expect(ttsServiceInstance.generateSpeech).not.toHaveBeenCalled();
+            consoleErrorSpy.mockRestore();
+        });
+    });
+
+    describe('events', () => {
+        let llmServiceInstance: jest.Mocked<GeminiService>;
+        let ttsServiceInstance: jest.Mocked<ElevenLabsTTSService>;
+        let events: [AIPluginEvent, any][];
+
+        beforeEach(() => {
+            llmServiceInstance = MockedGeminiService.mock.instances[0] as jest.Mocked<GeminiService>;
+            ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[0] as jest.Mocked<ElevenLabsTTSService>;
+            events = [];
+            Object.values(AIPluginEvent).forEach((event) => aiManager.on(event, (data) => events.push([event, data])));
+        });
+
+        it('should fire request, audio and dialogue events in order with timings', async () => {
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue('Greetings.');
+            ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue({ audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' });
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(events.map(([event]) => event)).toEqual([
+                AIPluginEvent.LLMRequestStart,
+                AIPluginEvent.LLMRequestEnd,
+                AIPluginEvent.DialogueStart,
+                AIPluginEvent.TTSRequestStart,
+                AIPluginEvent.TTSRequestEnd,
+                AIPluginEvent.AudioStart,
+                AIPluginEvent.AudioEnd,
+                AIPluginEvent.DialogueEnd,
+            ]);
+            expect(events[0][1]).toEqual({ entityId: 'npc-1', prompt: expect.stringContaining('You are Mysterious Old Man') });
+            expect(events[1][1]).toEqual({ entityId: 'npc-1', text: 'Greetings.', success: true, durationMs: expect.any(Number) });
+            expect(events[3][1]).toEqual({ entityId: 'npc-1', text: 'Greetings.', voiceId: undefined });
+            expect(events[5][1]).toEqual({ entityId: 'npc-1', text: 'Greetings.', mimeType: 'audio/mpeg' });
+            expect(events[7][1]).toEqual({ entityId: 'npc-1', text: 'Greetings.', durationMs: expect.any(Number) });
+        });
+
+        it('should report errors and the fallback line', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue(null);
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(events.slice(1)).toEqual([
+                [AIPluginEvent.LLMRequestEnd, { entityId: 'npc-1', text: null, success: false, durationMs: expect.any(Number) }],
+                [AIPluginEvent.Error, { entityId: 'npc-1', stage: 'llm', message: 'The LLM returned no result.' }],
+                [AIPluginEvent.Error, { entityId: 'npc-1', stage: 'dialogue', message: 'Failed to generate dialogue text.', error: expect.any(Error) }],
+                [AIPluginEvent.Fallback, { entityId: 'npc-1', kind: 'placeholder', text: '...', reason: 'Failed to generate dialogue text.' }],
+            ]);
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should keep the line visible when the TTS service throws', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue('Greetings.');
+            const quotaError = new QuotaExceededError('elevenlabs', 'No credits left.');
+            ttsServiceInstance.generateSpeech = jest.fn().mockRejectedValue(quotaError);
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(adapter.showDialogue).toHaveBeenCalledTimes(1);
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Greetings.', { entityId: 'npc-1' });
+            expect(events).toContainEqual([AIPluginEvent.Error, { entityId: 'npc-1', stage: 'tts', message: 'The TTS request failed.', error: quotaError }]);
+            expect(events[events.length - 1][0]).toBe(AIPluginEvent.DialogueEnd);
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should report the error code with the fallback', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            llmServiceInstance.generateText = jest.fn().mockRejectedValue(new ContentBlockedError('gemini', 'Gemini blocked the prompt (SAFETY).'));
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(events).toContainEqual([
+                AIPluginEvent.Fallback,
+                { entityId: 'npc-1', kind: 'placeholder', text: '...', reason: 'Gemini blocked the prompt (SAFETY).', code: 'content_blocked' },
+            ]);
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should report a TTS failure as a text-only fallback', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue('Greetings.');
+            ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue(null);
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(events).toContainEqual([AIPluginEvent.Error, { entityId: 'npc-1', stage: 'tts', message: 'The TTS provider returned no audio.' }]);
+            expect(events.filter(([event]) => event === AIPluginEvent.Fallback)).toEqual([
+                [AIPluginEvent.Fallback, { entityId: 'npc-1', kind: 'text-only', text: 'Greetings.', reason: 'The TTS provider returned no audio.' }],
+            ]);
+            expect(events[events.length - 1][0]).toBe(AIPluginEvent.DialogueEnd);
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should call once listeners a single time', async () => {
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue('Greetings.');
+            ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue(null);
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            const onStart = jest.fn();
+            aiManager.once(AIPluginEvent.DialogueStart, onStart);
+
+            await aiManager.generateNpcDialogue('npc-1');
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(onStart).toHaveBeenCalledTimes(1);
+            consoleErrorSpy.mockRestore();
+        });
+    });
+
+    describe('with the audio cache', () => {
+        let ttsServiceInstance: jest.Mocked<ElevenLabsTTSService>;
+        let llmServiceInstance: jest.Mocked<GeminiService>;
+
+        beforeEach(() => {
+            aiManager = new AIManager(adapter, { ...options, audioCache: true });
+            llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+            ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue({ audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' });
+        });
+
+        it('should synthesize a repeated line only once and report hits and misses', async () => {
+            const onHit = jest.fn();
+            const onMiss = jest.fn();
+            aiManager.on(AIPluginEvent.AudioCacheHit, onHit);
+            aiManager.on(AIPluginEvent.AudioCacheMiss, onMiss);
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue('Move along.');
+
+            await aiManager.generateNpcDialogue('npc-1');
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(ttsServiceInstance.generateSpeech).toHaveBeenCalledTimes(1);
+            expect(adapter.playAudio).toHaveBeenCalledTimes(2);
+            expect(onMiss).toHaveBeenCalledWith({ key: expect.any(String), text: 'Move along.', voiceId: undefined });
+            expect(onHit).toHaveBeenCalledTimes(1);
+        });
+
+        it('should pre-warm lines with the voice of their NPC', async () => {
+            adapter.getEntityState.mockResolvedValue({ name: 'Guard', voiceId: 'guard-voice' });
+            ttsServiceInstance.generateSpeech.mockRejectedValueOnce(new Error('quota exceeded'));
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+            const result = await aiManager.prewarmAudio(['Halt!', { text: 'Move along.', entityId: 'guard-1' }]);
+            consoleErrorSpy.mockRestore();
+
+            expect(result).toEqual({ cached: 1, failed: 1 });
+            expect(ttsServiceInstance.generateSpeech).toHaveBeenCalledWith('Halt!', { onUsage });
+            expect(ttsServiceInstance.generateSpeech).toHaveBeenCalledWith('Move along.', { voiceId: 'guard-voice', onUsage });
+            expect(aiManager.audioCache).not.toBeNull();
+        });
+
+        it('should refuse to pre-warm without a cache', async () => {
+            const uncached = new AIManager(adapter, options);
+            await expect(uncached.prewarmAudio(['Halt!'])).rejects.toThrow('The audio cache is disabled');
+        });
+    });
+
+    describe('conversations', () => {
+        let llmServiceInstance: jest.Mocked<GeminiService>;
+        let ttsServiceInstance: jest.Mocked<ElevenLabsTTSService>;
+
+        beforeEach(() => {
+            llmServiceInstance = MockedGeminiService.mock.instances[0] as jest.Mocked<GeminiService>;
+            ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[0] as jest.Mocked<ElevenLabsTTSService>;
+            ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue({ audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' });
+        });
+
+        it('should emit DialogueStart and DialogueEnd around a conversation', async () => {
+            const onStart = jest.fn();
+            const onEnd = jest.fn();
+            aiManager.on(AIPluginEvent.DialogueStart, onStart);
+            aiManager.on(AIPluginEvent.DialogueEnd, onEnd);
+
+            const session = await aiManager.startConversation('npc-1');
+            expect(onStart).toHaveBeenCalledWith({ entityId: 'npc-1', text: '' });
+            expect(session.systemPrompt).toContain('You are Mysterious Old Man');
+            expect(aiManager.getConversation('npc-1')).toBe(session);
+            await expect(aiManager.startConversation('npc-1')).resolves.toBe(session);
+            expect(onStart).toHaveBeenCalledTimes(1);
+
+            await session.end();
+            expect(onEnd).toHaveBeenCalledWith({ entityId: 'npc-1', text: '' });
+            expect(adapter.hideDialogue).toHaveBeenCalledWith('npc-1');
+            expect(session.isActive).toBe(false);
+            expect(aiManager.getConversation('npc-1')).toBeUndefined();
+        });
+
+        it('should send the rolling history as multi-turn messages', async () => {
+            llmServiceInstance.generateChat = jest.fn()
+                .mockResolvedValueOnce('Ask, and you may receive.')
+                .mockResolvedValueOnce('The key lies beneath the old oak.');
+
+            const session = await aiManager.startConversation('npc-1');
+            await expect(session.sendPlayerMessage('Can I ask you something?')).resolves.toBe('Ask, and you may receive.');
+            await session.sendPlayerMessage('Where is the key?');
+
+            expect(llmServiceInstance.generateChat).toHaveBeenLastCalledWith(
+                [
+                    { role: 'user', text: 'Can I ask you something?' },
+                    { role: 'model', text: 'Ask, and you may receive.' },
+                    { role: 'user', text: 'Where is the key?' },
+                ],
+                { systemPrompt: session.systemPrompt, signal, onUsage },
+            );
+            expect(adapter.showDialogue).toHaveBeenLastCalledWith('The key lies beneath the old oak.', { entityId: 'npc-1' });
+            expect(ttsServiceInstance.generateSpeech).toHaveBeenLastCalledWith('The key lies beneath the old oak.', { signal, onUsage });
+            expect(adapter.playAudio).toHaveBeenCalledTimes(2);
+            expect(session.turns).toHaveLength(4);
+        });
+
+        it('should summarize old turns as part of the reply that outgrew the history', async () => {
+            const summarizingManager = new AIManager(adapter, { ...options, conversation: { maxHistoryTokens: 8 } });
+            const llm = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            (MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>).generateSpeech = jest.fn().mockResolvedValue(null);
+            llm.generateChat = jest.fn().mockResolvedValue('Go north.');
+            llm.generateText = jest.fn().mockResolvedValue('The player asked the way.');
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+            const session = await summarizingManager.startConversation('npc-1');
+            await session.sendPlayerMessage('Which way to the village?');
+            await session.sendPlayerMessage('And then?');
+            consoleErrorSpy.mockRestore();
+
+            expect(llm.generateText).toHaveBeenCalledWith(expect.stringContaining('Player: Which way to the village?'), { signal, onUsage });
+            expect(session.conversationSummary).toBe('The player asked the way.');
+        });
+
+        it('should flatten the history into a prompt for providers without chat support', async () => {
+            const llmProvider = { generateText: jest.fn().mockResolvedValue('Indeed.') };
+            const chatlessManager = new AIManager(adapter, { llmProvider, elevenLabsApiKey: 'fake-elevenlabs-key' });
+            const chatlessTts = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+            chatlessTts.generateSpeech = jest.fn().mockResolvedValue(null);
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+            await chatlessManager.startConversation('npc-1');
+            await chatlessManager.sendPlayerMessage('npc-1', 'Nice weather.');
+            consoleErrorSpy.mockRestore();
+
+            expect(llmProvider.generateText).toHaveBeenCalledWith(expect.stringMatching(/Player: Nice weather\.\nYou:$/), { signal, onUsage });
+        });
+
+        it('should drop an unanswered player message and show fallback dialogue', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            llmServiceInstance.generateChat = jest.fn().mockResolvedValue(null);
+
+            const session = await aiManager.startConversation('npc-1');
+            await expect(session.sendPlayerMessage('Hello?')).resolves.toBeNull();
+
+            expect(session.turns).toHaveLength(0);
+            expect(adapter.showDialogue).toHaveBeenCalledWith('...', { entityId: 'npc-1' });
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should reject messages for NPCs without an active conversation', async () => {
+            await expect(aiManager.sendPlayerMessage('npc-2', 'Hi')).rejects.toThrow('No active conversation with npc-2.');
+        });
+    });
+
+    describe('with tools', () => {
+        const giveItem = {
+            name: 'give_item',
+            description: 'Give the player an item.',
+            parameters: { type: 'object' as const, properties: { item: { type: 'string' as const } }, required: ['item'] },
+        };
+        let toolAdapter: MockGameAdapter & { executeTool: jest.Mock };
+        let llmServiceInstance: jest.Mocked<GeminiService>;
+
+        beforeEach(() => {
+            toolAdapter = Object.assign(adapter, { executeTool: jest.fn().mockResolvedValue({ given: true }) });
+            aiManager = new AIManager(toolAdapter, { ...options, tools: [giveItem] });
+            llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            const ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+            ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue({ audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' });
+            llmServiceInstance.generateTurn = jest.fn()
+                .mockResolvedValueOnce({ text: null, toolCalls: [{ name: 'give_item', args: { item: 'lantern' } }] })
+                .mockResolvedValueOnce({ text: 'Take my lantern.', toolCalls: [] });
+        });
+
+        it('should let an NPC call the tools on its allowlist through the adapter', async () => {
+            adapter.getEntityState.mockResolvedValue({ name: 'Old Man', tools: ['give_item'] });
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(llmServiceInstance.generateTurn).toHaveBeenCalledWith(
+                [{ role: 'user', text: expect.stringContaining('You are Old Man') }],
+                { tools: [giveItem], signal, onUsage },
+            );
+            expect(llmServiceInstance.generateTurn.mock.calls[0][0][0].text).not.toContain('give_item');
+            expect(toolAdapter.executeTool).toHaveBeenCalledWith({ name: 'give_item', args: { item: 'lantern' } }, { entityId: 'npc-1' });
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Take my lantern.', { entityId: 'npc-1' });
+        });
+
+        it('should not offer tools to NPCs without an allowlist', async () => {
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue('Hello.');
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(llmServiceInstance.generateTurn).not.toHaveBeenCalled();
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Hello.', { entityId: 'npc-1' });
+        });
+
+        it('should use tools in conversations and keep only the final reply in the history', async () => {
+            adapter.getEntityState.mockResolvedValue({ name: 'Old Man', tools: ['give_item'] });
+
+            const session = await aiManager.startConversation('npc-1');
+            await expect(session.sendPlayerMessage('It is dark.')).resolves.toBe('Take my lantern.');
+
+            expect(llmServiceInstance.generateTurn).toHaveBeenCalledWith(
+                [{ role: 'user', text: 'It is dark.' }],
+                expect.objectContaining({ tools: [giveItem], systemPrompt: expect.stringContaining('You are Old Man') }),
+            );
+            expect(toolAdapter.executeTool).toHaveBeenCalledTimes(1);
+            expect(session.turns).toEqual([
+                { role: 'user', text: 'It is dark.' },
+                { role: 'model', text: 'Take my lantern.' },
+            ]);
+        });
+    });
+
+    describe('with structured output', () => {
+        let structuredAdapter: MockGameAdapter & { showChoices: jest.Mock; performAction: jest.Mock };
+        let llmServiceInstance: jest.Mocked<GeminiService>;
+        let ttsServiceInstance: jest.Mocked<ElevenLabsTTSService>;
+
+        beforeEach(() => {
+            structuredAdapter = Object.assign(adapter, { showChoices: jest.fn(), performAction: jest.fn().mockResolvedValue(undefined) });
+            aiManager = new AIManager(structuredAdapter, { ...options, structuredOutput: true });
+            llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+            ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue({ audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' });
+        });
+
+        it('should forward the line, emotion, choices and actions to the adapter', async () => {
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue(JSON.stringify({
+                line: 'Get out of my shop!',
+                emotion: 'angry',
+                animation: 'point',
+                playerChoices: ['Sorry!', 'Make me.'],
+                actions: [{ type: 'close_shop' }],
+            }));
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(llmServiceInstance.generateText).toHaveBeenCalledWith(
+                expect.stringContaining('Respond with a single JSON object'),
+                expect.objectContaining({ responseSchema: expect.objectContaining({ required: ['line', 'emotion'] }) }),
+            );
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Get out of my shop!', { entityId: 'npc-1', emotion: 'angry', animation: 'point' });
+            expect(structuredAdapter.showChoices).toHaveBeenCalledWith(['Sorry!', 'Make me.'], { entityId: 'npc-1' });
+            expect(structuredAdapter.performAction).toHaveBeenCalledWith({ type: 'close_shop' }, { entityId: 'npc-1' });
+            expect(ttsServiceInstance.generateSpeech).toHaveBeenCalledWith('Get out of my shop!', {
+                voiceSettings: { stability: 0.25, style: 0.8, speed: 1.05 },
+                signal,
+                onUsage,
+            });
+        });
+
+        it('should retry on invalid JSON and fall back after too many failures', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue('I am not JSON');
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(llmServiceInstance.generateText).toHaveBeenCalledTimes(3);
+            expect(llmServiceInstance.generateText).toHaveBeenLastCalledWith(expect.stringContaining('Your previous answer was invalid'), expect.anything());
+            expect(adapter.showDialogue).toHaveBeenCalledWith('...', { entityId: 'npc-1' });
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should use structured replies in conversations and keep only the line in the history', async () => {
+            llmServiceInstance.generateChat = jest.fn().mockResolvedValue('{"line": "Which one?", "emotion": "neutral", "playerChoices": ["The red one", "The blue one"]}');
+
+            const session = await aiManager.startConversation('npc-1');
+            await expect(session.sendPlayerMessage('I want a potion.')).resolves.toBe('Which one?');
+
+            expect(llmServiceInstance.generateChat).toHaveBeenCalledWith(
+                [{ role: 'user', text: 'I want a potion.' }],
+                expect.objectContaining({ systemPrompt: expect.stringContaining('Respond with a single JSON object') }),
+            );
+            expect(session.turns[1]).toEqual({ role: 'model', text: 'Which one?' });
+            expect(structuredAdapter.showChoices).toHaveBeenCalledWith(['The red one', 'The blue one'], { entityId: 'npc-1' });
+        });
+    });
+
+    describe('with memory enabled', () => {
+        let store: InMemoryMemoryStore;
+        let llmServiceInstance: jest.Mocked<GeminiService>;
+
+        beforeEach(() => {
+            store = new InMemoryMemoryStore();
+            aiManager = new AIManager(adapter, { ...options, memory: { store, maxMemoriesInPrompt: 1 } });
+            llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            const ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+            ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue({ audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' });
+        });
+
+        it('should expose the memory store', () => {
+            expect(aiManager.memories).toBe(store);
+            expect(new AIManager(adapter, options).memories).toBeNull();
+        });
+
+        it('should add the most relevant memories to the dialogue prompt', async () => {
+            await store.addMemories('npc-1', [
+                createMemory('The player stole bread from me.'),
+                createMemory('The player rescued me in the Whispering Woods.'),
+            ]);
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue('Ah, my rescuer!');
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            const prompt = llmServiceInstance.generateText.mock.calls[0][0];
+            expect(prompt).toContain('Things you remember about the player:\n- The player rescued me in the Whispering Woods.');
+            expect(prompt).not.toContain('stole bread');
+        });
+
+        it('should extract and save memories when a conversation ends', async () => {
+            llmServiceInstance.generateChat = jest.fn().mockResolvedValue('Thank you, kind soul.');
+            llmServiceInstance.generateText = jest.fn(async (_prompt, generationOptions) => {
+                generationOptions!.onUsage!({ promptTokens: 30, outputTokens: 20, totalTokens: 50 });
+                return '[{"text": "The player gave me a healing potion.", "importance": 4}]';
+            });
+
+            const session = await aiManager.startConversation('npc-1');
+            await session.sendPlayerMessage('Here, take this healing potion.');
+            await session.end();
+
+            expect(llmServiceInstance.generateText).toHaveBeenCalledWith(
+                expect.stringContaining('Player: Here, take this healing potion.\nNPC: Thank you, kind soul.'),
+                expect.objectContaining({ onUsage: expect.any(Function) }),
+            );
+            expect(aiManager.metrics.snapshot().session.totalTokens).toBe(50);
+            const memories = await store.getMemories('npc-1');
+            expect(memories.map((memory) => memory.text)).toEqual(['The player gave me a healing potion.']);
+
+            await aiManager.startConversation('npc-1');
+            expect(aiManager.getConversation('npc-1')!.systemPrompt).toContain('- The player gave me a healing potion.');
+        });
+    });
+
+    describe('with fallbacks', () => {
+        class LocalModel {
+            generateText = jest.fn();
+        }
+
+        const speech = { audioData: new ArrayBuffer(4), mimeType: 'audio/wav', format: 'wav' };
+        let consoleErrorSpy: jest.SpyInstance;
+        let consoleWarnSpy: jest.SpyInstance;
+        let fallbacks: jest.Mock;
+
+        beforeEach(() => {
+            consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            fallbacks = jest.fn();
+        });
+
+        afterEach(() => {
+            consoleErrorSpy.mockRestore();
+            consoleWarnSpy.mockRestore();
+        });
+
+        it('should try the LLM fallbacks in order and report each switch', async () => {
+            const localModel = new LocalModel();
+            localModel.generateText.mockResolvedValue(null);
+            aiManager = new AIManager(adapter, { ...options, llmFallbacks: [localModel, 'gemini-1.5-flash-8b'] });
+            aiManager.on(AIPluginEvent.Fallback, fallbacks);
+            const mainModel = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            const backupModel = MockedGeminiService.mock.instances[2] as jest.Mocked<GeminiService>;
+            mainModel.generateText = jest.fn().mockRejectedValue(new ServiceUnavailableError('gemini', 'Gemini is overloaded.'));
+            backupModel.generateText = jest.fn().mockResolvedValue('Greetings from the backup.');
+            (MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>).generateSpeech = jest.fn().mockResolvedValue(speech);
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(MockedGeminiService).toHaveBeenLastCalledWith(options.geminiApiKey, 'gemini-1.5-flash-8b', undefined);
+            expect(localModel.generateText).toHaveBeenCalledWith(expect.stringContaining('You are Mysterious Old Man'), { signal, onUsage });
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Greetings from the backup.', { entityId: 'npc-1' });
+            expect(fallbacks.mock.calls).toEqual([
+                [{ entityId: 'npc-1', kind: 'llm-provider', provider: 'LocalModel', reason: 'Gemini is overloaded.', code: 'unavailable' }],
+                [{ entityId: 'npc-1', kind: 'llm-provider', provider: 'gemini-1.5-flash-8b', reason: 'The LLM returned no result.' }],
+            ]);
+        });
+
+        it('should show and voice a canned line from the NPC when no LLM can answer', async () => {
+            adapter.getEntityState.mockResolvedValue({ name: 'Guard', voiceId: 'guard-voice', fallbackLines: ['Move along.'] });
+            aiManager = new AIManager(adapter, { ...options, fallbackLines: ['Not now.'] });
+            aiManager.on(AIPluginEvent.Fallback, fallbacks);
+            const llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            const ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+            llmServiceInstance.generateText = jest.fn().mockRejectedValue(new QuotaExceededError('gemini', 'Out of quota.'));
+            ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue(speech);
+
+            await aiManager.generateNpcDialogue('guard-1');
+
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Move along.', { entityId: 'guard-1' });
+            expect(ttsServiceInstance.generateSpeech).toHaveBeenCalledWith('Move along.', { voiceId: 'guard-voice', signal, onUsage });
+            expect(adapter.playAudio).toHaveBeenCalledWith(speech.audioData, { entityId: 'guard-1', mimeType: 'audio/wav' });
+            expect(fallbacks).toHaveBeenCalledWith({ entityId: 'guard-1', kind: 'canned-line', text: 'Move along.', reason: 'Out of quota.', code: 'quota_exceeded' });
+        });
+
+        it('should use the configured canned lines for NPCs without their own', async () => {
+            aiManager = new AIManager(adapter, { ...options, fallbackLines: ['Not now.'] });
+            (MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>).generateText = jest.fn().mockResolvedValue(null);
+            (MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>).generateSpeech = jest.fn().mockResolvedValue(speech);
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Not now.', { entityId: 'npc-1' });
+        });
+
+        it('should voice the line with a fallback TTS provider in its default voice', async () => {
+            adapter.getEntityState.mockResolvedValue({ name: 'Guard', voiceId: 'guard-voice' });
+            const piper = { generateSpeech: jest.fn().mockResolvedValue(speech) };
+            aiManager = new AIManager(adapter, { ...options, ttsProviders: { piper }, ttsFallbacks: ['piper'] });
+            aiManager.on(AIPluginEvent.Fallback, fallbacks);
+            (MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>).generateText = jest.fn().mockResolvedValue('Halt!');
+            (MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>).generateSpeech = jest.fn()
+                .mockRejectedValue(new QuotaExceededError('elevenlabs', 'No credits left.'));
+
+            await aiManager.generateNpcDialogue('guard-1');
+
+            expect(piper.generateSpeech).toHaveBeenCalledWith('Halt!', { signal, onUsage });
+            expect(adapter.playAudio).toHaveBeenCalledWith(speech.audioData, { entityId: 'guard-1', mimeType: 'audio/wav' });
+            expect(fallbacks.mock.calls).toEqual([
+                [{ entityId: 'guard-1', kind: 'tts-provider', text: 'Halt!', provider: 'piper', reason: 'No credits left.', code: 'quota_exceeded' }],
+            ]);
+        });
+
+        it('should fall back to text only when every TTS provider fails', async () => {
+            const piper = { generateSpeech: jest.fn().mockResolvedValue(null) };
+            aiManager = new AIManager(adapter, { ...options, ttsFallbacks: [piper] });
+            aiManager.on(AIPluginEvent.Fallback, fallbacks);
+            (MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>).generateText = jest.fn().mockResolvedValue('Halt!');
+            (MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>).generateSpeech = jest.fn().mockResolvedValue(null);
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Halt!', { entityId: 'npc-1' });
+            expect(adapter.playAudio).not.toHaveBeenCalled();
+            expect(fallbacks.mock.calls.map(([data]) => data.kind)).toEqual(['tts-provider', 'text-only']);
+        });
+
+        it('should answer from a fallback LLM when the stream fails before any text', async () => {
+            const localModel = new LocalModel();
+            localModel.generateText.mockResolvedValue('Back online.');
+            aiManager = new AIManager(adapter, { ...options, streaming: true, llmFallbacks: [localModel] });
+            aiManager.on(AIPluginEvent.Fallback, fallbacks);
+            (MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>).generateTextStream = jest.fn().mockImplementation(async function* () {
+                throw new ServiceUnavailableError('gemini', 'Gemini is overloaded.');
+            });
+            (MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>).generateSpeech = jest.fn().mockResolvedValue(speech);
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Back online.', { entityId: 'npc-1' });
+            expect(fallbacks).toHaveBeenCalledWith({ entityId: 'npc-1', kind: 'llm-provider', provider: 'LocalModel', reason: 'Gemini is overloaded.', code: 'unavailable' });
+        });
+
+        it('should reject unknown TTS fallbacks and Gemini fallbacks without a key', () => {
+            expect(() => new AIManager(adapter, { ...options, ttsFallbacks: ['piper'] })).toThrow('Unknown TTS fallback provider "piper"');
+            expect(() => new AIManager(adapter, { llmProvider: new LocalModel(), elevenLabsApiKey: 'key', llmFallbacks: ['gemini-1.5-flash'] }))
+                .toThrow('geminiApiKey must be provided');
+        });
+    });
+
+    describe('with the scheduler', () => {
+        const speech = { audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' };
+        let llmServiceInstance: jest.Mocked<GeminiService>;
+        let ttsServiceInstance: jest.Mocked<ElevenLabsTTSService>;
+        let consoleSpies: jest.SpyInstance[];
+
+        const useManager = (scheduler: AIManagerOptions['scheduler']) => {
+            aiManager = new AIManager(adapter, { ...options, scheduler });
+            llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+            ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue(speech);
+        };
+
+        beforeEach(() => {
+            consoleSpies = [jest.spyOn(console, 'log').mockImplementation(() => {}), jest.spyOn(console, 'warn').mockImplementation(() => {})];
+        });
+
+        afterEach(() => {
+            consoleSpies.forEach((spy) => spy.mockRestore());
+        });
+
+        it('should send identical lines of different NPCs only once', async () => {
+            useManager({});
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue('Lovely evening.');
+
+            await Promise.all([aiManager.generateNpcDialogue('villager-1'), aiManager.generateNpcDialogue('villager-2')]);
+
+            expect(llmServiceInstance.generateText).toHaveBeenCalledTimes(1);
+            expect(ttsServiceInstance.generateSpeech).toHaveBeenCalledTimes(1);
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Lovely evening.', { entityId: 'villager-1' });
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Lovely evening.', { entityId: 'villager-2' });
+            expect(adapter.playAudio).toHaveBeenCalledTimes(2);
+        });
+
+        it('should answer the player before ambient barks when the LLM is at its limit', async () => {
+            useManager({ limits: { llm: { maxConcurrent: 1 } } });
+            const order: string[] = [];
+            let finishGreeting!: (text: string) => void;
+            llmServiceInstance.generateText = jest.fn()
+                .mockImplementationOnce(() => new Promise((resolve) => { finishGreeting = resolve; }))
+                .mockImplementation(async () => {
+                    order.push('bark');
+                    return 'Nice day.';
+                });
+            llmServiceInstance.generateChat = jest.fn().mockImplementation(async () => {
+                order.push('reply');
+                return 'At your service.';
+            });
+
+            const greeting = aiManager.generateNpcDialogue('npc-1');
+            await new Promise((resolve) => setImmediate(resolve));
+            const bark = aiManager.generateNpcDialogue('npc-2', {}, { interaction: 'bark' });
+            await aiManager.startConversation('npc-3');
+            const reply = aiManager.sendPlayerMessage('npc-3', 'Hello?');
+            await new Promise((resolve) => setImmediate(resolve));
+            expect(aiManager.scheduler.stats('llm')).toEqual({ active: 1, waiting: 2 });
+
+            finishGreeting('Welcome.');
+            await Promise.all([greeting, bark, reply]);
+
+            expect(order).toEqual(['reply', 'bark']);
+        });
+
+        it('should quietly skip barks dropped from a full queue', async () => {
+            useManager({ limits: { llm: { maxConcurrent: 1 } }, maxQueueLength: 0 });
+            const fallbacks = jest.fn();
+            aiManager.on(AIPluginEvent.Fallback, fallbacks);
+            let finishGreeting!: (text: string) => void;
+            llmServiceInstance.generateText = jest.fn()
+                .mockImplementationOnce(() => new Promise((resolve) => { finishGreeting = resolve; }));
+
+            const greeting = aiManager.generateNpcDialogue('npc-1');
+            await new Promise((resolve) => setImmediate(resolve));
+            await aiManager.generateNpcDialogue('npc-2', {}, { interaction: 'bark' });
+            finishGreeting('Welcome.');
+            await greeting;
+
+            expect(llmServiceInstance.generateText).toHaveBeenCalledTimes(1);
+            expect(adapter.showDialogue).toHaveBeenCalledTimes(1);
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Welcome.', { entityId: 'npc-1' });
+            expect(fallbacks).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('with budgets', () => {
+        const speech = { audioData: new ArrayBuffer(4), mimeType: 'audio/wav', format: 'wav' };
+        let consoleWarnSpy: jest.SpyInstance;
+        let fallbacks: jest.Mock;
+
+        beforeEach(() => {
+            consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            fallbacks = jest.fn();
+        });
+
+        afterEach(() => {
+            consoleWarnSpy.mockRestore();
+        });
+
+        it('should record the usage, cost and latency of a line for the player', async () => {
+            aiManager = new AIManager(adapter, {
+                ...options,
+                metrics: { pricing: { 'test-model-from-options': { inputPerMillionTokens: 1000, outputPerMillionTokens: 1000 } } },
+            });
+            (MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>).generateText = jest.fn(async (prompt, generationOptions) => {
+                generationOptions!.onUsage!({ model: 'test-model-from-options', promptTokens: 40, outputTokens: 10, totalTokens: 50 });
+                return 'Hello.';
+            });
+            (MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>).generateSpeech = jest.fn(async (text, speechOptions) => {
+                speechOptions!.onUsage!({ characters: text.length });
+                return speech;
+            });
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            const snapshot = aiManager.metrics.snapshot();
+            expect(snapshot.players.Eldrin).toEqual({ promptTokens: 40, outputTokens: 10, totalTokens: 50, characters: 6, cost: 0.05 });
+            expect(snapshot.session.totalTokens).toBe(50);
+            expect([snapshot.latency.state.count, snapshot.latency.llm.count, snapshot.latency.tts.count, snapshot.latency.playback.count])
+                .toEqual([1, 1, 1, 1]);
+        });
+
+        it('should switch to the cheaper LLM once the session budget is used up', async () => {
+            const cheaperLLM = { generateText: jest.fn().mockResolvedValue('Cheap talk.') };
+            aiManager = new AIManager(adapter, { ...options, budgets: { session: { maxTokens: 100 }, cheaperLLM } });
+            aiManager.on(AIPluginEvent.Fallback, fallbacks);
+            const llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue('Expensive talk.');
+            (MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>).generateSpeech = jest.fn().mockResolvedValue(speech);
+            aiManager.metrics.recordLLMUsage({ promptTokens: 90, outputTokens: 10, totalTokens: 100 });
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(llmServiceInstance.generateText).not.toHaveBeenCalled();
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Cheap talk.', { entityId: 'npc-1' });
+            expect(fallbacks).toHaveBeenCalledWith({
+                entityId: 'npc-1',
+                kind: 'llm-provider',
+                provider: 'Object',
+                reason: 'The session budget for llm requests is used up.',
+                code: 'budget_exceeded',
+            });
+
+            aiManager.metrics.reset();
+            await aiManager.generateNpcDialogue('npc-1');
+            expect(adapter.showDialogue).toHaveBeenLastCalledWith('Expensive talk.', { entityId: 'npc-1' });
+        });
+
+        it('should use canned lines without speech once a player has used up their budget', async () => {
+            aiManager = new AIManager(adapter, {
+                ...options,
+                fallbackLines: ['Not now.'],
+                metrics: { pricing: { premium: { perThousandCharacters: 1000 } } },
+                budgets: { perPlayer: { maxCost: 1 } },
+            });
+            aiManager.on(AIPluginEvent.Fallback, fallbacks);
+            const llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            const ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>;
+            llmServiceInstance.generateText = jest.fn().mockResolvedValue('Hello.');
+            ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue(speech);
+            aiManager.metrics.recordTTSUsage({ model: 'premium', characters: 1 }, 'Eldrin');
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(llmServiceInstance.generateText).not.toHaveBeenCalled();
+            expect(ttsServiceInstance.generateSpeech).not.toHaveBeenCalled();
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Not now.', { entityId: 'npc-1' });
+            expect(fallbacks.mock.calls.map(([data]) => [data.kind, data.code])).toEqual([
+                ['canned-line', 'budget_exceeded'],
+                ['text-only', 'budget_exceeded'],
+            ]);
+        });
+    });
+
+    describe('with moderation', () => {
+        let consoleWarnSpy: jest.SpyInstance;
+        let consoleErrorSpy: jest.SpyInstance;
+        let rejections: jest.Mock;
+        let fallbacks: jest.Mock;
+        let llmServiceInstance: jest.Mocked<GeminiService>;
+
+        async function* chunksOf(...chunks: string[]) {
+            for (const chunk of chunks) {
+                yield chunk;
+            }
+        }
+
+        const createManager = (extraOptions: Partial<AIManagerOptions> = {}) => {
+            aiManager = new AIManager(adapter, { ...options, fallbackLines: ['Move along.'], moderation: { profanity: true }, ...extraOptions });
+            aiManager.on(AIPluginEvent.LineRejected, rejections);
+            aiManager.on(AIPluginEvent.Fallback, fallbacks);
+            llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            (MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>).generateSpeech = jest.fn().mockResolvedValue(null);
+        };
+
+        beforeEach(() => {
+            consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            rejections = jest.fn();
+            fallbacks = jest.fn();
+        });
+
+        afterEach(() => {
+            consoleWarnSpy.mockRestore();
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should generate a rejected line again with the reason in the prompt', async () => {
+            createManager({ moderation: { profanity: true, safetySettings: [{ category: 'harassment', threshold: 'block_low_and_above' }] } });
+            llmServiceInstance.generateText = jest.fn()
+                .mockResolvedValueOnce('Shut it, you bastard.')
+                .mockResolvedValueOnce('Keep your voice down, stranger.');
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(adapter.showDialogue).toHaveBeenCalledTimes(1);
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Keep your voice down, stranger.', { entityId: 'npc-1' });
+            expect(llmServiceInstance.generateText).toHaveBeenLastCalledWith(
+                expect.stringContaining('Your previous line was rejected: The line contains profanity. Write a different line. Do not swear.'),
+                { safetySettings: [{ category: 'harassment', threshold: 'block_low_and_above' }], signal, onUsage },
+            );
+            expect(rejections).toHaveBeenCalledWith({
+                entityId: 'npc-1',
+                text: 'Shut it, you bastard.',
+                filter: 'profanity',
+                reason: 'The line contains profanity.',
+                regenerating: true,
+            });
+        });
+
+        it('should use a canned line once the regenerated line is rejected too', async () => {
+            createManager();
+            llmServiceInstance.generateText = jest.fn()
+                .mockRejectedValueOnce(new ContentBlockedError('gemini', 'Gemini withheld the answer (SAFETY).'))
+                .mockResolvedValueOnce('As an AI language model, I cannot do that.');
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(adapter.showDialogue).toHaveBeenCalledTimes(1);
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Move along.', { entityId: 'npc-1' });
+            expect(rejections.mock.calls.map(([data]) => [data.filter, data.regenerating, data.text])).toEqual([
+                ['safety', true, undefined],
+                ['character-break', false, 'As an AI language model, I cannot do that.'],
+            ]);
+            expect(fallbacks).toHaveBeenCalledWith({
+                entityId: 'npc-1',
+                kind: 'canned-line',
+                text: 'Move along.',
+                reason: 'The line breaks character.',
+                code: 'content_rejected',
+            });
+        });
+
+        it('should moderate conversation replies with the custom validator', async () => {
+            const validator = jest.fn((line: string) => line.includes('dragon') ? 'No spoilers.' : null);
+            createManager({ moderation: { validator } });
+            const session = await aiManager.startConversation('npc-1');
+            llmServiceInstance.generateChat = jest.fn()
+                .mockResolvedValueOnce('The dragon sleeps in the cave.')
+                .mockResolvedValueOnce('Some secrets are best kept.');
+
+            const reply = await session.sendPlayerMessage('What lives in the cave?');
+
+            expect(reply).toBe('Some secrets are best kept.');
+            expect(validator).toHaveBeenCalledWith('The dragon sleeps in the cave.', expect.objectContaining({ entityId: 'npc-1', prompt: session.systemPrompt }));
+            expect(session.turns.map((turn) => turn.text)).toEqual(['What lives in the cave?', 'Some secrets are best kept.']);
+        });
+
+        it('should end a streamed line at the first rejected sentence', async () => {
+            createManager({ streaming: true });
+            llmServiceInstance.generateTextStream = jest.fn().mockImplementation(() => chunksOf('Welcome, trav', 'eler. Now piss ', 'off. Bye.'));
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(adapter.showDialogue).toHaveBeenCalledTimes(1);
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Welcome, traveler.', { entityId: 'npc-1' });
+            expect(rejections).toHaveBeenCalledWith(expect.objectContaining({ text: 'Now piss off.', filter: 'profanity', regenerating: false }));
+            expect(fallbacks.mock.calls.map(([data]) => data.kind)).not.toContain('canned-line');
+        });
+    });
+
+    describe('with speech input', () => {
+        const recording = new ArrayBuffer(16);
+        let llmServiceInstance: jest.Mocked<GeminiService>;
+        let transcripts: jest.Mock;
+
+        const createManager = (sttProvider: StubSTTService) => {
+            aiManager = new AIManager(adapter, { ...options, sttProvider });
+            aiManager.on(AIPluginEvent.PlayerTranscript, transcripts);
+            llmServiceInstance = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            (MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>).generateSpeech = jest.fn()
+                .mockResolvedValue({ audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' });
+        };
+
+        beforeEach(() => {
+            transcripts = jest.fn();
+        });
+
+        it('should transcribe the recording, show the transcript and answer it in a conversation', async () => {
+            const sttProvider = new StubSTTService('Where is the smithy?');
+            const transcribe = jest.spyOn(sttProvider, 'transcribe');
+            createManager(sttProvider);
+            const transcriptAdapter = adapter as MockGameAdapter & { showTranscript: jest.Mock };
+            transcriptAdapter.showTranscript = jest.fn();
+            llmServiceInstance.generateChat = jest.fn().mockResolvedValue('Past the well, by the river.');
+
+            const reply = await aiManager.sendPlayerSpeech('npc-1', recording, { mimeType: 'audio/webm', languageCode: 'en' });
+
+            expect(reply).toBe('Past the well, by the river.');
+            expect(transcribe).toHaveBeenCalledWith(recording, { mimeType: 'audio/webm', languageCode: 'en', signal });
+            expect(transcriptAdapter.showTranscript).toHaveBeenCalledWith('Where is the smithy?', { entityId: 'npc-1' });
+            expect(transcripts).toHaveBeenCalledWith({ entityId: 'npc-1', text: 'Where is the smithy?', languageCode: 'en', durationMs: expect.any(Number) });
+            expect(aiManager.getConversation('npc-1')!.turns.map((turn) => turn.text)).toEqual(['Where is the smithy?', 'Past the well, by the river.']);
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Past the well, by the river.', { entityId: 'npc-1' });
+            expect(aiManager.metrics.snapshot().latency.stt.count).toBe(1);
+        });
+
+        it('should not answer a recording without speech', async () => {
+            const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            createManager(new StubSTTService('  '));
+            llmServiceInstance.generateChat = jest.fn();
+
+            await expect(aiManager.sendPlayerSpeech('npc-1', recording)).resolves.toBeNull();
+
+            expect(llmServiceInstance.generateChat).not.toHaveBeenCalled();
+            expect(transcripts).not.toHaveBeenCalled();
+            expect(aiManager.getConversation('npc-1')).toBeUndefined();
+            consoleWarnSpy.mockRestore();
+        });
+
+        it('should report a failed transcription as an stt error', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            const sttProvider = new StubSTTService();
+            jest.spyOn(sttProvider, 'transcribe').mockRejectedValue(new ServiceUnavailableError('elevenlabs', 'Down.'));
+            createManager(sttProvider);
+            const errors = jest.fn();
+            aiManager.on(AIPluginEvent.Error, errors);
+
+            await expect(aiManager.sendPlayerSpeech('npc-1', recording)).resolves.toBeNull();
+
+            expect(errors).toHaveBeenCalledWith(expect.objectContaining({ entityId: 'npc-1', stage: 'stt', message: 'Could not transcribe the recording.' }));
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should reject when there is no speech recognition provider', async () => {
+            const localManager = new AIManager(adapter, { llmProvider: { generateText: jest.fn() }, ttsProvider: { generateSpeech: jest.fn() } });
+
+            await expect(localManager.sendPlayerSpeech('npc-1', recording)).rejects.toThrow('Speech input needs an sttProvider or elevenLabsApiKey.');
+        });
+    });
+
+    describe('with a locale', () => {
+        const speech = { audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' };
+        let generateText: jest.Mock;
+        let generateSpeech: jest.Mock;
+
+        const createManager = (localeOptions: Partial<AIManagerOptions>) => {
+            generateSpeech = jest.fn().mockResolvedValue(speech);
+            aiManager = new AIManager(adapter, {
+                llmProvider: { generateText },
+                ttsProvider: { generateSpeech },
+                voices: { defaultVoice: { voiceId: 'narrator', locales: { de: { voiceId: 'erzaehler' } } } },
+                ...localeOptions,
+            });
+        };
+
+        beforeEach(() => {
+            generateText = jest.fn().mockResolvedValue('Willkommen, Reisender.');
+        });
+
+        it('should ask for the line in the locale\'s language and voice it with the voice for that language', async () => {
+            createManager({ locale: 'de-DE' });
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(generateText.mock.calls[0][0]).toMatch(/Always speak German \(Germany\)/);
+            expect(generateSpeech).toHaveBeenCalledWith('Willkommen, Reisender.', { voiceId: 'erzaehler', languageCode: 'de', signal, onUsage });
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Willkommen, Reisender.', { entityId: 'npc-1' });
+        });
+
+        it('should let a request override the locale, also for conversation replies and speech input', async () => {
+            const sttProvider = new StubSTTService('Bonjour !');
+            const transcribe = jest.spyOn(sttProvider, 'transcribe');
+            const generateChat = jest.fn().mockResolvedValue('Bienvenue !');
+            createManager({ locale: 'de-DE', sttProvider, llmProvider: { generateText, generateChat } });
+
+            await aiManager.generateNpcDialogue('npc-1', undefined, { locale: 'en' });
+            expect(generateText.mock.calls[0][0]).toMatch(/Always speak English/);
+
+            await aiManager.sendPlayerSpeech('npc-1', new ArrayBuffer(16), { locale: 'fr-FR' });
+            expect(transcribe).toHaveBeenCalledWith(expect.any(ArrayBuffer), expect.objectContaining({ languageCode: 'fr' }));
+            expect(generateChat.mock.calls[0][1].systemPrompt).toMatch(/Always speak French \(France\)/);
+            expect(generateSpeech).toHaveBeenLastCalledWith('Bienvenue !', { voiceId: 'narrator', languageCode: 'fr', signal, onUsage });
+        });
+
+        it('should show a translation of the line in the subtitle language', async () => {
+            createManager({ locale: 'de-DE', subtitleLocale: 'en-US' });
+            generateText.mockResolvedValueOnce('Willkommen, Reisender.').mockResolvedValueOnce(' Welcome, traveler. ');
+            const starts = jest.fn();
+            aiManager.on(AIPluginEvent.DialogueStart, starts);
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(generateText.mock.calls[1][0]).toMatch(/^Translate this line of game dialogue into American English\./);
+            expect(generateText.mock.calls[1][0]).toMatch(/Willkommen, Reisender\.$/);
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Willkommen, Reisender.', { entityId: 'npc-1', translation: 'Welcome, traveler.' });
+            expect(starts).toHaveBeenCalledWith({ entityId: 'npc-1', text: 'Willkommen, Reisender.', translation: 'Welcome, traveler.' });
+        });
+
+        it('should not translate lines already in the subtitle language and show the line when translating fails', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            createManager({ subtitleLocale: 'en-GB' });
+            await aiManager.generateNpcDialogue('npc-1');
+            expect(generateText).toHaveBeenCalledTimes(1);
+
+            generateText.mockClear();
+            generateText.mockResolvedValueOnce('Willkommen, Reisender.').mockRejectedValueOnce(new ServiceUnavailableError('gemini', 'Down.'));
+            const errors = jest.fn();
+            aiManager.on(AIPluginEvent.Error, errors);
+            await aiManager.generateNpcDialogue('npc-1', undefined, { locale: 'de' });
+
+            expect(adapter.showDialogue).toHaveBeenLastCalledWith('Willkommen, Reisender.', { entityId: 'npc-1' });
+            expect(errors).toHaveBeenCalledWith(expect.objectContaining({ stage: 'llm', message: 'Could not translate the line.' }));
+            expect(generateSpeech).toHaveBeenCalledTimes(2);
+            consoleErrorSpy.mockRestore();
+        });
+    });
+
+    describe('with speech timings', () => {
+        const alignment = [{ character: 'H', startMs: 0, endMs: 100 }, { character: 'i', startMs: 100, endMs: 300 }];
+
+        it('should ask for timings when the adapter animates speech and hand them over as the audio starts', async () => {
+            const timedAdapter = adapter as MockGameAdapter & { animateSpeech: jest.Mock };
+            const order: string[] = [];
+            timedAdapter.animateSpeech = jest.fn(() => order.push('animate'));
+            adapter.playAudio.mockImplementation(async () => {
+                order.push('play');
+            });
+            const generateSpeech = jest.fn().mockResolvedValue({ audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3', alignment });
+            aiManager = new AIManager(adapter, { llmProvider: { generateText: jest.fn().mockResolvedValue('Hi') }, ttsProvider: { generateSpeech } });
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(generateSpeech).toHaveBeenCalledWith('Hi', { withTimings: true, signal, onUsage });
+            expect(timedAdapter.animateSpeech).toHaveBeenCalledWith({
+                text: 'Hi',
+                durationMs: 300,
+                characters: alignment,
+                words: [{ word: 'Hi', offset: 0, startMs: 0, endMs: 300 }],
+                visemes: [{ viseme: 'ih', startMs: 0, endMs: 300 }],
+            }, { entityId: 'npc-1' });
+            expect(order).toEqual(['animate', 'play']);
+        });
+
+        it('should show the line again with the length of its audio once it is voiced', async () => {
+            // Half a second of 16 kHz mono 16-bit audio.
+            const wav = pcmToWav(new ArrayBuffer(16000), { sampleRate: 16000 });
+            const generateSpeech = jest.fn().mockResolvedValue({ audioData: wav, mimeType: 'audio/wav', format: 'wav' });
+            aiManager = new AIManager(adapter, { llmProvider: { generateText: jest.fn().mockResolvedValue('Hello there.') }, ttsProvider: { generateSpeech } });
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(adapter.showDialogue.mock.calls).toEqual([
+                ['Hello there.', { entityId: 'npc-1' }],
+                ['Hello there.', { entityId: 'npc-1', duration: 500 }],
+            ]);
+        });
+    });
+
+    describe('with audio processing', () => {
+        const pcm = { audioData: new Int16Array([1000, -1000]).buffer, mimeType: 'audio/pcm;rate=24000', format: 'pcm', sampleRate: 24000 };
+
+        it('should wrap raw PCM in a WAV header before it is played', async () => {
+            const generateSpeech = jest.fn().mockResolvedValue(pcm);
+            aiManager = new AIManager(adapter, { llmProvider: { generateText: jest.fn().mockResolvedValue('Hi') }, ttsProvider: { generateSpeech } });
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            const [audioData, options] = adapter.playAudio.mock.calls[0];
+            expect(options).toEqual({ entityId: 'npc-1', mimeType: 'audio/wav' });
+            expect(readWav(audioData)?.format).toEqual({ sampleRate: 24000, channels: 1, bitsPerSample: 16 });
+        });
+
+        it('should normalize the loudness of lines when asked', async () => {
+            const generateSpeech = jest.fn().mockResolvedValue(pcm);
+            aiManager = new AIManager(adapter, {
+                llmProvider: { generateText: jest.fn().mockResolvedValue('Hi') },
+                ttsProvider: { generateSpeech },
+                audioProcessing: { wrapPcm: false, normalizeLoudness: true },
+            });
+
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(Array.from(new Int16Array(adapter.playAudio.mock.calls[0][0]))).toEqual([3277, -3277]);
+            expect(adapter.playAudio.mock.calls[0][1].mimeType).toBe('audio/pcm;rate=24000');
+        });
+    });
+
+    describe('with scenes', () => {
+        const speech = { audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' };
+        const scene = JSON.stringify({
+            lines: [
+                { speaker: 'guard-1', line: 'Cold night.', emotion: 'sad' },
+                { speaker: 'guard-2', line: 'They always are.' },
+            ],
+        });
+        let generateText: jest.Mock;
+        let generateSpeech: jest.Mock;
+        let consoleLogSpy: jest.SpyInstance;
+        let consoleErrorSpy: jest.SpyInstance;
+
+        const createManager = (extraOptions: Partial<AIManagerOptions> = {}) => {
+            aiManager = new AIManager(adapter, { llmProvider: { generateText }, ttsProvider: { generateSpeech }, ...extraOptions });
+        };
+
+        beforeEach(() => {
+            generateText = jest.fn().mockResolvedValue(scene);
+            generateSpeech = jest.fn().mockResolvedValue(speech);
+            adapter.getEntityState.mockImplementation(async (entityId: string) => ({
+                name: entityId === 'guard-1' ? 'Bram' : 'Hilde',
+                personality: 'bored',
+                voiceId: `voice-${entityId}`,
+            }));
+            consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+            consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            createManager();
+        });
+
+        afterEach(() => {
+            consoleLogSpy.mockRestore();
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should write the scene in one request and deliver each line with its speaker\'s voice', async () => {
+            const lines = await aiManager.playScene(['guard-1', 'guard-2'], 'complaining about the night shift', { pauseMs: 0 });
+
+            expect(lines).toEqual([
+                { entityId: 'guard-1', line: 'Cold night.', emotion: 'sad' },
+                { entityId: 'guard-2', line: 'They always are.' },
+            ]);
+            expect(generateText).toHaveBeenCalledTimes(1);
+            const [prompt, requestOptions] = generateText.mock.calls[0];
+            expect(prompt).toContain('- guard-1: Bram, bored');
+            expect(prompt).toContain('- guard-2: Hilde, bored');
+            expect(prompt).toContain('The scene: complaining about the night shift');
+            expect(prompt).not.toContain('voice-guard-1');
+            expect(requestOptions.responseSchema.properties.lines.items.properties.speaker.enum).toEqual(['guard-1', 'guard-2']);
+
+            expect(generateSpeech.mock.calls.map(([text, speechOptions]) => [text, speechOptions.voiceId])).toEqual([
+                ['Cold night.', 'voice-guard-1'],
+                ['They always are.', 'voice-guard-2'],
+            ]);
+            expect(generateSpeech.mock.calls[0][1].voiceSettings).toEqual(EMOTION_VOICE_SETTINGS.sad);
+            expect(adapter.showDialogue.mock.calls).toEqual([
+                ['Cold night.', { entityId: 'guard-1', emotion: 'sad' }],
+                ['They always are.', { entityId: 'guard-2' }],
+            ]);
+            expect(adapter.hideDialogue.mock.calls).toEqual([['guard-1'], ['guard-2']]);
+            expect(adapter.playAudio.mock.calls.map(([, playOptions]) => playOptions.entityId)).toEqual(['guard-1', 'guard-2']);
+            expect(adapter.hideDialogue.mock.invocationCallOrder[0]).toBeLessThan(adapter.showDialogue.mock.invocationCallOrder[1]);
+        });
+
+        it('should end when the player starts talking to an NPC of the cast', async () => {
+            adapter.playAudio.mockReturnValue(new Promise(() => {}));
+
+            const handle = aiManager.playScene(['guard-1', 'guard-2'], 'gossip');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            expect(aiManager.isSpeaking('guard-2')).toBe(true);
+            await aiManager.startConversation('guard-2');
+
+            await expect(handle).resolves.toEqual([]);
+            expect(handle.status).toBe('cancelled');
+            expect(adapter.stopAudio.mock.calls).toEqual([['guard-1'], ['guard-2']]);
+            expect(adapter.showDialogue).toHaveBeenCalledTimes(1);
+        });
+
+        it('should regenerate a scene with a rejected line, reporting the NPC that would have said it', async () => {
+            const rejections = jest.fn();
+            const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            generateText.mockResolvedValueOnce(JSON.stringify({
+                lines: [{ speaker: 'guard-1', line: 'Evening.' }, { speaker: 'guard-2', line: 'Shut it, you bastard.' }],
+            }));
+            createManager({ moderation: { profanity: true } });
+            aiManager.on(AIPluginEvent.LineRejected, rejections);
+
+            const lines = await aiManager.playScene(['guard-1', 'guard-2'], 'gossip', { pauseMs: 0 });
+
+            expect(generateText).toHaveBeenCalledTimes(2);
+            expect(rejections).toHaveBeenCalledWith(expect.objectContaining({ entityId: 'guard-2', text: 'Shut it, you bastard.', filter: 'profanity' }));
+            expect(lines.map(({ line }) => line)).toEqual(['Cold night.', 'They always are.']);
+            consoleWarnSpy.mockRestore();
+        });
+
+        it('should report an error and deliver nothing when no valid scene is written', async () => {
+            const errors = jest.fn();
+            aiManager.on(AIPluginEvent.Error, errors);
+            generateText.mockResolvedValue('{"lines": [{"speaker": "the-innkeeper", "line": "Hello."}]}');
+
+            await expect(aiManager.playScene(['guard-1', 'guard-2'], 'gossip')).resolves.toEqual([]);
+
+            expect(generateText).toHaveBeenCalledTimes(3);
+            expect(generateText.mock.calls[1][0]).toContain('$.lines[0].speaker should be one of guard-1, guard-2');
+            expect(errors).toHaveBeenCalledWith(expect.objectContaining({ entityId: 'guard-1', stage: 'dialogue' }));
+            expect(adapter.showDialogue).not.toHaveBeenCalled();
+        });
+
+        it('should need at least two NPCs', () => {
+            expect(() => aiManager.playScene(['guard-1', 'guard-1'], 'gossip')).toThrow('A scene needs at least two NPCs.');
+        });
+    });
+
+    describe('with barks', () => {
+        const speech = { audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' };
+        let generateText: jest.Mock;
+        let generateSpeech: jest.Mock;
+        let consoleLogSpy: jest.SpyInstance;
+
+        beforeEach(() => {
+            generateText = jest.fn().mockResolvedValue('Careful with that scale.');
+            generateSpeech = jest.fn().mockResolvedValue(speech);
+            consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+            aiManager = new AIManager(adapter, {
+                llmProvider: { generateText },
+                ttsProvider: { generateSpeech },
+                audioCache: true,
+                barks: {
+                    rules: [{ event: 'item-picked-up', description: 'The player just picked up {{details.item}}.', cooldownMs: 0, reuseAfter: 1 }],
+                    globalCooldownMs: 0,
+                },
+            });
+        });
+
+        afterEach(() => {
+            consoleLogSpy.mockRestore();
+        });
+
+        it('should generate a bark about the event, then reuse it with its cached audio', async () => {
+            const event = { type: 'item-picked-up', entityIds: ['npc-1'], details: { item: 'a Dragon Scale' } };
+
+            const [first] = await aiManager.pushGameEvent(event);
+            await expect(first).resolves.toBe('Careful with that scale.');
+            const [second] = await aiManager.pushGameEvent(event);
+            await expect(second).resolves.toBe('Careful with that scale.');
+
+            expect(generateText).toHaveBeenCalledTimes(1);
+            expect(generateText.mock.calls[0][0]).toContain('The player just picked up a Dragon Scale.\nSay a very short remark');
+            expect(generateSpeech).toHaveBeenCalledTimes(1);
+            expect(adapter.showDialogue.mock.calls).toEqual([
+                ['Careful with that scale.', { entityId: 'npc-1' }],
+                ['Careful with that scale.', { entityId: 'npc-1' }],
+            ]);
+            expect(adapter.playAudio).toHaveBeenCalledTimes(2);
+        });
+
+        it('should leave out NPCs that are speaking and events without rules', async () => {
+            adapter.playAudio.mockReturnValue(new Promise(() => {}));
+            aiManager.generateNpcDialogue('npc-1');
+            await new Promise((resolve) => setImmediate(resolve));
+            adapter.getEntityState.mockClear();
+
+            await expect(aiManager.pushGameEvent({ type: 'item-picked-up', entityIds: ['npc-1'] })).resolves.toEqual([]);
+            await expect(aiManager.pushGameEvent({ type: 'player-damaged', entityIds: ['npc-2'] })).resolves.toEqual([]);
+            expect(adapter.getEntityState).not.toHaveBeenCalled();
+            aiManager.interrupt('npc-1');
+        });
+
+        it('should use the rules added to its director later', async () => {
+            aiManager.barks.addRule({ event: 'player-damaged', lines: ['Ouch!'] });
+
+            const [handle] = await aiManager.pushGameEvent({ type: 'player-damaged', entityIds: ['npc-2'] });
+
+            await expect(handle).resolves.toBe('Ouch!');
+            expect(generateText).not.toHaveBeenCalled();
+            expect(generateSpeech).toHaveBeenCalledWith('Ouch!', expect.anything());
+        });
+    });
+
+    describe('with pre-baked assets', () => {
+        let generateText: jest.Mock;
+        let generateSpeech: jest.Mock;
+        let readAsset: jest.Mock;
+        let consoleLogSpy: jest.SpyInstance;
+
+        beforeEach(() => {
+            generateText = jest.fn().mockResolvedValue('Welcome back, traveler.');
+            generateSpeech = jest.fn().mockResolvedValue({ audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' });
+            readAsset = jest.fn().mockResolvedValue(new Uint8Array([1, 2, 3]).buffer);
+            consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+            const assets = new AssetLibrary({
+                version: 1,
+                lines: [{
+                    id: 'npc-1/greeting/0',
+                    entityId: 'npc-1',
+                    interaction: 'greeting',
+                    text: 'Welcome back, traveler.',
+                    audio: { file: 'abc.mp3', key: bakedAudioKey('Welcome back, traveler.'), mimeType: 'audio/mpeg', format: 'mp3' },
+                }],
+            }, readAsset);
+            aiManager = new AIManager(adapter, { llmProvider: { generateText }, ttsProvider: { generateSpeech }, assets });
+        });
+
+        afterEach(() => {
+            consoleLogSpy.mockRestore();
+        });
+
+        it('should say a pre-baked line with its audio without calling the live APIs', async () => {
+            await aiManager.generateNpcDialogue('npc-1');
+
+            expect(generateText).not.toHaveBeenCalled();
+            expect(generateSpeech).not.toHaveBeenCalled();
+            expect(readAsset).toHaveBeenCalledWith('abc.mp3');
+            expect(adapter.showDialogue).toHaveBeenCalledWith('Welcome back, traveler.', { entityId: 'npc-1' });
+            expect(adapter.playAudio).toHaveBeenCalledWith(expect.any(ArrayBuffer), { entityId: 'npc-1', mimeType: 'audio/mpeg' });
+        });
+
+        it('should generate lines with overrides or for other interactions, still playing pre-baked audio for them', async () => {
+            await aiManager.generateNpcDialogue('npc-1', { name: 'Cek' });
+            await aiManager.generateNpcDialogue('npc-1', undefined, { interaction: 'merchant' });
+
+            expect(generateText).toHaveBeenCalledTimes(2);
+            expect(generateText.mock.calls[1][0]).toContain('You are a merchant.');
+            expect(generateSpeech).not.toHaveBeenCalled();
+            expect(adapter.playAudio).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('when cancelling dialogue', () => {
+        let llmServiceInstance: jest.Mocked<GeminiService>;
+        let ttsServiceInstance: jest.Mocked<ElevenLabsTTSService>;
+        let consoleLogSpy: jest.SpyInstance;
+        const speech = { audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' };
+
+        beforeEach(() => {
+            llmServiceInstance = MockedGeminiService.mock.instances[0] as jest.Mocked<GeminiService>;
+            ttsServiceInstance = MockedElevenLabsTTSService.mock.instances[0] as jest.Mocked<ElevenLabsTTSService>;
+            ttsServiceInstance.generateSpeech = jest.fn().mockResolvedValue(speech);
+            consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            consoleLogSpy.mockRestore();
+        });
+
+        it('should abort a line that is still being generated without showing a fallback', async () => {
+            const fallbacks = jest.fn();
+            const errors = jest.fn();
+            aiManager.on(AIPluginEvent.Fallback, fallbacks);
+            aiManager.on(AIPluginEvent.Error, errors);
+            llmServiceInstance.generateText = jest.fn().mockReturnValue(new Promise(() => {}));
+
+            const handle = aiManager.generateNpcDialogue('npc-1');
+            await new Promise((resolve) => setImmediate(resolve));
+            expect(aiManager.isSpeaking('npc-1')).toBe(true);
+            handle.cancel();
+            await handle;
+
+            expect(handle.status).toBe('cancelled');
+            expect(llmServiceInstance.generateText.mock.calls[0][1]!.signal!.aborted).toBe(true);
+            expect(adapter.stopAudio).toHaveBeenCalledWith('npc-1');
+            expect(adapter.hideDialogue).toHaveBeenCalledWith('npc-1');
+            expect(adapter.showDialogue).not.toHaveBeenCalled();
+            expect(fallbacks).not.toHaveBeenCalled();
+            expect(errors).not.toHaveBeenCalled();
+            expect(aiManager.isSpeaking('npc-1')).toBe(false);
+        });
+
+        it('should queue lines by default and replace the current line with the replace policy', async () => {
+            let finishPlaying!: () => void;
+            adapter.playAudio.mockReturnValueOnce(new Promise<void>((resolve) => { finishPlaying = resolve; }));
+            llmServiceInstance.generateText = jest.fn()
+                .mockResolvedValueOnce('First line.')
+                .mockResolvedValueOnce('Replacement line.');
+
+            const first = aiManager.generateNpcDialogue('npc-1');
+            const second = aiManager.generateNpcDialogue('npc-1');
+            await new Promise((resolve) => setImmediate(resolve));
+            expect(adapter.showDialogue).toHaveBeenCalledTimes(1);
+            expect(second.status).toBe('queued');
+
+            const third = aiManager.generateNpcDialogue('npc-1', {}, { ifSpeaking: 'replace' });
+            await Promise.all([first, second, third]);
+            finishPlaying();
+
+            expect(first.status).toBe('cancelled');
+            expect(second.status).toBe('cancelled');
+            expect(adapter.stopAudio).toHaveBeenCalledWith('npc-1');
+            expect(llmServiceInstance.generateText).toHaveBeenCalledTimes(2);
+            expect(adapter.showDialogue.mock.calls.map(([text]) => text)).toEqual(['First line.', 'Replacement line.']);
+            expect(third.status).toBe('completed');
+        });
+
+        it('should drop a new line while the NPC is speaking with the drop policy', async () => {
+            const dropManager = new AIManager(adapter, { ...options, interruptPolicy: 'drop' });
+            const dropLlm = MockedGeminiService.mock.instances[1] as jest.Mocked<GeminiService>;
+            (MockedElevenLabsTTSService.mock.instances[1] as jest.Mocked<ElevenLabsTTSService>).generateSpeech = jest.fn().mockResolvedValue(speech);
+            dropLlm.generateText = jest.fn().mockResolvedValue('Busy.');
+
+            const first = dropManager.generateNpcDialogue('npc-1');
+            const second = dropManager.generateNpcDialogue('npc-1');
+            await Promise.all([first, second]);
+
+            expect(second.status).toBe('dropped');
+            expect(dropLlm.generateText).toHaveBeenCalledTimes(1);
+        });
+
+        it('should forget a player message whose reply was cancelled', async () => {
+            const controller = new AbortController();
+            llmServiceInstance.generateChat = jest.fn().mockReturnValue(new Promise(() => {}));
+
+            const session = await aiManager.startConversation('npc-1');
+            const reply = session.sendPlayerMessage('Tell me everything.', { signal: controller.signal });
+            await new Promise((resolve) => setImmediate(resolve));
+            controller.abort();
+
+            await expect(reply).resolves.toBeNull();
+            expect(reply.status).toBe('cancelled');
+            expect(session.turns).toHaveLength(0);
+        });
+
+        it('should interrupt the NPC when its conversation ends', async () => {
+            llmServiceInstance.generateChat = jest.fn().mockReturnValue(new Promise(() => {}));
+
+            const session = await aiManager.startConversation('npc-1');
+            const reply = session.sendPlayerMessage('Are you there?');
+            await new Promise((resolve) => setImmediate(resolve));
+            await session.end();
+
+            await expect(reply).resolves.toBeNull();
+            expect(reply.status).toBe('cancelled');
+            expect(adapter.stopAudio).toHaveBeenCalledWith('npc-1');
+        });
     });
 
     describe('when handling service failures', () => {
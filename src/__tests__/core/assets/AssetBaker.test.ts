@@ -0,0 +1,98 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AssetBaker } from '../../../core/assets/AssetBaker';
+import { AssetIndex, AssetLibrary } from '../../../core/assets/AssetLibrary';
+import { AssetManifest } from '../../../core/assets/AssetManifest';
+
+describe('AssetBaker', () => {
+    let directory: string;
+    let generateText: jest.Mock;
+    let generateSpeech: jest.Mock;
+    let consoleErrorSpy: jest.SpyInstance;
+    const manifest: AssetManifest = {
+        game: { location: 'the Prancing Pony', timeOfDay: 'night' },
+        player: { name: 'Cek' },
+        npcs: {
+            'bartender-1': { state: { name: 'Bram', voiceId: 'voice-1' }, lines: [{ count: 2 }, { text: 'We are closed.' }] },
+            'guard-1': { state: { name: 'Hilde' }, lines: [{ interaction: 'bark', locale: 'de-DE' }] },
+        },
+    };
+
+    const readIndex = async (): Promise<AssetIndex> => JSON.parse(await fs.readFile(path.join(directory, 'index.json'), 'utf8'));
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'asset-baker-'));
+        let lines = 0;
+        generateText = jest.fn(async () => `Line ${++lines}.`);
+        // Every line gets the same audio, which is then stored once.
+        generateSpeech = jest.fn().mockResolvedValue({ audioData: new Uint8Array([1, 2, 3]).buffer, mimeType: 'audio/mpeg', format: 'mp3' });
+        consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        consoleErrorSpy.mockRestore();
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should generate and voice every line into a content-addressed directory with an index', async () => {
+        const onProgress = jest.fn();
+        const baker = new AssetBaker({ llm: { generateText }, tts: { generateSpeech }, outputDir: directory, concurrency: 1, onProgress });
+
+        await expect(baker.bake(manifest)).resolves.toEqual({ generated: 4, skipped: 0, failed: [] });
+
+        expect(generateText).toHaveBeenCalledTimes(3);
+        expect(generateText.mock.calls[0][0]).toContain('You are Bram');
+        expect(generateText.mock.calls[1][0]).toContain('Say something different from what you said before:\n- Line 1.');
+        expect(generateText.mock.calls[2][0]).toContain('Always speak German');
+        expect(generateSpeech).toHaveBeenCalledWith('We are closed.', { voiceId: 'voice-1', withTimings: true });
+        expect(generateSpeech).toHaveBeenCalledWith('Line 3.', { languageCode: 'de', withTimings: true });
+        expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'generated', done: 4, total: 4 }));
+
+        const files = await fs.readdir(directory);
+        expect(files.sort()).toEqual(['039058c6f2c0cb492c533b0a4d14ef77cc0f78abccced5287d84a1a2011cfb81.mp3', 'index.json']);
+        const index = await readIndex();
+        expect(index.lines.map(({ id, text }) => [id, text])).toEqual([
+            ['bartender-1/greeting/0', 'Line 1.'],
+            ['bartender-1/greeting/1', 'Line 2.'],
+            [expect.stringMatching(/^bartender-1\/greeting\/[0-9a-f]{12}$/), 'We are closed.'],
+            ['guard-1/bark@de-DE/0', 'Line 3.'],
+        ]);
+
+        const library = await AssetLibrary.fromDirectory(directory);
+        expect(library.linesFor('bartender-1', 'greeting')).toEqual(['Line 1.', 'Line 2.', 'We are closed.']);
+        expect(library.linesFor('guard-1', 'bark', 'de-DE')).toEqual(['Line 3.']);
+        await expect(library.speechFor('We are closed.', { voiceId: 'voice-1' })).resolves.not.toBeNull();
+    });
+
+    it('should retry failed lines, give them up, and resume with them on the next run', async () => {
+        generateSpeech.mockImplementation(async (text: string) => {
+            if (text === 'Line 2.') {
+                throw new Error('Service unavailable');
+            }
+            return { audioData: new Uint8Array([text.length]).buffer, mimeType: 'audio/mpeg', format: 'mp3' };
+        });
+        const options = { llm: { generateText }, tts: { generateSpeech }, outputDir: directory, concurrency: 1, maxRetries: 1 };
+
+        const report = await new AssetBaker(options).bake(manifest);
+
+        expect(report).toEqual({ generated: 3, skipped: 0, failed: [{ id: 'bartender-1/greeting/1', error: 'Service unavailable' }] });
+        // The text of the failed line is kept, so only its audio is asked for again.
+        expect(generateSpeech.mock.calls.filter(([text]) => text === 'Line 2.')).toHaveLength(2);
+        expect((await readIndex()).lines.find(({ id }) => id === 'bartender-1/greeting/1')).not.toHaveProperty('audio');
+
+        generateSpeech.mockResolvedValue({ audioData: new Uint8Array([9]).buffer, mimeType: 'audio/mpeg', format: 'mp3' });
+        generateText.mockClear();
+
+        await expect(new AssetBaker(options).bake(manifest)).resolves.toEqual({ generated: 1, skipped: 3, failed: [] });
+        expect(generateText).not.toHaveBeenCalled();
+        expect((await readIndex()).lines.every(({ audio }) => audio)).toBe(true);
+    });
+
+    it('should only write text without a TTS provider', async () => {
+        await expect(new AssetBaker({ llm: { generateText }, outputDir: directory }).bake(manifest)).resolves.toEqual({ generated: 4, skipped: 0, failed: [] });
+
+        expect(await fs.readdir(directory)).toEqual(['index.json']);
+        await expect(new AssetBaker({ llm: { generateText }, outputDir: directory }).bake(manifest)).resolves.toMatchObject({ skipped: 4 });
+    });
+});
@@ -0,0 +1,64 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AssetIndex, AssetLibrary, bakedAudioKey } from '../../../core/assets/AssetLibrary';
+
+describe('AssetLibrary', () => {
+    const voice = { voiceId: 'voice-1', voiceSettings: { stability: 0.5 } };
+    const index: AssetIndex = {
+        version: 1,
+        lines: [
+            { id: 'npc-1/greeting/0', entityId: 'npc-1', interaction: 'greeting', text: 'Welcome.', audio: { file: 'abc.mp3', key: bakedAudioKey('Welcome.', voice), mimeType: 'audio/mpeg', format: 'mp3', durationMs: 800 } },
+            { id: 'npc-1/greeting@de-DE/0', entityId: 'npc-1', interaction: 'greeting', locale: 'de-DE', text: 'Willkommen.' },
+            { id: 'npc-1/bark/0', entityId: 'npc-1', interaction: 'bark', text: 'Hm.' },
+        ],
+    };
+
+    it('should list the lines of an NPC, interaction and locale', () => {
+        const library = new AssetLibrary(index, jest.fn());
+
+        expect(library.size).toBe(3);
+        expect(library.linesFor('npc-1', 'greeting')).toEqual(['Welcome.']);
+        expect(library.linesFor('npc-1', 'greeting', 'de-DE')).toEqual(['Willkommen.']);
+        expect(library.linesFor('npc-2', 'greeting')).toEqual([]);
+    });
+
+    it('should find audio by the line and its voice, whatever the model', async () => {
+        const readAsset = jest.fn().mockResolvedValue(new Uint8Array([1, 2]).buffer);
+        const library = new AssetLibrary(index, readAsset);
+
+        await expect(library.speechFor('Welcome.', { ...voice, withTimings: true })).resolves.toEqual({
+            audioData: expect.any(ArrayBuffer), mimeType: 'audio/mpeg', format: 'mp3', durationMs: 800,
+        });
+        expect(readAsset).toHaveBeenCalledWith('abc.mp3');
+        await expect(library.speechFor('Welcome.', { voiceId: 'voice-2' })).resolves.toBeNull();
+        await expect(library.speechFor('Hm.')).resolves.toBeNull();
+    });
+
+    it('should miss when an audio file cannot be read', async () => {
+        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+        const library = new AssetLibrary(index, jest.fn().mockRejectedValue(new Error('404')));
+
+        await expect(library.speechFor('Welcome.', voice)).resolves.toBeNull();
+        consoleErrorSpy.mockRestore();
+    });
+
+    it('should reject indexes of other versions', () => {
+        expect(() => new AssetLibrary({ version: 2, lines: [] }, jest.fn())).toThrow('Unsupported asset index: expected version 1.');
+    });
+
+    it('should open an asset directory', async () => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'asset-library-'));
+        try {
+            await fs.writeFile(path.join(directory, 'index.json'), JSON.stringify(index), 'utf8');
+            await fs.writeFile(path.join(directory, 'abc.mp3'), new Uint8Array([7, 8, 9]));
+
+            const library = await AssetLibrary.fromDirectory(directory);
+            const speech = await library.speechFor('Welcome.', voice);
+
+            expect(Array.from(new Uint8Array(speech!.audioData))).toEqual([7, 8, 9]);
+        } finally {
+            await fs.rm(directory, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,48 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { loadManifest, parseManifest } from '../../../core/assets/AssetManifest';
+
+describe('AssetManifest', () => {
+    it('should read a JSON manifest', () => {
+        const manifest = parseManifest(JSON.stringify({
+            player: { name: 'Cek' },
+            npcs: { 'bartender-1': { state: { name: 'Bram' }, lines: [{ interaction: 'greeting', count: 3 }, { text: 'We are closed.' }] } },
+        }));
+
+        expect(manifest.npcs['bartender-1'].lines).toEqual([{ interaction: 'greeting', count: 3 }, { text: 'We are closed.' }]);
+    });
+
+    it('should name the first invalid field', () => {
+        expect(() => parseManifest('{}')).toThrow('npcs must be an object keyed by entity ID.');
+        expect(() => parseManifest('{"npcs":{"a":{}}}')).toThrow('npcs.a.lines must be a list.');
+        expect(() => parseManifest('{"npcs":{"a":{"lines":[{"count":0}]}}}')).toThrow('npcs.a.lines[0].count must be a positive integer.');
+        expect(() => parseManifest('{"npcs":{"a":{"lines":[{"text":" "}]}}}')).toThrow('npcs.a.lines[0].text must be a non-empty string.');
+    });
+
+    it('should load YAML manifests by their file extension', async () => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'asset-manifest-'));
+        try {
+            const file = path.join(directory, 'manifest.yml');
+            await fs.writeFile(file, [
+                'setting: A frozen northern kingdom.',
+                'npcs:',
+                '  guard-1:',
+                '    state:',
+                '      name: Hilde',
+                '      voiceId: voice-1',
+                '    lines:',
+                '      - interaction: bark',
+                '        count: 2',
+                '      - text: Halt!',
+            ].join('\n'), 'utf8');
+
+            await expect(loadManifest(file)).resolves.toEqual({
+                setting: 'A frozen northern kingdom.',
+                npcs: { 'guard-1': { state: { name: 'Hilde', voiceId: 'voice-1' }, lines: [{ interaction: 'bark', count: 2 }, { text: 'Halt!' }] } },
+            });
+        } finally {
+            await fs.rm(directory, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,47 @@
+import { audioDurationMs } from '../../../core/audio/duration';
+
+/** A PCM WAV file with `dataBytes` bytes of silence. */
+function wav(sampleRate: number, channels: number, dataBytes: number, declaredSize = dataBytes): ArrayBuffer {
+    const buffer = new ArrayBuffer(44 + dataBytes);
+    const view = new DataView(buffer);
+    const write = (offset: number, text: string) => text.split('').forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+    write(0, 'RIFF');
+    view.setUint32(4, 36 + dataBytes, true);
+    write(8, 'WAVE');
+    write(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, channels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * channels * 2, true);
+    view.setUint16(32, channels * 2, true);
+    view.setUint16(34, 16, true);
+    write(36, 'data');
+    view.setUint32(40, declaredSize, true);
+    return buffer;
+}
+
+describe('audioDurationMs', () => {
+    it('should measure WAV files from their byte rate, also when the data size is unknown', () => {
+        expect(audioDurationMs(wav(16000, 1, 32000), 'wav')).toBe(1000);
+        expect(audioDurationMs(wav(22050, 2, 44100, 0xFFFFFFFF), 'wav')).toBe(500);
+        expect(audioDurationMs(new ArrayBuffer(8), 'wav')).toBeUndefined();
+    });
+
+    it('should estimate MP3s from the bitrate of their first frame, after an ID3 tag', () => {
+        // An ID3v2 tag with 4 bytes of content, then an MPEG-1 layer III frame header at 128 kbit/s.
+        const mp3 = new Uint8Array(10 + 4 + 16000);
+        mp3.set([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 4]);
+        mp3.set([0xFF, 0xFB, 0x90, 0x64], 14);
+
+        expect(audioDurationMs(mp3.buffer, 'mp3')).toBe(1000);
+        expect(audioDurationMs(new ArrayBuffer(8), 'mp3')).toBeUndefined();
+        expect(audioDurationMs(new ArrayBuffer(8), 'ogg')).toBeUndefined();
+    });
+
+    it('should measure raw PCM and ulaw from their sample rate', () => {
+        expect(audioDurationMs(new ArrayBuffer(48000), 'pcm', 24000)).toBe(1000);
+        expect(audioDurationMs(new ArrayBuffer(4000), 'ulaw', 8000)).toBe(500);
+        expect(audioDurationMs(new ArrayBuffer(48000), 'pcm')).toBeUndefined();
+    });
+});
@@ -0,0 +1,86 @@
+import { concatSpeech, normalizeLoudness, processSpeech, wrapPcm } from '../../../core/audio/processing';
+import { pcmToWav, readWav } from '../../../core/audio/wav';
+import { TTSResult } from '../../../core/tts/TTSProvider';
+
+const pcm = (samples: number[], sampleRate = 24000): TTSResult => ({
+    audioData: new Int16Array(samples).buffer,
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+    format: 'pcm',
+    sampleRate,
+});
+
+const wav = (samples: number[], sampleRate = 24000): TTSResult => ({
+    audioData: pcmToWav(new Int16Array(samples).buffer, { sampleRate }),
+    mimeType: 'audio/wav',
+    format: 'wav',
+});
+
+const samplesOf = (speech: TTSResult): number[] => {
+    const contents = readWav(speech.audioData);
+    return Array.from(contents ? new Int16Array(contents.samples.slice().buffer) : new Int16Array(speech.audioData));
+};
+
+describe('concatSpeech', () => {
+    it('should merge WAV pieces into one file', () => {
+        const result = concatSpeech([wav([1, 2]), wav([3])]);
+
+        expect(result.format).toBe('wav');
+        expect(samplesOf(result)).toEqual([1, 2, 3]);
+        expect(readWav(result.audioData)?.format.sampleRate).toBe(24000);
+    });
+
+    it('should join other formats end to end and keep their sample rate', () => {
+        const mp3 = (bytes: number[]): TTSResult => ({ audioData: new Uint8Array(bytes).buffer, mimeType: 'audio/mpeg', format: 'mp3' });
+
+        expect(Array.from(new Uint8Array(concatSpeech([mp3([1, 2]), mp3([3])]).audioData))).toEqual([1, 2, 3]);
+        expect(concatSpeech([pcm([1]), pcm([2])])).toMatchObject({ format: 'pcm', sampleRate: 24000 });
+        expect(samplesOf(concatSpeech([pcm([1]), pcm([2])]))).toEqual([1, 2]);
+    });
+});
+
+describe('wrapPcm', () => {
+    it('should turn raw PCM into a WAV file and leave other audio alone', () => {
+        const result = wrapPcm(pcm([7, 8], 16000));
+
+        expect(result).toMatchObject({ mimeType: 'audio/wav', format: 'wav' });
+        expect(result).not.toHaveProperty('sampleRate');
+        expect(readWav(result.audioData)?.format.sampleRate).toBe(16000);
+        expect(samplesOf(result)).toEqual([7, 8]);
+
+        const mp3: TTSResult = { audioData: new ArrayBuffer(4), mimeType: 'audio/mpeg', format: 'mp3' };
+        expect(wrapPcm(mp3)).toBe(mp3);
+    });
+});
+
+describe('normalizeLoudness', () => {
+    it('should scale quiet audio to the target level', () => {
+        // An RMS of 1000 is about -30 dBFS; -20 dBFS needs a gain of about 3.28.
+        const result = normalizeLoudness(wav([1000, -1000, 1000, -1000]), -20);
+
+        expect(samplesOf(result)).toEqual([3277, -3277, 3277, -3277]);
+    });
+
+    it('should not let peaks clip or amplify by more than 20 dB', () => {
+        expect(Math.max(...samplesOf(normalizeLoudness(pcm([30000, 100, 100, 100]), -3)))).toBe(32767);
+        expect(samplesOf(normalizeLoudness(pcm([10, -10]), -20))).toEqual([100, -100]);
+    });
+
+    it('should leave silence and formats it cannot read unchanged', () => {
+        const silence = pcm([0, 0]);
+        const mp3: TTSResult = { audioData: new ArrayBuffer(4), mimeType: 'audio/mpeg', format: 'mp3' };
+
+        expect(normalizeLoudness(silence)).toBe(silence);
+        expect(normalizeLoudness(mp3)).toBe(mp3);
+    });
+});
+
+describe('processSpeech', () => {
+    it('should wrap PCM by default and normalize only when asked', () => {
+        const speech = pcm([1000, -1000]);
+
+        expect(processSpeech(speech).format).toBe('wav');
+        expect(processSpeech(speech, { wrapPcm: false })).toBe(speech);
+        expect(samplesOf(processSpeech(speech, { normalizeLoudness: true }))).toEqual([3277, -3277]);
+        expect(processSpeech(speech, { wrapPcm: false, normalizeLoudness: -30 })).toMatchObject({ format: 'pcm', sampleRate: 24000 });
+    });
+});
@@ -0,0 +1,37 @@
+import { pcmToWav, readWav } from '../../../core/audio/wav';
+
+describe('pcmToWav', () => {
+    it('should wrap samples in a header that readWav reads back', () => {
+        const wav = pcmToWav(new Uint8Array([1, 2, 3, 4]).buffer, { sampleRate: 24000 });
+
+        expect(wav.byteLength).toBe(48);
+        const contents = readWav(wav);
+        expect(contents?.format).toEqual({ sampleRate: 24000, channels: 1, bitsPerSample: 16 });
+        expect(Array.from(contents!.samples)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should write the byte rate of the given layout', () => {
+        const view = new DataView(pcmToWav(new Uint8Array(0), { sampleRate: 8000, channels: 2, bitsPerSample: 8 }));
+
+        expect(view.getUint32(28, true)).toBe(16000);
+        expect(view.getUint16(32, true)).toBe(2);
+    });
+});
+
+describe('readWav', () => {
+    it('should return null for audio that is not a WAV file', () => {
+        expect(readWav(new Uint8Array([0xFF, 0xFB, 0x90, 0x64]).buffer)).toBeNull();
+        expect(readWav(new ArrayBuffer(0))).toBeNull();
+    });
+
+    it('should skip unknown chunks before the samples', () => {
+        const wav = new Uint8Array(pcmToWav(new Uint8Array([5, 6]), { sampleRate: 16000 }));
+        // Insert a 2-byte LIST chunk between the fmt and data chunks.
+        const withList = new Uint8Array(wav.length + 10);
+        withList.set(wav.subarray(0, 36));
+        withList.set([0x4C, 0x49, 0x53, 0x54, 2, 0, 0, 0, 0, 0], 36);
+        withList.set(wav.subarray(36), 46);
+
+        expect(Array.from(readWav(withList.buffer)!.samples)).toEqual([5, 6]);
+    });
+});
@@ -0,0 +1,88 @@
+import { BarkDirector, BarkRule, GameEvent } from '../../../core/barks/BarkDirector';
+
+describe('BarkDirector', () => {
+    let now: number;
+    let random: jest.Mock;
+    const event: GameEvent = { type: 'item-picked-up', entityIds: ['npc-1', 'npc-2'], details: { item: 'Dragon Scale' } };
+    const npcStates = { 'npc-1': { name: 'Bram' }, 'npc-2': { name: 'Hilde' } };
+
+    const createDirector = (rules: BarkRule[], globalCooldownMs = 0) => new BarkDirector({ rules, globalCooldownMs, random, now: () => now });
+
+    beforeEach(() => {
+        now = 1_000_000;
+        random = jest.fn().mockReturnValue(0);
+    });
+
+    it('should let the first eligible NPC react and describe the event with the rule\'s template', () => {
+        const director = createDirector([{ event: 'item-picked-up', description: '{{npc.name}} saw the player pick up {{details.item}}.' }]);
+
+        expect(director.select(event, npcStates)).toEqual([
+            { entityId: 'npc-1', rule: expect.anything(), description: 'Bram saw the player pick up Dragon Scale.' },
+        ]);
+        expect(director.select({ ...event, type: 'player-damaged' }, npcStates)).toEqual([]);
+    });
+
+    it('should describe events without a description by their type and details', () => {
+        const director = createDirector([{ event: 'item-picked-up' }]);
+
+        expect(director.select(event, npcStates)[0].description).toBe('Something just happened: item-picked-up (item: Dragon Scale).');
+    });
+
+    it('should keep NPCs quiet during the rule\'s and the global cooldown', () => {
+        const rule: BarkRule = { event: 'item-picked-up', cooldownMs: 5000, maxReactions: 2 };
+        const director = createDirector([rule, { event: 'player-damaged' }], 2000);
+
+        expect(director.select(event, npcStates)).toHaveLength(2);
+        now += 1000;
+        expect(director.select({ ...event, type: 'player-damaged' }, npcStates)).toEqual([]);
+        now += 2000;
+        expect(director.select(event, npcStates)).toEqual([]);
+        expect(director.select({ ...event, type: 'player-damaged' }, npcStates).map(({ entityId }) => entityId)).toEqual(['npc-1']);
+        now += 3000;
+        expect(director.select(event, npcStates).map(({ entityId }) => entityId)).toEqual(['npc-1', 'npc-2']);
+    });
+
+    it('should apply the probability, filter and range, closest NPCs first', () => {
+        const director = createDirector([{ event: 'player-damaged', probability: 0.5, maxReactions: 3, filter: (npc) => npc.role === 'guard' }]);
+        random.mockReturnValueOnce(0.7).mockReturnValue(0.2);
+        const states = {
+            far: { role: 'guard', position: { x: 30, y: 0 }, barkRange: 20 },
+            near: { role: 'guard', position: { x: 3, y: 4 } },
+            unplaced: { role: 'guard' },
+            merchant: { role: 'merchant', position: { x: 0, y: 0 } },
+            middle: { role: 'guard', position: { x: 10, y: 0 } },
+        };
+
+        const reactions = director.select({ type: 'player-damaged', entityIds: Object.keys(states), position: { x: 0, y: 0 } }, states);
+
+        // near loses the roll; far is out of its barkRange.
+        expect(reactions.map(({ entityId }) => entityId)).toEqual(['middle', 'unplaced']);
+    });
+
+    it('should pick fixed lines, and repeat generated lines once enough were said', () => {
+        const fixed: BarkRule = { event: 'time-of-day-changed', lines: ['Getting dark.'] };
+        const generated: BarkRule = { event: 'item-picked-up', reuseAfter: 2, cooldownMs: 0 };
+        const director = createDirector([fixed, generated]);
+
+        expect(director.select({ type: 'time-of-day-changed', entityIds: ['npc-1'] }, { 'npc-1': {} })[0].line).toBe('Getting dark.');
+
+        director.remember(generated, 'npc-2', 'Nice scale.');
+        expect(director.select(event, { 'npc-2': {} })[0]).not.toHaveProperty('line');
+        director.remember(generated, 'npc-2', 'Nice scale.');
+        director.remember(generated, 'npc-2', 'Shiny!');
+        random.mockReturnValueOnce(0).mockReturnValueOnce(0.9);
+        expect(director.select(event, { 'npc-2': {} })[0].line).toBe('Shiny!');
+        expect(director.select(event, { 'npc-1': {} })[0]).not.toHaveProperty('line');
+    });
+
+    it('should forget cooldowns and lines on reset', () => {
+        const rule: BarkRule = { event: 'item-picked-up', reuseAfter: 1 };
+        const director = createDirector([rule]);
+        director.select(event, npcStates);
+        director.remember(rule, 'npc-1', 'Nice.');
+
+        director.reset();
+
+        expect(director.select(event, npcStates)).toEqual([{ entityId: 'npc-1', rule, description: expect.any(String) }]);
+    });
+});
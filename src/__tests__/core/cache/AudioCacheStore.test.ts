@@ -0,0 +1,122 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AdapterAudioCacheStore } from '../../../core/cache/AdapterAudioCacheStore';
+import { CachedAudio, InMemoryAudioCacheStore } from '../../../core/cache/AudioCacheStore';
+import { FileAudioCacheStore } from '../../../core/cache/FileAudioCacheStore';
+import { MockGameAdapter } from '../../mocks/MockGameAdapter';
+
+const entry = (bytes: number[], createdAt = 1000): CachedAudio => ({
+    audioData: new Uint8Array(bytes).buffer,
+    mimeType: 'audio/mpeg',
+    format: 'mp3',
+    createdAt,
+});
+
+describe('InMemoryAudioCacheStore', () => {
+    it('should evict the least recently used entries beyond the byte budget', async () => {
+        const store = new InMemoryAudioCacheStore(10);
+        await store.set('a', entry([1, 2, 3, 4]));
+        await store.set('b', entry([5, 6, 7, 8]));
+        await store.get('a');
+        await store.set('c', entry([9, 10, 11, 12]));
+
+        expect(await store.get('a')).not.toBeNull();
+        expect(await store.get('b')).toBeNull();
+        expect(await store.get('c')).not.toBeNull();
+        expect(store.size).toBe(8);
+    });
+
+    it('should not cache entries larger than the whole budget', async () => {
+        const store = new InMemoryAudioCacheStore(2);
+        await store.set('a', entry([1, 2, 3]));
+        expect(await store.get('a')).toBeNull();
+        expect(store.size).toBe(0);
+    });
+
+    it('should replace, delete and clear entries', async () => {
+        const store = new InMemoryAudioCacheStore();
+        await store.set('a', entry([1, 2]));
+        await store.set('a', entry([1, 2, 3]));
+        expect(store.size).toBe(3);
+
+        await store.delete('a');
+        expect(await store.get('a')).toBeNull();
+
+        await store.set('b', entry([1]));
+        await store.clear();
+        expect(await store.get('b')).toBeNull();
+        expect(store.size).toBe(0);
+    });
+});
+
+describe('FileAudioCacheStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'audio-cache-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write audio and metadata files and read them back in a new store', async () => {
+        const cacheDirectory = path.join(directory, 'cache');
+        await new FileAudioCacheStore(cacheDirectory).set('abc123', entry([1, 2, 3], 42));
+
+        expect(await fs.readdir(cacheDirectory)).toEqual(['abc123.json', 'abc123.mp3']);
+        const cached = await new FileAudioCacheStore(cacheDirectory).get('abc123');
+        expect(cached).toEqual({ mimeType: 'audio/mpeg', format: 'mp3', createdAt: 42, audioData: expect.any(ArrayBuffer) });
+        expect(Array.from(new Uint8Array(cached!.audioData))).toEqual([1, 2, 3]);
+    });
+
+    it('should delete and clear entries', async () => {
+        const store = new FileAudioCacheStore(directory);
+        await store.set('a', entry([1]));
+        await store.set('b', entry([2]));
+
+        await store.delete('a');
+        expect(await store.get('a')).toBeNull();
+        expect(await store.get('b')).not.toBeNull();
+
+        await store.clear();
+        expect(await fs.readdir(directory)).toEqual([]);
+    });
+
+    it('should miss when nothing is cached yet', async () => {
+        const store = new FileAudioCacheStore(path.join(directory, 'missing'));
+        expect(await store.get('a')).toBeNull();
+        await expect(store.clear()).resolves.toBeUndefined();
+    });
+});
+
+describe('AdapterAudioCacheStore', () => {
+    it('should require the adapter persistence hooks', () => {
+        expect(() => new AdapterAudioCacheStore(new MockGameAdapter())).toThrow('The game adapter must implement saveData and loadData to cache audio.');
+    });
+
+    it('should save base64-encoded entries with an index through the adapter', async () => {
+        const saved = new Map<string, unknown>();
+        const adapter = Object.assign(new MockGameAdapter(), {
+            saveData: jest.fn(async (key: string, data: unknown) => {
+                saved.set(key, data);
+            }),
+            loadData: jest.fn(async (key: string) => saved.get(key)),
+        });
+        const store = new AdapterAudioCacheStore(adapter, 'audio:');
+
+        await store.set('a', entry([104, 105], 7));
+
+        expect(saved.get('audio:a')).toEqual({ audio: 'aGk=', mimeType: 'audio/mpeg', format: 'mp3', createdAt: 7 });
+        expect(saved.get('audio:index')).toEqual(['a']);
+        const cached = await store.get('a');
+        expect(Array.from(new Uint8Array(cached!.audioData))).toEqual([104, 105]);
+
+        await store.set('b', entry([1]));
+        await store.clear();
+        expect(saved.get('audio:a')).toBeNull();
+        expect(saved.get('audio:b')).toBeNull();
+        expect(saved.get('audio:index')).toEqual([]);
+    });
+});
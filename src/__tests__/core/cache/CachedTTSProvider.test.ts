@@ -0,0 +1,122 @@
+import { InMemoryAudioCacheStore } from '../../../core/cache/AudioCacheStore';
+import { audioCacheKey, CachedTTSProvider } from '../../../core/cache/CachedTTSProvider';
+import { TTSResult } from '../../../core/tts/TTSProvider';
+
+const speech = (bytes: number[]): TTSResult => ({ audioData: new Uint8Array(bytes).buffer, mimeType: 'audio/mpeg', format: 'mp3' });
+
+describe('audioCacheKey', () => {
+    it('should depend on text, voice, model, settings and namespace but not on settings order', () => {
+        const key = audioCacheKey('Hello', { voiceId: 'v1', voiceSettings: { stability: 0.5, style: 0.2 } }, 'm1', 'default');
+
+        expect(key).toMatch(/^[0-9a-f]{16}$/);
+        expect(audioCacheKey('Hello', { voiceId: 'v1', voiceSettings: { style: 0.2, stability: 0.5 } }, 'm1', 'default')).toBe(key);
+        expect(audioCacheKey('Hello!', { voiceId: 'v1', voiceSettings: { stability: 0.5, style: 0.2 } }, 'm1', 'default')).not.toBe(key);
+        expect(audioCacheKey('Hello', { voiceId: 'v2', voiceSettings: { stability: 0.5, style: 0.2 } }, 'm1', 'default')).not.toBe(key);
+        expect(audioCacheKey('Hello', { voiceId: 'v1', voiceSettings: { stability: 0.6, style: 0.2 } }, 'm1', 'default')).not.toBe(key);
+        expect(audioCacheKey('Hello', { voiceId: 'v1', voiceSettings: { stability: 0.5, style: 0.2 } }, 'm2', 'default')).not.toBe(key);
+        expect(audioCacheKey('Hello', { voiceId: 'v1', voiceSettings: { stability: 0.5, style: 0.2 } }, 'm1', 'piper')).not.toBe(key);
+    });
+
+    it('should depend on the output format only when one is given', () => {
+        const key = audioCacheKey('Hello', { voiceId: 'v1' }, 'm1', 'default');
+
+        expect(audioCacheKey('Hello', { voiceId: 'v1' }, 'm1', 'default', '')).toBe(key);
+        expect(audioCacheKey('Hello', { voiceId: 'v1' }, 'm1', 'default', 'pcm_24000')).not.toBe(key);
+    });
+});
+
+describe('CachedTTSProvider', () => {
+    let provider: { modelId: string; generateSpeech: jest.Mock; generateSpeechStream?: jest.Mock };
+    let onLookup: jest.Mock;
+
+    beforeEach(() => {
+        provider = { modelId: 'model-1', generateSpeech: jest.fn().mockResolvedValue(speech([1, 2])) };
+        onLookup = jest.fn();
+    });
+
+    it('should synthesize a line once and serve repeats from the cache', async () => {
+        const cached = new CachedTTSProvider(provider, new InMemoryAudioCacheStore(), { onLookup });
+
+        const first = await cached.generateSpeech('Hello', { voiceId: 'v1' });
+        const second = await cached.generateSpeech('Hello', { voiceId: 'v1' });
+        await cached.generateSpeech('Hello', { voiceId: 'v2' });
+
+        expect(second).toEqual(first);
+        expect(provider.generateSpeech).toHaveBeenCalledTimes(2);
+        expect(onLookup.mock.calls.map(([lookup]) => lookup.hit)).toEqual([false, true, false]);
+        expect(onLookup).toHaveBeenCalledWith({ key: expect.any(String), text: 'Hello', voiceId: 'v1', hit: true });
+        expect(cached.modelId).toBe('model-1');
+    });
+
+    it('should not cache failed syntheses', async () => {
+        provider.generateSpeech.mockResolvedValue(null);
+        const cached = new CachedTTSProvider(provider, new InMemoryAudioCacheStore());
+
+        expect(await cached.generateSpeech('Hello')).toBeNull();
+        expect(await cached.prewarm('Hello')).toBe(false);
+        expect(provider.generateSpeech).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep timings with the audio and synthesize again when cached audio has none', async () => {
+        const store = new InMemoryAudioCacheStore();
+        const cached = new CachedTTSProvider(provider, store);
+        const alignment = [{ character: 'H', startMs: 0, endMs: 80 }, { character: 'i', startMs: 80, endMs: 200 }];
+
+        await cached.generateSpeech('Hi');
+        provider.generateSpeech.mockResolvedValue({ ...speech([3, 4]), durationMs: 200, alignment });
+        const timed = await cached.generateSpeech('Hi', { withTimings: true });
+        const replayed = await cached.generateSpeech('Hi', { withTimings: true });
+
+        expect(provider.generateSpeech).toHaveBeenCalledTimes(2);
+        expect(replayed).toEqual(timed);
+        expect(replayed).toMatchObject({ durationMs: 200, alignment });
+    });
+
+    it('should expire entries older than the TTL', async () => {
+        const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1000);
+        const cached = new CachedTTSProvider(provider, new InMemoryAudioCacheStore(), { ttlMs: 500 });
+
+        await cached.generateSpeech('Hello');
+        nowSpy.mockReturnValue(1400);
+        await cached.generateSpeech('Hello');
+        nowSpy.mockReturnValue(2000);
+        await cached.generateSpeech('Hello');
+
+        expect(provider.generateSpeech).toHaveBeenCalledTimes(2);
+        nowSpy.mockRestore();
+    });
+
+    it('should cache a streamed line as one clip and replay it as a single chunk', async () => {
+        provider.generateSpeechStream = jest.fn().mockImplementation(async function* () {
+            yield speech([1, 2]);
+            yield speech([3]);
+        });
+        const cached = new CachedTTSProvider(provider, new InMemoryAudioCacheStore());
+
+        const streamed: TTSResult[] = [];
+        for await (const chunk of cached.generateSpeechStream('Hello')) {
+            streamed.push(chunk);
+        }
+        const replayed: TTSResult[] = [];
+        for await (const chunk of cached.generateSpeechStream('Hello')) {
+            replayed.push(chunk);
+        }
+
+        expect(streamed).toHaveLength(2);
+        expect(replayed).toHaveLength(1);
+        expect(Array.from(new Uint8Array(replayed[0].audioData))).toEqual([1, 2, 3]);
+        expect(provider.generateSpeechStream).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat store failures as misses', async () => {
+        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+        const store = new InMemoryAudioCacheStore();
+        store.get = jest.fn().mockRejectedValue(new Error('quota exceeded'));
+        store.set = jest.fn().mockRejectedValue(new Error('quota exceeded'));
+        const cached = new CachedTTSProvider(provider, store);
+
+        expect(await cached.generateSpeech('Hello')).toEqual(speech([1, 2]));
+        expect(consoleErrorSpy).toHaveBeenCalledTimes(2);
+        consoleErrorSpy.mockRestore();
+    });
+});
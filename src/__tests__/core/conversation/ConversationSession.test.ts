@@ -0,0 +1,95 @@
+import { ConversationController, ConversationSession, estimateTokens } from '../../../core/conversation/ConversationSession';
+import { DialogueHandle } from '../../../core/dialogue/DialogueQueue';
+import { LLMProvider } from '../../../core/llm/LLMProvider';
+
+describe('ConversationSession', () => {
+    let controller: jest.Mocked<ConversationController>;
+    let llm: jest.Mocked<LLMProvider>;
+
+    // 40 characters, i.e. 10 estimated tokens per turn.
+    const line = (label: string) => label.padEnd(40, '.');
+
+    beforeEach(() => {
+        controller = { sendPlayerMessage: jest.fn(), endConversation: jest.fn() };
+        llm = { generateText: jest.fn() };
+    });
+
+    it('should estimate about four characters per token', () => {
+        expect(estimateTokens('')).toBe(0);
+        expect(estimateTokens('abcd')).toBe(1);
+        expect(estimateTokens('abcde')).toBe(2);
+    });
+
+    it('should delegate sendPlayerMessage and end to its controller', async () => {
+        const reply = new DialogueHandle<string | null>('npc-1', null);
+        reply.start();
+        reply.complete('Hi.');
+        controller.sendPlayerMessage.mockReturnValue(reply);
+        const session = new ConversationSession('npc-1', 'You are Bob.', controller, llm);
+
+        await expect(session.sendPlayerMessage('Hello')).resolves.toBe('Hi.');
+        session.end();
+
+        expect(controller.sendPlayerMessage).toHaveBeenCalledWith('npc-1', 'Hello', {});
+        expect(controller.endConversation).toHaveBeenCalledWith('npc-1');
+    });
+
+    it('should keep the history untouched while it fits the budget', async () => {
+        const session = new ConversationSession('npc-1', 'You are Bob.', controller, llm, { maxHistoryTokens: 100 });
+        session.addTurn('user', line('u1'));
+        session.addTurn('model', line('m1'));
+
+        await session.fitToBudget();
+
+        expect(session.turns).toHaveLength(2);
+        expect(llm.generateText).not.toHaveBeenCalled();
+        expect(session.buildSystemPrompt()).toBe('You are Bob.');
+    });
+
+    it('should summarize the oldest turns once the budget is exceeded', async () => {
+        llm.generateText.mockResolvedValue(' The player asked about the mine. ');
+        const session = new ConversationSession('npc-1', 'You are Bob.', controller, llm, { maxHistoryTokens: 25 });
+        session.addTurn('user', line('u1'));
+        session.addTurn('model', line('m1'));
+        session.addTurn('user', line('u2'));
+        session.addTurn('model', line('m2'));
+        session.addTurn('user', line('u3'));
+        const signal = new AbortController().signal;
+
+        await session.fitToBudget(signal);
+
+        // u1, m1 and u2 leave to fit the budget, then m2 so the history starts with a user turn.
+        expect(session.turns.map((turn) => turn.text)).toEqual([line('u3')]);
+        expect(llm.generateText).toHaveBeenCalledWith(expect.stringContaining(`Player: ${line('u1')}\nNPC: ${line('m1')}`), { signal });
+        expect(session.conversationSummary).toBe('The player asked about the mine.');
+        expect(session.buildSystemPrompt()).toBe('You are Bob.\n\nSummary of the conversation so far: The player asked about the mine.');
+    });
+
+    it('should include the earlier summary when summarizing again', async () => {
+        llm.generateText.mockResolvedValueOnce('First summary.').mockResolvedValueOnce('Second summary.');
+        const session = new ConversationSession('npc-1', 'You are Bob.', controller, llm, { maxHistoryTokens: 15 });
+        session.addTurn('user', line('u1'));
+        session.addTurn('model', line('m1'));
+        session.addTurn('user', line('u2'));
+        await session.fitToBudget();
+        session.addTurn('model', line('m2'));
+        session.addTurn('user', line('u3'));
+        await session.fitToBudget();
+
+        expect(llm.generateText).toHaveBeenLastCalledWith(expect.stringContaining('Earlier summary: First summary.'), { signal: undefined });
+        expect(session.conversationSummary).toBe('Second summary.');
+    });
+
+    it('should drop old turns without calling the LLM when summarization is off', async () => {
+        const session = new ConversationSession('npc-1', 'You are Bob.', controller, llm, { maxHistoryTokens: 15, summarizeOldTurns: false });
+        session.addTurn('user', line('u1'));
+        session.addTurn('model', line('m1'));
+        session.addTurn('user', line('u2'));
+
+        await session.fitToBudget();
+
+        expect(session.turns.map((turn) => turn.text)).toEqual([line('u2')]);
+        expect(llm.generateText).not.toHaveBeenCalled();
+        expect(session.conversationSummary).toBeNull();
+    });
+});
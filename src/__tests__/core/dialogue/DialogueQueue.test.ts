@@ -0,0 +1,210 @@
+import { DialogueHandle, DialogueQueue } from '../../../core/dialogue/DialogueQueue';
+
+/** A task that runs until the test finishes it or its signal fires. */
+function controllableTask(log: string[], name: string) {
+    let finish!: (value: string) => void;
+    const task = jest.fn((signal: AbortSignal) => {
+        log.push(`start ${name}`);
+        return new Promise<string>((resolve) => {
+            finish = (value) => {
+                log.push(`end ${name}`);
+                resolve(value);
+            };
+            signal.addEventListener('abort', () => finish('aborted'));
+        });
+    });
+    return { task, finish: (value: string) => finish(value) };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('DialogueHandle', () => {
+    it('should resolve with the idle value when cancelled before it started', async () => {
+        const onCancel = jest.fn();
+        const handle = new DialogueHandle('npc-1', null, onCancel);
+
+        handle.cancel();
+
+        await expect(handle).resolves.toBeNull();
+        expect(handle.status).toBe('cancelled');
+        expect(handle.signal.aborted).toBe(true);
+        expect(onCancel).toHaveBeenCalledWith(false);
+        expect(handle.start()).toBe(false);
+    });
+
+    it('should ignore cancel once it has ended', async () => {
+        const onCancel = jest.fn();
+        const handle = new DialogueHandle<string | null>('npc-1', null, onCancel);
+        handle.start();
+        handle.complete('Hello.');
+
+        handle.cancel();
+
+        await expect(handle.result).resolves.toBe('Hello.');
+        expect(handle.status).toBe('completed');
+        expect(onCancel).not.toHaveBeenCalled();
+    });
+});
+
+describe('DialogueQueue', () => {
+    let onInterrupt: jest.Mock;
+    let consoleLogSpy: jest.SpyInstance;
+    let log: string[];
+
+    beforeEach(() => {
+        onInterrupt = jest.fn();
+        consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+        log = [];
+    });
+
+    afterEach(() => {
+        consoleLogSpy.mockRestore();
+    });
+
+    it('should run the lines of one NPC one after another and other NPCs in parallel', async () => {
+        const queue = new DialogueQueue('queue', onInterrupt);
+        const first = controllableTask(log, 'first');
+        const second = controllableTask(log, 'second');
+        const other = controllableTask(log, 'other');
+
+        const firstHandle = queue.run('npc-1', first.task, '');
+        const secondHandle = queue.run('npc-1', second.task, '');
+        queue.run('npc-2', other.task, '');
+        await flush();
+
+        expect(log).toEqual(['start first', 'start other']);
+        expect(secondHandle.status).toBe('queued');
+        expect(queue.isSpeaking('npc-1')).toBe(true);
+
+        first.finish('one');
+        await expect(firstHandle).resolves.toBe('one');
+        await flush();
+        second.finish('two');
+        await expect(secondHandle).resolves.toBe('two');
+        await flush();
+
+        expect(log).toEqual(['start first', 'start other', 'end first', 'start second', 'end second']);
+        expect(queue.isSpeaking('npc-1')).toBe(false);
+        expect(queue.isSpeaking('npc-2')).toBe(true);
+        expect(onInterrupt).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the current line before starting the new one with the replace policy', async () => {
+        const queue = new DialogueQueue('replace', onInterrupt);
+        const first = controllableTask(log, 'first');
+        const second = controllableTask(log, 'second');
+
+        const firstHandle = queue.run('npc-1', first.task, '');
+        await flush();
+        const secondHandle = queue.run('npc-1', second.task, '');
+        await flush();
+
+        expect(firstHandle.status).toBe('cancelled');
+        expect(secondHandle.status).toBe('running');
+        expect(onInterrupt).toHaveBeenCalledWith('npc-1');
+        expect(log).toEqual(['start first', 'end first', 'start second']);
+        await expect(firstHandle).resolves.toBe('aborted');
+    });
+
+    it('should drop new lines while the NPC is speaking with the drop policy', async () => {
+        const queue = new DialogueQueue('queue', onInterrupt);
+        const first = controllableTask(log, 'first');
+        const second = controllableTask(log, 'second');
+
+        queue.run('npc-1', first.task, null);
+        const dropped = queue.run('npc-1', second.task, null, { ifSpeaking: 'drop' });
+
+        await expect(dropped).resolves.toBeNull();
+        expect(dropped.status).toBe('dropped');
+        expect(second.task).not.toHaveBeenCalled();
+    });
+
+    it('should cancel a line when its external signal fires', async () => {
+        const queue = new DialogueQueue('queue', onInterrupt);
+        const first = controllableTask(log, 'first');
+        const controller = new AbortController();
+
+        const handle = queue.run('npc-1', first.task, '', { signal: controller.signal });
+        await flush();
+        controller.abort();
+
+        await expect(handle).resolves.toBe('aborted');
+        expect(handle.status).toBe('cancelled');
+        expect(onInterrupt).toHaveBeenCalledWith('npc-1');
+    });
+
+    it('should skip queued lines that were cancelled and reject with errors of the task', async () => {
+        const queue = new DialogueQueue('queue', onInterrupt);
+        const first = controllableTask(log, 'first');
+        const second = controllableTask(log, 'second');
+
+        queue.run('npc-1', first.task, '');
+        const queued = queue.run('npc-1', second.task, 'idle');
+        const failing = queue.run('npc-1', () => Promise.reject(new Error('boom')), '');
+        queued.cancel();
+        await flush();
+        first.finish('one');
+
+        await expect(queued).resolves.toBe('idle');
+        await expect(failing).rejects.toThrow('boom');
+        expect(second.task).not.toHaveBeenCalled();
+        expect(onInterrupt).not.toHaveBeenCalled();
+    });
+
+    it('should interrupt every line of an NPC', async () => {
+        const queue = new DialogueQueue('queue', onInterrupt);
+        const first = controllableTask(log, 'first');
+        const second = controllableTask(log, 'second');
+
+        const running = queue.run('npc-1', first.task, '');
+        const queued = queue.run('npc-1', second.task, 'idle');
+        await flush();
+        queue.interrupt('npc-1');
+
+        await expect(running).resolves.toBe('aborted');
+        await expect(queued).resolves.toBe('idle');
+        expect(onInterrupt).toHaveBeenCalledTimes(1);
+        await flush();
+        expect(queue.isSpeaking('npc-1')).toBe(false);
+    });
+
+    it('should let a scene wait for every NPC of its cast and hold all of them', async () => {
+        const queue = new DialogueQueue('queue', onInterrupt);
+        const line = controllableTask(log, 'line');
+        const scene = controllableTask(log, 'scene');
+        const after = controllableTask(log, 'after');
+
+        queue.run('npc-2', line.task, '');
+        const handle = queue.run(['npc-1', 'npc-2'], scene.task, 'idle');
+        queue.run('npc-1', after.task, '');
+        await flush();
+        expect(handle.entityIds).toEqual(['npc-1', 'npc-2']);
+        expect(log).toEqual(['start line']);
+
+        line.finish('done');
+        await flush();
+        expect(log).toEqual(['start line', 'end line', 'start scene']);
+        expect(queue.isSpeaking('npc-1')).toBe(true);
+
+        scene.finish('done');
+        await flush();
+        expect(log).toEqual(['start line', 'end line', 'start scene', 'end scene', 'start after']);
+    });
+
+    it('should interrupt only the scenes of an NPC and stop every NPC of the cast', async () => {
+        const queue = new DialogueQueue('queue', onInterrupt);
+        const scene = controllableTask(log, 'scene');
+        const line = controllableTask(log, 'line');
+
+        const handle = queue.run(['npc-1', 'npc-2'], scene.task, 'idle');
+        const queued = queue.run('npc-2', line.task, '');
+        await flush();
+        queue.interruptScenes('npc-2');
+
+        await expect(handle).resolves.toBe('aborted');
+        expect(onInterrupt.mock.calls).toEqual([['npc-1'], ['npc-2']]);
+        await flush();
+        expect(log).toEqual(['start scene', 'end scene', 'start line']);
+        expect(queued.status).toBe('running');
+    });
+});
@@ -0,0 +1,43 @@
+import { generateScene, readingTimeMs, sceneSchema } from '../../../core/dialogue/Scene';
+
+describe('generateScene', () => {
+    const schema = sceneSchema(['npc-1', 'npc-2'], 4);
+    let consoleErrorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        consoleErrorSpy.mockRestore();
+    });
+
+    it('should turn speakers into entity IDs and skip empty lines', async () => {
+        const attempt = jest.fn().mockResolvedValue('```json\n{"lines": [{"speaker": "npc-2", "line": " Hi. ", "emotion": "happy"}, {"speaker": "npc-1", "line": " "}]}\n```');
+
+        await expect(generateScene(attempt, schema, 2)).resolves.toEqual([{ entityId: 'npc-2', line: 'Hi.', emotion: 'happy' }]);
+    });
+
+    it('should ask again with a correction until the scene matches the schema', async () => {
+        const attempt = jest.fn()
+            .mockResolvedValueOnce('not json')
+            .mockResolvedValueOnce('{"lines": [{"speaker": "npc-3", "line": "Hi."}]}')
+            .mockResolvedValueOnce('{"lines": [{"speaker": "npc-1", "line": "Hi."}]}');
+
+        await expect(generateScene(attempt, schema, 2)).resolves.toEqual([{ entityId: 'npc-1', line: 'Hi.' }]);
+        expect(attempt.mock.calls[1][0]).toContain('the answer is not valid JSON');
+        expect(attempt.mock.calls[2][0]).toContain('$.lines[0].speaker should be one of npc-1, npc-2');
+    });
+
+    it('should give up after the retries or without an answer', async () => {
+        await expect(generateScene(jest.fn().mockResolvedValue('{"lines": []}'), schema, 1)).resolves.toBeNull();
+        await expect(generateScene(jest.fn().mockResolvedValue(null), schema, 1)).resolves.toBeNull();
+    });
+});
+
+describe('readingTimeMs', () => {
+    it('should give short lines a second and a half and longer ones more', () => {
+        expect(readingTimeMs('Hi.')).toBe(1500);
+        expect(readingTimeMs('x'.repeat(50))).toBe(3000);
+    });
+});
@@ -0,0 +1,62 @@
+import { EventEmitter } from '../../../core/events/EventEmitter';
+
+interface TestEvents {
+    ping: { count: number };
+    pong: string;
+}
+
+describe('EventEmitter', () => {
+    let emitter: EventEmitter<TestEvents>;
+
+    beforeEach(() => {
+        emitter = new EventEmitter<TestEvents>();
+    });
+
+    it('should call listeners until they unsubscribe', () => {
+        const listener = jest.fn();
+        emitter.on('ping', listener);
+
+        emitter.emit('ping', { count: 1 });
+        emitter.off('ping', listener);
+        emitter.emit('ping', { count: 2 });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith({ count: 1 });
+    });
+
+    it('should call a once listener a single time', () => {
+        const listener = jest.fn();
+        emitter.once('pong', listener);
+
+        emitter.emit('pong', 'first');
+        emitter.emit('pong', 'second');
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith('first');
+    });
+
+    it('should unsubscribe a once listener before it fires', () => {
+        const listener = jest.fn();
+        emitter.once('pong', listener);
+        emitter.off('pong', listener);
+
+        emitter.emit('pong', 'ignored');
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep calling listeners after one throws', () => {
+        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+        const listener = jest.fn();
+        emitter.on('ping', () => {
+            throw new Error('broken listener');
+        });
+        emitter.on('ping', listener);
+
+        emitter.emit('ping', { count: 1 });
+
+        expect(listener).toHaveBeenCalled();
+        expect(consoleErrorSpy).toHaveBeenCalledWith('Error in listener for event "ping":', expect.any(Error));
+        consoleErrorSpy.mockRestore();
+    });
+});
@@ -1,13 +1,23 @@
 import { GeminiService } from '../../../core/llm/GeminiService';
 import { GoogleGenAI } from '@google/genai';
+import {
+    AuthenticationError,
+    CancelledError,
+    ContentBlockedError,
+    EmptyResponseError,
+    InvalidRequestError,
+    ServiceUnavailableError,
+} from '../../../core/net/errors';
 
 // Mock the entire @google/genai library
 const mockGenerateContent = jest.fn();
+const mockGenerateContentStream = jest.fn();
 
 jest.mock('@google/genai', () => ({
     GoogleGenAI: jest.fn(() => ({
         models: {
             generateContent: mockGenerateContent,
+            generateContentStream: mockGenerateContentStream,
         },
     })),
 }));
@@ -22,6 +32,7 @@ describe('GeminiService', () => {
         // Clear all mocks before each test
         MockedGoogleGenAI.mockClear();
         mockGenerateContent.mockClear();
+        mockGenerateContentStream.mockReset();
     });
 
     it('should initialize with API key as an object', () => {
@@ -82,37 +93,272 @@ describe('GeminiService', () => {
         expect(mockGenerateContent).toHaveBeenCalledWith({
             model: expect.any(String),
             contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            config: { abortSignal: expect.any(AbortSignal) },
         });
     });
 
+    it('should report the token usage of a request', async () => {
+        geminiService = new GeminiService(apiKey, 'gemini-1.5-flash');
+        mockGenerateContent.mockResolvedValue({
+            candidates: [{ content: { parts: [{ text: 'ok' }] } }],
+            usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 3, totalTokenCount: 15 },
+        });
+        const onUsage = jest.fn();
+
+        await geminiService.generateText('test prompt', { onUsage });
+
+        expect(onUsage).toHaveBeenCalledWith({ model: 'gemini-1.5-flash', promptTokens: 12, outputTokens: 3, totalTokens: 15 });
+    });
+
+    it('should map generation options onto the request config', async () => {
+        geminiService = new GeminiService(apiKey);
+        mockGenerateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'ok' }] } }] });
+
+        await geminiService.generateText('prompt', {
+            temperature: 0.7,
+            maxOutputTokens: 100,
+            stopSequences: ['\n'],
+            systemPrompt: 'Stay in character.',
+        });
+
+        expect(mockGenerateContent).toHaveBeenCalledWith(expect.objectContaining({
+            config: {
+                temperature: 0.7,
+                maxOutputTokens: 100,
+                stopSequences: ['\n'],
+                systemInstruction: 'Stay in character.',
+                abortSignal: expect.any(AbortSignal),
+            },
+        }));
+    });
+
+    it('should pass safety settings with Gemini category and threshold names', async () => {
+        geminiService = new GeminiService(apiKey);
+        mockGenerateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'ok' }] } }] });
+
+        await geminiService.generateText('prompt', {
+            safetySettings: [
+                { category: 'harassment', threshold: 'block_low_and_above' },
+                { category: 'dangerous_content', threshold: 'block_only_high' },
+            ],
+        });
+
+        expect(mockGenerateContent.mock.calls[0][0].config.safetySettings).toEqual([
+            { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_LOW_AND_ABOVE' },
+            { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' },
+        ]);
+    });
+
+    it('should request JSON with a converted response schema', async () => {
+        geminiService = new GeminiService(apiKey);
+        mockGenerateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: '{"line": "Hi"}' }] } }] });
+
+        await geminiService.generateText('prompt', {
+            responseSchema: {
+                type: 'object',
+                properties: {
+                    line: { type: 'string', description: 'Spoken line' },
+                    choices: { type: 'array', items: { type: 'string', enum: ['yes', 'no'] }, maxItems: 2 },
+                },
+                required: ['line'],
+            },
+        });
+
+        expect(mockGenerateContent).toHaveBeenCalledWith(expect.objectContaining({
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: 'OBJECT',
+                    properties: {
+                        line: { type: 'STRING', description: 'Spoken line' },
+                        choices: { type: 'ARRAY', items: { type: 'STRING', enum: ['yes', 'no'] }, maxItems: '2' },
+                    },
+                    required: ['line'],
+                },
+                abortSignal: expect.any(AbortSignal),
+            },
+        }));
+    });
+
+    it('should declare tools and return the function calls of a turn', async () => {
+        geminiService = new GeminiService(apiKey);
+        mockGenerateContent.mockResolvedValue({
+            candidates: [{ content: { parts: [{ text: 'Here you go.' }, { functionCall: { name: 'give_item', args: { item: 'key' } } }] } }],
+        });
+
+        const turn = await geminiService.generateTurn([{ role: 'user', text: 'Key please' }], {
+            tools: [{ name: 'give_item', description: 'Give an item.', parameters: { type: 'object', properties: { item: { type: 'string' } } } }],
+        });
+
+        expect(turn).toEqual({ text: 'Here you go.', toolCalls: [{ name: 'give_item', args: { item: 'key' } }] });
+        expect(mockGenerateContent).toHaveBeenCalledWith(expect.objectContaining({
+            config: {
+                tools: [{
+                    functionDeclarations: [{
+                        name: 'give_item',
+                        description: 'Give an item.',
+                        parameters: { type: 'OBJECT', properties: { item: { type: 'STRING' } } },
+                    }],
+                }],
+                abortSignal: expect.any(AbortSignal),
+            },
+        }));
+    });
+
+    it('should send function calls and their results as content parts', async () => {
+        geminiService = new GeminiService(apiKey);
+        mockGenerateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'Done.' }] } }] });
+
+        await geminiService.generateTurn([
+            { role: 'user', text: 'Key please' },
+            { role: 'model', text: '', toolCalls: [{ name: 'give_item', args: { item: 'key' } }] },
+            { role: 'user', text: '', toolResults: [{ name: 'give_item', result: 'ok' }, { name: 'open_shop', error: 'closed' }] },
+        ]);
+
+        expect(mockGenerateContent.mock.calls[0][0].contents).toEqual([
+            { role: 'user', parts: [{ text: 'Key please' }] },
+            { role: 'model', parts: [{ functionCall: { name: 'give_item', args: { item: 'key' } } }] },
+            {
+                role: 'user',
+                parts: [
+                    { functionResponse: { name: 'give_item', response: { result: 'ok' } } },
+                    { functionResponse: { name: 'open_shop', response: { error: 'closed' } } },
+                ],
+            },
+        ]);
+    });
+
+    it('should send a multi-turn history as role-tagged contents', async () => {
+        geminiService = new GeminiService(apiKey);
+        mockGenerateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'Aye.' }] } }] });
+
+        const result = await geminiService.generateChat([
+            { role: 'user', text: 'Hello' },
+            { role: 'model', text: 'Greetings.' },
+            { role: 'user', text: 'Got any ale?' },
+        ]);
+
+        expect(result).toBe('Aye.');
+        expect(mockGenerateContent).toHaveBeenCalledWith({
+            model: expect.any(String),
+            contents: [
+                { role: 'user', parts: [{ text: 'Hello' }] },
+                { role: 'model', parts: [{ text: 'Greetings.' }] },
+                { role: 'user', parts: [{ text: 'Got any ale?' }] },
+            ],
+            config: { abortSignal: expect.any(AbortSignal) },
+        });
+    });
+
+    it('should stream text chunks as they arrive', async () => {
+        geminiService = new GeminiService(apiKey);
+        async function* responses() {
+            yield { candidates: [{ content: { parts: [{ text: 'Hello, ' }] } }] };
+            yield { candidates: [] };
+            yield { candidates: [{ content: { parts: [{ text: 'world!' }] } }] };
+        }
+        mockGenerateContentStream.mockResolvedValue(responses());
+
+        const chunks: string[] = [];
+        for await (const chunk of geminiService.generateTextStream('prompt', { temperature: 0.5 })) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks).toEqual(['Hello, ', 'world!']);
+        expect(mockGenerateContentStream).toHaveBeenCalledWith({
+            model: expect.any(String),
+            contents: [{ role: 'user', parts: [{ text: 'prompt' }] }],
+            config: { temperature: 0.5, abortSignal: expect.any(AbortSignal) },
+        });
+    });
+
+    it('should abort a stream mid-read when the caller cancels it', async () => {
+        geminiService = new GeminiService(apiKey);
+        const controller = new AbortController();
+        mockGenerateContentStream.mockImplementation(async ({ config }: { config: { abortSignal: AbortSignal } }) => (async function* () {
+            yield { candidates: [{ content: { parts: [{ text: 'Hello, ' }] } }] };
+            await new Promise((_resolve, reject) => config.abortSignal.addEventListener('abort', () => reject(new Error('aborted'))));
+        })());
+
+        const consume = async () => {
+            for await (const chunk of geminiService.generateTextStream('prompt', { signal: controller.signal })) {
+                expect(chunk).toBe('Hello, ');
+                controller.abort();
+            }
+        };
+
+        await expect(consume()).rejects.toBeInstanceOf(CancelledError);
+        expect(mockGenerateContentStream.mock.calls[0][0].config.abortSignal.aborted).toBe(true);
+    });
+
     describe('when handling errors', () => {
-        let consoleErrorSpy: jest.SpyInstance;
+        let consoleWarnSpy: jest.SpyInstance;
 
         beforeEach(() => {
-            consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
-            geminiService = new GeminiService(apiKey);
+            consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            geminiService = new GeminiService(apiKey, undefined, { maxRetries: 2, baseDelayMs: 1 });
         });
 
         afterEach(() => {
-            consoleErrorSpy.mockRestore();
+            consoleWarnSpy.mockRestore();
+        });
+
+        it('should throw a ServiceUnavailableError after retrying network failures', async () => {
+            mockGenerateContent.mockRejectedValue(new Error('fetch failed'));
+
+            await expect(geminiService.generateText('test prompt')).rejects.toBeInstanceOf(ServiceUnavailableError);
+            expect(mockGenerateContent).toHaveBeenCalledTimes(3);
+        });
+
+        it('should retry a rate limit and succeed', async () => {
+            mockGenerateContent
+                .mockRejectedValueOnce(new Error('got status: 429 Too Many Requests. {"error":{"code":429}}'))
+                .mockResolvedValueOnce({ candidates: [{ content: { parts: [{ text: 'Finally.' }] } }] });
+
+            await expect(geminiService.generateText('test prompt')).resolves.toBe('Finally.');
+            expect(mockGenerateContent).toHaveBeenCalledTimes(2);
         });
 
-        it('should return null on API error', async () => {
-            mockGenerateContent.mockRejectedValue(new Error('API failure'));
+        it('should not retry fatal errors', async () => {
+            mockGenerateContent.mockRejectedValue(new Error('got status: 400 Bad Request. {"error":{"message":"API key not valid"}}'));
 
-            const result = await geminiService.generateText('test prompt');
-            expect(result).toBeNull();
-            expect(consoleErrorSpy).toHaveBeenCalled();
+            await expect(geminiService.generateText('test prompt')).rejects.toBeInstanceOf(InvalidRequestError);
+            expect(mockGenerateContent).toHaveBeenCalledTimes(1);
         });
 
-        it('should return null if response has no text', async () => {
+        it('should honor a retry delay that is too long by giving up', async () => {
+            mockGenerateContent.mockRejectedValue(new Error('got status: 429 Too Many Requests. {"details":[{"retryDelay": "60s"}]}'));
+
+            await expect(geminiService.generateText('test prompt')).rejects.toMatchObject({ code: 'rate_limited', retryAfterMs: 60000 });
+            expect(mockGenerateContent).toHaveBeenCalledTimes(1);
+        });
+
+        it('should throw an EmptyResponseError if response has no text', async () => {
             mockGenerateContent.mockResolvedValue({
                 candidates: [] // e.g. content filtered
             });
 
-            const result = await geminiService.generateText('test prompt');
-            expect(result).toBeNull();
-            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining("No text generated from Gemini API or invalid response structure."), expect.any(String));
+            await expect(geminiService.generateText('test prompt')).rejects.toThrow(EmptyResponseError);
+            await expect(geminiService.generateText('test prompt')).rejects.toThrow('No text generated from Gemini API or invalid response structure.');
+        });
+
+        it('should throw a ContentBlockedError if the prompt or answer was blocked', async () => {
+            mockGenerateContent.mockResolvedValueOnce({ promptFeedback: { blockReason: 'SAFETY' } });
+            await expect(geminiService.generateText('test prompt')).rejects.toThrow(ContentBlockedError);
+
+            mockGenerateContent.mockResolvedValueOnce({ candidates: [{ finishReason: 'PROHIBITED_CONTENT' }] });
+            await expect(geminiService.generateText('test prompt')).rejects.toThrow('Gemini withheld the answer (PROHIBITED_CONTENT).');
+        });
+
+        it('should throw when the stream cannot be opened', async () => {
+            mockGenerateContentStream.mockRejectedValue(new Error('got status: 401 Unauthorized. {}'));
+
+            const consume = async () => {
+                for await (const chunk of geminiService.generateTextStream('test prompt')) {
+                    expect(chunk).toBeUndefined();
+                }
+            };
+            await expect(consume()).rejects.toBeInstanceOf(AuthenticationError);
         });
     });
 });
@@ -0,0 +1,166 @@
+import { OpenAICompatibleService } from '../../../core/llm/OpenAICompatibleService';
+import fetch from 'cross-fetch';
+
+jest.mock('cross-fetch');
+
+const mockedFetch = fetch as jest.Mock;
+
+const completion = (content: string) => ({
+    ok: true,
+    json: () => Promise.resolve({ choices: [{ message: { role: 'assistant', content } }] }),
+});
+
+describe('OpenAICompatibleService', () => {
+    let llmService: OpenAICompatibleService;
+
+    beforeEach(() => {
+        mockedFetch.mockReset();
+    });
+
+    it('should post a chat completion request to the configured base URL', async () => {
+        llmService = new OpenAICompatibleService({ baseUrl: 'http://localhost:11434/v1/', modelName: 'llama3' });
+        mockedFetch.mockResolvedValueOnce(completion('Well met.'));
+
+        const result = await llmService.generateText('Say hello', {
+            systemPrompt: 'You are a bartender.',
+            temperature: 0.3,
+            maxOutputTokens: 50,
+            stopSequences: ['\n'],
+        });
+
+        expect(result).toBe('Well met.');
+        expect(mockedFetch).toHaveBeenCalledWith('http://localhost:11434/v1/chat/completions', expect.objectContaining({ method: 'POST' }));
+        const requestBody = JSON.parse(mockedFetch.mock.calls[0][1].body);
+        expect(requestBody).toEqual({
+            model: 'llama3',
+            messages: [
+                { role: 'system', content: 'You are a bartender.' },
+                { role: 'user', content: 'Say hello' },
+            ],
+            temperature: 0.3,
+            max_tokens: 50,
+            stop: ['\n'],
+        });
+    });
+
+    it('should map model turns to assistant messages in a chat', async () => {
+        llmService = new OpenAICompatibleService({ baseUrl: 'http://localhost:11434/v1' });
+        mockedFetch.mockResolvedValueOnce(completion('Aye.'));
+
+        await llmService.generateChat([
+            { role: 'user', text: 'Hello' },
+            { role: 'model', text: 'Greetings.' },
+            { role: 'user', text: 'Got any ale?' },
+        ]);
+
+        const requestBody = JSON.parse(mockedFetch.mock.calls[0][1].body);
+        expect(requestBody.messages).toEqual([
+            { role: 'user', content: 'Hello' },
+            { role: 'assistant', content: 'Greetings.' },
+            { role: 'user', content: 'Got any ale?' },
+        ]);
+    });
+
+    it('should report the token usage of a completion', async () => {
+        llmService = new OpenAICompatibleService({ baseUrl: 'http://localhost:11434/v1', modelName: 'llama3' });
+        mockedFetch.mockResolvedValueOnce({
+            ok: true,
+            json: () => Promise.resolve({
+                choices: [{ message: { role: 'assistant', content: 'Aye.' } }],
+                usage: { prompt_tokens: 20, completion_tokens: 2, total_tokens: 22 },
+            }),
+        });
+        const onUsage = jest.fn();
+
+        await llmService.generateText('Got any ale?', { onUsage });
+
+        expect(onUsage).toHaveBeenCalledWith({ model: 'llama3', promptTokens: 20, outputTokens: 2, totalTokens: 22 });
+    });
+
+    it('should request a JSON schema response format', async () => {
+        llmService = new OpenAICompatibleService({ baseUrl: 'http://localhost:11434/v1' });
+        mockedFetch.mockResolvedValueOnce(completion('{"line": "Hi"}'));
+        const schema = { type: 'object' as const, properties: { line: { type: 'string' as const } } };
+
+        await llmService.generateText('prompt', { responseSchema: schema });
+
+        const requestBody = JSON.parse(mockedFetch.mock.calls[0][1].body);
+        expect(requestBody.response_format).toEqual({ type: 'json_schema', json_schema: { name: 'response', schema } });
+    });
+
+    it('should send tools and map tool calls in both directions', async () => {
+        llmService = new OpenAICompatibleService({ baseUrl: 'http://localhost:11434/v1' });
+        mockedFetch.mockResolvedValueOnce({
+            ok: true,
+            json: () => Promise.resolve({
+                choices: [{
+                    message: {
+                        role: 'assistant',
+                        content: null,
+                        tool_calls: [{ id: 'call-2', type: 'function', function: { name: 'open_shop', arguments: '{"discount":10}' } }],
+                    },
+                }],
+            }),
+        });
+
+        const turn = await llmService.generateTurn([
+            { role: 'user', text: 'Key please' },
+            { role: 'model', text: '', toolCalls: [{ id: 'call-1', name: 'give_item', args: { item: 'key' } }] },
+            { role: 'user', text: '', toolResults: [{ id: 'call-1', name: 'give_item', result: 'ok' }] },
+        ], { tools: [{ name: 'open_shop', description: 'Open the shop.' }] });
+
+        expect(turn).toEqual({ text: null, toolCalls: [{ id: 'call-2', name: 'open_shop', args: { discount: 10 } }] });
+        const requestBody = JSON.parse(mockedFetch.mock.calls[0][1].body);
+        expect(requestBody.tools).toEqual([
+            { type: 'function', function: { name: 'open_shop', description: 'Open the shop.', parameters: { type: 'object', properties: {} } } },
+        ]);
+        expect(requestBody.messages).toEqual([
+            { role: 'user', content: 'Key please' },
+            {
+                role: 'assistant',
+                content: null,
+                tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'give_item', arguments: '{"item":"key"}' } }],
+            },
+            { role: 'tool', tool_call_id: 'call-1', content: '{"result":"ok"}' },
+        ]);
+    });
+
+    it('should only send an Authorization header when an API key is set', async () => {
+        mockedFetch.mockResolvedValue(completion('ok'));
+
+        await new OpenAICompatibleService({ baseUrl: 'http://localhost:8080/v1', apiKey: 'secret' }).generateText('prompt');
+        expect(mockedFetch.mock.calls[0][1].headers['Authorization']).toBe('Bearer secret');
+
+        const originalKey = process.env.OPENAI_API_KEY;
+        delete process.env.OPENAI_API_KEY;
+        await new OpenAICompatibleService({ baseUrl: 'http://localhost:8080/v1' }).generateText('prompt');
+        expect(mockedFetch.mock.calls[1][1].headers['Authorization']).toBeUndefined();
+        if (originalKey) {
+            process.env.OPENAI_API_KEY = originalKey;
+        }
+    });
+
+    describe('when handling errors', () => {
+        let consoleErrorSpy: jest.SpyInstance;
+
+        beforeEach(() => {
+            llmService = new OpenAICompatibleService({ baseUrl: 'http://localhost:8080/v1' });
+            consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should return null on HTTP error', async () => {
+            mockedFetch.mockResolvedValueOnce({ ok: false, status: 500, text: () => Promise.resolve('boom') });
+            expect(await llmService.generateText('prompt')).toBeNull();
+        });
+
+        it('should return null if response has no choices', async () => {
+            mockedFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ choices: [] }) });
+            expect(await llmService.generateText('prompt')).toBeNull();
+            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('No text generated'), expect.any(String));
+        });
+    });
+});
@@ -0,0 +1,34 @@
+import { isSameLanguage, languageInstruction, languageName, languageOf, lookupLocale, translationPrompt } from '../../../core/locale/Locale';
+
+describe('Locale', () => {
+    it('should take the language from a locale, with either separator', () => {
+        expect(languageOf('de-DE')).toBe('de');
+        expect(languageOf('PT_br')).toBe('pt');
+        expect(languageOf('ja')).toBe('ja');
+        expect(isSameLanguage('en-US', 'en_GB')).toBe(true);
+        expect(isSameLanguage('en', 'de')).toBe(false);
+    });
+
+    it('should name languages in English and keep invalid tags as they are', () => {
+        expect(languageName('de')).toBe('German');
+        expect(languageName('pt_BR')).toBe('Brazilian Portuguese');
+        expect(languageName('not a locale')).toBe('not a locale');
+    });
+
+    it('should look up entries by locale, then by language', () => {
+        const entries = { 'de-AT': 'austrian', de: 'german', 'PT-br': 'brazilian' };
+
+        expect(lookupLocale(entries, 'de_at')).toBe('austrian');
+        expect(lookupLocale(entries, 'de-CH')).toBe('german');
+        expect(lookupLocale(entries, 'pt-BR')).toBe('brazilian');
+        expect(lookupLocale(entries, 'pt-PT')).toBeUndefined();
+        expect(lookupLocale(undefined, 'de')).toBeUndefined();
+    });
+
+    it('should build the language instruction and the translation prompt', () => {
+        expect(languageInstruction('fr')).toBe('Always speak French: write everything you say in French, even though these instructions are in English.');
+        expect(translationPrompt('Halt!', 'es')).toBe(
+            'Translate this line of game dialogue into Spanish. Keep its tone and meaning.\nReply with the translation only, without quotes or notes.\n\nHalt!',
+        );
+    });
+});
@@ -0,0 +1,66 @@
+import { LLMProvider } from '../../../core/llm/LLMProvider';
+import { MemoryExtractor } from '../../../core/memory/MemoryExtractor';
+import { selectRelevantMemories } from '../../../core/memory/MemoryRetriever';
+import { MemoryEntry } from '../../../core/memory/MemoryStore';
+
+describe('MemoryExtractor', () => {
+    let llm: jest.Mocked<LLMProvider>;
+    let extractor: MemoryExtractor;
+    let consoleErrorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        llm = { generateText: jest.fn() };
+        extractor = new MemoryExtractor(llm);
+        consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        consoleErrorSpy.mockRestore();
+    });
+
+    it('should send the transcript and parse the returned facts', async () => {
+        llm.generateText.mockResolvedValue('```json\n[{"text": "The player promised to find my cat.", "importance": 4.4}, "The player is called Eldrin."]\n```');
+
+        const memories = await extractor.extract('Old Man', 'Player: I will find your cat.\nNPC: Bless you.');
+
+        expect(llm.generateText).toHaveBeenCalledWith(expect.stringContaining('Player: I will find your cat.'));
+        expect(memories.map((memory) => [memory.text, memory.importance])).toEqual([
+            ['The player promised to find my cat.', 4],
+            ['The player is called Eldrin.', undefined],
+        ]);
+    });
+
+    it('should return no memories for an empty, invalid or missing answer', async () => {
+        llm.generateText.mockResolvedValueOnce('[]');
+        expect(await extractor.extract('Old Man', 'Player: Hi')).toEqual([]);
+
+        llm.generateText.mockResolvedValueOnce('Nothing to remember.');
+        expect(await extractor.extract('Old Man', 'Player: Hi')).toEqual([]);
+
+        llm.generateText.mockResolvedValueOnce('[{"text": "unterminated"');
+        expect(await extractor.extract('Old Man', 'Player: Hi')).toEqual([]);
+
+        llm.generateText.mockResolvedValueOnce(null);
+        expect(await extractor.extract('Old Man', 'Player: Hi')).toEqual([]);
+    });
+});
+
+describe('selectRelevantMemories', () => {
+    const memory = (text: string, createdAt: number, importance?: number): MemoryEntry => ({ id: text, text, createdAt, importance });
+
+    it('should return all memories when they fit the limit', () => {
+        const memories = [memory('a', 1), memory('b', 2)];
+        expect(selectRelevantMemories(memories, 'anything', 5)).toBe(memories);
+    });
+
+    it('should prefer memories matching the context, then importance, in chronological order', () => {
+        const tavern = memory('The player started a brawl in the tavern.', 1);
+        const important = memory('The player saved my daughter.', 2, 5);
+        const trivia = memory('The player likes apples.', 3, 1);
+        const recent = memory('The player wore a red cloak.', 4);
+
+        const selected = selectRelevantMemories([tavern, important, trivia, recent], 'the Rusty Tavern at night', 2);
+
+        expect(selected).toEqual([tavern, important]);
+    });
+});
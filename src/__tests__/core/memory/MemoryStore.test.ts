@@ -0,0 +1,111 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AdapterMemoryStore } from '../../../core/memory/AdapterMemoryStore';
+import { JsonFileMemoryStore } from '../../../core/memory/JsonFileMemoryStore';
+import { createMemory, InMemoryMemoryStore } from '../../../core/memory/MemoryStore';
+import { MockGameAdapter } from '../../mocks/MockGameAdapter';
+
+describe('InMemoryMemoryStore', () => {
+    it('should add, return and clear memories per entity', async () => {
+        const store = new InMemoryMemoryStore();
+        const ring = createMemory('The player returned my ring.', 4);
+        const insult = createMemory('The player called me a fool.');
+
+        await store.addMemories('npc-1', [ring]);
+        await store.addMemories('npc-1', [insult]);
+        await store.addMemories('npc-2', [createMemory('The player bought a sword.')]);
+
+        expect(await store.getMemories('npc-1')).toEqual([ring, insult]);
+        expect(await store.getMemories('npc-3')).toEqual([]);
+
+        await store.clear('npc-1');
+        expect(await store.getMemories('npc-1')).toEqual([]);
+        expect(await store.getMemories('npc-2')).toHaveLength(1);
+
+        await store.clear();
+        expect(await store.getMemories('npc-2')).toEqual([]);
+    });
+
+    it('should give each memory a unique id and a timestamp', () => {
+        const a = createMemory('a');
+        const b = createMemory('b', 2);
+        expect(a.id).not.toBe(b.id);
+        expect(a.createdAt).toBeLessThanOrEqual(Date.now());
+        expect(a.importance).toBeUndefined();
+        expect(b.importance).toBe(2);
+    });
+});
+
+describe('JsonFileMemoryStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'npc-memories-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should persist memories to a JSON file and load them in a new store', async () => {
+        const filePath = path.join(directory, 'saves', 'memories.json');
+        const memory = createMemory('The player saved the village.', 5);
+
+        await new JsonFileMemoryStore(filePath).addMemories('npc-1', [memory]);
+
+        expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toEqual({ 'npc-1': [memory] });
+        expect(await new JsonFileMemoryStore(filePath).getMemories('npc-1')).toEqual([memory]);
+    });
+
+    it('should start empty when the file does not exist yet', async () => {
+        const store = new JsonFileMemoryStore(path.join(directory, 'missing.json'));
+        expect(await store.getMemories('npc-1')).toEqual([]);
+    });
+
+    it('should not overwrite a memory file it cannot read', async () => {
+        const filePath = path.join(directory, 'memories.json');
+        await fs.writeFile(filePath, '{"npc-1": [', 'utf8');
+        const store = new JsonFileMemoryStore(filePath);
+
+        await expect(store.addMemories('npc-1', [createMemory('The player bought a sword.')])).rejects.toThrow(SyntaxError);
+        await expect(store.getMemories('npc-1')).rejects.toThrow(SyntaxError);
+        expect(await fs.readFile(filePath, 'utf8')).toBe('{"npc-1": [');
+    });
+});
+
+describe('AdapterMemoryStore', () => {
+    it('should require the adapter persistence hooks', () => {
+        expect(() => new AdapterMemoryStore(new MockGameAdapter())).toThrow('The game adapter must implement saveData and loadData to persist memories.');
+    });
+
+    it('should load from and save to the game adapter', async () => {
+        const existing = createMemory('The player owes me 10 gold.');
+        const adapter = Object.assign(new MockGameAdapter(), {
+            saveData: jest.fn().mockResolvedValue(undefined),
+            loadData: jest.fn().mockResolvedValue({ 'npc-1': [existing] }),
+        });
+        const store = new AdapterMemoryStore(adapter, 'save-slot-1:memories');
+        const added = createMemory('The player paid the debt.');
+
+        expect(await store.getMemories('npc-1')).toEqual([existing]);
+        await store.addMemories('npc-1', [added]);
+
+        expect(adapter.loadData).toHaveBeenCalledTimes(1);
+        expect(adapter.loadData).toHaveBeenCalledWith('save-slot-1:memories');
+        expect(adapter.saveData).toHaveBeenCalledWith('save-slot-1:memories', { 'npc-1': [existing, added] });
+    });
+
+    it('should try to load again after a failed load', async () => {
+        const existing = createMemory('The player owes me 10 gold.');
+        const adapter = Object.assign(new MockGameAdapter(), {
+            saveData: jest.fn().mockResolvedValue(undefined),
+            loadData: jest.fn().mockRejectedValueOnce(new Error('Save file busy')).mockResolvedValue({ 'npc-1': [existing] }),
+        });
+        const store = new AdapterMemoryStore(adapter);
+
+        await expect(store.getMemories('npc-1')).rejects.toThrow('Save file busy');
+        await expect(store.getMemories('npc-1')).resolves.toEqual([existing]);
+        expect(adapter.loadData).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,51 @@
+import { UsageMetrics } from '../../../core/metrics/UsageMetrics';
+
+describe('UsageMetrics', () => {
+    const pricing = {
+        'gemini-1.5-flash': { inputPerMillionTokens: 1, outputPerMillionTokens: 4 },
+        eleven_flash_v2_5: { perThousandCharacters: 0.5 },
+    };
+
+    it('should add up usage and cost for the session and each player', () => {
+        const metrics = new UsageMetrics({ pricing });
+
+        metrics.recordLLMUsage({ model: 'gemini-1.5-flash', promptTokens: 1000, outputTokens: 500, totalTokens: 1500 }, 'player-1');
+        metrics.recordTTSUsage({ model: 'eleven_flash_v2_5', characters: 200 }, 'player-1');
+        metrics.recordLLMUsage({ model: 'local', promptTokens: 100, outputTokens: 10, totalTokens: 110 });
+
+        expect(metrics.totals('player-1')).toEqual({ promptTokens: 1000, outputTokens: 500, totalTokens: 1500, characters: 200, cost: expect.any(Number) });
+        expect(metrics.totals('player-1').cost).toBeCloseTo(0.103);
+        expect(metrics.totals()).toEqual({ promptTokens: 1100, outputTokens: 510, totalTokens: 1610, characters: 200, cost: expect.any(Number) });
+        expect(metrics.totals().cost).toBeCloseTo(0.103);
+        expect(metrics.totals('player-2')).toEqual({ promptTokens: 0, outputTokens: 0, totalTokens: 0, characters: 0, cost: 0 });
+    });
+
+    it('should report which limits are reached', () => {
+        const metrics = new UsageMetrics({ pricing });
+        metrics.recordLLMUsage({ model: 'gemini-1.5-flash', promptTokens: 80, outputTokens: 20, totalTokens: 100 }, 'player-1');
+
+        expect(metrics.exceededLimits({ maxTokens: 100 })).toEqual(['llm']);
+        expect(metrics.exceededLimits({ maxTokens: 100 }, 'player-2')).toEqual([]);
+        expect(metrics.exceededLimits({ maxCharacters: 1 })).toEqual([]);
+
+        metrics.recordTTSUsage({ model: 'eleven_flash_v2_5', characters: 4000 });
+        expect(metrics.exceededLimits({ maxCost: 2 })).toEqual(['llm', 'tts']);
+    });
+
+    it('should summarize latencies per stage and start over on reset', () => {
+        const metrics = new UsageMetrics();
+        metrics.recordLatency('llm', 300);
+        metrics.recordLatency('llm', 100);
+        metrics.recordTTSUsage({ characters: 10 }, 'player-1');
+
+        const snapshot = metrics.snapshot();
+        expect(snapshot.latency.llm).toEqual({ count: 2, totalMs: 400, averageMs: 200, maxMs: 300 });
+        expect(snapshot.latency.playback).toEqual({ count: 0, totalMs: 0, averageMs: 0, maxMs: 0 });
+        expect(snapshot.players).toEqual({ 'player-1': expect.objectContaining({ characters: 10 }) });
+
+        metrics.reset();
+        expect(metrics.snapshot().session.characters).toBe(0);
+        expect(metrics.snapshot().players).toEqual({});
+        expect(metrics.snapshot().latency.llm.count).toBe(0);
+    });
+});
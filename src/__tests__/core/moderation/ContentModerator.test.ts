@@ -0,0 +1,60 @@
+import { ContentModerator, ModerationContext } from '../../../core/moderation/ContentModerator';
+
+describe('ContentModerator', () => {
+    const context: ModerationContext = {
+        entityId: 'npc-1',
+        npcState: { name: 'Guard' },
+        prompt: 'You are Guard, a character in a game. Generate a single, short, engaging line of dialogue for the player.',
+    };
+
+    it('should accept lines that pass every filter', async () => {
+        const moderator = new ContentModerator({ profanity: true, denylist: ['Coca-Cola'], maxLength: 80 });
+
+        await expect(moderator.check('Halt! Who goes there?', context)).resolves.toBeNull();
+    });
+
+    it('should reject profanity on word boundaries only', async () => {
+        const moderator = new ContentModerator({ profanity: true });
+
+        await expect(moderator.check('Get lost, you bastard!', context)).resolves.toMatchObject({ filter: 'profanity' });
+        await expect(moderator.check('Welcome to Scunthorpe.', context)).resolves.toBeNull();
+        await expect(new ContentModerator({ profanity: ['darn'] }).check('Darn it.', context)).resolves.toMatchObject({ filter: 'profanity' });
+    });
+
+    it('should reject denylisted phrases and patterns and lines that are too long', async () => {
+        const moderator = new ContentModerator({ denylist: ['coca-cola', /\b\d{3}-\d{4}\b/], maxLength: 20 });
+
+        await expect(moderator.check('Have a Coca-Cola.', context)).resolves.toMatchObject({ filter: 'denylist' });
+        await expect(moderator.check('Call 555-1234.', context)).resolves.toMatchObject({ filter: 'denylist' });
+        await expect(moderator.check('This line is far too long for the box.', context)).resolves.toEqual({
+            filter: 'max-length',
+            reason: 'The line is 38 characters long; at most 20 are allowed.',
+        });
+    });
+
+    it('should detect a model that breaks character or repeats its prompt', async () => {
+        const moderator = new ContentModerator();
+
+        await expect(moderator.check('As an AI language model, I cannot guard gates.', context)).resolves.toMatchObject({ filter: 'character-break' });
+        await expect(moderator.check("I'm just an AI, traveler.", context)).resolves.toMatchObject({ filter: 'character-break' });
+        await expect(moderator.check('Generate a single, short, engaging line of dialogue? Very well.', context))
+            .resolves.toMatchObject({ filter: 'prompt-leak' });
+        await expect(new ContentModerator({ detectCharacterBreaks: false }).check("I'm just an AI, traveler.", context)).resolves.toBeNull();
+    });
+
+    it('should run the custom validator last with the context of the line', async () => {
+        const validator = jest.fn().mockResolvedValue('Guards do not mention dragons.');
+        const moderator = new ContentModerator({ validator });
+
+        await expect(moderator.check('Beware the dragon.', context)).resolves.toEqual({ filter: 'custom', reason: 'Guards do not mention dragons.' });
+        expect(validator).toHaveBeenCalledWith('Beware the dragon.', context);
+    });
+
+    it('should explain the rejection in the correction', () => {
+        const moderator = new ContentModerator({ maxLength: 40 });
+
+        expect(moderator.correction({ filter: 'max-length', reason: 'Too long.' }))
+            .toBe('Your previous line was rejected: Too long. Write a different line. Keep it under 40 characters.');
+        expect(moderator.maxRegenerations).toBe(1);
+    });
+});
@@ -0,0 +1,187 @@
+import {
+    AuthenticationError,
+    CancelledError,
+    errorFromStatus,
+    InvalidRequestError,
+    parseRetryAfter,
+    QuotaExceededError,
+    RateLimitError,
+    ServiceUnavailableError,
+    TimeoutError,
+} from '../../../core/net/errors';
+import { backoffDelay, streamWithRequestPolicy, withRequestPolicy } from '../../../core/net/RequestPolicy';
+
+describe('errorFromStatus', () => {
+    it('should map HTTP statuses to retryable and fatal errors', () => {
+        expect(errorFromStatus('test', 401, 'Unauthorized')).toBeInstanceOf(AuthenticationError);
+        expect(errorFromStatus('test', 401, '{"detail":{"status":"quota_exceeded"}}')).toBeInstanceOf(QuotaExceededError);
+        expect(errorFromStatus('test', 429, 'You exceeded your current quota')).toBeInstanceOf(QuotaExceededError);
+        expect(errorFromStatus('test', 400, 'Bad request')).toBeInstanceOf(InvalidRequestError);
+
+        const rateLimit = errorFromStatus('test', 429, 'Slow down', 2000);
+        expect(rateLimit).toBeInstanceOf(RateLimitError);
+        expect(rateLimit).toMatchObject({ code: 'rate_limited', retryable: true, status: 429, retryAfterMs: 2000, provider: 'test' });
+
+        const unavailable = errorFromStatus('test', 503, 'Overloaded');
+        expect(unavailable).toBeInstanceOf(ServiceUnavailableError);
+        expect(unavailable.retryable).toBe(true);
+        expect(unavailable.message).toBe('test answered with HTTP 503: Overloaded');
+        expect(unavailable.name).toBe('ServiceUnavailableError');
+    });
+});
+
+describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+        expect(parseRetryAfter('3')).toBe(3000);
+        expect(parseRetryAfter(null)).toBeUndefined();
+        expect(parseRetryAfter('soon')).toBeUndefined();
+
+        const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.parse('Wed, 21 Oct 2015 07:28:00 GMT'));
+        expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT')).toBe(5000);
+        nowSpy.mockRestore();
+    });
+});
+
+describe('backoffDelay', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should grow exponentially with jitter and stay within the maximum', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(1);
+        expect(backoffDelay(0, 100, 1000)).toBe(100);
+        expect(backoffDelay(2, 100, 1000)).toBe(400);
+        expect(backoffDelay(5, 100, 1000)).toBe(1000);
+
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+        expect(backoffDelay(2, 100, 1000)).toBe(200);
+    });
+
+    it('should wait at least as long as Retry-After, or give up if that is too long', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+        expect(backoffDelay(0, 100, 1000, 800)).toBe(800);
+        expect(backoffDelay(0, 100, 1000, 5000)).toBeNull();
+    });
+});
+
+describe('withRequestPolicy', () => {
+    let consoleWarnSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        consoleWarnSpy.mockRestore();
+    });
+
+    it('should retry retryable errors until an attempt succeeds', async () => {
+        const operation = jest.fn()
+            .mockRejectedValueOnce(new ServiceUnavailableError('test', 'down'))
+            .mockResolvedValueOnce('ok');
+
+        await expect(withRequestPolicy('test', operation, { baseDelayMs: 1 })).resolves.toBe('ok');
+        expect(operation).toHaveBeenCalledTimes(2);
+        expect(operation.mock.calls[0][0]).toBeInstanceOf(AbortSignal);
+    });
+
+    it('should rethrow fatal and unknown errors immediately', async () => {
+        const fatal = jest.fn().mockRejectedValue(new AuthenticationError('test', 'bad key'));
+        await expect(withRequestPolicy('test', fatal)).rejects.toBeInstanceOf(AuthenticationError);
+        expect(fatal).toHaveBeenCalledTimes(1);
+
+        const unknown = jest.fn().mockRejectedValue(new Error('bug'));
+        await expect(withRequestPolicy('test', unknown)).rejects.toThrow('bug');
+        expect(unknown).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort attempts that time out and report a TimeoutError', async () => {
+        const operation = jest.fn((signal: AbortSignal) => new Promise((_resolve, reject) => {
+            signal.addEventListener('abort', () => reject(new Error('aborted')));
+        }));
+
+        await expect(withRequestPolicy('test', operation, { timeoutMs: 5, maxRetries: 1, baseDelayMs: 1 })).rejects.toBeInstanceOf(TimeoutError);
+        expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop retrying and report a CancelledError when the caller aborts', async () => {
+        const controller = new AbortController();
+        const operation = jest.fn((signal: AbortSignal) => new Promise((_resolve, reject) => {
+            signal.addEventListener('abort', () => reject(new Error('aborted')));
+            controller.abort();
+        }));
+
+        await expect(withRequestPolicy('test', operation, { maxRetries: 3 }, controller.signal)).rejects.toBeInstanceOf(CancelledError);
+        expect(operation).toHaveBeenCalledTimes(1);
+
+        await expect(withRequestPolicy('test', operation, {}, controller.signal)).rejects.toThrow('The test request was cancelled.');
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('streamWithRequestPolicy', () => {
+    /**
+     * A stream that yields the given chunks, then waits until its signal aborts.
+     */
+    const stalling = (signal: AbortSignal, ...chunks: string[]) => (async function* () {
+        yield* chunks;
+        await new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))));
+    })();
+
+    it('should keep the signal live while reading and abort it when the caller aborts mid-read', async () => {
+        const controller = new AbortController();
+        let streamSignal: AbortSignal | undefined;
+        const received: string[] = [];
+
+        const read = async () => {
+            for await (const chunk of streamWithRequestPolicy('test', async (signal) => {
+                streamSignal = signal;
+                return stalling(signal, 'a', 'b');
+            }, { timeoutMs: 5 }, controller.signal)) {
+                received.push(chunk);
+                if (chunk === 'b') {
+                    // Outlasts the timeout of the attempt that opened the stream.
+                    await new Promise((resolve) => setTimeout(resolve, 20));
+                    expect(streamSignal!.aborted).toBe(false);
+                    setTimeout(() => controller.abort(), 5);
+                }
+            }
+        };
+
+        await expect(read()).rejects.toBeInstanceOf(CancelledError);
+        expect(received).toEqual(['a', 'b']);
+        expect(streamSignal!.aborted).toBe(true);
+    });
+
+    it('should end a stream that stalls mid-read with a TimeoutError', async () => {
+        let streamSignal: AbortSignal | undefined;
+        const received: string[] = [];
+
+        const read = async () => {
+            for await (const chunk of streamWithRequestPolicy('test', async (signal) => {
+                streamSignal = signal;
+                return stalling(signal, 'a');
+            }, { idleTimeoutMs: 10 })) {
+                received.push(chunk);
+            }
+        };
+
+        await expect(read()).rejects.toThrow('test did not answer within 10 ms.');
+        expect(received).toEqual(['a']);
+        expect(streamSignal!.aborted).toBe(true);
+    });
+
+    it('should abort the download when the caller stops reading early', async () => {
+        let streamSignal: AbortSignal | undefined;
+
+        for await (const chunk of streamWithRequestPolicy('test', async (signal) => {
+            streamSignal = signal;
+            return stalling(signal, 'a', 'b');
+        })) {
+            expect(chunk).toBe('a');
+            break;
+        }
+
+        expect(streamSignal!.aborted).toBe(true);
+    });
+});
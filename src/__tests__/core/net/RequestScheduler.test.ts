@@ -0,0 +1,183 @@
+import { CancelledError, RequestDroppedError } from '../../../core/net/errors';
+import { RequestScheduler } from '../../../core/net/RequestScheduler';
+
+/** An operation that stays in flight until the test finishes it. */
+function pendingOperation(log: string[], name: string) {
+    let finish!: () => void;
+    const operation = jest.fn((signal?: AbortSignal) => {
+        log.push(name);
+        return new Promise<string>((resolve, reject) => {
+            finish = () => resolve(name);
+            signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+    });
+    return { operation, finish: () => finish() };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('RequestScheduler', () => {
+    let log: string[];
+    let consoleWarnSpy: jest.SpyInstance;
+    let consoleLogSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        log = [];
+        consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        consoleWarnSpy.mockRestore();
+        consoleLogSpy.mockRestore();
+        jest.useRealTimers();
+    });
+
+    it('should cap concurrent requests per provider and start waiting ones by priority', async () => {
+        const scheduler = new RequestScheduler({ limits: { llm: { maxConcurrent: 1 } } });
+        const first = pendingOperation(log, 'first');
+        const ambient = pendingOperation(log, 'ambient');
+        const player = pendingOperation(log, 'player');
+        const speech = pendingOperation(log, 'speech');
+
+        const results = [
+            scheduler.run('llm', first.operation),
+            scheduler.run('llm', ambient.operation, { priority: 'low' }),
+            scheduler.run('llm', player.operation, { priority: 'high' }),
+            scheduler.run('tts', speech.operation),
+        ];
+        await flush();
+        expect(log).toEqual(['first', 'speech']);
+        expect(scheduler.stats('llm')).toEqual({ active: 1, waiting: 2 });
+
+        first.finish();
+        await flush();
+        player.finish();
+        await flush();
+        ambient.finish();
+        speech.finish();
+
+        await expect(Promise.all(results)).resolves.toEqual(['first', 'ambient', 'player', 'speech']);
+        expect(log).toEqual(['first', 'speech', 'player', 'ambient']);
+        expect(scheduler.stats('llm')).toEqual({ active: 0, waiting: 0 });
+    });
+
+    it('should hold requests beyond the per-minute limit until the window moves on', async () => {
+        jest.useFakeTimers();
+        const scheduler = new RequestScheduler({ defaultLimits: { requestsPerMinute: 2 } });
+        const operation = jest.fn().mockResolvedValue('ok');
+
+        const results = [1, 2, 3].map(() => scheduler.run('gemini', operation));
+        await Promise.resolve();
+        expect(operation).toHaveBeenCalledTimes(2);
+
+        jest.advanceTimersByTime(60_000);
+        await expect(Promise.all(results)).resolves.toEqual(['ok', 'ok', 'ok']);
+        expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should send identical pending requests once and keep them running while anyone waits', async () => {
+        const scheduler = new RequestScheduler();
+        const shared = pendingOperation(log, 'shared');
+        const controller = new AbortController();
+
+        const cancelled = scheduler.run('tts', shared.operation, { key: 'Halt!', signal: controller.signal });
+        const kept = scheduler.run('tts', shared.operation, { key: 'Halt!' });
+        const other = scheduler.run('llm', jest.fn().mockResolvedValue('llm'), { key: 'Halt!' });
+        await flush();
+        controller.abort();
+        shared.finish();
+
+        await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+        await expect(kept).resolves.toBe('shared');
+        await expect(other).resolves.toBe('llm');
+        expect(shared.operation).toHaveBeenCalledTimes(1);
+        expect(shared.operation.mock.calls[0][0]!.aborted).toBe(false);
+    });
+
+    it('should abort a shared request once every caller has cancelled', async () => {
+        const scheduler = new RequestScheduler();
+        const shared = pendingOperation(log, 'shared');
+        const controller = new AbortController();
+
+        const first = scheduler.run('tts', shared.operation, { key: 'Halt!', signal: controller.signal });
+        const second = scheduler.run('tts', shared.operation, { key: 'Halt!', signal: controller.signal });
+        await flush();
+        controller.abort();
+
+        await expect(first).rejects.toBeInstanceOf(CancelledError);
+        await expect(second).rejects.toBeInstanceOf(CancelledError);
+        expect(shared.operation.mock.calls[0][0]!.aborted).toBe(true);
+    });
+
+    it('should not send a shared request for a caller that has already cancelled', async () => {
+        const scheduler = new RequestScheduler();
+        const shared = pendingOperation(log, 'shared');
+        const cancelled = new AbortController();
+        cancelled.abort();
+
+        await expect(scheduler.run('tts', shared.operation, { key: 'Halt!', signal: cancelled.signal })).rejects.toBeInstanceOf(CancelledError);
+        await flush();
+        expect(shared.operation).not.toHaveBeenCalled();
+
+        // The cancelled caller is not counted, so the next one alone can still cancel the request.
+        const controller = new AbortController();
+        const next = scheduler.run('tts', shared.operation, { key: 'Halt!', signal: controller.signal });
+        await flush();
+        controller.abort();
+
+        await expect(next).rejects.toBeInstanceOf(CancelledError);
+        expect(shared.operation.mock.calls[0][0]!.aborted).toBe(true);
+    });
+
+    it('should stop listening to a caller\'s signal once the shared request is done', async () => {
+        const scheduler = new RequestScheduler();
+        const controller = new AbortController();
+        const addEventListener = jest.spyOn(controller.signal, 'addEventListener');
+        const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+        await expect(scheduler.run('tts', jest.fn().mockResolvedValue('ok'), { key: 'Halt!', signal: controller.signal })).resolves.toBe('ok');
+        await flush();
+
+        const listeners = (spy: jest.SpyInstance) => spy.mock.calls.map(([, listener]) => listener);
+        expect(listeners(addEventListener).length).toBeGreaterThan(0);
+        expect(listeners(removeEventListener)).toEqual(expect.arrayContaining(listeners(addEventListener)));
+    });
+
+    it('should drop the oldest low-priority request when too many are waiting', async () => {
+        const scheduler = new RequestScheduler({ defaultLimits: { maxConcurrent: 1 }, maxQueueLength: 2 });
+        const running = pendingOperation(log, 'running');
+        const operation = jest.fn().mockResolvedValue('ok');
+
+        const results = [
+            scheduler.run('llm', running.operation),
+            scheduler.run('llm', operation, { priority: 'low' }),
+            scheduler.run('llm', operation, { priority: 'normal' }),
+            scheduler.run('llm', operation, { priority: 'low' }),
+            scheduler.run('llm', operation, { priority: 'high' }),
+        ];
+        await expect(results[1]).rejects.toBeInstanceOf(RequestDroppedError);
+        await expect(results[3]).rejects.toMatchObject({ code: 'dropped', provider: 'llm' });
+        running.finish();
+
+        await expect(Promise.all([results[0], results[2], results[4]])).resolves.toEqual(['running', 'ok', 'ok']);
+        expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop waiting for a slot when the request is cancelled', async () => {
+        const scheduler = new RequestScheduler({ defaultLimits: { maxConcurrent: 1 } });
+        const running = pendingOperation(log, 'running');
+        const operation = jest.fn().mockResolvedValue('ok');
+        const controller = new AbortController();
+
+        const first = scheduler.run('llm', running.operation);
+        const waiting = scheduler.run('llm', operation, { signal: controller.signal });
+        controller.abort();
+
+        await expect(waiting).rejects.toBeInstanceOf(CancelledError);
+        expect(scheduler.stats('llm')).toEqual({ active: 1, waiting: 0 });
+        running.finish();
+        await expect(first).resolves.toBe('running');
+        expect(operation).not.toHaveBeenCalled();
+    });
+});
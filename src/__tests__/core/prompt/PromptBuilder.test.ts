@@ -0,0 +1,115 @@
+import { describeCast, PromptBuilder } from '../../../core/prompt/PromptBuilder';
+import { PromptTemplate } from '../../../core/prompt/PromptTemplate';
+
+describe('PromptTemplate', () => {
+    it('should fill dotted placeholders and fall back to defaults', () => {
+        const template = new PromptTemplate('You are {{npc.name}}, {{ npc.mood | calm }}. Items: {{npc.items}}. Stats: {{npc.stats}}');
+
+        const prompt = template.render({ npc: { name: 'Bob', mood: '', items: ['axe', 'rope'], stats: { str: 3 } } });
+
+        expect(prompt).toBe('You are Bob, calm. Items: axe, rope. Stats: {"str":3}');
+    });
+
+    it('should drop lines whose placeholders have no value and squeeze blank lines', () => {
+        const template = new PromptTemplate(`
+            First line.
+            {{missing}}
+
+            {{also.missing}}
+
+            Last line with {{value}}.`);
+
+        expect(template.render({ value: 42 })).toBe('First line.\n\nLast line with 42.');
+    });
+
+    it('should list its placeholders', () => {
+        expect(new PromptTemplate('{{a}} {{b.c|x}} {{a}}').placeholders).toEqual(['a', 'b.c']);
+    });
+});
+
+describe('PromptBuilder', () => {
+    const context = {
+        npc: { name: 'Vex', personality: 'sarcastic', faction: 'Syndicate', voiceId: 'secret-voice' },
+        player: { name: 'Nova', level: 12, credits: 300 },
+        game: { location: 'Orbital Station 9', timeOfDay: 'night cycle', alertLevel: 'high' },
+    };
+
+    it('should build a genre-agnostic greeting with the configured setting', () => {
+        const builder = new PromptBuilder({ setting: 'A cyberpunk space opera. Corporations rule the stars.' });
+
+        const prompt = builder.build('greeting', context);
+
+        expect(prompt).toContain('You are Vex, a character in a game.\nA cyberpunk space opera. Corporations rule the stars.');
+        expect(prompt).toContain('Current situation: You are at Orbital Station 9, and it is night cycle.');
+        expect(prompt).not.toContain('fantasy');
+    });
+
+    it('should serialize state fields the template does not reference', () => {
+        const prompt = new PromptBuilder().build('greeting', context);
+
+        expect(prompt).toContain('More about you:\n- faction: Syndicate');
+        expect(prompt).toContain('More about the player:\n- credits: 300');
+        expect(prompt).toContain('More about the world:\n- alertLevel: high');
+        expect(prompt).not.toContain('- name:');
+        expect(prompt).not.toContain('secret-voice');
+    });
+
+    it('should leave out the position and bark range of NPCs', () => {
+        const prompt = new PromptBuilder().build('greeting', {
+            ...context,
+            npc: { ...context.npc, position: { x: 4, y: 0, z: 12 }, barkRange: 30 },
+        });
+
+        expect(prompt).toContain('- faction: Syndicate');
+        expect(prompt).not.toContain('position');
+        expect(prompt).not.toContain('barkRange');
+    });
+
+    it('should use the template registered for an interaction type', () => {
+        const builder = new PromptBuilder({ templates: { taunt: 'Taunt {{player.name}} as {{npc.name}}.' } });
+        builder.registerTemplate('merchant', new PromptTemplate('Sell {{npc.wares|stuff}} to {{player.name}}.'));
+
+        expect(builder.build('taunt', context)).toBe('Taunt Nova as Vex.');
+        expect(builder.build('merchant', context)).toBe('Sell stuff to Nova.');
+        expect(builder.hasTemplate('bark')).toBe(true);
+    });
+
+    it('should fall back to the greeting template for unknown interaction types', () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const builder = new PromptBuilder();
+
+        expect(builder.build('unknown', context)).toBe(builder.build('greeting', context));
+        expect(warnSpy).toHaveBeenCalled();
+        warnSpy.mockRestore();
+    });
+
+    it('should include memories when given', () => {
+        const prompt = new PromptBuilder().build('conversation', { ...context, memories: 'Things you remember about the player:\n- Nova owes you.' });
+        expect(prompt).toContain('- Nova owes you.\nStay in character');
+    });
+});
+
+describe('describeCast', () => {
+    it('should list each NPC with its id, name, personality and other state, without plugin fields', () => {
+        const cast = describeCast([
+            { entityId: 'guard-1', state: { name: 'Bram', personality: 'grumpy', voiceId: 'v1', post: 'north gate' } },
+            { entityId: 'guard-2', state: {} },
+        ]);
+
+        expect(cast).toBe('- guard-1: Bram, grumpy (post: north gate)\n- guard-2: guard-2, a mysterious stranger');
+    });
+
+    it('should fill the scene template with the cast and the situation', () => {
+        const prompt = new PromptBuilder().build('scene', {
+            npc: {},
+            player: { name: 'Nova' },
+            game: { location: 'the gate', timeOfDay: 'night' },
+            cast: '- guard-1: Bram, grumpy',
+            situation: 'a quiet shift',
+        });
+
+        expect(prompt).toContain('The characters, by id:\n- guard-1: Bram, grumpy\nCurrent situation: They are at the gate, and it is night.');
+        expect(prompt).toContain('The player, Nova, is nearby');
+        expect(prompt).toContain('The scene: a quiet shift');
+    });
+});
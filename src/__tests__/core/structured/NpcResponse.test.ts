@@ -0,0 +1,91 @@
+import { parseLLMJson, validateJsonSchema } from '../../../core/structured/JsonSchema';
+import { generateNpcResponse, NPC_RESPONSE_SCHEMA } from '../../../core/structured/NpcResponse';
+
+describe('validateJsonSchema', () => {
+    it('should accept a valid NPC response', () => {
+        const response = {
+            line: 'Take this key.',
+            emotion: 'happy',
+            playerChoices: ['Thanks!', 'What is it for?'],
+            actions: [{ type: 'give_item', argument: 'rusty_key' }],
+        };
+        expect(validateJsonSchema(response, NPC_RESPONSE_SCHEMA)).toEqual([]);
+    });
+
+    it('should report every problem with its path', () => {
+        const response = {
+            emotion: 'bored',
+            playerChoices: ['a', 'b', 'c', 'd', 'e'],
+            actions: [{ argument: 'x' }, 'jump'],
+        };
+        expect(validateJsonSchema(response, NPC_RESPONSE_SCHEMA)).toEqual([
+            '$.line is required',
+            '$.emotion should be one of neutral, happy, sad, angry, afraid, surprised, excited',
+            '$.playerChoices should have at most 4 items',
+            '$.actions[0].type is required',
+            '$.actions[1] should be of type object',
+        ]);
+    });
+
+    it('should check scalar constraints', () => {
+        expect(validateJsonSchema(1.5, { type: 'integer' })).toEqual(['$ should be of type integer']);
+        expect(validateJsonSchema(11, { type: 'number', maximum: 10 })).toEqual(['$ should be at most 10']);
+        expect(validateJsonSchema('', { type: 'string', minLength: 1 })).toEqual(['$ should have at least 1 characters']);
+        expect(validateJsonSchema(null, { type: 'string', nullable: true })).toEqual([]);
+    });
+});
+
+describe('parseLLMJson', () => {
+    it('should parse plain, fenced and embedded JSON', () => {
+        expect(parseLLMJson('{"line": "Hi"}')).toEqual({ line: 'Hi' });
+        expect(parseLLMJson('```json\n{"line": "Hi"}\n```')).toEqual({ line: 'Hi' });
+        expect(parseLLMJson('Sure! {"line": "Hi"} Hope that helps.')).toEqual({ line: 'Hi' });
+    });
+
+    it('should throw when there is no JSON', () => {
+        expect(() => parseLLMJson('Hello there')).toThrow(SyntaxError);
+    });
+});
+
+describe('generateNpcResponse', () => {
+    let consoleErrorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        consoleErrorSpy.mockRestore();
+    });
+
+    it('should retry with a correction until the answer is valid', async () => {
+        const attempt = jest.fn()
+            .mockResolvedValueOnce('not json')
+            .mockResolvedValueOnce('{"emotion": "happy"}')
+            .mockResolvedValueOnce('{"line": "Finally.", "emotion": "neutral"}');
+
+        const response = await generateNpcResponse(attempt, NPC_RESPONSE_SCHEMA, 2);
+
+        expect(response).toEqual({ line: 'Finally.', emotion: 'neutral' });
+        expect(attempt).toHaveBeenNthCalledWith(1, undefined);
+        expect(attempt).toHaveBeenNthCalledWith(2, expect.stringContaining('the answer is not valid JSON'));
+        expect(attempt).toHaveBeenNthCalledWith(3, expect.stringContaining('$.line is required'));
+    });
+
+    it('should give up after the maximum number of retries', async () => {
+        const attempt = jest.fn().mockResolvedValue('{}');
+        expect(await generateNpcResponse(attempt, NPC_RESPONSE_SCHEMA, 1)).toBeNull();
+        expect(attempt).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry when the provider returns nothing', async () => {
+        const attempt = jest.fn().mockResolvedValue(null);
+        expect(await generateNpcResponse(attempt, NPC_RESPONSE_SCHEMA, 3)).toBeNull();
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('should insist on a string line even with a custom schema', async () => {
+        const attempt = jest.fn().mockResolvedValue('{"text": "Hi"}');
+        expect(await generateNpcResponse(attempt, { type: 'object' }, 0)).toBeNull();
+    });
+});
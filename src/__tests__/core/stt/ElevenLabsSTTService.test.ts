@@ -0,0 +1,93 @@
+import { ElevenLabsSTTService } from '../../../core/stt/ElevenLabsSTTService';
+import { MockElevenLabsServer } from '../../../core/testing/MockElevenLabsServer';
+import fetch from 'cross-fetch';
+
+jest.mock('cross-fetch');
+
+const mockedFetch = fetch as jest.Mock;
+
+/**
+ * The parts of a multipart/form-data body by name, with their headers and contents.
+ */
+function parseForm(body: ArrayBuffer | Uint8Array, contentType: string): Record<string, { headers: string; value: Buffer }> {
+    const boundary = contentType.match(/^multipart\/form-data; boundary=(.+)$/)![1];
+    const raw = Buffer.from(body instanceof Uint8Array ? body : new Uint8Array(body)).toString('latin1');
+    expect(raw.endsWith(`--${boundary}--\r\n`)).toBe(true);
+    return Object.fromEntries(raw.split(`--${boundary}`).slice(1, -1).map((part) => {
+        const [headers, ...rest] = part.slice(2, -2).split('\r\n\r\n');
+        return [headers.match(/name="([^"]+)"/)![1], { headers, value: Buffer.from(rest.join('\r\n\r\n'), 'latin1') }];
+    }));
+}
+
+describe('ElevenLabsSTTService', () => {
+    const apiKey = 'test-api-key';
+
+    beforeEach(() => {
+        mockedFetch.mockReset();
+        delete process.env.ELEVENLABS_STT_MODEL_ID;
+    });
+
+    it('should throw an error if API key is not provided', () => {
+        expect(() => new ElevenLabsSTTService('')).toThrow('ElevenLabs API key is required.');
+    });
+
+    it('should upload the recording as a form and return the transcript', async () => {
+        const sttService = new ElevenLabsSTTService(apiKey);
+        mockedFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ text: ' Where is the smithy? ', language_code: 'en' }) });
+
+        const result = await sttService.transcribe(new Uint8Array([1, 2, 3]).buffer, { mimeType: 'audio/webm', languageCode: 'en' });
+
+        expect(result).toEqual({ text: 'Where is the smithy?', languageCode: 'en' });
+        const [url, request] = mockedFetch.mock.calls[0];
+        expect(url).toBe('https://api.elevenlabs.io/v1/speech-to-text');
+        expect(request).toEqual(expect.objectContaining({ method: 'POST', headers: { 'xi-api-key': apiKey, 'Content-Type': expect.stringMatching(/^multipart\/form-data; boundary=/) } }));
+        const form = parseForm(request.body, request.headers['Content-Type']);
+        expect(form.model_id.value.toString()).toBe('scribe_v1');
+        expect(form.language_code.value.toString()).toBe('en');
+        expect(form.file.headers).toContain('filename="speech"');
+        expect(form.file.headers).toContain('Content-Type: audio/webm');
+        expect([...form.file.value]).toEqual([1, 2, 3]);
+    });
+
+    it('should send a multipart body a server can read', async () => {
+        mockedFetch.mockImplementation(jest.requireActual('cross-fetch').default);
+        const server = new MockElevenLabsServer({ transcripts: ['Open the gate.'] });
+        const baseUrl = await server.start();
+        try {
+            const audio = new Uint8Array([0, 13, 10, 45, 45, 255]);
+            const result = await new ElevenLabsSTTService(apiKey, undefined, {}, baseUrl).transcribe(audio.buffer, { mimeType: 'audio/wav' });
+
+            expect(result.text).toBe('Open the gate.');
+            const [request] = server.requests;
+            const form = parseForm(request.body, request.headers['content-type']);
+            expect(form.model_id.value.toString()).toBe('scribe_v1');
+            expect(form.file.headers).toContain('Content-Type: audio/wav');
+            expect([...form.file.value]).toEqual([...audio]);
+            expect(Buffer.from(request.body).toString()).not.toContain('[object FormData]');
+        } finally {
+            await server.stop();
+        }
+    });
+
+    it('should use the model ID from the constructor over the environment variable', async () => {
+        process.env.ELEVENLABS_STT_MODEL_ID = 'env-model';
+        mockedFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ text: 'Hi.' }) });
+
+        await new ElevenLabsSTTService(apiKey).transcribe(new ArrayBuffer(1));
+        await new ElevenLabsSTTService(apiKey, 'scribe_v2').transcribe(new ArrayBuffer(1));
+
+        const modelOf = ([, request]: any[]) => parseForm(request.body, request.headers['Content-Type']).model_id.value.toString();
+        expect(modelOf(mockedFetch.mock.calls[0])).toBe('env-model');
+        expect(modelOf(mockedFetch.mock.calls[1])).toBe('scribe_v2');
+    });
+
+    it('should throw typed errors for failed requests and answers without a transcript', async () => {
+        const sttService = new ElevenLabsSTTService(apiKey, undefined, { maxRetries: 0 });
+        mockedFetch
+            .mockResolvedValueOnce({ ok: false, status: 401, text: () => Promise.resolve('Invalid API key') })
+            .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ detail: 'nothing' }) });
+
+        await expect(sttService.transcribe(new ArrayBuffer(1))).rejects.toMatchObject({ code: 'authentication', provider: 'elevenlabs' });
+        await expect(sttService.transcribe(new ArrayBuffer(1))).rejects.toMatchObject({ code: 'empty_response' });
+    });
+});
@@ -0,0 +1,22 @@
+import { StubSTTService } from '../../../core/stt/StubSTTService';
+
+describe('StubSTTService', () => {
+    it('should return the scripted transcripts in turn', async () => {
+        const sttService = new StubSTTService(['Hello.', 'Goodbye.']);
+        const audio = new ArrayBuffer(1);
+
+        const transcripts = [];
+        for (let i = 0; i < 3; i++) {
+            transcripts.push((await sttService.transcribe(audio)).text);
+        }
+
+        expect(transcripts).toEqual(['Hello.', 'Goodbye.', 'Hello.']);
+    });
+
+    it('should let a function pick the transcript and keep the requested language', async () => {
+        const sttService = new StubSTTService((audio) => `${audio.byteLength} bytes`);
+
+        await expect(sttService.transcribe(new ArrayBuffer(4), { languageCode: 'de' })).resolves.toEqual({ text: '4 bytes', languageCode: 'de' });
+        await expect(new StubSTTService().transcribe(new ArrayBuffer(4))).resolves.toEqual({ text: '' });
+    });
+});
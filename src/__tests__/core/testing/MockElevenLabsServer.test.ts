@@ -0,0 +1,92 @@
+import fetch from 'cross-fetch';
+import { RateLimitError } from '../../../core/net/errors';
+import { ElevenLabsSTTService } from '../../../core/stt/ElevenLabsSTTService';
+import { ElevenLabsTTSService } from '../../../core/tts/ElevenLabsTTSService';
+import { MockElevenLabsServer } from '../../../core/testing/MockElevenLabsServer';
+
+describe('MockElevenLabsServer', () => {
+    let server: MockElevenLabsServer;
+    let baseUrl: string;
+    let consoleLogSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+        server = new MockElevenLabsServer({ transcripts: ['Where is the key?'] });
+        baseUrl = await server.start();
+        consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        consoleLogSpy.mockRestore();
+        await server.stop();
+    });
+
+    it('should synthesize placeholder MP3 audio and bill the characters', async () => {
+        const onUsage = jest.fn();
+        const service = new ElevenLabsTTSService('fake-key', 'eleven_flash_v2_5', {}, undefined, baseUrl);
+
+        const speech = await service.generateSpeech('Halt!', { voiceId: 'guard-voice', onUsage });
+
+        expect(Buffer.from(speech.audioData).toString('utf8')).toBe('mock mp3 audio: Halt!');
+        expect(speech).toMatchObject({ mimeType: 'audio/mpeg', format: 'mp3' });
+        expect(onUsage).toHaveBeenCalledWith({ model: 'eleven_flash_v2_5', characters: 5 });
+        expect(server.lines).toEqual(['Halt!']);
+        expect(server.requests[0].path).toBe('/v1/text-to-speech/guard-voice');
+    });
+
+    it('should return silent PCM of the line\'s length with character timings', async () => {
+        const service = new ElevenLabsTTSService('fake-key', undefined, {}, 'pcm_24000', baseUrl);
+
+        const speech = await service.generateSpeech('Hi.', { withTimings: true });
+
+        // 3 characters of 60 ms at 24 kHz, 16 bits each.
+        expect(speech.audioData.byteLength).toBe(3 * 0.06 * 24000 * 2);
+        expect(speech.durationMs).toBe(180);
+        expect(speech.alignment?.[1]).toEqual({ character: 'i', startMs: 60, endMs: 120 });
+    });
+
+    it('should stream audio in chunks', async () => {
+        const service = new ElevenLabsTTSService('fake-key', undefined, {}, 'pcm_16000', baseUrl);
+        let bytes = 0;
+
+        for await (const chunk of service.generateSpeechStream!('Hello.')) {
+            bytes += chunk.audioData.byteLength;
+        }
+
+        expect(bytes).toBe(6 * 0.06 * 16000 * 2);
+    });
+
+    it('should transcribe recordings', async () => {
+        const service = new ElevenLabsSTTService('fake-key', undefined, {}, baseUrl);
+
+        await expect(service.transcribe(new ArrayBuffer(16), { mimeType: 'audio/webm' })).resolves.toEqual({ text: 'Where is the key?', languageCode: 'en' });
+    });
+
+    it('should reject recordings that are not uploaded as a form with a file and a model', async () => {
+        const post = (body: string, contentType: string) => fetch(`${baseUrl}/v1/speech-to-text`, {
+            method: 'POST',
+            headers: { 'xi-api-key': 'fake-key', 'Content-Type': contentType },
+            body,
+        });
+        const form = (...names: string[]) => [
+            ...names.map((name) => `--b\r\nContent-Disposition: form-data; name="${name}"\r\n\r\nvalue\r\n`),
+            '--b--\r\n',
+        ].join('');
+
+        expect((await post('[object FormData]', 'text/plain;charset=UTF-8')).status).toBe(422);
+        expect((await post(form('model_id'), 'multipart/form-data; boundary=b')).status).toBe(422);
+        expect((await post(form('file'), 'multipart/form-data; boundary=b')).status).toBe(422);
+        const response = await post(form('file', 'model_id'), 'multipart/form-data; boundary=b');
+        expect(response.status).toBe(200);
+        await expect(response.json()).resolves.toEqual({ text: 'Where is the key?', language_code: 'en' });
+    });
+
+    it('should answer simulated failures in the ElevenLabs error shape', async () => {
+        server.failNext({ status: 429, headers: { 'retry-after': '2' } });
+        const service = new ElevenLabsTTSService('fake-key', undefined, { maxRetries: 0 }, undefined, baseUrl);
+
+        const error = await service.generateSpeech('Halt!').catch((caught) => caught);
+
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error.retryAfterMs).toBe(2000);
+    });
+});
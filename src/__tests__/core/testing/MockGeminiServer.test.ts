@@ -0,0 +1,78 @@
+import { GeminiService } from '../../../core/llm/GeminiService';
+import { ContentBlockedError, RateLimitError, ServiceUnavailableError, TimeoutError } from '../../../core/net/errors';
+import { MockGeminiServer } from '../../../core/testing/MockGeminiServer';
+
+describe('MockGeminiServer', () => {
+    let server: MockGeminiServer;
+    let baseUrl: string;
+    let consoleLogSpy: jest.SpyInstance;
+    const createService = (requestPolicy = {}) => new GeminiService('fake-key', 'gemini-1.5-flash', { maxRetries: 0, ...requestPolicy }, baseUrl);
+
+    beforeEach(async () => {
+        server = new MockGeminiServer({ replies: ['Well met.', 'Back again?'] });
+        baseUrl = await server.start();
+        consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        consoleLogSpy.mockRestore();
+        await server.stop();
+    });
+
+    it('should answer generateContent with its replies in order and report token usage', async () => {
+        const onUsage = jest.fn();
+        const service = createService();
+
+        await expect(service.generateText('Greet the player.', { onUsage })).resolves.toBe('Well met.');
+        await expect(service.generateText('Greet the player again.')).resolves.toBe('Back again?');
+        await expect(service.generateText('And again.')).resolves.toBe('Back again?');
+
+        expect(server.prompts).toEqual(['Greet the player.', 'Greet the player again.', 'And again.']);
+        expect(server.requests[0].path).toBe('/v1beta/models/gemini-1.5-flash:generateContent');
+        expect(onUsage).toHaveBeenCalledWith({ model: 'gemini-1.5-flash', promptTokens: expect.any(Number), outputTokens: 3, totalTokens: expect.any(Number) });
+    });
+
+    it('should stream replies a few words at a time', async () => {
+        server.reply('One two three four five.');
+        const chunks: string[] = [];
+
+        for await (const chunk of createService().generateTextStream('Talk.')) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks).toEqual(['One two three ', 'four five.']);
+    });
+
+    it('should answer with function calls, blocked prompts and replies computed from the request', async () => {
+        server.reply(
+            { functionCalls: [{ name: 'give_item', args: { item: 'key' } }] },
+            { blockReason: 'SAFETY' },
+            (request) => `You said ${request.json.contents[0].parts[0].text.length} characters.`,
+        );
+        const service = createService();
+
+        await expect(service.generateTurn([{ role: 'user', text: 'Give me the key.' }])).resolves.toEqual({
+            text: null,
+            toolCalls: [{ name: 'give_item', args: { item: 'key' } }],
+        });
+        await expect(service.generateText('Something bad.')).rejects.toBeInstanceOf(ContentBlockedError);
+        await expect(service.generateText('Hello.')).resolves.toBe('You said 6 characters.');
+    });
+
+    it('should simulate errors, dropped connections and latency', async () => {
+        server.failNext({ status: 429 });
+        server.failNext({ disconnect: true });
+        const service = createService();
+
+        await expect(service.generateText('Hi.')).rejects.toBeInstanceOf(RateLimitError);
+        await expect(service.generateText('Hi.')).rejects.toBeInstanceOf(ServiceUnavailableError);
+
+        server.failNext({ status: 503, times: 2 });
+        const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        await expect(createService({ maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 }).generateText('Hi.')).resolves.toBe('Well met.');
+        consoleWarnSpy.mockRestore();
+
+        server.latencyMs = 200;
+        await expect(createService({ timeoutMs: 50 }).generateText('Hi.')).rejects.toBeInstanceOf(TimeoutError);
+    });
+});
@@ -0,0 +1,85 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { GeminiService } from '../../../core/llm/GeminiService';
+import { MockElevenLabsServer } from '../../../core/testing/MockElevenLabsServer';
+import { MockGeminiServer } from '../../../core/testing/MockGeminiServer';
+import { FixtureFile, RecordReplayServer } from '../../../core/testing/RecordReplayServer';
+import { ElevenLabsTTSService } from '../../../core/tts/ElevenLabsTTSService';
+
+describe('RecordReplayServer', () => {
+    let directory: string;
+    let fixturePath: string;
+    let consoleLogSpy: jest.SpyInstance;
+    const gemini = (baseUrl: string) => new GeminiService('secret-key', 'gemini-1.5-flash', { maxRetries: 0 }, baseUrl);
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'fixtures-'));
+        fixturePath = path.join(directory, 'gemini.json');
+        consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        consoleLogSpy.mockRestore();
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should record answers without API keys, then replay them in order without the upstream', async () => {
+        const upstream = new MockGeminiServer({ replies: ['First.', 'Second.'] });
+        const recorder = new RecordReplayServer({ upstream: await upstream.start(), fixturePath, mode: 'record' });
+        const recording = gemini(await recorder.start());
+        await expect(recording.generateText('Hello.')).resolves.toBe('First.');
+        await expect(recording.generateText('Hello.')).resolves.toBe('Second.');
+        await recorder.stop();
+        await upstream.stop();
+
+        const fixtures: FixtureFile = JSON.parse(await fs.readFile(fixturePath, 'utf8'));
+        expect(fixtures.interactions).toHaveLength(2);
+        expect(fixtures.interactions[0].request).toEqual({ method: 'POST', path: '/v1beta/models/gemini-1.5-flash:generateContent', body: expect.any(Object) });
+        expect(JSON.stringify(fixtures)).not.toContain('secret-key');
+
+        const player = new RecordReplayServer({ upstream: 'http://127.0.0.1:9', fixturePath, mode: 'replay' });
+        const replaying = gemini(await player.start());
+        await expect(replaying.generateText('Hello.')).resolves.toBe('First.');
+        await expect(replaying.generateText('Hello.')).resolves.toBe('Second.');
+        await expect(replaying.generateText('Hello.')).resolves.toBe('Second.');
+        await expect(replaying.generateText('Something new.')).rejects.toThrow('No recorded response for POST /v1beta/models/gemini-1.5-flash:generateContent');
+        await player.stop();
+    });
+
+    it('should replay binary audio and record only what is missing in auto mode', async () => {
+        const upstream = new MockElevenLabsServer();
+        const server = new RecordReplayServer({ upstream: await upstream.start(), fixturePath, mode: 'auto' });
+        const service = new ElevenLabsTTSService('secret-key', undefined, {}, 'pcm_16000', await server.start());
+
+        const first = await service.generateSpeech('Halt!');
+        const again = await service.generateSpeech('Halt!');
+        await service.generateSpeech('Who goes there?');
+
+        expect(upstream.lines).toEqual(['Halt!', 'Who goes there?']);
+        expect(again.audioData.byteLength).toBe(first.audioData.byteLength);
+        await server.stop();
+        await upstream.stop();
+        const fixtures: FixtureFile = JSON.parse(await fs.readFile(fixturePath, 'utf8'));
+        expect(fixtures.interactions.map(({ request, response }) => [request.path, response.encoding])).toEqual([
+            ['/v1/text-to-speech/21m00Tcm4TlvDq8ikWAM?output_format=pcm_16000', 'base64'],
+            ['/v1/text-to-speech/21m00Tcm4TlvDq8ikWAM?output_format=pcm_16000', 'base64'],
+        ]);
+    });
+
+    it('should take its mode from FIXTURE_MODE and default to replay', () => {
+        const original = process.env.FIXTURE_MODE;
+        try {
+            delete process.env.FIXTURE_MODE;
+            expect(new RecordReplayServer({ upstream: 'http://localhost', fixturePath }).mode).toBe('replay');
+            process.env.FIXTURE_MODE = 'record';
+            expect(new RecordReplayServer({ upstream: 'http://localhost', fixturePath }).mode).toBe('record');
+        } finally {
+            if (original === undefined) {
+                delete process.env.FIXTURE_MODE;
+            } else {
+                process.env.FIXTURE_MODE = original;
+            }
+        }
+    });
+});
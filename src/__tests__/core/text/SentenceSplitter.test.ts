@@ -0,0 +1,31 @@
+import { SentenceSplitter } from '../../../core/text/SentenceSplitter';
+
+describe('SentenceSplitter', () => {
+    let splitter: SentenceSplitter;
+
+    beforeEach(() => {
+        splitter = new SentenceSplitter();
+    });
+
+    it('should hold back text until a sentence is complete', () => {
+        expect(splitter.push('Hello the')).toEqual([]);
+        expect(splitter.push('re, traveler. How ')).toEqual(['Hello there, traveler.']);
+        expect(splitter.push('are you?')).toEqual([]);
+        expect(splitter.flush()).toBe('How are you?');
+    });
+
+    it('should split several sentences arriving in one chunk', () => {
+        expect(splitter.push('Stop! Who goes there? Speak up... ')).toEqual(['Stop!', 'Who goes there?', 'Speak up...']);
+        expect(splitter.flush()).toBeNull();
+    });
+
+    it('should keep closing quotes with their sentence and split on newlines', () => {
+        expect(splitter.push('He said "Run!" Then\nhe ran')).toEqual(['He said "Run!"', 'Then']);
+        expect(splitter.flush()).toBe('he ran');
+    });
+
+    it('should not split on punctuation inside a word or number', () => {
+        expect(splitter.push('That costs 3.50 gold, friend.')).toEqual([]);
+        expect(splitter.flush()).toBe('That costs 3.50 gold, friend.');
+    });
+});
@@ -0,0 +1,70 @@
+import { runToolLoop } from '../../../core/tools/ToolLoop';
+
+const giveItem = {
+    name: 'give_item',
+    description: 'Give the player an item.',
+    parameters: { type: 'object' as const, properties: { item: { type: 'string' as const } }, required: ['item'] },
+};
+
+describe('runToolLoop', () => {
+    let consoleErrorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        consoleErrorSpy.mockRestore();
+    });
+
+    it('should execute tool calls and send the results back until the model answers', async () => {
+        const generate = jest.fn()
+            .mockResolvedValueOnce({ text: null, toolCalls: [{ id: 'call-1', name: 'give_item', args: { item: 'key' } }] })
+            .mockResolvedValueOnce({ text: 'Here, take this key.', toolCalls: [] });
+        const execute = jest.fn().mockResolvedValue({ given: true });
+        const messages = [{ role: 'user' as const, text: 'Can I have the key?' }];
+
+        const text = await runToolLoop(messages, [giveItem], generate, execute, 3);
+
+        expect(text).toBe('Here, take this key.');
+        expect(execute).toHaveBeenCalledWith({ id: 'call-1', name: 'give_item', args: { item: 'key' } });
+        expect(generate).toHaveBeenLastCalledWith([
+            { role: 'user', text: 'Can I have the key?' },
+            { role: 'model', text: '', toolCalls: [{ id: 'call-1', name: 'give_item', args: { item: 'key' } }] },
+            { role: 'user', text: '', toolResults: [{ id: 'call-1', name: 'give_item', result: { given: true } }] },
+        ]);
+        expect(messages).toHaveLength(1);
+    });
+
+    it('should report invalid calls and execution errors to the model without dispatching invalid calls', async () => {
+        const generate = jest.fn()
+            .mockResolvedValueOnce({ text: null, toolCalls: [{ name: 'give_item', args: {} }, { name: 'attack', args: {} }, { name: 'give_item', args: { item: 'sword' } }] })
+            .mockResolvedValueOnce({ text: 'Sorry, I cannot.', toolCalls: [] });
+        const execute = jest.fn().mockRejectedValue(new Error('Inventory is full'));
+
+        await runToolLoop([{ role: 'user', text: 'Give me things.' }], [giveItem], generate, execute, 3);
+
+        expect(execute).toHaveBeenCalledTimes(1);
+        expect(generate.mock.calls[1][0][2].toolResults).toEqual([
+            { name: 'give_item', error: 'Invalid call: args.item is required' },
+            { name: 'attack', error: 'Invalid call: the tool "attack" is not available' },
+            { name: 'give_item', error: 'Inventory is full' },
+        ]);
+    });
+
+    it('should stop executing calls after the maximum number of rounds', async () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const generate = jest.fn().mockResolvedValue({ text: 'Again!', toolCalls: [{ name: 'give_item', args: { item: 'coin' } }] });
+        const execute = jest.fn().mockResolvedValue('ok');
+
+        expect(await runToolLoop([{ role: 'user', text: 'Coins?' }], [giveItem], generate, execute, 2)).toBe('Again!');
+        expect(execute).toHaveBeenCalledTimes(2);
+        expect(generate).toHaveBeenCalledTimes(3);
+        warnSpy.mockRestore();
+    });
+
+    it('should return null when the model produces nothing', async () => {
+        const generate = jest.fn().mockResolvedValue(null);
+        expect(await runToolLoop([{ role: 'user', text: 'Hi' }], [giveItem], generate, jest.fn(), 3)).toBeNull();
+    });
+});
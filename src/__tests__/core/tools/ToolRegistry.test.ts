@@ -0,0 +1,51 @@
+import { ToolRegistry, validateToolCall } from '../../../core/tools/ToolRegistry';
+
+const giveItem = {
+    name: 'give_item',
+    description: 'Give the player an item from your inventory.',
+    parameters: {
+        type: 'object' as const,
+        properties: { item: { type: 'string' as const }, amount: { type: 'integer' as const, minimum: 1 } },
+        required: ['item'],
+    },
+};
+const openShop = { name: 'open_shop', description: 'Open your shop to the player.' };
+
+describe('ToolRegistry', () => {
+    it('should register, replace and unregister tools', () => {
+        const registry = new ToolRegistry([giveItem]);
+        registry.register(openShop);
+        registry.register({ ...openShop, description: 'Open the shop.' });
+
+        expect(registry.list().map((tool) => tool.name)).toEqual(['give_item', 'open_shop']);
+        expect(registry.get('open_shop')?.description).toBe('Open the shop.');
+
+        registry.unregister('give_item');
+        expect(registry.has('give_item')).toBe(false);
+    });
+
+    it('should only allow the registered tools an NPC lists', () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const registry = new ToolRegistry([giveItem, openShop]);
+
+        expect(registry.allowedFor({ name: 'Greta', tools: ['open_shop', 'fly'] })).toEqual([openShop]);
+        expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Unknown tool "fly"'));
+        expect(registry.allowedFor({ name: 'Guard' })).toEqual([]);
+        warnSpy.mockRestore();
+    });
+});
+
+describe('validateToolCall', () => {
+    it('should accept calls matching an allowed tool', () => {
+        expect(validateToolCall({ name: 'give_item', args: { item: 'rusty_key', amount: 1 } }, [giveItem])).toEqual([]);
+        expect(validateToolCall({ name: 'open_shop', args: {} }, [openShop])).toEqual([]);
+    });
+
+    it('should reject tools that are not allowed and invalid arguments', () => {
+        expect(validateToolCall({ name: 'open_shop', args: {} }, [giveItem])).toEqual(['the tool "open_shop" is not available']);
+        expect(validateToolCall({ name: 'give_item', args: { amount: 0 } }, [giveItem])).toEqual([
+            'args.item is required',
+            'args.amount should be at least 1',
+        ]);
+    });
+});
@@ -0,0 +1,43 @@
+import { CommandTTSService } from '../../../core/tts/CommandTTSService';
+
+describe('CommandTTSService', () => {
+    it('should throw an error if no command is provided', () => {
+        expect(() => new CommandTTSService({ command: '' })).toThrow('A TTS command is required.');
+    });
+
+    it('should write the text to stdin and return stdout as audio', async () => {
+        // Node itself stands in for a speech engine: it echoes stdin back to stdout.
+        const ttsService = new CommandTTSService({
+            command: process.execPath,
+            args: ['-e', 'process.stdin.pipe(process.stdout)'],
+        });
+
+        const result = await ttsService.generateSpeech('Hello');
+
+        expect(result?.mimeType).toBe('audio/wav');
+        expect(result?.format).toBe('wav');
+        expect(Buffer.from(result!.audioData).toString()).toBe('Hello');
+    });
+
+    describe('when handling errors', () => {
+        let consoleErrorSpy: jest.SpyInstance;
+
+        beforeEach(() => {
+            consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should return null if the command exits with an error', async () => {
+            const ttsService = new CommandTTSService({ command: process.execPath, args: ['-e', 'process.exit(3)'] });
+            expect(await ttsService.generateSpeech('Hello')).toBeNull();
+        });
+
+        it('should return null if the command does not exist', async () => {
+            const ttsService = new CommandTTSService({ command: 'definitely-not-a-tts-engine' });
+            expect(await ttsService.generateSpeech('Hello')).toBeNull();
+        });
+    });
+});
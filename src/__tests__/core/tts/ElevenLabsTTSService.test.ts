@@ -1,5 +1,7 @@
 import { ElevenLabsTTSService } from '../../../core/tts/ElevenLabsTTSService';
 import fetch from 'cross-fetch';
+import { AuthenticationError, CancelledError, QuotaExceededError, TimeoutError } from '../../../core/net/errors';
+import { TTSResult } from '../../../core/tts/TTSProvider';
 
 jest.mock('cross-fetch');
 
@@ -11,7 +13,7 @@ describe('ElevenLabsTTSService', () => {
     const originalEnv = process.env;
 
     beforeEach(() => {
-        mockedFetch.mockClear();
+        mockedFetch.mockReset();
         jest.resetModules(); // Necessary to re-evaluate process.env in the module
         process.env = { ...originalEnv };
     });
@@ -59,7 +61,8 @@ describe('ElevenLabsTTSService', () => {
         });
 
         const result = await ttsService.generateSpeech('Hello');
-        expect(result).toBe(mockAudioData);
+        expect(result).toEqual({ audioData: mockAudioData, mimeType: 'audio/mpeg', format: 'mp3' });
+        expect(result?.audioData).toBe(mockAudioData);
         expect(mockedFetch).toHaveBeenCalledTimes(1);
         expect(mockedFetch).toHaveBeenCalledWith(
             expect.stringContaining('https://api.elevenlabs.io/v1/text-to-speech/'),
@@ -71,35 +74,231 @@ describe('ElevenLabsTTSService', () => {
         );
     });
 
+    it('should use the default voice and voice settings when none are given', async () => {
+        ttsService = new ElevenLabsTTSService(apiKey);
+        mockedFetch.mockResolvedValueOnce({ ok: true, arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)) });
+        await ttsService.generateSpeech('Hello');
+        expect(mockedFetch.mock.calls[0][0]).toBe('https://api.elevenlabs.io/v1/text-to-speech/21m00Tcm4TlvDq8ikWAM');
+        const requestBody = JSON.parse(mockedFetch.mock.calls[0][1].body);
+        expect(requestBody.voice_settings).toEqual({ stability: 0.5, similarity_boost: 0.5 });
+    });
+
+    it('should use the requested voice and merge voice settings over the defaults', async () => {
+        ttsService = new ElevenLabsTTSService(apiKey);
+        mockedFetch.mockResolvedValueOnce({ ok: true, arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)) });
+        await ttsService.generateSpeech('Hello', {
+            voiceId: 'custom-voice',
+            voiceSettings: { stability: 0.2, style: 0.8, useSpeakerBoost: true, speed: 1.1 },
+        });
+        expect(mockedFetch.mock.calls[0][0]).toBe('https://api.elevenlabs.io/v1/text-to-speech/custom-voice');
+        const requestBody = JSON.parse(mockedFetch.mock.calls[0][1].body);
+        expect(requestBody.voice_settings).toEqual({
+            stability: 0.2,
+            similarity_boost: 0.5,
+            style: 0.8,
+            use_speaker_boost: true,
+            speed: 1.1,
+        });
+    });
+
+    it('should request timings from the with-timestamps endpoint and decode the audio', async () => {
+        ttsService = new ElevenLabsTTSService(apiKey);
+        mockedFetch.mockResolvedValueOnce({
+            ok: true,
+            json: () => Promise.resolve({
+                audio_base64: Buffer.from([1, 2, 3]).toString('base64'),
+                alignment: { characters: ['H', 'i'], character_start_times_seconds: [0, 0.1], character_end_times_seconds: [0.1, 0.25] },
+            }),
+        });
+
+        const result = await ttsService.generateSpeech('Hi', { voiceId: 'custom-voice', withTimings: true });
+
+        expect(mockedFetch.mock.calls[0][0]).toBe('https://api.elevenlabs.io/v1/text-to-speech/custom-voice/with-timestamps');
+        expect(Array.from(new Uint8Array(result.audioData))).toEqual([1, 2, 3]);
+        expect(result).toMatchObject({
+            mimeType: 'audio/mpeg',
+            format: 'mp3',
+            durationMs: 250,
+            alignment: [{ character: 'H', startMs: 0, endMs: 100 }, { character: 'i', startMs: 100, endMs: 250 }],
+        });
+    });
+
+    it('should send the language code only to models that accept one', async () => {
+        mockedFetch.mockResolvedValue({ ok: true, arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)) });
+
+        await new ElevenLabsTTSService(apiKey, 'eleven_flash_v2_5').generateSpeech('Hallo', { languageCode: 'de' });
+        await new ElevenLabsTTSService(apiKey, 'eleven_multilingual_v2').generateSpeech('Hallo', { languageCode: 'de' });
+
+        expect(JSON.parse(mockedFetch.mock.calls[0][1].body).language_code).toBe('de');
+        expect(JSON.parse(mockedFetch.mock.calls[1][1].body)).not.toHaveProperty('language_code');
+    });
+
+    it('should request a non-default output format and describe the returned audio', async () => {
+        ttsService = new ElevenLabsTTSService(apiKey, undefined, {}, 'pcm_24000');
+        mockedFetch.mockResolvedValueOnce({ ok: true, arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)) });
+
+        const result = await ttsService.generateSpeech('Hello', { voiceId: 'custom-voice' });
+
+        expect(mockedFetch.mock.calls[0][0]).toBe('https://api.elevenlabs.io/v1/text-to-speech/custom-voice?output_format=pcm_24000');
+        expect(mockedFetch.mock.calls[0][1].headers.Accept).toBe('audio/pcm;rate=24000');
+        expect(result).toEqual({ audioData: expect.any(ArrayBuffer), mimeType: 'audio/pcm;rate=24000', format: 'pcm', sampleRate: 24000 });
+        expect(ttsService.outputFormat).toBe('pcm_24000');
+    });
+
+    it('should read the output format from the environment variable, prioritizing the constructor argument', async () => {
+        process.env.ELEVENLABS_OUTPUT_FORMAT = 'opus_48000_64';
+        mockedFetch.mockResolvedValue({ ok: true, arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)) });
+
+        const fromEnv = await new ElevenLabsTTSService(apiKey).generateSpeech('Hello');
+        await new ElevenLabsTTSService(apiKey, undefined, {}, 'ulaw_8000').generateSpeech('Hello');
+
+        expect(fromEnv).toMatchObject({ mimeType: 'audio/ogg;codecs=opus', format: 'opus' });
+        expect(mockedFetch.mock.calls[0][0]).toMatch(/\?output_format=opus_48000_64$/);
+        expect(mockedFetch.mock.calls[1][0]).toMatch(/\?output_format=ulaw_8000$/);
+    });
+
+    it('should report the billed characters, or the text length without the header', async () => {
+        ttsService = new ElevenLabsTTSService(apiKey, 'eleven_flash_v2_5');
+        mockedFetch
+            .mockResolvedValueOnce({ ok: true, headers: { get: () => '7' }, arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)) })
+            .mockResolvedValueOnce({ ok: true, arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)) });
+        const onUsage = jest.fn();
+
+        await ttsService.generateSpeech('Hello there', { onUsage });
+        await ttsService.generateSpeech('Hello there', { onUsage });
+
+        expect(onUsage).toHaveBeenNthCalledWith(1, { model: 'eleven_flash_v2_5', characters: 7 });
+        expect(onUsage).toHaveBeenNthCalledWith(2, { model: 'eleven_flash_v2_5', characters: 11 });
+    });
+
+    it('should stream audio chunks from the streaming endpoint', async () => {
+        ttsService = new ElevenLabsTTSService(apiKey);
+        async function* body() {
+            yield Buffer.from([1, 2]);
+            yield Buffer.from([3]);
+        }
+        mockedFetch.mockResolvedValueOnce({ ok: true, body: body() });
+
+        const chunks: number[][] = [];
+        for await (const chunk of ttsService.generateSpeechStream('Hello', { voiceId: 'custom-voice' })) {
+            expect(chunk.mimeType).toBe('audio/mpeg');
+            chunks.push(Array.from(new Uint8Array(chunk.audioData)));
+        }
+
+        expect(chunks).toEqual([[1, 2], [3]]);
+        expect(mockedFetch.mock.calls[0][0]).toBe('https://api.elevenlabs.io/v1/text-to-speech/custom-voice/stream');
+    });
+
     describe('when handling errors', () => {
-        let consoleErrorSpy: jest.SpyInstance;
+        let consoleWarnSpy: jest.SpyInstance;
 
         beforeEach(() => {
-            ttsService = new ElevenLabsTTSService(apiKey);
-            // Suppress console.error for these specific tests
-            consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            ttsService = new ElevenLabsTTSService(apiKey, undefined, { maxRetries: 2, baseDelayMs: 1 });
+            consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
         });
 
         afterEach(() => {
-            // Restore console.error
-            consoleErrorSpy.mockRestore();
+            consoleWarnSpy.mockRestore();
         });
 
-        it('should return null on API error', async () => {
-            mockedFetch.mockResolvedValueOnce({
+        it('should throw an AuthenticationError without retrying on 401', async () => {
+            mockedFetch.mockResolvedValue({
                 ok: false,
                 status: 401,
                 text: () => Promise.resolve('Unauthorized'),
             });
-    
-            const result = await ttsService.generateSpeech('Hello');
-            expect(result).toBeNull();
+
+            await expect(ttsService.generateSpeech('Hello')).rejects.toBeInstanceOf(AuthenticationError);
+            expect(mockedFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should recognize an exhausted quota', async () => {
+            mockedFetch.mockResolvedValue({
+                ok: false,
+                status: 401,
+                text: () => Promise.resolve('{"detail":{"status":"quota_exceeded"}}'),
+            });
+
+            await expect(ttsService.generateSpeech('Hello')).rejects.toBeInstanceOf(QuotaExceededError);
+        });
+
+        it('should retry rate limits honoring Retry-After and then succeed', async () => {
+            mockedFetch
+                .mockResolvedValueOnce({ ok: false, status: 429, headers: { get: () => '0' }, text: () => Promise.resolve('system_busy') })
+                .mockResolvedValueOnce({ ok: true, arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)) });
+
+            await expect(ttsService.generateSpeech('Hello')).resolves.toEqual(expect.objectContaining({ format: 'mp3' }));
+            expect(mockedFetch).toHaveBeenCalledTimes(2);
+            expect(mockedFetch.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+        });
+
+        it('should throw from the stream once retries are exhausted', async () => {
+            mockedFetch.mockResolvedValue({ ok: false, status: 503, text: () => Promise.resolve('Service unavailable') });
+
+            const consume = async () => {
+                for await (const chunk of ttsService.generateSpeechStream('Hello')) {
+                    expect(chunk).toBeUndefined();
+                }
+            };
+            await expect(consume()).rejects.toMatchObject({ code: 'unavailable', status: 503 });
+            expect(mockedFetch).toHaveBeenCalledTimes(3);
         });
-    
-        it('should return null on network error', async () => {
-            mockedFetch.mockRejectedValueOnce(new Error('Network failure'));
-            const result = await ttsService.generateSpeech('Hello');
-            expect(result).toBeNull();
+
+        it('should throw a ServiceUnavailableError on network error', async () => {
+            mockedFetch.mockRejectedValue(new Error('Network failure'));
+            await expect(ttsService.generateSpeech('Hello')).rejects.toThrow('Could not reach ElevenLabs: Network failure');
+        });
+
+        it('should end a stream that stalls mid-read with a TimeoutError and abort the download', async () => {
+            ttsService = new ElevenLabsTTSService(apiKey, undefined, { idleTimeoutMs: 10 });
+            mockedFetch.mockImplementation(async (_url: string, init: { signal: AbortSignal }) => ({
+                ok: true,
+                body: (async function* () {
+                    yield Buffer.from([1]);
+                    await new Promise((_resolve, reject) => init.signal.addEventListener('abort', () => reject(new Error('aborted'))));
+                })(),
+            }));
+
+            const chunks: TTSResult[] = [];
+            const consume = async () => {
+                for await (const chunk of ttsService.generateSpeechStream('Hello')) {
+                    chunks.push(chunk);
+                }
+            };
+
+            await expect(consume()).rejects.toBeInstanceOf(TimeoutError);
+            expect(chunks).toHaveLength(1);
+            expect(mockedFetch.mock.calls[0][1].signal.aborted).toBe(true);
+        });
+
+        it('should abort a stream mid-read when the caller cancels it', async () => {
+            const controller = new AbortController();
+            mockedFetch.mockImplementation(async (_url: string, init: { signal: AbortSignal }) => ({
+                ok: true,
+                body: (async function* () {
+                    yield Buffer.from([1]);
+                    await new Promise((_resolve, reject) => init.signal.addEventListener('abort', () => reject(new Error('aborted'))));
+                })(),
+            }));
+
+            const consume = async () => {
+                for await (const chunk of ttsService.generateSpeechStream('Hello', { signal: controller.signal })) {
+                    expect(chunk.audioData.byteLength).toBe(1);
+                    controller.abort();
+                }
+            };
+
+            await expect(consume()).rejects.toBeInstanceOf(CancelledError);
+            expect(mockedFetch.mock.calls[0][1].signal.aborted).toBe(true);
+        });
+
+        it('should time out requests that take too long', async () => {
+            ttsService = new ElevenLabsTTSService(apiKey, undefined, { timeoutMs: 10, maxRetries: 0 });
+            mockedFetch.mockImplementation((_url: string, init: { signal: AbortSignal }) => new Promise((_resolve, reject) => {
+                init.signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+            }));
+
+            await expect(ttsService.generateSpeech('Hello')).rejects.toBeInstanceOf(TimeoutError);
         });
     });
 });
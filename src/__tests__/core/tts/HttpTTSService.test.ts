@@ -0,0 +1,61 @@
+import { HttpTTSService } from '../../../core/tts/HttpTTSService';
+import fetch from 'cross-fetch';
+
+jest.mock('cross-fetch');
+
+const mockedFetch = fetch as jest.Mock;
+
+const audioResponse = (audioData: ArrayBuffer, contentType: string | null) => ({
+    ok: true,
+    headers: { get: (name: string) => (name === 'Content-Type' ? contentType : null) },
+    arrayBuffer: () => Promise.resolve(audioData),
+});
+
+describe('HttpTTSService', () => {
+    beforeEach(() => {
+        mockedFetch.mockReset();
+    });
+
+    it('should POST the text as the request body by default', async () => {
+        const audioData = new ArrayBuffer(8);
+        mockedFetch.mockResolvedValueOnce(audioResponse(audioData, 'audio/wav'));
+        const ttsService = new HttpTTSService({ url: 'http://localhost:5000' });
+
+        const result = await ttsService.generateSpeech('Hello there');
+
+        expect(result).toEqual({ audioData, mimeType: 'audio/wav', format: 'wav' });
+        expect(mockedFetch).toHaveBeenCalledWith('http://localhost:5000', expect.objectContaining({
+            method: 'POST',
+            body: 'Hello there',
+        }));
+    });
+
+    it('should send the text and extra params as a query string for GET', async () => {
+        mockedFetch.mockResolvedValueOnce(audioResponse(new ArrayBuffer(8), 'audio/mpeg'));
+        const ttsService = new HttpTTSService({ url: 'http://localhost:5000/api/tts', method: 'GET', params: { voice: 'lessac' } });
+
+        const result = await ttsService.generateSpeech('Hi & bye');
+
+        expect(result?.format).toBe('mp3');
+        expect(mockedFetch).toHaveBeenCalledWith('http://localhost:5000/api/tts?voice=lessac&text=Hi+%26+bye', { method: 'GET' });
+    });
+
+    it('should fall back to the default MIME type when the server sends none', async () => {
+        mockedFetch.mockResolvedValueOnce(audioResponse(new ArrayBuffer(8), null));
+        const ttsService = new HttpTTSService({ url: 'http://localhost:5000', defaultMimeType: 'audio/ogg' });
+
+        const result = await ttsService.generateSpeech('Hello');
+
+        expect(result).toEqual(expect.objectContaining({ mimeType: 'audio/ogg', format: 'ogg' }));
+    });
+
+    it('should return null on HTTP error', async () => {
+        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+        mockedFetch.mockResolvedValueOnce({ ok: false, status: 503, text: () => Promise.resolve('loading model') });
+
+        const result = await new HttpTTSService().generateSpeech('Hello');
+
+        expect(result).toBeNull();
+        consoleErrorSpy.mockRestore();
+    });
+});
@@ -0,0 +1,45 @@
+import { speechDurationMs, speechTimings, visemeCues, wordTimings } from '../../../core/tts/SpeechTiming';
+import { CharacterTiming } from '../../../core/tts/TTSProvider';
+
+/** Times each character of the text at 100 ms. */
+function timed(text: string): CharacterTiming[] {
+    return text.split('').map((character, i) => ({ character, startMs: i * 100, endMs: (i + 1) * 100 }));
+}
+
+describe('SpeechTiming', () => {
+    it('should group characters into words', () => {
+        expect(wordTimings(timed("It's me."))).toEqual([
+            { word: "It's", offset: 0, startMs: 0, endMs: 400 },
+            { word: 'me', offset: 5, startMs: 500, endMs: 700 },
+        ]);
+    });
+
+    it('should map letters and letter pairs to visemes and merge repeats', () => {
+        expect(visemeCues(timed('The map!')).map(({ viseme, startMs, endMs }) => [viseme, startMs, endMs])).toEqual([
+            ['TH', 0, 200],
+            ['E', 200, 300],
+            ['sil', 300, 400],
+            ['PP', 400, 500],
+            ['aa', 500, 600],
+            ['PP', 600, 700],
+            ['sil', 700, 800],
+        ]);
+        expect(visemeCues(timed('Été')).map((cue) => cue.viseme)).toEqual(['E', 'DD', 'E']);
+        expect(visemeCues(timed('oh, hi')).map(({ viseme, startMs }) => [viseme, startMs])).toEqual([['oh', 0], ['sil', 200], ['ih', 400]]);
+    });
+
+    it('should collect the timings of a line and work out its length', () => {
+        const speech = { audioData: new ArrayBuffer(8), mimeType: 'audio/mpeg', format: 'mp3' };
+
+        expect(speechTimings('Hi', speech)).toBeNull();
+        expect(speechTimings('Hi', { ...speech, alignment: timed('Hi') })).toEqual({
+            text: 'Hi',
+            durationMs: 200,
+            characters: timed('Hi'),
+            words: [{ word: 'Hi', offset: 0, startMs: 0, endMs: 200 }],
+            visemes: [{ viseme: 'ih', startMs: 0, endMs: 200 }],
+        });
+        expect(speechDurationMs({ ...speech, durationMs: 450, alignment: timed('Hi') })).toBe(450);
+        expect(speechDurationMs(speech)).toBeUndefined();
+    });
+});
@@ -0,0 +1,61 @@
+import { VoiceRegistry } from '../../../core/tts/VoiceRegistry';
+
+describe('VoiceRegistry', () => {
+    let registry: VoiceRegistry;
+
+    beforeEach(() => {
+        registry = new VoiceRegistry({
+            defaultVoice: { voiceId: 'default-voice' },
+            voices: { 'old-sage': { voiceId: 'sage-voice', settings: { stability: 0.8 } } },
+            archetypes: { guard: { voiceId: 'guard-voice' } },
+            genders: { female: { voiceId: 'female-voice' } },
+        });
+    });
+
+    it('should prefer a raw voiceId on the entity over everything else', () => {
+        expect(registry.resolve({ voiceId: 'raw-id', voice: 'old-sage', archetype: 'guard' })).toEqual({ voiceId: 'raw-id' });
+    });
+
+    it('should resolve a named voice profile with its settings', () => {
+        expect(registry.resolve({ voice: 'old-sage', gender: 'female' })).toEqual({ voiceId: 'sage-voice', voiceSettings: { stability: 0.8 } });
+    });
+
+    it('should resolve by archetype before gender, case-insensitively', () => {
+        expect(registry.resolve({ archetype: 'Guard', gender: 'female' })).toEqual({ voiceId: 'guard-voice' });
+        expect(registry.resolve({ gender: 'FEMALE' })).toEqual({ voiceId: 'female-voice' });
+    });
+
+    it('should fall back to the default voice', () => {
+        expect(registry.resolve({ voice: 'unknown', archetype: 'farmer' })).toEqual({ voiceId: 'default-voice' });
+    });
+
+    it('should return empty options when nothing matches and there is no default', () => {
+        expect(new VoiceRegistry().resolve({ name: 'Nobody' })).toEqual({});
+    });
+
+    it('should layer entity voiceSettings on top of the profile settings', () => {
+        expect(registry.resolve({ voice: 'old-sage', voiceSettings: { speed: 0.9 } }))
+            .toEqual({ voiceId: 'sage-voice', voiceSettings: { stability: 0.8, speed: 0.9 } });
+        expect(new VoiceRegistry().resolve({ voiceSettings: { speed: 0.9 } })).toEqual({ voiceSettings: { speed: 0.9 } });
+    });
+
+    it('should allow voices to be registered after construction', () => {
+        registry.registerArchetype('Merchant', { voiceId: 'merchant-voice' });
+        registry.setDefaultVoice({ voiceId: 'new-default' });
+        expect(registry.resolve({ archetype: 'merchant' })).toEqual({ voiceId: 'merchant-voice' });
+        expect(registry.resolve({})).toEqual({ voiceId: 'new-default' });
+    });
+
+    it('should pick the matched profile\'s voice for the locale, then for its language', () => {
+        registry.registerArchetype('guard', {
+            voiceId: 'guard-voice',
+            settings: { stability: 0.5 },
+            locales: { 'de-AT': { voiceId: 'guard-at' }, de: { voiceId: 'guard-de', settings: { speed: 1.1 } } },
+        });
+
+        expect(registry.resolve({ archetype: 'guard' }, 'de-AT')).toEqual({ voiceId: 'guard-at', voiceSettings: { stability: 0.5 } });
+        expect(registry.resolve({ archetype: 'guard' }, 'de_DE')).toEqual({ voiceId: 'guard-de', voiceSettings: { stability: 0.5, speed: 1.1 } });
+        expect(registry.resolve({ archetype: 'guard' }, 'fr-FR')).toEqual({ voiceId: 'guard-voice', voiceSettings: { stability: 0.5 } });
+        expect(registry.resolve({ voiceId: 'raw-id' }, 'de-DE')).toEqual({ voiceId: 'raw-id' });
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * =====================================================================================
+ * Asset Baking CLI
+ * =====================================================================================
+ * Pre-generates the dialogue and audio listed in a manifest, so a game can ship them and
+ * serve them through `AssetLibrary` instead of calling the live APIs. Makes REAL API calls
+ * to Google Gemini and ElevenLabs using the API keys in your `.env` file.
+ *
+ * It will:
+ * 1. Read the JSON or YAML manifest of NPCs, voices and prompts (or fixed lines).
+ * 2. Generate the lines with Gemini and voice them with ElevenLabs, several NPCs at a time.
+ * 3. Write each audio file to the output directory, named by a hash of its contents.
+ * 4. Keep `index.json` in that directory up to date after every line.
+ *
+ * Lines already in the index are skipped, so a run that failed or was stopped can simply
+ * be started again. Failed lines are listed at the end and make the command exit with 1.
+ *
+ * TO RUN THIS SCRIPT:
+ *    npm run bake -- <manifest.json|manifest.yaml> [--out assets] [--concurrency 4] [--retries 2] [--text-only]
+ * =====================================================================================
+ */
+import { AssetBaker } from './core/assets/AssetBaker';
+import { loadManifest } from './core/assets/AssetManifest';
+import { GeminiService } from './core/llm/GeminiService';
+import { ElevenLabsTTSService } from './core/tts/ElevenLabsTTSService';
+
+interface BakeArguments {
+    manifest: string;
+    outputDir: string;
+    concurrency?: number;
+    maxRetries?: number;
+    textOnly: boolean;
+}
+
+const USAGE = 'Usage: npm run bake -- <manifest.json|manifest.yaml> [--out assets] [--concurrency 4] [--retries 2] [--text-only]';
+
+function parseArguments(argv: string[]): BakeArguments {
+    const args: Partial<BakeArguments> = { outputDir: 'assets', textOnly: false };
+    const number = (flag: string, value: string | undefined) => {
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < 0) {
+            throw new Error(`${flag} needs a whole number.\n${USAGE}`);
+        }
+        return parsed;
+    };
+    for (let i = 0; i < argv.length; i++) {
+        switch (argv[i]) {
+            case '--out':
+                args.outputDir = argv[++i];
+                break;
+            case '--concurrency':
+                args.concurrency = number('--concurrency', argv[++i]);
+                break;
+            case '--retries':
+                args.maxRetries = number('--retries', argv[++i]);
+                break;
+            case '--text-only':
+                args.textOnly = true;
+                break;
+            default:
+                if (argv[i].startsWith('--') || args.manifest) {
+                    throw new Error(`Unexpected argument "${argv[i]}".\n${USAGE}`);
+                }
+                args.manifest = argv[i];
+        }
+    }
+    if (!args.manifest || !args.outputDir) {
+        throw new Error(USAGE);
+    }
+    return args as BakeArguments;
+}
+
+async function main() {
+    const args = parseArguments(process.argv.slice(2));
+    const { GEMINI_API_KEY, ELEVENLABS_API_KEY, GEMINI_MODEL_NAME, ELEVENLABS_MODEL_ID } = process.env;
+    if (!GEMINI_API_KEY || (!ELEVENLABS_API_KEY && !args.textOnly)) {
+        throw new Error("Please provide GEMINI_API_KEY and ELEVENLABS_API_KEY (or pass --text-only) in a .env file.");
+    }
+
+    const manifest = await loadManifest(args.manifest);
+    const baker = new AssetBaker({
+        llm: new GeminiService(GEMINI_API_KEY, GEMINI_MODEL_NAME),
+        tts: args.textOnly ? undefined : new ElevenLabsTTSService(ELEVENLABS_API_KEY as string, ELEVENLABS_MODEL_ID),
+        outputDir: args.outputDir,
+        concurrency: args.concurrency,
+        maxRetries: args.maxRetries,
+        onProgress: ({ id, status, text, done, total }) => {
+            console.log(`[${done}/${total}] ${status.padEnd(9)} ${id}${text ? `: ${text}` : ''}`);
+        },
+    });
+
+    const report = await baker.bake(manifest);
+    console.log(`\nGenerated ${report.generated}, skipped ${report.skipped}, failed ${report.failed.length}. Assets are in ${args.outputDir}.`);
+    if (report.failed.length > 0) {
+        report.failed.forEach(({ id, error }) => console.error(`  ${id}: ${error}`));
+        console.error('Run the command again to retry the failed lines.');
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,264 @@
+import { LLMGenerationOptions, LLMProvider } from '../llm/LLMProvider';
+import { languageInstruction, languageOf } from '../locale/Locale';
+import { PromptBuilder } from '../prompt/PromptBuilder';
+import { TTSProvider, TTSSpeechOptions } from '../tts/TTSProvider';
+import { VoiceRegistry } from '../tts/VoiceRegistry';
+import { ASSET_INDEX_FILE, ASSET_INDEX_VERSION, AssetIndex, BakedAudio, BakedLine, bakedAudioKey } from './AssetLibrary';
+import { AssetManifest } from './AssetManifest';
+
+export interface AssetBakerOptions {
+    llm: LLMProvider;
+    /** Voices the lines. Only their text is generated when omitted. */
+    tts?: TTSProvider;
+    /** The asset directory. Lines already in its index are kept, so an interrupted run can be resumed. */
+    outputDir: string;
+    /** How many NPCs are worked on at once. Defaults to 4. */
+    concurrency?: number;
+    /** How many times a failed line is tried again before it is given up. Defaults to 2. */
+    maxRetries?: number;
+    llmOptions?: LLMGenerationOptions;
+    /** Called whenever a line is generated, skipped or given up. */
+    onProgress?: (progress: BakeProgress) => void;
+}
+
+export interface BakeProgress {
+    id: string;
+    status: 'generated' | 'skipped' | 'failed';
+    text?: string;
+    error?: unknown;
+    /** How many lines are finished, including this one. */
+    done: number;
+    total: number;
+}
+
+export interface BakeReport {
+    generated: number;
+    /** Lines that were already in the index. */
+    skipped: number;
+    failed: { id: string; error: string }[];
+}
+
+/**
+ * The lines of one NPC for one interaction and language, generated in order so that later ones can
+ * avoid repeating earlier ones.
+ */
+interface LineGroup {
+    entityId: string;
+    state: { [key: string]: any };
+    interaction: string;
+    locale?: string;
+    /** Fixed lines; when absent, `count` lines are generated. */
+    texts?: string[];
+    count: number;
+}
+
+/**
+ * Generates the text and audio of the lines in a manifest, for games that ship pre-baked dialogue.
+ * Audio files are named by a hash of their contents; `index.json` lists every line with its audio
+ * and is written after each line, so a failed or interrupted run picks up where it stopped.
+ */
+export class AssetBaker {
+    private options: AssetBakerOptions;
+    private index = new Map<string, BakedLine>();
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(options: AssetBakerOptions) {
+        if (!options.outputDir) {
+            throw new Error("An output directory is required.");
+        }
+        this.options = options;
+    }
+
+    /**
+     * Generates every line of the manifest that is not in the index yet.
+     * @returns What was generated, skipped and given up; failed lines are tried again on the next run.
+     */
+    public async bake(manifest: AssetManifest): Promise<BakeReport> {
+        const fs = await import('fs/promises');
+        await fs.mkdir(this.options.outputDir, { recursive: true });
+        await this.loadIndex();
+
+        const promptBuilder = new PromptBuilder({ setting: manifest.setting, templates: manifest.templates });
+        const voices = new VoiceRegistry(manifest.voices);
+        const groups = AssetBaker.groupsOf(manifest);
+        const report: BakeReport = { generated: 0, skipped: 0, failed: [] };
+        const total = groups.reduce((sum, group) => sum + group.count, 0);
+        let done = 0;
+        const progress = (id: string, status: BakeProgress['status'], details: { text?: string; error?: unknown } = {}) => {
+            done++;
+            if (status === 'failed') {
+                report.failed.push({ id, error: details.error instanceof Error ? details.error.message : String(details.error) });
+            } else {
+                report[status]++;
+            }
+            this.options.onProgress?.({ id, status, ...details, done, total });
+        };
+
+        const bakeGroup = async (group: LineGroup) => {
+            const said: string[] = [];
+            for (let i = 0; i < group.count; i++) {
+                const fixed = group.texts?.[i];
+                const id = `${group.entityId}/${group.interaction}${group.locale ? `@${group.locale}` : ''}/${fixed !== undefined ? (await sha256(fixed)).slice(0, 12) : i}`;
+                const existing = this.index.get(id);
+                if (existing && (!this.options.tts || (existing.audio && await this.exists(existing.audio.file)))) {
+                    said.push(existing.text);
+                    progress(id, 'skipped', { text: existing.text });
+                    continue;
+                }
+
+                let error: unknown;
+                for (let attempt = 0; attempt <= (this.options.maxRetries ?? 2); attempt++) {
+                    try {
+                        // A line whose text was generated before, on an earlier run or attempt, only needs its audio.
+                        const text = this.index.get(id)?.text ?? fixed ?? await this.generateText(promptBuilder, manifest, group, said);
+                        const line: BakedLine = {
+                            id,
+                            entityId: group.entityId,
+                            interaction: group.interaction,
+                            ...(group.locale && { locale: group.locale }),
+                            text,
+                        };
+                        // Kept without audio until it is voiced, so a retry does not write a different line.
+                        await this.save(line);
+                        if (this.options.tts) {
+                            line.audio = await this.synthesize(text, AssetBaker.speechOptionsFor(voices, group));
+                            await this.save(line);
+                        }
+                        said.push(text);
+                        progress(id, 'generated', { text });
+                        error = undefined;
+                        break;
+                    } catch (attemptError) {
+                        error = attemptError;
+                        console.error(`[AssetBaker] Attempt ${attempt + 1} at ${id} failed:`, attemptError);
+                    }
+                }
+                if (error !== undefined) {
+                    progress(id, 'failed', { error });
+                }
+            }
+        };
+
+        let next = 0;
+        await Promise.all(Array.from({ length: Math.min(Math.max(this.options.concurrency ?? 4, 1), groups.length) }, async () => {
+            while (next < groups.length) {
+                await bakeGroup(groups[next++]);
+            }
+        }));
+        await this.saving;
+        return report;
+    }
+
+    private async generateText(promptBuilder: PromptBuilder, manifest: AssetManifest, group: LineGroup, said: string[]): Promise<string> {
+        const prompt = [
+            promptBuilder.build(group.interaction, { npc: group.state, player: manifest.player || {}, game: manifest.game || {} }),
+            group.locale ? languageInstruction(group.locale) : undefined,
+            said.length > 0 ? `Say something different from what you said before:\n${said.map((line) => `- ${line}`).join('\n')}` : undefined,
+        ].filter(Boolean).join('\n\n');
+        const text = (await this.options.llm.generateText(prompt, this.options.llmOptions))?.trim();
+        if (!text) {
+            throw new Error('The LLM returned no text.');
+        }
+        return text;
+    }
+
+    private async synthesize(text: string, speechOptions: TTSSpeechOptions): Promise<BakedAudio> {
+        const speech = await this.options.tts!.generateSpeech(text, speechOptions);
+        if (!speech) {
+            throw new Error('The TTS provider returned no audio.');
+        }
+        const fs = await import('fs/promises');
+        const file = `${await sha256(new Uint8Array(speech.audioData))}.${speech.format}`;
+        if (!await this.exists(file)) {
+            await fs.writeFile(await this.path(file), new Uint8Array(speech.audioData));
+        }
+        return {
+            file,
+            key: bakedAudioKey(text, speechOptions),
+            mimeType: speech.mimeType,
+            format: speech.format,
+            ...(speech.sampleRate !== undefined && { sampleRate: speech.sampleRate }),
+            ...(speech.durationMs !== undefined && { durationMs: speech.durationMs }),
+            ...(speech.alignment && { alignment: speech.alignment }),
+        };
+    }
+
+    /**
+     * Records a line and writes the index. Writes happen one at a time, each through a temporary file,
+     * so the index is never left half-written.
+     */
+    private save(line: BakedLine): Promise<void> {
+        this.index.set(line.id, { ...line });
+        const write = this.saving.then(async () => {
+            const fs = await import('fs/promises');
+            const index: AssetIndex = {
+                version: ASSET_INDEX_VERSION,
+                lines: Array.from(this.index.values()).sort((a, b) => a.id.localeCompare(b.id)),
+            };
+            const indexPath = await this.path(ASSET_INDEX_FILE);
+            await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(index, null, 2), 'utf8');
+            await fs.rename(`${indexPath}.tmp`, indexPath);
+        });
+        // A failed write fails its line only; the next one writes the whole index again.
+        this.saving = write.catch(() => undefined);
+        return write;
+    }
+
+    private async loadIndex(): Promise<void> {
+        const fs = await import('fs/promises');
+        this.index.clear();
+        try {
+            const index: AssetIndex = JSON.parse(await fs.readFile(await this.path(ASSET_INDEX_FILE), 'utf8'));
+            index.lines.forEach((line) => this.index.set(line.id, line));
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+    }
+
+    private async exists(file: string): Promise<boolean> {
+        const fs = await import('fs/promises');
+        try {
+            await fs.access(await this.path(file));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private async path(file: string): Promise<string> {
+        const path = await import('path');
+        return path.join(this.options.outputDir, file);
+    }
+
+    /**
+     * The voice a group is spoken with, resolved like `AIManager` does so the audio is found at runtime.
+     */
+    private static speechOptionsFor(voices: VoiceRegistry, group: LineGroup): TTSSpeechOptions {
+        const speechOptions = voices.resolve(group.state, group.locale);
+        if (group.locale) {
+            speechOptions.languageCode = languageOf(group.locale);
+        }
+        // Timings are kept for adapters that animate speech; they do not change the audio.
+        speechOptions.withTimings = true;
+        return speechOptions;
+    }
+
+    private static groupsOf(manifest: AssetManifest): LineGroup[] {
+        return Object.entries(manifest.npcs).flatMap(([entityId, npc]) => npc.lines.map((line) => {
+            const group = { entityId, state: npc.state || {}, interaction: line.interaction || 'greeting', locale: line.locale || manifest.locale };
+            return line.text !== undefined
+                ? { ...group, texts: [line.text.trim()], count: 1 }
+                : { ...group, count: line.count ?? 1 };
+        }));
+    }
+}
+
+/**
+ * The SHA-256 of a string or bytes, in hex.
+ */
+async function sha256(data: string | Uint8Array): Promise<string> {
+    const crypto = await import('crypto');
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
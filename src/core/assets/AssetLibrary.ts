@@ -0,0 +1,119 @@
+import { audioCacheKey } from '../cache/CachedTTSProvider';
+import { toArrayBuffer } from '../net/streams';
+import { CharacterTiming, TTSResult, TTSSpeechOptions } from '../tts/TTSProvider';
+
+/** The file in an asset directory that lists its lines. */
+export const ASSET_INDEX_FILE = 'index.json';
+
+export const ASSET_INDEX_VERSION = 1;
+
+/**
+ * The audio of a pre-baked line. The file is named by a hash of its contents, so identical audio is stored once.
+ */
+export interface BakedAudio {
+    file: string;
+    /** The line's `bakedAudioKey`. */
+    key: string;
+    mimeType: string;
+    format: string;
+    sampleRate?: number;
+    durationMs?: number;
+    alignment?: CharacterTiming[];
+}
+
+export interface BakedLine {
+    /** Identifies the line in its manifest, e.g. `bartender-1/greeting/0`. */
+    id: string;
+    entityId: string;
+    /** The interaction the line is played for, e.g. `greeting`. */
+    interaction: string;
+    locale?: string;
+    text: string;
+    /** Absent if the line is text-only. */
+    audio?: BakedAudio;
+}
+
+/**
+ * The `index.json` of an asset directory.
+ */
+export interface AssetIndex {
+    version: number;
+    lines: BakedLine[];
+}
+
+/**
+ * The key pre-baked audio is found by: the text, voice, voice settings and language of the line,
+ * whichever provider and model synthesized it.
+ */
+export function bakedAudioKey(text: string, options: TTSSpeechOptions = {}): string {
+    return audioCacheKey(text, options);
+}
+
+/**
+ * Lines and audio pre-generated with the `bake` CLI, which `AIManager` serves before calling the live
+ * APIs. Reads its files through a function, so assets can come from disk, a CDN or the game's bundle.
+ */
+export class AssetLibrary {
+    private lines: BakedLine[];
+    private audio = new Map<string, BakedAudio>();
+    private readAsset: (file: string) => Promise<ArrayBuffer>;
+
+    /**
+     * @param index The contents of the directory's `index.json`.
+     * @param readAsset Reads a file of the directory, e.g. with `fetch` in browsers.
+     */
+    constructor(index: AssetIndex, readAsset: (file: string) => Promise<ArrayBuffer>) {
+        if (index?.version !== ASSET_INDEX_VERSION || !Array.isArray(index.lines)) {
+            throw new Error(`Unsupported asset index: expected version ${ASSET_INDEX_VERSION}.`);
+        }
+        this.lines = index.lines;
+        this.lines.forEach((line) => line.audio && this.audio.set(line.audio.key, line.audio));
+        this.readAsset = readAsset;
+    }
+
+    /**
+     * Opens an asset directory written by the `bake` CLI. Node.js only.
+     */
+    public static async fromDirectory(directory: string): Promise<AssetLibrary> {
+        // Imported lazily so that browser bundles which never use this method do not pull in fs.
+        const fs = await import('fs/promises');
+        const path = await import('path');
+        const index = JSON.parse(await fs.readFile(path.join(directory, ASSET_INDEX_FILE), 'utf8'));
+        return new AssetLibrary(index, async (file) => toArrayBuffer(await fs.readFile(path.join(directory, file))));
+    }
+
+    /**
+     * How many lines the library holds.
+     */
+    public get size(): number {
+        return this.lines.length;
+    }
+
+    /**
+     * The lines pre-baked for an NPC and interaction in a language.
+     * @param locale The dialogue's locale; undefined for English.
+     */
+    public linesFor(entityId: string, interaction: string, locale?: string): string[] {
+        return this.lines
+            .filter((line) => line.entityId === entityId && line.interaction === interaction && (line.locale || '') === (locale || ''))
+            .map(({ text }) => text);
+    }
+
+    /**
+     * The pre-baked audio of a line spoken with the given voice.
+     * @returns The audio, or null if there is none or its file could not be read.
+     */
+    public async speechFor(text: string, options: TTSSpeechOptions = {}): Promise<TTSResult | null> {
+        const audio = this.audio.get(bakedAudioKey(text, options));
+        if (!audio) {
+            return null;
+        }
+        try {
+            const { file, key, ...speech } = audio;
+            return { ...speech, audioData: await this.readAsset(file) };
+        } catch (error) {
+            console.error(`Error reading pre-baked audio ${audio.file}:`, error);
+            return null;
+        }
+    }
+}
@@ -0,0 +1,113 @@
+import { VoiceRegistryConfig } from '../tts/VoiceRegistry';
+
+/**
+ * Describes the lines to pre-generate with the `bake` CLI: the NPCs, the state their lines are
+ * written for, and how many lines of each interaction they get. Written as JSON or YAML.
+ */
+export interface AssetManifest {
+    /** The description of the game world, as in `prompts.setting`. */
+    setting?: string;
+    /** Templates to add or override, as in `prompts.templates`. */
+    templates?: Record<string, string>;
+    /** The game state lines are written for, as `adapter.getGameState` would return it. */
+    game?: { [key: string]: any };
+    /** The player state lines are written for, as `adapter.getPlayerState` would return it. */
+    player?: { [key: string]: any };
+    /**
+     * Voice profiles, as in the `voices` option. They must match the game's: pre-baked audio is only
+     * played for lines spoken with the voice it was made with.
+     */
+    voices?: VoiceRegistryConfig;
+    /** The language of lines that do not name one. English when omitted. */
+    locale?: string;
+    /** The NPCs, keyed by the entity ID the game uses for them. */
+    npcs: Record<string, ManifestNpc>;
+}
+
+export interface ManifestNpc {
+    /** The NPC's entity state, as `adapter.getEntityState` would return it: name, personality, voice... */
+    state?: { [key: string]: any };
+    lines: ManifestLine[];
+}
+
+/**
+ * Lines to generate with an interaction's template, or a fixed line to voice.
+ */
+export interface ManifestLine {
+    /**
+     * The prompt template, e.g. `greeting` or `bark`, and for fixed lines the interaction they are
+     * played for. Defaults to `greeting`.
+     */
+    interaction?: string;
+    /** How many different lines to generate. Defaults to 1. */
+    count?: number;
+    /** A line to voice as it is, instead of generating one. */
+    text?: string;
+    /** The language of the line, overriding the manifest's `locale`. */
+    locale?: string;
+}
+
+/**
+ * Reads a manifest, checking that it has the expected shape.
+ * @param format `yaml` needs the `js-yaml` package to be installed.
+ * @throws Error naming the first invalid field.
+ */
+export function parseManifest(text: string, format: 'json' | 'yaml' = 'json'): AssetManifest {
+    const manifest = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+    if (!isObject(manifest) || !isObject(manifest.npcs)) {
+        throw new Error('Invalid asset manifest: npcs must be an object keyed by entity ID.');
+    }
+    for (const [entityId, npc] of Object.entries(manifest.npcs)) {
+        if (!isObject(npc) || !Array.isArray(npc.lines)) {
+            throw new Error(`Invalid asset manifest: npcs.${entityId}.lines must be a list.`);
+        }
+        if (npc.state !== undefined && !isObject(npc.state)) {
+            throw new Error(`Invalid asset manifest: npcs.${entityId}.state must be an object.`);
+        }
+        npc.lines.forEach((line: unknown, i: number) => {
+            const field = `npcs.${entityId}.lines[${i}]`;
+            if (!isObject(line)) {
+                throw new Error(`Invalid asset manifest: ${field} must be an object.`);
+            }
+            if (line.count !== undefined && !(Number.isInteger(line.count) && line.count > 0)) {
+                throw new Error(`Invalid asset manifest: ${field}.count must be a positive integer.`);
+            }
+            if (line.text !== undefined && (typeof line.text !== 'string' || !line.text.trim())) {
+                throw new Error(`Invalid asset manifest: ${field}.text must be a non-empty string.`);
+            }
+        });
+    }
+    return manifest as AssetManifest;
+}
+
+/**
+ * Reads a manifest file: YAML if its name ends in `.yaml` or `.yml`, JSON otherwise. Node.js only.
+ */
+export async function loadManifest(filePath: string): Promise<AssetManifest> {
+    const fs = await import('fs/promises');
+    return parseManifest(await fs.readFile(filePath, 'utf8'), /\.ya?ml$/i.test(filePath) ? 'yaml' : 'json');
+}
+
+/**
+ * The part of js-yaml that manifests are read with, in both versions 3 and 4.
+ */
+interface YamlLoader {
+    load(text: string, options?: { schema?: unknown }): unknown;
+    CORE_SCHEMA: unknown;
+}
+
+function parseYaml(text: string): unknown {
+    let yaml: YamlLoader;
+    try {
+        // Required lazily: js-yaml is optional and only needed for YAML manifests.
+        yaml = require('js-yaml');
+    } catch (error) {
+        throw new Error('YAML manifests need the js-yaml package: run `npm install js-yaml`, or write the manifest as JSON.');
+    }
+    // The core schema keeps js-yaml 3 from constructing JavaScript types.
+    return yaml.load(text, { schema: yaml.CORE_SCHEMA });
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,62 @@
+import { readWav } from './wav';
+
+/**
+ * Bitrates in kbit/s of MPEG audio layer III by bitrate index, for MPEG-1 and for MPEG-2/2.5.
+ */
+const MP3_BITRATES = {
+    mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+/**
+ * Measures how long encoded audio plays, from its headers.
+ * @param format The short format identifier of a TTSResult, e.g. `mp3` or `wav`.
+ * @param sampleRate For raw formats without a header (`pcm`, `ulaw`, `alaw`): the samples per second.
+ * Raw PCM is taken to be 16-bit mono, and ulaw and alaw to use a byte per sample.
+ * @returns The length in milliseconds, or undefined for formats that cannot be measured. MP3s are
+ * measured from the bitrate of their first frame, which is exact for constant bitrates only.
+ */
+export function audioDurationMs(audioData: ArrayBuffer, format: string, sampleRate?: number): number | undefined {
+    switch (format) {
+        case 'wav': {
+            const wav = readWav(audioData);
+            const bytesPerSecond = wav && wav.format.sampleRate * wav.format.channels * (wav.format.bitsPerSample / 8);
+            if (!wav || !bytesPerSecond) {
+                return undefined;
+            }
+            return Math.round((wav.samples.length / bytesPerSecond) * 1000);
+        }
+        case 'mp3':
+            return mp3DurationMs(new Uint8Array(audioData));
+        case 'pcm':
+            return sampleRate ? Math.round((audioData.byteLength / 2 / sampleRate) * 1000) : undefined;
+        case 'ulaw':
+        case 'alaw':
+            return sampleRate ? Math.round((audioData.byteLength / sampleRate) * 1000) : undefined;
+        default:
+            return undefined;
+    }
+}
+
+function mp3DurationMs(bytes: Uint8Array): number | undefined {
+    let offset = 0;
+    // Skip an ID3v2 tag; its size is stored in four 7-bit bytes.
+    if (bytes.length >= 10 && String.fromCharCode(...bytes.subarray(0, 3)) === 'ID3') {
+        offset = 10 + ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]) + (bytes[5] & 0x10 ? 10 : 0);
+    }
+    for (; offset + 4 <= bytes.length; offset++) {
+        if (bytes[offset] !== 0xFF || (bytes[offset + 1] & 0xE0) !== 0xE0) {
+            continue;
+        }
+        const version = (bytes[offset + 1] >> 3) & 0x03;
+        const layer = (bytes[offset + 1] >> 1) & 0x03;
+        const bitrateIndex = bytes[offset + 2] >> 4;
+        if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15) {
+            continue;
+        }
+        const kbps = MP3_BITRATES[version === 3 ? 'mpeg1' : 'mpeg2'][bitrateIndex];
+        // A kbit/s is a bit per millisecond.
+        return Math.round(((bytes.length - offset) * 8) / kbps);
+    }
+    return undefined;
+}
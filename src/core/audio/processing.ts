@@ -0,0 +1,119 @@
+import { TTSResult } from '../tts/TTSProvider';
+import { pcmToWav, readWav } from './wav';
+
+export interface AudioProcessingOptions {
+    /** Wraps raw PCM from the TTS provider in a WAV header, so it plays like any audio file. Defaults to true. */
+    wrapPcm?: boolean;
+    /**
+     * Brings every line to the same loudness, so NPCs with quiet and loud voices sit at one level:
+     * `true` for an RMS level of DEFAULT_LOUDNESS_DBFS, or the level in dBFS. Only PCM and WAV
+     * audio can be adjusted; choose such an output format to use it. Disabled by default.
+     */
+    normalizeLoudness?: boolean | number;
+}
+
+/** The loudness lines are normalized to by default, as an RMS level in dBFS. */
+export const DEFAULT_LOUDNESS_DBFS = -20;
+
+/** Quiet lines are amplified by at most this factor (+20 dB), so near-silence does not turn into noise. */
+const MAX_GAIN = 10;
+
+/**
+ * Joins buffers end to end.
+ */
+export function concatBuffers(buffers: ArrayBuffer[]): ArrayBuffer {
+    const result = new Uint8Array(buffers.reduce((total, buffer) => total + buffer.byteLength, 0));
+    let offset = 0;
+    buffers.forEach((buffer) => {
+        result.set(new Uint8Array(buffer), offset);
+        offset += buffer.byteLength;
+    });
+    return result.buffer;
+}
+
+/**
+ * Joins consecutive pieces of speech in one format, e.g. streamed chunks or the sentences of a line,
+ * into a single clip. WAV pieces are merged into one file; other formats are concatenated as they are,
+ * which MP3 frames, raw PCM and Ogg streams allow.
+ */
+export function concatSpeech(pieces: TTSResult[]): TTSResult {
+    const [first] = pieces;
+    if (pieces.length === 1) {
+        return first;
+    }
+    const wavs = first.format === 'wav' ? pieces.map((piece) => readWav(piece.audioData)) : [];
+    const audioData = wavs.length > 0 && wavs.every(Boolean)
+        ? pcmToWav(concatBuffers(wavs.map((wav) => copy(wav!.samples))), wavs[0]!.format)
+        : concatBuffers(pieces.map((piece) => piece.audioData));
+    return {
+        audioData,
+        mimeType: first.mimeType,
+        format: first.format,
+        ...(first.sampleRate !== undefined && { sampleRate: first.sampleRate }),
+    };
+}
+
+/**
+ * Wraps raw PCM in a WAV header. Other audio is returned unchanged.
+ */
+export function wrapPcm(speech: TTSResult): TTSResult {
+    if (speech.format !== 'pcm' || !speech.sampleRate) {
+        return speech;
+    }
+    const { sampleRate, ...rest } = speech;
+    return { ...rest, audioData: pcmToWav(speech.audioData, { sampleRate }), mimeType: 'audio/wav', format: 'wav' };
+}
+
+/**
+ * Scales 16-bit PCM or WAV audio to an RMS level, without letting peaks clip. Other audio, silence
+ * and audio that is already at the level are returned unchanged.
+ * @param targetDbfs The RMS level, in dBFS.
+ */
+export function normalizeLoudness(speech: TTSResult, targetDbfs = DEFAULT_LOUDNESS_DBFS): TTSResult {
+    const wav = speech.format === 'wav' ? readWav(speech.audioData) : null;
+    const samples = speech.format === 'pcm' && speech.sampleRate
+        ? new Uint8Array(speech.audioData)
+        : wav && wav.format.bitsPerSample === 16 ? wav.samples : null;
+    if (!samples) {
+        return speech;
+    }
+
+    const pcm = new Int16Array(copy(samples), 0, Math.floor(samples.length / 2));
+    let sumOfSquares = 0;
+    let peak = 0;
+    for (const sample of pcm) {
+        sumOfSquares += sample * sample;
+        peak = Math.max(peak, Math.abs(sample));
+    }
+    const rms = Math.sqrt(sumOfSquares / Math.max(pcm.length, 1));
+    if (rms === 0) {
+        return speech;
+    }
+    const gain = Math.min(10 ** ((targetDbfs - 20 * Math.log10(rms / 32768)) / 20), 32767 / peak, MAX_GAIN);
+    if (Math.abs(gain - 1) < 0.01) {
+        return speech;
+    }
+    for (let i = 0; i < pcm.length; i++) {
+        pcm[i] = Math.round(pcm[i] * gain);
+    }
+    const audioData = wav ? pcmToWav(pcm.buffer as ArrayBuffer, wav.format) : pcm.buffer as ArrayBuffer;
+    return { ...speech, audioData };
+}
+
+/**
+ * Applies the processing a game asked for to synthesized speech.
+ */
+export function processSpeech(speech: TTSResult, options: AudioProcessingOptions = {}): TTSResult {
+    let result = (options.wrapPcm ?? true) ? wrapPcm(speech) : speech;
+    if (options.normalizeLoudness !== undefined && options.normalizeLoudness !== false) {
+        result = normalizeLoudness(result, options.normalizeLoudness === true ? DEFAULT_LOUDNESS_DBFS : options.normalizeLoudness);
+    }
+    return result;
+}
+
+/**
+ * Copies a view into a standalone buffer.
+ */
+function copy(view: Uint8Array): ArrayBuffer {
+    return view.slice().buffer;
+}
@@ -0,0 +1,89 @@
+/**
+ * The sample layout of uncompressed PCM audio.
+ */
+export interface PcmFormat {
+    sampleRate: number;
+    /** Defaults to 1. */
+    channels?: number;
+    /** Defaults to 16. */
+    bitsPerSample?: number;
+}
+
+/**
+ * A WAV file split into its format and its samples.
+ */
+export interface WavContents {
+    format: Required<PcmFormat>;
+    /** The raw samples, a view into the file. */
+    samples: Uint8Array;
+}
+
+const HEADER_BYTES = 44;
+
+/**
+ * Wraps raw PCM samples (little-endian, as produced by TTS providers) in a WAV header.
+ */
+export function pcmToWav(pcm: ArrayBuffer | Uint8Array, format: PcmFormat): ArrayBuffer {
+    const samples = pcm instanceof Uint8Array ? pcm : new Uint8Array(pcm);
+    const channels = format.channels ?? 1;
+    const bitsPerSample = format.bitsPerSample ?? 16;
+    const blockAlign = channels * (bitsPerSample / 8);
+
+    const wav = new Uint8Array(HEADER_BYTES + samples.length);
+    const view = new DataView(wav.buffer);
+    writeText(view, 0, 'RIFF');
+    view.setUint32(4, 36 + samples.length, true);
+    writeText(view, 8, 'WAVE');
+    writeText(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // Integer PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, format.sampleRate, true);
+    view.setUint32(28, format.sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitsPerSample, true);
+    writeText(view, 36, 'data');
+    view.setUint32(40, samples.length, true);
+    wav.set(samples, HEADER_BYTES);
+    return wav.buffer;
+}
+
+/**
+ * Reads the format and samples of a WAV file.
+ * @returns The contents, or null if the data is not a WAV file.
+ */
+export function readWav(audioData: ArrayBuffer): WavContents | null {
+    const bytes = new Uint8Array(audioData);
+    if (bytes.length < 12 || readText(bytes, 0, 4) !== 'RIFF' || readText(bytes, 8, 4) !== 'WAVE') {
+        return null;
+    }
+    const view = new DataView(audioData);
+    let format: Required<PcmFormat> | null = null;
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+        const id = readText(bytes, offset, 4);
+        const size = view.getUint32(offset + 4, true);
+        if (id === 'fmt ' && offset + 24 <= bytes.length) {
+            format = {
+                channels: view.getUint16(offset + 10, true),
+                sampleRate: view.getUint32(offset + 12, true),
+                bitsPerSample: view.getUint16(offset + 22, true),
+            };
+        } else if (id === 'data') {
+            // Streamed WAVs may not know their size up front; the data then runs to the end.
+            const end = Math.min(offset + 8 + size, bytes.length);
+            return format ? { format, samples: bytes.subarray(offset + 8, end) } : null;
+        }
+        offset += 8 + size + (size % 2);
+    }
+    return null;
+}
+
+function writeText(view: DataView, offset: number, text: string): void {
+    for (let i = 0; i < text.length; i++) {
+        view.setUint8(offset + i, text.charCodeAt(i));
+    }
+}
+
+function readText(bytes: Uint8Array, offset: number, length: number): string {
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
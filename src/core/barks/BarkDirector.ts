@@ -0,0 +1,223 @@
+import { PromptTemplate } from '../prompt/PromptTemplate';
+
+export interface Position {
+    x: number;
+    y: number;
+    z?: number;
+}
+
+/**
+ * Something that happened in the game that NPCs may react to, pushed with `aiManager.pushGameEvent`.
+ */
+export interface GameEvent {
+    /** What happened, e.g. `player-entered-area`, `player-damaged`, `item-picked-up` or `time-of-day-changed`. */
+    type: string;
+    /** The NPCs that may react, e.g. those near the player. */
+    entityIds: string[];
+    /** Where it happened, compared with the `position` in each NPC's entity state to apply ranges. */
+    position?: Position;
+    /** Details rule descriptions can refer to, e.g. `{ item: 'Dragon Scale' }`. */
+    details?: Record<string, unknown>;
+}
+
+/**
+ * Decides which NPCs react to an event of a type, how often, and what they say.
+ */
+export interface BarkRule {
+    /** The event type the rule reacts to. */
+    event: string;
+    /**
+     * What just happened, from the NPC's point of view, added to the prompt as `{{event}}`. A template:
+     * `{{details.item}}` refers to the event's details and `{{npc.name}}` to the NPC's entity state,
+     * e.g. `The player just picked up {{details.item|something rare}}.`
+     */
+    description?: string;
+    /** Only NPCs for which this returns true react, e.g. `(npc) => npc.role === 'guard'`. */
+    filter?: (npcState: { [key: string]: any }, event: GameEvent) => boolean;
+    /** The chance that an eligible NPC reacts, from 0 to 1. Defaults to 1. */
+    probability?: number;
+    /** How long an NPC stays quiet before reacting to the rule again, in milliseconds. Defaults to 30 seconds. */
+    cooldownMs?: number;
+    /** How many NPCs react to a single event at most, closest first. Defaults to 1. */
+    maxReactions?: number;
+    /**
+     * How far from the event NPCs react, in the game's units. Defaults to the `barkRange` of each NPC's
+     * entity state. Applies only when the event and the NPC have a position; otherwise every NPC is in range.
+     */
+    range?: number;
+    /** Lines to pick from instead of generating one, e.g. for very frequent events. */
+    lines?: string[];
+    /**
+     * Once an NPC has said this many generated lines for the rule, it repeats one of them instead of
+     * generating another, so the line costs no LLM request and its audio can come from the audio cache.
+     * Defaults to 3; 0 always generates a new line.
+     */
+    reuseAfter?: number;
+    /** The prompt template for generated lines. Defaults to `bark`. */
+    interaction?: string;
+}
+
+export interface BarkOptions {
+    rules?: BarkRule[];
+    /** How long an NPC stays quiet after any bark, in milliseconds. Defaults to 10 seconds. */
+    globalCooldownMs?: number;
+    /** Returns a number from 0 (inclusive) to 1 (exclusive). Defaults to Math.random; replace it for deterministic tests. */
+    random?: () => number;
+    /** Returns the current time in milliseconds. Defaults to Date.now. */
+    now?: () => number;
+}
+
+/**
+ * An NPC chosen to react to an event.
+ */
+export interface BarkReaction {
+    entityId: string;
+    rule: BarkRule;
+    /** What happened, as added to the prompt. */
+    description: string;
+    /** The line to say as it is, a fixed or reused one; undefined if a line has to be generated. */
+    line?: string;
+}
+
+/**
+ * Turns game events into barks: short, unprompted lines of nearby NPCs. Keeps track of cooldowns and
+ * of the lines each NPC has said, so repeated events are answered without a new LLM request.
+ */
+export class BarkDirector {
+    private rules: BarkRule[];
+    private globalCooldownMs: number;
+    private random: () => number;
+    private now: () => number;
+    /** When each NPC last barked. */
+    private lastBarks = new Map<string, number>();
+    /** When each NPC last barked for a rule. */
+    private lastRuleBarks = new Map<BarkRule, Map<string, number>>();
+    /** The generated lines each NPC has said for a rule. */
+    private spokenLines = new Map<BarkRule, Map<string, string[]>>();
+
+    constructor(options: BarkOptions = {}) {
+        this.rules = [...(options.rules || [])];
+        this.globalCooldownMs = options.globalCooldownMs ?? 10_000;
+        this.random = options.random || Math.random;
+        this.now = options.now || Date.now;
+    }
+
+    public addRule(rule: BarkRule): void {
+        this.rules.push(rule);
+    }
+
+    /**
+     * The rules for an event type, in the order they were added.
+     */
+    public rulesFor(type: string): BarkRule[] {
+        return this.rules.filter((rule) => rule.event === type);
+    }
+
+    /**
+     * Chooses the NPCs that react to an event and what they say, and starts their cooldowns. Each rule
+     * picks from the NPCs that are in range, not cooling down and pass its filter, closest first; an NPC
+     * reacts to one rule at most.
+     * @param npcStates The entity state of every NPC that may react, keyed by entity ID.
+     */
+    public select(event: GameEvent, npcStates: Record<string, { [key: string]: any }>): BarkReaction[] {
+        const reactions: BarkReaction[] = [];
+        const now = this.now();
+        for (const rule of this.rulesFor(event.type)) {
+            const candidates = Object.keys(npcStates)
+                .filter((entityId) => !reactions.some((reaction) => reaction.entityId === entityId))
+                .filter((entityId) => !this.isCoolingDown(rule, entityId, now))
+                .filter((entityId) => !rule.filter || rule.filter(npcStates[entityId], event))
+                .map((entityId) => ({ entityId, distance: BarkDirector.distance(event.position, npcStates[entityId].position) }))
+                .filter(({ entityId, distance }) => {
+                    const range = rule.range ?? npcStates[entityId].barkRange;
+                    return distance === undefined || typeof range !== 'number' || distance <= range;
+                })
+                .sort((a, b) => (a.distance ?? Number.MAX_VALUE) - (b.distance ?? Number.MAX_VALUE));
+
+            let reacting = 0;
+            for (const { entityId } of candidates) {
+                if (reacting >= (rule.maxReactions ?? 1)) {
+                    break;
+                }
+                if (this.random() >= (rule.probability ?? 1)) {
+                    continue;
+                }
+                reacting++;
+                this.lastBarks.set(entityId, now);
+                this.ruleMap(this.lastRuleBarks, rule).set(entityId, now);
+                const line = this.lineFor(rule, entityId);
+                reactions.push({
+                    entityId,
+                    rule,
+                    description: BarkDirector.describe(rule, event, npcStates[entityId]),
+                    ...(line !== undefined && { line }),
+                });
+            }
+        }
+        return reactions;
+    }
+
+    /**
+     * Records a line an NPC generated for a rule, to be reused once there are enough of them.
+     */
+    public remember(rule: BarkRule, entityId: string, line: string): void {
+        const lines = this.ruleMap(this.spokenLines, rule).get(entityId) || [];
+        if (!lines.includes(line)) {
+            this.ruleMap(this.spokenLines, rule).set(entityId, [...lines, line]);
+        }
+    }
+
+    /**
+     * Forgets cooldowns and remembered lines, e.g. when a new level is loaded.
+     */
+    public reset(): void {
+        this.lastBarks.clear();
+        this.lastRuleBarks.clear();
+        this.spokenLines.clear();
+    }
+
+    private isCoolingDown(rule: BarkRule, entityId: string, now: number): boolean {
+        const lastBark = this.lastBarks.get(entityId);
+        const lastRuleBark = this.lastRuleBarks.get(rule)?.get(entityId);
+        return (lastBark !== undefined && now - lastBark < this.globalCooldownMs)
+            || (lastRuleBark !== undefined && now - lastRuleBark < (rule.cooldownMs ?? 30_000));
+    }
+
+    /**
+     * A fixed line of the rule, or a line the NPC said before once it has said enough of them.
+     */
+    private lineFor(rule: BarkRule, entityId: string): string | undefined {
+        const spoken = this.spokenLines.get(rule)?.get(entityId) || [];
+        const reuseAfter = rule.reuseAfter ?? 3;
+        const lines = rule.lines?.length ? rule.lines : reuseAfter > 0 && spoken.length >= reuseAfter ? spoken : [];
+        return lines.length > 0 ? lines[Math.floor(this.random() * lines.length)] : undefined;
+    }
+
+    private ruleMap<T>(maps: Map<BarkRule, Map<string, T>>, rule: BarkRule): Map<string, T> {
+        let map = maps.get(rule);
+        if (!map) {
+            map = new Map();
+            maps.set(rule, map);
+        }
+        return map;
+    }
+
+    private static describe(rule: BarkRule, event: GameEvent, npcState: { [key: string]: any }): string {
+        if (rule.description) {
+            return new PromptTemplate(rule.description).render({ details: event.details || {}, npc: npcState });
+        }
+        const details = Object.entries(event.details || {})
+            .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`);
+        return `Something just happened: ${event.type}${details.length > 0 ? ` (${details.join(', ')})` : ''}.`;
+    }
+
+    /**
+     * The distance between two positions, or undefined if either is missing.
+     */
+    private static distance(from?: Position, to?: Position): number | undefined {
+        if (!from || !to || typeof to.x !== 'number' || typeof to.y !== 'number') {
+            return undefined;
+        }
+        return Math.hypot(from.x - to.x, from.y - to.y, (from.z ?? 0) - (to.z ?? 0));
+    }
+}
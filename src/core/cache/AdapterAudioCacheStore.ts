@@ -0,0 +1,75 @@
+import { GameAdapter } from '../../integrations/GameAdapter';
+import { fromBase64, toBase64 } from '../net/streams';
+import { CharacterTiming } from '../tts/TTSProvider';
+import { AudioCacheStore, CachedAudio } from './AudioCacheStore';
+
+interface StoredAudio {
+    /** The audio, base64-encoded so it survives JSON-based save systems. */
+    audio: string;
+    mimeType: string;
+    format: string;
+    createdAt: number;
+    sampleRate?: number;
+    durationMs?: number;
+    alignment?: CharacterTiming[];
+}
+
+/**
+ * Caches audio through the game's own storage, using the adapter's `saveData` and `loadData`
+ * hooks, e.g. backed by IndexedDB in the browser. Each entry is saved under its own key;
+ * an index of all keys is kept so the cache can be cleared.
+ */
+export class AdapterAudioCacheStore implements AudioCacheStore {
+    private adapter: GameAdapter;
+    private prefix: string;
+
+    /**
+     * @param adapter A game adapter implementing `saveData` and `loadData`.
+     * @param prefix Prepended to the keys entries are saved under.
+     */
+    constructor(adapter: GameAdapter, prefix = 'ai-plugin:audio:') {
+        if (!adapter.saveData || !adapter.loadData) {
+            throw new Error("The game adapter must implement saveData and loadData to cache audio.");
+        }
+        this.adapter = adapter;
+        this.prefix = prefix;
+    }
+
+    public async get(key: string): Promise<CachedAudio | null> {
+        const stored = (await this.adapter.loadData!(this.prefix + key)) as StoredAudio | null | undefined;
+        if (!stored) {
+            return null;
+        }
+        const { audio, ...metadata } = stored;
+        return { ...metadata, audioData: fromBase64(audio) };
+    }
+
+    public async set(key: string, entry: CachedAudio): Promise<void> {
+        const { audioData, ...metadata } = entry;
+        await this.adapter.saveData!(this.prefix + key, { ...metadata, audio: toBase64(audioData) });
+        const keys = await this.loadIndex();
+        if (!keys.includes(key)) {
+            await this.adapter.saveData!(`${this.prefix}index`, [...keys, key]);
+        }
+    }
+
+    public async delete(key: string): Promise<void> {
+        await this.adapter.saveData!(this.prefix + key, null);
+        const keys = await this.loadIndex();
+        if (keys.includes(key)) {
+            await this.adapter.saveData!(`${this.prefix}index`, keys.filter((candidate) => candidate !== key));
+        }
+    }
+
+    public async clear(): Promise<void> {
+        for (const key of await this.loadIndex()) {
+            await this.adapter.saveData!(this.prefix + key, null);
+        }
+        await this.adapter.saveData!(`${this.prefix}index`, []);
+    }
+
+    private async loadIndex(): Promise<string[]> {
+        const keys = await this.adapter.loadData!(`${this.prefix}index`);
+        return Array.isArray(keys) ? keys : [];
+    }
+}
@@ -0,0 +1,95 @@
+import { CharacterTiming } from '../tts/TTSProvider';
+
+/**
+ * Synthesized audio as kept in a cache.
+ */
+export interface CachedAudio {
+    audioData: ArrayBuffer;
+    mimeType: string;
+    format: string;
+    /** Samples per second of raw audio without a header. */
+    sampleRate?: number;
+    durationMs?: number;
+    /** Character timings, if the audio was synthesized with them. */
+    alignment?: CharacterTiming[];
+    /** Milliseconds since the epoch. Used to expire entries. */
+    createdAt: number;
+}
+
+/**
+ * Where synthesized audio is cached. Keys are opaque strings of letters and digits,
+ * safe to use as file names.
+ *
+ * Games can implement this interface to cache audio in their own storage, e.g. IndexedDB in the browser.
+ */
+export interface AudioCacheStore {
+    /** Returns the cached entry, or null if there is none. */
+    get(key: string): Promise<CachedAudio | null>;
+    set(key: string, entry: CachedAudio): Promise<void>;
+    delete(key: string): Promise<void>;
+    /** Removes every entry. */
+    clear(): Promise<void>;
+}
+
+/**
+ * Keeps audio in memory, evicting the least recently used entries once the total size
+ * exceeds a byte budget. Entries are lost when the game closes.
+ */
+export class InMemoryAudioCacheStore implements AudioCacheStore {
+    // A Map iterates in insertion order; entries are re-inserted on access, so the first one is the least recently used.
+    private entries = new Map<string, CachedAudio>();
+    private totalBytes = 0;
+    private maxBytes: number;
+
+    /**
+     * @param maxBytes The byte budget. Defaults to 32 MB.
+     */
+    constructor(maxBytes = 32 * 1024 * 1024) {
+        this.maxBytes = maxBytes;
+    }
+
+    /** The total size of the cached audio in bytes. */
+    public get size(): number {
+        return this.totalBytes;
+    }
+
+    public async get(key: string): Promise<CachedAudio | null> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return null;
+        }
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry;
+    }
+
+    public async set(key: string, entry: CachedAudio): Promise<void> {
+        await this.delete(key);
+        if (entry.audioData.byteLength > this.maxBytes) {
+            // Caching it would evict everything else and still not fit.
+            return;
+        }
+
+        this.entries.set(key, entry);
+        this.totalBytes += entry.audioData.byteLength;
+        for (const [oldestKey] of this.entries) {
+            if (this.totalBytes <= this.maxBytes) {
+                break;
+            }
+            await this.delete(oldestKey);
+        }
+    }
+
+    public async delete(key: string): Promise<void> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.totalBytes -= entry.audioData.byteLength;
+            this.entries.delete(key);
+        }
+    }
+
+    public async clear(): Promise<void> {
+        this.entries.clear();
+        this.totalBytes = 0;
+    }
+}
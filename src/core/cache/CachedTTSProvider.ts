@@ -0,0 +1,180 @@
+import { concatSpeech } from '../audio/processing';
+import { TTSProvider, TTSResult, TTSSpeechOptions } from '../tts/TTSProvider';
+import { AudioCacheStore } from './AudioCacheStore';
+
+export interface AudioCacheLookup {
+    key: string;
+    text: string;
+    voiceId?: string;
+    hit: boolean;
+}
+
+export interface CachedTTSProviderOptions {
+    /** Separates the entries of providers sharing one store, e.g. the provider's name. */
+    namespace?: string;
+    /** How long entries stay valid, in milliseconds. Entries never expire when omitted. */
+    ttlMs?: number;
+    /** Called on every lookup, with whether the audio was found in the cache. */
+    onLookup?: (lookup: AudioCacheLookup) => void;
+}
+
+/**
+ * Builds the cache key for a line: a hash of the text, voice, model, voice settings, language and output format.
+ */
+export function audioCacheKey(text: string, options: TTSSpeechOptions = {}, modelId = '', namespace = '', outputFormat = ''): string {
+    const settings = Object.entries(options.voiceSettings || {})
+        .filter(([, value]) => value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b));
+    // The language and output format are only part of keys that have them, so lines cached before they were set still match.
+    return hashString(JSON.stringify([
+        namespace,
+        modelId,
+        options.voiceId || '',
+        settings,
+        text,
+        ...(options.languageCode ? [options.languageCode] : []),
+        ...(outputFormat ? [outputFormat] : []),
+    ]));
+}
+
+/**
+ * A TTSProvider that serves repeated lines from a cache instead of synthesizing them again.
+ * Wraps another provider; failed syntheses are not cached.
+ */
+export class CachedTTSProvider implements TTSProvider {
+    public readonly provider: TTSProvider;
+    public readonly store: AudioCacheStore;
+    private options: CachedTTSProviderOptions;
+
+    constructor(provider: TTSProvider, store: AudioCacheStore, options: CachedTTSProviderOptions = {}) {
+        this.provider = provider;
+        this.store = store;
+        this.options = options;
+    }
+
+    public get modelId(): string | undefined {
+        return this.provider.modelId;
+    }
+
+    public get outputFormat(): string | undefined {
+        return this.provider.outputFormat;
+    }
+
+    public async generateSpeech(text: string, options?: TTSSpeechOptions): Promise<TTSResult | null> {
+        const key = this.keyFor(text, options);
+        const cached = await this.lookup(key, text, options);
+        if (cached) {
+            return cached;
+        }
+
+        const speech = await this.provider.generateSpeech(text, options);
+        if (speech) {
+            await this.save(key, speech);
+        }
+        return speech;
+    }
+
+    /**
+     * Streams cached audio as a single chunk. On a miss, streams from the wrapped provider
+     * (or synthesizes in full if it cannot stream) and caches the complete audio afterwards.
+     */
+    public async *generateSpeechStream(text: string, options?: TTSSpeechOptions): AsyncGenerator<TTSResult> {
+        const key = this.keyFor(text, options);
+        const cached = await this.lookup(key, text, options);
+        if (cached) {
+            yield cached;
+            return;
+        }
+
+        if (!this.provider.generateSpeechStream) {
+            const speech = await this.provider.generateSpeech(text, options);
+            if (speech) {
+                await this.save(key, speech);
+                yield speech;
+            }
+            return;
+        }
+
+        const chunks: TTSResult[] = [];
+        for await (const chunk of this.provider.generateSpeechStream(text, options)) {
+            chunks.push(chunk);
+            yield chunk;
+        }
+        if (chunks.length > 0) {
+            await this.save(key, concatSpeech(chunks));
+        }
+    }
+
+    /**
+     * Synthesizes a line and caches it unless it is cached already.
+     * @returns Whether the line is in the cache afterwards.
+     */
+    public async prewarm(text: string, options?: TTSSpeechOptions): Promise<boolean> {
+        return (await this.generateSpeech(text, options)) !== null;
+    }
+
+    private keyFor(text: string, options?: TTSSpeechOptions): string {
+        return audioCacheKey(text, options, this.provider.modelId, this.options.namespace, this.provider.outputFormat);
+    }
+
+    /**
+     * Returns the cached audio for a key, dropping it if it has expired. Cache failures count as misses,
+     * and so does audio cached without timings when they are asked for.
+     */
+    private async lookup(key: string, text: string, options?: TTSSpeechOptions): Promise<TTSResult | null> {
+        let result: TTSResult | null = null;
+        try {
+            const entry = await this.store.get(key);
+            if (entry && this.options.ttlMs !== undefined && Date.now() - entry.createdAt > this.options.ttlMs) {
+                await this.store.delete(key);
+            } else if (entry && (entry.alignment || !options?.withTimings)) {
+                result = {
+                    audioData: entry.audioData,
+                    mimeType: entry.mimeType,
+                    format: entry.format,
+                    ...(entry.sampleRate !== undefined && { sampleRate: entry.sampleRate }),
+                    ...(entry.durationMs !== undefined && { durationMs: entry.durationMs }),
+                    ...(entry.alignment && { alignment: entry.alignment }),
+                };
+            }
+        } catch (error) {
+            console.error(`[CachedTTSProvider] Error reading cached audio ${key}:`, error);
+        }
+
+        this.options.onLookup?.({ key, text, voiceId: options?.voiceId, hit: result !== null });
+        return result;
+    }
+
+    private async save(key: string, speech: TTSResult): Promise<void> {
+        try {
+            await this.store.set(key, {
+                audioData: speech.audioData,
+                mimeType: speech.mimeType,
+                format: speech.format,
+                createdAt: Date.now(),
+                ...(speech.sampleRate !== undefined && { sampleRate: speech.sampleRate }),
+                ...(speech.durationMs !== undefined && { durationMs: speech.durationMs }),
+                ...(speech.alignment && { alignment: speech.alignment }),
+            });
+        } catch (error) {
+            // Non-critical: the audio was synthesized, it just will not be reused.
+            console.error(`[CachedTTSProvider] Error caching audio ${key}:`, error);
+        }
+    }
+}
+
+/**
+ * A fast, non-cryptographic 64-bit string hash (two independent 32-bit FNV-1a variants),
+ * as 16 hex digits. Works the same in browsers and Node.js.
+ */
+function hashString(value: string): string {
+    let h1 = 0x811c9dc5;
+    let h2 = 0x01000193 ^ value.length;
+    for (let i = 0; i < value.length; i++) {
+        const code = value.charCodeAt(i);
+        h1 = Math.imul(h1 ^ code, 0x01000193);
+        h2 = Math.imul(h2 ^ code, 0x5bd1e995);
+        h2 ^= h2 >>> 15;
+    }
+    return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,76 @@
+import { toArrayBuffer } from '../net/streams';
+import { AudioCacheStore, CachedAudio } from './AudioCacheStore';
+
+/**
+ * Caches audio as files in a directory: `<key>.<format>` holds the audio and `<key>.json` its
+ * metadata. Node.js only; useful for servers and for shipping pre-warmed caches with a game build.
+ */
+export class FileAudioCacheStore implements AudioCacheStore {
+    private directory: string;
+
+    constructor(directory: string) {
+        if (!directory) {
+            throw new Error("An audio cache directory is required.");
+        }
+        this.directory = directory;
+    }
+
+    public async get(key: string): Promise<CachedAudio | null> {
+        // Imported lazily so that browser bundles which never use this store do not pull in fs.
+        const fs = await import('fs/promises');
+        try {
+            const metadata = JSON.parse(await fs.readFile(await this.path(`${key}.json`), 'utf8'));
+            const audio = await fs.readFile(await this.path(`${key}.${metadata.format}`));
+            return { ...metadata, audioData: toArrayBuffer(audio) };
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                console.error(`Error reading cached audio ${key} from ${this.directory}:`, error);
+            }
+            return null;
+        }
+    }
+
+    public async set(key: string, entry: CachedAudio): Promise<void> {
+        const fs = await import('fs/promises');
+        const { audioData, ...metadata } = entry;
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(await this.path(`${key}.${entry.format}`), new Uint8Array(audioData));
+        // Written last: an entry only counts as cached once its metadata exists.
+        await fs.writeFile(await this.path(`${key}.json`), JSON.stringify(metadata), 'utf8');
+    }
+
+    public async delete(key: string): Promise<void> {
+        const fs = await import('fs/promises');
+        try {
+            const metadata = JSON.parse(await fs.readFile(await this.path(`${key}.json`), 'utf8'));
+            await fs.rm(await this.path(`${key}.json`), { force: true });
+            await fs.rm(await this.path(`${key}.${metadata.format}`), { force: true });
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+    }
+
+    public async clear(): Promise<void> {
+        const fs = await import('fs/promises');
+        let files: string[];
+        try {
+            files = await fs.readdir(this.directory);
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                return;
+            }
+            throw error;
+        }
+        const keys = files.filter((file) => file.endsWith('.json')).map((file) => file.slice(0, -'.json'.length));
+        for (const key of keys) {
+            await this.delete(key);
+        }
+    }
+
+    private async path(file: string): Promise<string> {
+        const path = await import('path');
+        return path.join(this.directory, file);
+    }
+}
@@ -0,0 +1,180 @@
+import { DialogueControlOptions, DialogueHandle } from '../dialogue/DialogueQueue';
+import { LLMMessage, LLMProvider } from '../llm/LLMProvider';
+
+export interface ConversationOptions {
+    /**
+     * Approximate token budget for the turns kept verbatim in the history. Older turns are
+     * summarized or dropped once it is exceeded. Defaults to 2000.
+     */
+    maxHistoryTokens?: number;
+    /**
+     * Whether turns that fall out of the budget are condensed into a running summary by the LLM
+     * (true, the default) or simply dropped.
+     */
+    summarizeOldTurns?: boolean;
+}
+
+/**
+ * The operations a session delegates back to the AIManager that owns it.
+ */
+export interface ConversationController {
+    sendPlayerMessage(entityId: string, text: string, options?: DialogueControlOptions): DialogueHandle<string | null>;
+    endConversation(entityId: string): Promise<void>;
+}
+
+/**
+ * Rough token estimate (about four characters per token for English text).
+ * Good enough for budgeting; it does not need to match the provider's tokenizer exactly.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * A multi-turn conversation between the player and one NPC.
+ * Keeps the rolling history of turns and trims it to stay within a token budget.
+ * Created by `AIManager.startConversation`.
+ */
+export class ConversationSession {
+    public readonly entityId: string;
+    /** Instructions describing the NPC and the situation, fixed for the whole conversation. */
+    public readonly systemPrompt: string;
+
+    private history: LLMMessage[] = [];
+    private summary: string | null = null;
+    private active = true;
+    private maxHistoryTokens: number;
+    private summarizeOldTurns: boolean;
+
+    constructor(
+        entityId: string,
+        systemPrompt: string,
+        private controller: ConversationController,
+        private llm: LLMProvider,
+        options: ConversationOptions = {},
+    ) {
+        this.entityId = entityId;
+        this.systemPrompt = systemPrompt;
+        this.maxHistoryTokens = options.maxHistoryTokens ?? 2000;
+        this.summarizeOldTurns = options.summarizeOldTurns ?? true;
+    }
+
+    /** The turns currently kept verbatim, oldest first. */
+    public get turns(): readonly LLMMessage[] {
+        return this.history;
+    }
+
+    /** A summary of turns that no longer fit in the history, if any were summarized. */
+    public get conversationSummary(): string | null {
+        return this.summary;
+    }
+
+    public get isActive(): boolean {
+        return this.active;
+    }
+
+    /**
+     * Sends the player's line to the NPC, which answers in the game through the adapter.
+     * @param options An AbortSignal and the interrupt policy for the reply.
+     * @returns A handle that resolves to the NPC's reply, or to null if none could be generated
+     * or the reply was cancelled.
+     */
+    public sendPlayerMessage(text: string, options: DialogueControlOptions = {}): DialogueHandle<string | null> {
+        return this.controller.sendPlayerMessage(this.entityId, text, options);
+    }
+
+    /**
+     * Ends the conversation. Resolves once anything the NPC should remember has been saved.
+     */
+    public end(): Promise<void> {
+        return this.controller.endConversation(this.entityId);
+    }
+
+    /** @internal Called by the AIManager. */
+    public addTurn(role: LLMMessage['role'], text: string): void {
+        this.history.push({ role, text });
+    }
+
+    /** @internal Removes the most recent turn, e.g. a player message that got no reply. */
+    public removeLastTurn(): void {
+        this.history.pop();
+    }
+
+    /** @internal Marks the session as ended. */
+    public close(): void {
+        this.active = false;
+    }
+
+    /**
+     * The system prompt for the next request, including the summary of older turns.
+     */
+    public buildSystemPrompt(): string {
+        if (!this.summary) {
+            return this.systemPrompt;
+        }
+        return `${this.systemPrompt}\n\nSummary of the conversation so far: ${this.summary}`;
+    }
+
+    /**
+     * The whole conversation as text, starting with the summary of older turns if there is one.
+     */
+    public buildTranscript(): string {
+        const transcript = ConversationSession.formatTurns(this.history);
+        return this.summary ? `(Earlier: ${this.summary})\n${transcript}` : transcript;
+    }
+
+    /**
+     * Moves the oldest turns out of the history until it fits the token budget.
+     * Removed turns are folded into the running summary when summarization is enabled.
+     * The latest turn is always kept.
+     * @param signal Cancels the summary request, e.g. the signal of the reply that grew the history.
+     */
+    public async fitToBudget(signal?: AbortSignal): Promise<void> {
+        const removed: LLMMessage[] = [];
+        while (this.history.length > 1 && this.historyTokens() > this.maxHistoryTokens) {
+            removed.push(this.history.shift()!);
+        }
+        // Keep the history starting with a user turn, as most chat APIs expect.
+        while (this.history.length > 1 && this.history[0].role === 'model') {
+            removed.push(this.history.shift()!);
+        }
+
+        if (removed.length > 0 && this.summarizeOldTurns) {
+            await this.summarize(removed, signal);
+        }
+    }
+
+    private historyTokens(): number {
+        return this.history.reduce((total, message) => total + estimateTokens(message.text), 0);
+    }
+
+    private async summarize(removed: LLMMessage[], signal?: AbortSignal): Promise<void> {
+        const transcript = ConversationSession.formatTurns(removed);
+        const prompt = [
+            'Summarize this part of a conversation between a player and an NPC in a game in at most three sentences.',
+            'Keep names, promises, facts learned and anything the NPC should remember.',
+            this.summary ? `Earlier summary: ${this.summary}` : '',
+            `Conversation:\n${transcript}`,
+        ].filter(Boolean).join('\n\n');
+
+        let summary: string | null;
+        try {
+            summary = await this.llm.generateText(prompt, { signal });
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            console.error(`[ConversationSession] Error summarizing old turns for ${this.entityId}:`, error);
+            summary = null;
+        }
+        if (summary) {
+            this.summary = summary.trim();
+        } else {
+            console.error(`[ConversationSession] Could not summarize old turns for ${this.entityId}; they were dropped.`);
+        }
+    }
+
+    private static formatTurns(turns: LLMMessage[]): string {
+        return turns.map((message) => `${message.role === 'user' ? 'Player' : 'NPC'}: ${message.text}`).join('\n');
+    }
+}
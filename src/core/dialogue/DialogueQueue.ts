@@ -0,0 +1,227 @@
+import { RequestPriority } from '../net/RequestScheduler';
+
+/**
+ * What happens when a new line is requested for an NPC that is still generating or speaking one:
+ * - `queue`: the new line waits until the current one has finished.
+ * - `replace`: the current line (and any queued ones) are cancelled, then the new line starts.
+ * - `drop`: the new line is discarded.
+ */
+export type InterruptPolicy = 'queue' | 'replace' | 'drop';
+
+export type DialogueStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'dropped';
+
+/**
+ * Per-call options that control a dialogue request once it is running.
+ */
+export interface DialogueControlOptions {
+    /** Cancels the request when it fires, like calling `cancel()` on the returned handle. */
+    signal?: AbortSignal;
+    /** Overrides the AIManager's `interruptPolicy` for this request. */
+    ifSpeaking?: InterruptPolicy;
+    /**
+     * How urgently the request's LLM and TTS calls are sent when providers are at their limits.
+     * Defaults to `high` for conversation replies, `low` for barks and scenes and `normal` otherwise.
+     */
+    priority?: RequestPriority;
+    /** Overrides the AIManager's `locale`: the language the NPC speaks, e.g. `de-DE`. */
+    locale?: string;
+    /** Overrides the AIManager's `subtitleLocale`: the language the line is translated into for subtitles. */
+    subtitleLocale?: string;
+}
+
+/**
+ * A dialogue request that may still be waiting, generating or speaking. It can be awaited like a
+ * promise for the outcome; cancelling it never makes it reject. Returned by
+ * `AIManager.generateNpcDialogue`, `sendPlayerMessage` and `playScene`.
+ */
+export class DialogueHandle<T> implements PromiseLike<T> {
+    /** The NPC that speaks; for a scene, the first of its cast. */
+    public readonly entityId: string;
+    /** Every NPC taking part: the one that speaks, or the cast of a scene. */
+    public readonly entityIds: string[];
+    /** Settles with the outcome once the request completed, was cancelled or was dropped. */
+    public readonly result: Promise<T>;
+
+    private controller = new AbortController();
+    private state: DialogueStatus = 'queued';
+    private resolveResult!: (value: T) => void;
+    private rejectResult!: (error: unknown) => void;
+
+    /**
+     * @param entityIds The NPC that speaks, or every NPC of a scene.
+     * @param idleValue The outcome of a request that is cancelled or dropped before it runs.
+     * @param onCancel Called when the request is cancelled, with whether it had started.
+     */
+    constructor(entityIds: string | string[], private idleValue: T, private onCancel: (wasRunning: boolean) => void = () => {}) {
+        this.entityIds = typeof entityIds === 'string' ? [entityIds] : entityIds;
+        this.entityId = this.entityIds[0];
+        this.result = new Promise<T>((resolve, reject) => {
+            this.resolveResult = resolve;
+            this.rejectResult = reject;
+        });
+    }
+
+    public get status(): DialogueStatus {
+        return this.state;
+    }
+
+    /** Fires when the request is cancelled. Passed to every LLM and TTS call the request makes. */
+    public get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    /** Whether the request is still queued or running. */
+    public get isPending(): boolean {
+        return this.state === 'queued' || this.state === 'running';
+    }
+
+    /**
+     * Cancels the request: pending LLM and TTS calls are aborted, and if the NPC had started
+     * speaking, its audio is stopped and its dialogue hidden. Does nothing once the request has ended.
+     */
+    public cancel(): void {
+        if (!this.isPending) {
+            return;
+        }
+        const wasRunning = this.state === 'running';
+        this.state = 'cancelled';
+        this.controller.abort();
+        this.onCancel(wasRunning);
+        if (!wasRunning) {
+            this.resolveResult(this.idleValue);
+        }
+    }
+
+    public then<TResult1 = T, TResult2 = never>(
+        onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null,
+    ): Promise<TResult1 | TResult2> {
+        return this.result.then(onfulfilled, onrejected);
+    }
+
+    /** @internal Called by the DialogueQueue when the request's turn has come. */
+    public start(): boolean {
+        if (this.state !== 'queued') {
+            return false;
+        }
+        this.state = 'running';
+        return true;
+    }
+
+    /** @internal Called by the DialogueQueue with the outcome of the request. */
+    public complete(value: T): void {
+        if (this.state === 'running') {
+            this.state = 'completed';
+        }
+        this.resolveResult(value);
+    }
+
+    /** @internal Called by the DialogueQueue if the request threw. */
+    public fail(error: unknown): void {
+        if (this.state === 'running') {
+            this.state = 'completed';
+        }
+        this.rejectResult(error);
+    }
+
+    /** @internal Called by the DialogueQueue for a request that is discarded without running. */
+    public drop(): void {
+        this.state = 'dropped';
+        this.resolveResult(this.idleValue);
+    }
+}
+
+/**
+ * Serializes the dialogue of each NPC so its lines never overlap, applying an InterruptPolicy
+ * when a new line is requested while one is in progress. NPCs are independent of each other,
+ * except while they share a scene: it holds the turn of every NPC in its cast.
+ */
+export class DialogueQueue {
+    private handles = new Map<string, DialogueHandle<unknown>[]>();
+
+    /**
+     * @param policy The default policy for NPCs that are already speaking.
+     * @param onInterrupt Called when a running line is cancelled, to stop it in the game.
+     */
+    constructor(private policy: InterruptPolicy, private onInterrupt: (entityId: string) => void) {}
+
+    /**
+     * Runs `task` for an NPC once its turn has come.
+     * @param entityId The NPC, or every NPC of a scene: the task then waits for all of them, and the
+     * policy applies as soon as any of them is speaking.
+     * @param task Delivers the line. It receives the handle's signal and should stop soon after it fires.
+     * @param idleValue The outcome of the request if it is cancelled or dropped before it runs.
+     */
+    public run<T>(
+        entityId: string | string[],
+        task: (signal: AbortSignal) => Promise<T>,
+        idleValue: T,
+        options: DialogueControlOptions = {},
+    ): DialogueHandle<T> {
+        const handle = new DialogueHandle<T>(entityId, idleValue, (wasRunning) => {
+            if (wasRunning) {
+                handle.entityIds.forEach((id) => this.onInterrupt(id));
+            }
+        });
+        const { entityIds } = handle;
+        const previous = Array.from(new Set(entityIds.flatMap((id) => this.handles.get(id) || [])));
+        const policy = options.ifSpeaking || this.policy;
+
+        if (policy === 'drop' && previous.some((other) => other.isPending)) {
+            console.log(`Entity ${entityIds.join(', ')} is already speaking; dropped the new line.`);
+            handle.drop();
+            return handle;
+        }
+        if (policy === 'replace') {
+            previous.forEach((other) => other.cancel());
+        }
+
+        const external = options.signal;
+        const cancel = () => handle.cancel();
+        if (external?.aborted) {
+            handle.cancel();
+        } else {
+            external?.addEventListener('abort', cancel, { once: true });
+        }
+        entityIds.forEach((id) => this.handles.set(id, [...(this.handles.get(id) || []), handle as DialogueHandle<unknown>]));
+
+        // Interrupted lines are given the chance to wind down first, so they never touch the game after the new one started.
+        Promise.all(previous.map((other) => other.result.catch(() => undefined)))
+            .then(() => (handle.start() ? task(handle.signal) : idleValue))
+            .then((value) => handle.complete(value), (error) => handle.fail(error))
+            .finally(() => {
+                external?.removeEventListener('abort', cancel);
+                entityIds.forEach((id) => {
+                    const remaining = (this.handles.get(id) || []).filter((other) => other !== handle);
+                    if (remaining.length > 0) {
+                        this.handles.set(id, remaining);
+                    } else {
+                        this.handles.delete(id);
+                    }
+                });
+            });
+
+        return handle;
+    }
+
+    /**
+     * Cancels the running and queued lines of an NPC.
+     */
+    public interrupt(entityId: string): void {
+        (this.handles.get(entityId) || []).forEach((handle) => handle.cancel());
+    }
+
+    /**
+     * Cancels the running and queued scenes an NPC takes part in, leaving its own lines alone.
+     */
+    public interruptScenes(entityId: string): void {
+        (this.handles.get(entityId) || []).filter((handle) => handle.entityIds.length > 1).forEach((handle) => handle.cancel());
+    }
+
+    /**
+     * Whether an NPC has a line queued or in progress.
+     */
+    public isSpeaking(entityId: string): boolean {
+        return (this.handles.get(entityId) || []).some((handle) => handle.isPending);
+    }
+}
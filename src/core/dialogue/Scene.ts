@@ -0,0 +1,87 @@
+import { JsonSchema, parseLLMJson, validateJsonSchema } from '../structured/JsonSchema';
+import { NPC_RESPONSE_SCHEMA } from '../structured/NpcResponse';
+
+/**
+ * A line of a scene: which NPC says it, and how.
+ */
+export interface SceneLine {
+    entityId: string;
+    line: string;
+    emotion?: string;
+}
+
+/**
+ * The JSON Schema scenes are written in, letting only the given NPCs speak.
+ * @param entityIds The cast, by entity ID.
+ * @param maxLines The most lines the scene may have.
+ */
+export function sceneSchema(entityIds: string[], maxLines: number): JsonSchema {
+    return {
+        type: 'object',
+        properties: {
+            lines: {
+                type: 'array',
+                minItems: 1,
+                maxItems: maxLines,
+                items: {
+                    type: 'object',
+                    properties: {
+                        speaker: { type: 'string', enum: entityIds, description: 'The id of the character who speaks.' },
+                        line: { type: 'string', description: 'What the character says out loud.' },
+                        emotion: NPC_RESPONSE_SCHEMA.properties!.emotion,
+                    },
+                    required: ['speaker', 'line'],
+                },
+            },
+        },
+        required: ['lines'],
+    };
+}
+
+/**
+ * Asks for a scene until one parses and matches the schema, like `generateNpcResponse`.
+ * @param attempt Sends one request. On retries it receives a correction describing what was wrong
+ * with the previous answer, which should be added to the prompt.
+ * @param schema A schema made by `sceneSchema`.
+ * @param maxRetries How many times to ask again after an invalid answer.
+ * @returns The lines in order, or null if no valid scene was produced.
+ */
+export async function generateScene(
+    attempt: (correction?: string) => Promise<string | null>,
+    schema: JsonSchema,
+    maxRetries: number,
+): Promise<SceneLine[] | null> {
+    let correction: string | undefined;
+
+    for (let i = 0; i <= maxRetries; i++) {
+        const text = await attempt(correction);
+        if (!text) {
+            return null;
+        }
+
+        let errors: string[];
+        try {
+            const value = parseLLMJson(text) as { lines: { speaker: string; line: string; emotion?: string }[] };
+            errors = validateJsonSchema(value, schema);
+            if (errors.length === 0) {
+                return value.lines
+                    .filter(({ line }) => line.trim())
+                    .map(({ speaker, line, emotion }) => ({ entityId: speaker, line: line.trim(), ...(emotion && { emotion }) }));
+            }
+        } catch (error) {
+            errors = ['the answer is not valid JSON'];
+        }
+
+        console.error(`Invalid scene (attempt ${i + 1} of ${maxRetries + 1}): ${errors.join('; ')}`);
+        correction = `Your previous answer was invalid: ${errors.join('; ')}. Answer again with a single JSON object matching the schema and nothing else.`;
+    }
+
+    return null;
+}
+
+/**
+ * How long a line without audio stays up: long enough to read it, and at least a second and a half.
+ */
+export function readingTimeMs(text: string): number {
+    return Math.max(1500, text.length * 60);
+}
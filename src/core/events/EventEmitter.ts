@@ -0,0 +1,63 @@
+export type EventListener<T> = (data: T) => void;
+
+/**
+ * A minimal, environment-agnostic event emitter (it works in browsers and Node.js alike).
+ * `TEventMap` maps each event name to the type of its payload.
+ */
+export class EventEmitter<TEventMap extends Record<string, any>> {
+    private listeners = new Map<keyof TEventMap, Set<EventListener<any>>>();
+    /** Maps the wrappers created by `once` to the listeners they call. */
+    private onceListeners = new WeakMap<EventListener<any>, EventListener<any>>();
+
+    public on<K extends keyof TEventMap>(event: K, listener: EventListener<TEventMap[K]>): void {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, new Set());
+        }
+        this.listeners.get(event)!.add(listener);
+    }
+
+    /**
+     * Unsubscribes a listener, including one added with `once` that has not fired yet.
+     */
+    public off<K extends keyof TEventMap>(event: K, listener: EventListener<TEventMap[K]>): void {
+        const listeners = this.listeners.get(event);
+        if (!listeners) {
+            return;
+        }
+        listeners.delete(listener);
+        Array.from(listeners)
+            .filter((candidate) => this.onceListeners.get(candidate) === listener)
+            .forEach((wrapper) => listeners.delete(wrapper));
+    }
+
+    /**
+     * Subscribes a listener that is removed after its first call.
+     */
+    public once<K extends keyof TEventMap>(event: K, listener: EventListener<TEventMap[K]>): void {
+        const wrapper: EventListener<TEventMap[K]> = (data) => {
+            this.listeners.get(event)?.delete(wrapper);
+            listener(data);
+        };
+        this.onceListeners.set(wrapper, listener);
+        this.on(event, wrapper);
+    }
+
+    /**
+     * Calls every listener of an event. A listener that throws is logged and does not
+     * prevent the others from running.
+     */
+    public emit<K extends keyof TEventMap>(event: K, data: TEventMap[K]): void {
+        const listeners = this.listeners.get(event);
+        if (!listeners) {
+            return;
+        }
+        // Copy so listeners can unsubscribe while the event is being dispatched.
+        Array.from(listeners).forEach((listener) => {
+            try {
+                listener(data);
+            } catch (error) {
+                console.error(`Error in listener for event "${String(event)}":`, error);
+            }
+        });
+    }
+}
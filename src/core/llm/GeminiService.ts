@@ -1,39 +1,266 @@
-import { GoogleGenAI } from "@google/genai";
+import {
+    Content,
+    GoogleGenAI,
+    GenerateContentConfig,
+    GenerateContentResponse,
+    GenerateContentResponseUsageMetadata,
+    HarmBlockThreshold,
+    HarmCategory,
+    Part,
+    Schema,
+} from "@google/genai";
+import { AIPluginError, ContentBlockedError, EmptyResponseError, errorFromStatus, ServiceUnavailableError } from "../net/errors";
+import { RequestPolicy, streamWithRequestPolicy, withRequestPolicy } from "../net/RequestPolicy";
+import { JsonSchema } from "../structured/JsonSchema";
+import { LLMGenerationOptions, LLMMessage, LLMProvider, LLMToolCall, LLMTurn } from "./LLMProvider";
 
-export class GeminiService {
+/**
+ * Finish reasons that mean Gemini withheld the answer for policy reasons.
+ */
+const BLOCKED_FINISH_REASONS = new Set(["SAFETY", "RECITATION", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII", "IMAGE_SAFETY"]);
+
+export class GeminiService implements LLMProvider {
     private genAI: GoogleGenAI;
     private modelName: string;
+    private requestPolicy: RequestPolicy;
 
-    constructor(apiKey: string, modelName?: string) {
-        this.genAI = new GoogleGenAI({ apiKey });
+    /**
+     * @param apiKey The Gemini API key.
+     * @param modelName The model to use.
+     * @param requestPolicy Timeout and retry settings for every request.
+     * @param baseUrl Where the API is, e.g. a local `MockGeminiServer` in tests.
+     */
+    constructor(apiKey: string, modelName?: string, requestPolicy: RequestPolicy = {}, baseUrl?: string) {
+        // Priority: provided baseUrl > environment variable > the SDK's default
+        const apiBaseUrl = baseUrl || process.env.GEMINI_BASE_URL;
+        this.genAI = new GoogleGenAI({ apiKey, ...(apiBaseUrl && { httpOptions: { baseUrl: apiBaseUrl } }) });
         // Priority: provided modelName > environment variable > default
         this.modelName = modelName || process.env.GEMINI_MODEL_NAME || "gemini-1.5-flash";
+        this.requestPolicy = requestPolicy;
+    }
+
+    public async generateText(prompt: string, options?: LLMGenerationOptions): Promise<string | null> {
+        return this.generateChat([{ role: "user", text: prompt }], options);
     }
 
-    public async generateText(prompt: string): Promise<string | null> {
+    /**
+     * @throws AIPluginError when the request fails after all retries, or when the answer is
+     * blocked (ContentBlockedError) or empty (EmptyResponseError).
+     */
+    public async generateChat(messages: LLMMessage[], options?: LLMGenerationOptions): Promise<string> {
         console.log(`Sending prompt to Gemini using model ${this.modelName}...`);
-        
+
+        const result = await this.request(messages, options);
+
+        // The `response` property does not exist on the result of `generateContent`.
+        // We need to parse the candidates to get the text.
+        const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (!text) {
+            // The SDK might return a response with no text if content is blocked or structure is unexpected.
+            throw GeminiService.emptyResponseError(result, "No text generated from Gemini API or invalid response structure.");
+        }
+        return text;
+    }
+
+    /**
+     * @throws AIPluginError like `generateChat`.
+     */
+    public async generateTurn(messages: LLMMessage[], options?: LLMGenerationOptions): Promise<LLMTurn> {
+        console.log(`Sending prompt with tools to Gemini using model ${this.modelName}...`);
+
+        const result = await this.request(messages, options);
+        const parts = result.candidates?.[0]?.content?.parts || [];
+        const text = parts.map((part) => part.text || "").join("");
+        const toolCalls: LLMToolCall[] = parts
+            .filter((part) => part.functionCall?.name)
+            .map(({ functionCall }) => ({
+                ...(functionCall!.id && { id: functionCall!.id }),
+                name: functionCall!.name!,
+                args: functionCall!.args || {},
+            }));
+
+        if (!text && toolCalls.length === 0) {
+            throw GeminiService.emptyResponseError(result, "No text or function call generated from Gemini API.");
+        }
+        return { text: text || null, toolCalls };
+    }
+
+    /**
+     * Streams the answer. Opening the stream follows the request policy; once text arrives,
+     * a failure ends the stream with an error, as the chunks already yielded cannot be taken back.
+     * `options.signal` aborts the stream at any point, and a stream that stalls for the policy's
+     * `idleTimeoutMs` ends with a TimeoutError.
+     * @throws AIPluginError when the stream cannot be opened, stalls or breaks off.
+     */
+    public async *generateTextStream(prompt: string, options?: LLMGenerationOptions): AsyncGenerator<string> {
+        console.log(`Streaming prompt to Gemini using model ${this.modelName}...`);
+
+        const config = this.buildConfig(options);
+        const stream = streamWithRequestPolicy("gemini", (abortSignal) => this.genAI.models.generateContentStream({
+            model: this.modelName,
+            contents: [{ role: "user", parts: [{ text: prompt }] }],
+            config: { ...config, abortSignal },
+        }).catch(GeminiService.rethrowAsPluginError), this.requestPolicy, options?.signal);
+
+        // Every chunk repeats the usage so far; the last one holds the total.
+        let usage: GenerateContentResponseUsageMetadata | undefined;
         try {
-            const result = await this.genAI.models.generateContent({
+            for await (const chunk of stream) {
+                usage = chunk.usageMetadata || usage;
+                const text = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
+                if (text) {
+                    yield text;
+                }
+            }
+        } catch (error) {
+            GeminiService.rethrowAsPluginError(error);
+        } finally {
+            this.reportUsage(usage, options);
+        }
+    }
+
+    /**
+     * Sends a generateContent request under the request policy and reports its token usage.
+     */
+    private async request(messages: LLMMessage[], options?: LLMGenerationOptions): Promise<GenerateContentResponse> {
+        const config = this.buildConfig(options);
+        const result = await withRequestPolicy("gemini", (abortSignal) => this.genAI.models.generateContent({
+            model: this.modelName,
+            contents: messages.map(GeminiService.toContent),
+            config: { ...config, abortSignal },
+        }).catch(GeminiService.rethrowAsPluginError), this.requestPolicy, options?.signal);
+        this.reportUsage(result.usageMetadata, options);
+        return result;
+    }
+
+    private reportUsage(usage: GenerateContentResponseUsageMetadata | undefined, options?: LLMGenerationOptions): void {
+        if (usage && options?.onUsage) {
+            options.onUsage({
                 model: this.modelName,
-                contents: [{ role: "user", parts: [{ text: prompt }] }],
+                promptTokens: usage.promptTokenCount ?? 0,
+                outputTokens: usage.candidatesTokenCount ?? 0,
+                totalTokens: usage.totalTokenCount ?? 0,
             });
+        }
+    }
 
-            // The `response` property does not exist on the result of `generateContent`.
-            // We need to parse the candidates to get the text.
-            const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
-            
-            if (text) {
-                return text;
-            } else {
-                // The SDK might return a response with no text if content is blocked or structure is unexpected.
-                console.error("No text generated from Gemini API or invalid response structure. Response:", JSON.stringify(result, null, 2));
-                return null;
-            }
+    /**
+     * Converts errors thrown by the SDK into AIPluginErrors. The SDK reports HTTP failures as
+     * `got status: <code> <text>. <body>`; anything without a status is a network failure.
+     */
+    private static rethrowAsPluginError(error: unknown): never {
+        if (error instanceof AIPluginError || (error instanceof Error && error.name === "AbortError")) {
+            throw error;
+        }
 
-        } catch (error) {
-            console.error("Error calling Gemini API:", error);
-            return null;
+        const message = error instanceof Error ? error.message : String(error);
+        const match = message.match(/got status: (\d+)/);
+        if (!match) {
+            throw new ServiceUnavailableError("gemini", `Could not reach Gemini: ${message}`, undefined, error);
+        }
+
+        // Rate limit answers may say how long to wait, e.g. "retryDelay": "30s".
+        const retryDelay = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+        throw errorFromStatus("gemini", Number(match[1]), message, retryDelay ? Number(retryDelay[1]) * 1000 : undefined);
+    }
+
+    /**
+     * Explains an answer without content: blocked by a safety filter, or simply empty.
+     */
+    private static emptyResponseError(result: GenerateContentResponse, message: string): AIPluginError {
+        const blockReason = result.promptFeedback?.blockReason;
+        const finishReason = result.candidates?.[0]?.finishReason;
+        if (blockReason) {
+            return new ContentBlockedError("gemini", `Gemini blocked the prompt (${blockReason}).`);
+        }
+        if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) {
+            return new ContentBlockedError("gemini", `Gemini withheld the answer (${finishReason}).`);
+        }
+        return new EmptyResponseError("gemini", `${message} Response: ${JSON.stringify(result)}`);
+    }
+
+    /**
+     * Maps provider-agnostic generation options onto Gemini's request config.
+     * Returns undefined when no option is set so the request stays minimal.
+     */
+    private buildConfig(options?: LLMGenerationOptions): GenerateContentConfig | undefined {
+        if (!options) {
+            return undefined;
+        }
+
+        const config: GenerateContentConfig = {};
+        if (options.temperature !== undefined) config.temperature = options.temperature;
+        if (options.maxOutputTokens !== undefined) config.maxOutputTokens = options.maxOutputTokens;
+        if (options.stopSequences?.length) config.stopSequences = options.stopSequences;
+        if (options.systemPrompt) config.systemInstruction = options.systemPrompt;
+        if (options.tools?.length) {
+            config.tools = [{
+                functionDeclarations: options.tools.map((tool) => ({
+                    name: tool.name,
+                    description: tool.description,
+                    ...(tool.parameters && { parameters: GeminiService.toGeminiSchema(tool.parameters) }),
+                })),
+            }];
+        }
+        if (options.safetySettings?.length) {
+            config.safetySettings = options.safetySettings.map((setting) => ({
+                category: `HARM_CATEGORY_${setting.category.toUpperCase()}` as HarmCategory,
+                threshold: setting.threshold.toUpperCase() as HarmBlockThreshold,
+            }));
+        }
+        if (options.responseSchema) {
+            config.responseMimeType = "application/json";
+            config.responseSchema = GeminiService.toGeminiSchema(options.responseSchema);
+        }
+
+        return Object.keys(config).length > 0 ? config : undefined;
+    }
+
+    /**
+     * Maps a message onto Gemini content: text, function calls made by the model,
+     * and function responses sent back to it.
+     */
+    private static toContent(message: LLMMessage): Content {
+        const parts: Part[] = [];
+        if (message.text) {
+            parts.push({ text: message.text });
+        }
+        (message.toolCalls || []).forEach((call) => {
+            parts.push({ functionCall: { ...(call.id && { id: call.id }), name: call.name, args: call.args } });
+        });
+        (message.toolResults || []).forEach((result) => {
+            parts.push({
+                functionResponse: {
+                    ...(result.id && { id: result.id }),
+                    name: result.name,
+                    response: result.error !== undefined ? { error: result.error } : { result: result.result ?? null },
+                },
+            });
+        });
+        return { role: message.role, parts: parts.length > 0 ? parts : [{ text: message.text }] };
+    }
+
+    /**
+     * Converts a JSON Schema into Gemini's OpenAPI-style schema: upper-case type names,
+     * integer limits as strings, and only the keywords Gemini accepts.
+     */
+    private static toGeminiSchema(schema: JsonSchema): Schema {
+        const result: Record<string, unknown> = {};
+        if (schema.type) result.type = schema.type.toUpperCase();
+        if (schema.description) result.description = schema.description;
+        if (schema.nullable) result.nullable = true;
+        if (schema.enum) result.enum = schema.enum.map(String);
+        if (schema.required) result.required = schema.required;
+        if (schema.minItems !== undefined) result.minItems = String(schema.minItems);
+        if (schema.maxItems !== undefined) result.maxItems = String(schema.maxItems);
+        if (schema.minimum !== undefined) result.minimum = schema.minimum;
+        if (schema.maximum !== undefined) result.maximum = schema.maximum;
+        if (schema.items) result.items = GeminiService.toGeminiSchema(schema.items);
+        if (schema.properties) {
+            result.properties = Object.fromEntries(
+                Object.entries(schema.properties).map(([key, value]) => [key, GeminiService.toGeminiSchema(value)]),
+            );
         }
+        return result as Schema;
     }
 }
@@ -0,0 +1,145 @@
+import { JsonSchema } from '../structured/JsonSchema';
+
+/**
+ * Options that tune a single text generation request.
+ * Providers map these onto their own request format and ignore any they do not support.
+ */
+export interface LLMGenerationOptions {
+    /** Sampling temperature. Lower values give more predictable output. */
+    temperature?: number;
+    /** Upper bound on the number of tokens the model may generate. */
+    maxOutputTokens?: number;
+    /** Generation stops as soon as any of these strings is produced. */
+    stopSequences?: string[];
+    /** Instructions that frame the whole request, sent separately from the prompt where the provider supports it. */
+    systemPrompt?: string;
+    /**
+     * Requests a JSON response matching this schema. Providers with a native JSON mode use it to
+     * constrain the output; callers should still validate the result.
+     */
+    responseSchema?: JsonSchema;
+    /** Functions the model may call instead of (or before) answering. Only used by `generateTurn`. */
+    tools?: LLMTool[];
+    /** Aborts the request, e.g. when the player walks away. Providers should pass it to their HTTP calls. */
+    signal?: AbortSignal;
+    /** Called with the tokens the request used, by providers that report them. */
+    onUsage?: (usage: LLMUsage) => void;
+    /** How strictly the provider's own safety filters block harmful content, for providers that have them (Gemini). */
+    safetySettings?: LLMSafetySetting[];
+}
+
+/**
+ * The blocking threshold of one harm category. `block_low_and_above` blocks the most, `off` disables the filter.
+ */
+export interface LLMSafetySetting {
+    category: 'harassment' | 'hate_speech' | 'sexually_explicit' | 'dangerous_content' | 'civic_integrity';
+    threshold: 'block_low_and_above' | 'block_medium_and_above' | 'block_only_high' | 'block_none' | 'off';
+}
+
+/**
+ * The tokens one request used, as reported by the provider.
+ */
+export interface LLMUsage {
+    /** The model that answered, used to look up its price. */
+    model?: string;
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+}
+
+/**
+ * A function the model may call, described by a JSON Schema for its arguments.
+ */
+export interface LLMTool {
+    name: string;
+    description: string;
+    /** The arguments as an object schema. Omit for functions without arguments. */
+    parameters?: JsonSchema;
+}
+
+/**
+ * A function call requested by the model.
+ */
+export interface LLMToolCall {
+    /** Set by providers that match results to calls by id (e.g. OpenAI). */
+    id?: string;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+/**
+ * The outcome of a function call, sent back to the model. Exactly one of `result` and `error` is set.
+ */
+export interface LLMToolResult {
+    id?: string;
+    name: string;
+    result?: unknown;
+    error?: string;
+}
+
+/**
+ * A model turn that may contain function calls besides (or instead of) text.
+ */
+export interface LLMTurn {
+    text: string | null;
+    toolCalls: LLMToolCall[];
+}
+
+/**
+ * One turn of a multi-turn exchange. `user` is the player (or the plugin speaking for the game),
+ * `model` is the character the LLM plays.
+ */
+export interface LLMMessage {
+    role: 'user' | 'model';
+    text: string;
+    /** Function calls the model made in this turn. */
+    toolCalls?: LLMToolCall[];
+    /** Results of the model's function calls, sent in a `user` turn. */
+    toolResults?: LLMToolResult[];
+}
+
+/**
+ * The LLMProvider interface is the contract between the AIManager and a text generation backend.
+ * GeminiService is the default implementation; any other vendor, a local model server
+ * or a deterministic stub can be plugged in through `AIManagerOptions.llmProvider`.
+ *
+ * Failures may be reported by returning null or by throwing; the built-in GeminiService throws
+ * AIPluginError subclasses so callers can tell retryable from fatal errors.
+ */
+export interface LLMProvider {
+    /**
+     * Generates text for a prompt.
+     * @param prompt The user prompt to send to the model.
+     * @param options Optional generation settings.
+     * @returns The generated text, or null if nothing could be generated.
+     */
+    generateText(prompt: string, options?: LLMGenerationOptions): Promise<string | null>;
+
+    /**
+     * Generates the next model turn of a multi-turn exchange. Optional; when a provider does
+     * not implement it, the history is flattened into a single prompt for `generateText`.
+     * @param messages The conversation so far, oldest first. The last message is normally from the user.
+     * @param options Optional generation settings.
+     * @returns The generated reply, or null if nothing could be generated.
+     */
+    generateChat?(messages: LLMMessage[], options?: LLMGenerationOptions): Promise<string | null>;
+
+    /**
+     * Generates the next model turn with function calling: the model may answer with text,
+     * ask for `options.tools` to be called, or both. Optional; providers without it cannot
+     * trigger game actions through tools.
+     * @param messages The exchange so far, including earlier function calls and their results.
+     * @param options Generation settings, including the tools the model may call.
+     * @returns The model's turn, or null if nothing could be generated.
+     */
+    generateTurn?(messages: LLMMessage[], options?: LLMGenerationOptions): Promise<LLMTurn | null>;
+
+    /**
+     * Streams generated text as it is produced. Optional; when a provider does not
+     * implement it, streaming callers fall back to `generateText`.
+     * @param prompt The user prompt to send to the model.
+     * @param options Optional generation settings.
+     * @returns The text in the order it was generated, one chunk at a time.
+     */
+    generateTextStream?(prompt: string, options?: LLMGenerationOptions): AsyncIterable<string>;
+}
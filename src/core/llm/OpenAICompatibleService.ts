@@ -0,0 +1,158 @@
+import fetch from 'cross-fetch';
+import { LLMGenerationOptions, LLMMessage, LLMProvider, LLMToolCall, LLMTurn } from './LLMProvider';
+
+export interface OpenAICompatibleServiceOptions {
+    /** Base URL of the API, e.g. `http://localhost:11434/v1` for a local Ollama server. */
+    baseUrl?: string;
+    /** Bearer token. Optional because most local servers do not require one. */
+    apiKey?: string;
+    modelName?: string;
+}
+
+/**
+ * An LLMProvider for any server that speaks the OpenAI chat completions API:
+ * OpenAI itself, Ollama, llama.cpp's server, vLLM, LM Studio and similar.
+ */
+export class OpenAICompatibleService implements LLMProvider {
+    private baseUrl: string;
+    private apiKey?: string;
+    private modelName: string;
+
+    constructor(options: OpenAICompatibleServiceOptions = {}) {
+        // Priority: provided option > environment variable > default
+        this.baseUrl = (options.baseUrl || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+        this.apiKey = options.apiKey || process.env.OPENAI_API_KEY;
+        this.modelName = options.modelName || process.env.OPENAI_MODEL_NAME || 'gpt-4o-mini';
+    }
+
+    public async generateText(prompt: string, options?: LLMGenerationOptions): Promise<string | null> {
+        return this.generateChat([{ role: 'user', text: prompt }], options);
+    }
+
+    public async generateChat(history: LLMMessage[], options?: LLMGenerationOptions): Promise<string | null> {
+        console.log(`Sending prompt to ${this.baseUrl} using model ${this.modelName}...`);
+
+        try {
+            const result = await this.requestCompletion(history, options);
+            const text = result.choices?.[0]?.message?.content;
+
+            if (text) {
+                return text;
+            } else {
+                console.error("No text generated from OpenAI-compatible API or invalid response structure. Response:", JSON.stringify(result, null, 2));
+                return null;
+            }
+
+        } catch (error) {
+            console.error("Error calling OpenAI-compatible API:", error);
+            return null;
+        }
+    }
+
+    public async generateTurn(history: LLMMessage[], options?: LLMGenerationOptions): Promise<LLMTurn | null> {
+        console.log(`Sending prompt with tools to ${this.baseUrl} using model ${this.modelName}...`);
+
+        try {
+            const result = await this.requestCompletion(history, options);
+            const message = result.choices?.[0]?.message;
+            const toolCalls: LLMToolCall[] = (message?.tool_calls || [])
+                .filter((call: any) => call.type === 'function' && call.function?.name)
+                .map((call: any) => ({
+                    id: call.id,
+                    name: call.function.name,
+                    args: call.function.arguments ? JSON.parse(call.function.arguments) : {},
+                }));
+
+            if (message?.content || toolCalls.length > 0) {
+                return { text: message.content || null, toolCalls };
+            } else {
+                console.error("No text or tool call generated from OpenAI-compatible API. Response:", JSON.stringify(result, null, 2));
+                return null;
+            }
+
+        } catch (error) {
+            console.error("Error calling OpenAI-compatible API:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Sends a chat completion request, reports its token usage and returns the parsed response body.
+     * @throws Error on HTTP errors.
+     */
+    private async requestCompletion(history: LLMMessage[], options?: LLMGenerationOptions): Promise<any> {
+        const messages: Record<string, unknown>[] = [];
+        if (options?.systemPrompt) {
+            messages.push({ role: 'system', content: options.systemPrompt });
+        }
+        history.forEach((message) => messages.push(...OpenAICompatibleService.toMessages(message)));
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            signal: options?.signal,
+            headers,
+            body: JSON.stringify({
+                model: this.modelName,
+                messages,
+                temperature: options?.temperature,
+                max_tokens: options?.maxOutputTokens,
+                stop: options?.stopSequences?.length ? options.stopSequences : undefined,
+                response_format: options?.responseSchema
+                    ? { type: 'json_schema', json_schema: { name: 'response', schema: options.responseSchema } }
+                    : undefined,
+                tools: options?.tools?.length
+                    ? options.tools.map((tool) => ({
+                        type: 'function',
+                        function: { name: tool.name, description: tool.description, parameters: tool.parameters || { type: 'object', properties: {} } },
+                    }))
+                    : undefined,
+            }),
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw new Error(`HTTP error! status: ${response.status}, body: ${errorBody}`);
+        }
+
+        const result = await response.json();
+        if (result.usage && options?.onUsage) {
+            options.onUsage({
+                model: result.model || this.modelName,
+                promptTokens: result.usage.prompt_tokens ?? 0,
+                outputTokens: result.usage.completion_tokens ?? 0,
+                totalTokens: result.usage.total_tokens ?? 0,
+            });
+        }
+        return result;
+    }
+
+    /**
+     * Maps a message onto chat completion messages. Function results become one `tool` message each.
+     */
+    private static toMessages(message: LLMMessage): Record<string, unknown>[] {
+        if (message.toolResults?.length) {
+            return message.toolResults.map((result) => ({
+                role: 'tool',
+                tool_call_id: result.id,
+                content: JSON.stringify(result.error !== undefined ? { error: result.error } : { result: result.result ?? null }),
+            }));
+        }
+        if (message.toolCalls?.length) {
+            return [{
+                role: 'assistant',
+                content: message.text || null,
+                tool_calls: message.toolCalls.map((call) => ({
+                    id: call.id,
+                    type: 'function',
+                    function: { name: call.name, arguments: JSON.stringify(call.args) },
+                })),
+            }];
+        }
+        return [{ role: message.role === 'model' ? 'assistant' : 'user', content: message.text }];
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * Helpers for locales given as BCP 47 tags, e.g. `de`, `de-DE` or `pt-BR`. Tags written with an
+ * underscore (`de_DE`) are accepted too.
+ */
+
+function normalize(locale: string): string {
+    return locale.trim().replace(/_/g, '-');
+}
+
+/**
+ * The language of a locale as an ISO 639 code, e.g. `de` for `de-DE`.
+ */
+export function languageOf(locale: string): string {
+    return normalize(locale).split('-')[0].toLowerCase();
+}
+
+/**
+ * Whether two locales speak the same language, ignoring their regions.
+ */
+export function isSameLanguage(a: string, b: string): boolean {
+    return languageOf(a) === languageOf(b);
+}
+
+/**
+ * The English name of a locale's language, e.g. `German` or `Brazilian Portuguese`, for use in
+ * prompts. Tags that are not valid BCP 47 are returned unchanged.
+ */
+export function languageName(locale: string): string {
+    try {
+        return new Intl.DisplayNames(['en'], { type: 'language' }).of(normalize(locale)) || locale;
+    } catch {
+        return locale;
+    }
+}
+
+/**
+ * Picks the entry for a locale from a map keyed by locales or languages: an exact match
+ * (case-insensitive) first, then the entry for the locale's language.
+ */
+export function lookupLocale<T>(entries: Record<string, T> | undefined, locale: string): T | undefined {
+    if (!entries) {
+        return undefined;
+    }
+    const wanted = normalize(locale).toLowerCase();
+    const keys = Object.keys(entries);
+    const exact = keys.find((key) => normalize(key).toLowerCase() === wanted);
+    if (exact !== undefined) {
+        return entries[exact];
+    }
+    const language = keys.find((key) => normalize(key).toLowerCase() === languageOf(locale));
+    return language !== undefined ? entries[language] : undefined;
+}
+
+/**
+ * The instruction added to a prompt so the NPC answers in the locale's language. Prompts stay in
+ * English; only what the NPC says is localized.
+ */
+export function languageInstruction(locale: string): string {
+    return `Always speak ${languageName(locale)}: write everything you say in ${languageName(locale)}, even though these instructions are in English.`;
+}
+
+/**
+ * The prompt that asks an LLM to translate a spoken line for subtitles.
+ */
+export function translationPrompt(text: string, locale: string): string {
+    return [
+        `Translate this line of game dialogue into ${languageName(locale)}. Keep its tone and meaning.`,
+        'Reply with the translation only, without quotes or notes.',
+        '',
+        text,
+    ].join('\n');
+}
@@ -0,0 +1,33 @@
+import { GameAdapter } from '../../integrations/GameAdapter';
+import { InMemoryMemoryStore, MemorySnapshot } from './MemoryStore';
+
+/**
+ * Persists NPC memories through the game's own save system, using the adapter's
+ * `saveData` and `loadData` hooks. Memories then travel with the player's save game.
+ */
+export class AdapterMemoryStore extends InMemoryMemoryStore {
+    private adapter: GameAdapter;
+    private key: string;
+
+    /**
+     * @param adapter A game adapter implementing `saveData` and `loadData`.
+     * @param key The key the memories are saved under.
+     */
+    constructor(adapter: GameAdapter, key = 'ai-plugin:npc-memories') {
+        super();
+        if (!adapter.saveData || !adapter.loadData) {
+            throw new Error("The game adapter must implement saveData and loadData to persist memories.");
+        }
+        this.adapter = adapter;
+        this.key = key;
+    }
+
+    protected async restore(): Promise<MemorySnapshot | null> {
+        const data = await this.adapter.loadData!(this.key);
+        return (data as MemorySnapshot | undefined) || null;
+    }
+
+    protected async persist(snapshot: MemorySnapshot): Promise<void> {
+        await this.adapter.saveData!(this.key, snapshot);
+    }
+}
@@ -0,0 +1,41 @@
+import { InMemoryMemoryStore, MemorySnapshot } from './MemoryStore';
+
+/**
+ * Persists NPC memories as a JSON file. Node.js only; useful for servers and tools.
+ */
+export class JsonFileMemoryStore extends InMemoryMemoryStore {
+    private filePath: string;
+
+    constructor(filePath: string) {
+        super();
+        if (!filePath) {
+            throw new Error("A memory file path is required.");
+        }
+        this.filePath = filePath;
+    }
+
+    /**
+     * @throws Error if the file exists but cannot be read or parsed, so that it is not overwritten
+     * with only the memories added afterwards.
+     */
+    protected async restore(): Promise<MemorySnapshot | null> {
+        // Imported lazily so that browser bundles which never use this store do not pull in fs.
+        const fs = await import('fs/promises');
+        try {
+            const contents = await fs.readFile(this.filePath, 'utf8');
+            return JSON.parse(contents);
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                throw error;
+            }
+            return null;
+        }
+    }
+
+    protected async persist(snapshot: MemorySnapshot): Promise<void> {
+        const fs = await import('fs/promises');
+        const path = await import('path');
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(this.filePath, JSON.stringify(snapshot, null, 2), 'utf8');
+    }
+}
@@ -0,0 +1,65 @@
+import { LLMProvider } from '../llm/LLMProvider';
+import { createMemory, MemoryEntry } from './MemoryStore';
+
+/**
+ * Uses the LLM to pull the facts worth remembering out of a finished conversation.
+ */
+export class MemoryExtractor {
+    constructor(private llm: LLMProvider) {}
+
+    /**
+     * @param npcName The name of the NPC whose memories are being formed.
+     * @param transcript The conversation, one "Speaker: line" per line.
+     * @returns The new memories. Empty if nothing was worth remembering or extraction failed.
+     */
+    public async extract(npcName: string, transcript: string): Promise<MemoryEntry[]> {
+        const prompt = `
+            You are the memory of ${npcName}, a character in a game. Read the conversation below and list the facts
+            ${npcName} should remember about the player in future conversations: favors done, insults, promises,
+            quest outcomes, personal details the player shared. Ignore small talk.
+
+            Answer with a JSON array only, for example:
+            [{"text": "The player promised to bring back my hammer.", "importance": 4}]
+            "importance" ranges from 1 (trivia) to 5 (life-changing). Answer [] if there is nothing worth remembering.
+
+            Conversation:
+            ${transcript}`;
+
+        const response = await this.llm.generateText(prompt);
+        if (!response) {
+            console.error(`[MemoryExtractor] No response when extracting memories for ${npcName}.`);
+            return [];
+        }
+
+        return MemoryExtractor.parse(response);
+    }
+
+    /**
+     * Parses the model's answer, tolerating surrounding prose and markdown code fences.
+     */
+    private static parse(response: string): MemoryEntry[] {
+        const start = response.indexOf('[');
+        const end = response.lastIndexOf(']');
+        if (start === -1 || end < start) {
+            console.error("[MemoryExtractor] Could not find a JSON array in the response:", response);
+            return [];
+        }
+
+        try {
+            const items = JSON.parse(response.slice(start, end + 1));
+            if (!Array.isArray(items)) {
+                return [];
+            }
+            return items
+                .map((item) => (typeof item === 'string' ? { text: item } : item))
+                .filter((item) => item && typeof item.text === 'string' && item.text.trim())
+                .map((item) => createMemory(
+                    item.text.trim(),
+                    typeof item.importance === 'number' ? Math.min(5, Math.max(1, Math.round(item.importance))) : undefined,
+                ));
+        } catch (error) {
+            console.error("[MemoryExtractor] Invalid JSON in the response:", error);
+            return [];
+        }
+    }
+}
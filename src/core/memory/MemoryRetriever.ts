@@ -0,0 +1,46 @@
+import { MemoryEntry } from './MemoryStore';
+
+// Words too common to say anything about relevance.
+const STOP_WORDS = new Set([
+    'about', 'after', 'again', 'also', 'been', 'from', 'have', 'into', 'just', 'more', 'that', 'their',
+    'them', 'then', 'there', 'they', 'this', 'what', 'when', 'where', 'which', 'with', 'would', 'your',
+]);
+
+function keywords(text: string): Set<string> {
+    return new Set(
+        text.toLowerCase()
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter((word) => word.length > 3 && !STOP_WORDS.has(word)),
+    );
+}
+
+/**
+ * Picks the memories most worth putting in front of the model.
+ * Each memory is scored by keyword overlap with the current context, its importance and its
+ * recency; the best `limit` are returned in chronological order.
+ * @param memories All memories of an entity.
+ * @param context Text describing the current situation (location, player line, etc.).
+ * @param limit The maximum number of memories to return.
+ */
+export function selectRelevantMemories(memories: MemoryEntry[], context: string, limit: number): MemoryEntry[] {
+    if (memories.length <= limit) {
+        return memories;
+    }
+
+    const contextWords = keywords(context);
+    const newest = Math.max(...memories.map((memory) => memory.createdAt));
+    const oldest = Math.min(...memories.map((memory) => memory.createdAt));
+    const span = newest - oldest || 1;
+
+    const scored = memories.map((memory) => {
+        const overlap = Array.from(keywords(memory.text)).filter((word) => contextWords.has(word)).length;
+        const recency = (memory.createdAt - oldest) / span;
+        return { memory, score: overlap * 2 + (memory.importance ?? 3) * 0.5 + recency };
+    });
+
+    return scored
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ memory }) => memory)
+        .sort((a, b) => a.createdAt - b.createdAt);
+}
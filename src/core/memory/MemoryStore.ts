@@ -0,0 +1,103 @@
+/**
+ * Something an NPC remembers about the player, e.g. "The player returned my stolen ring".
+ */
+export interface MemoryEntry {
+    id: string;
+    text: string;
+    /** Milliseconds since the epoch. */
+    createdAt: number;
+    /** 1 (trivia) to 5 (life-changing). Used to rank memories for the prompt. Defaults to 3. */
+    importance?: number;
+}
+
+/**
+ * All memories, keyed by entity id. This is the shape that gets persisted.
+ */
+export type MemorySnapshot = Record<string, MemoryEntry[]>;
+
+/**
+ * Where NPC memories are kept between conversations and game sessions.
+ */
+export interface MemoryStore {
+    /** Returns all memories of an entity, oldest first. */
+    getMemories(entityId: string): Promise<MemoryEntry[]>;
+    /** Adds memories to an entity and persists them. */
+    addMemories(entityId: string, memories: MemoryEntry[]): Promise<void>;
+    /** Forgets the memories of one entity, or of all entities when no id is given. */
+    clear(entityId?: string): Promise<void>;
+}
+
+/**
+ * Creates a memory entry with a generated id and the current time.
+ */
+export function createMemory(text: string, importance?: number): MemoryEntry {
+    return {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+        text,
+        createdAt: Date.now(),
+        ...(importance !== undefined && { importance }),
+    };
+}
+
+/**
+ * Keeps memories in memory only; they are lost when the game closes.
+ * Also serves as the base for stores that persist a whole snapshot at a time:
+ * subclasses override `restore` and `persist`.
+ */
+export class InMemoryMemoryStore implements MemoryStore {
+    private snapshot: MemorySnapshot = {};
+    private loading: Promise<void> | null = null;
+
+    public async getMemories(entityId: string): Promise<MemoryEntry[]> {
+        await this.ensureLoaded();
+        return [...(this.snapshot[entityId] || [])];
+    }
+
+    public async addMemories(entityId: string, memories: MemoryEntry[]): Promise<void> {
+        if (memories.length === 0) {
+            return;
+        }
+        await this.ensureLoaded();
+        this.snapshot[entityId] = [...(this.snapshot[entityId] || []), ...memories];
+        await this.persist(this.snapshot);
+    }
+
+    public async clear(entityId?: string): Promise<void> {
+        await this.ensureLoaded();
+        if (entityId === undefined) {
+            this.snapshot = {};
+        } else {
+            delete this.snapshot[entityId];
+        }
+        await this.persist(this.snapshot);
+    }
+
+    /**
+     * Loads the previously persisted snapshot. Returns null if there is none yet.
+     */
+    protected async restore(): Promise<MemorySnapshot | null> {
+        return null;
+    }
+
+    /**
+     * Saves the full snapshot after every change.
+     */
+    protected async persist(_snapshot: MemorySnapshot): Promise<void> {
+        // Nothing to persist for a purely in-memory store.
+    }
+
+    private ensureLoaded(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.restore().then((snapshot) => {
+                if (snapshot) {
+                    this.snapshot = snapshot;
+                }
+            }).catch((error) => {
+                // Forgotten so that the next call tries again, e.g. after a transient read error.
+                this.loading = null;
+                throw error;
+            });
+        }
+        return this.loading;
+    }
+}
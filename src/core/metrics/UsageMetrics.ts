@@ -0,0 +1,167 @@
+import { LLMUsage } from '../llm/LLMProvider';
+import { TTSUsage } from '../tts/TTSProvider';
+
+/**
+ * The stages of a dialogue line that are timed: transcribing what the player said, fetching game
+ * state from the adapter, generating text, synthesizing speech and playing it.
+ */
+export type MetricsStage = 'stt' | 'state' | 'llm' | 'tts' | 'playback';
+
+/**
+ * Prices of one model, in any currency as long as all models use the same one.
+ */
+export interface ModelPricing {
+    /** For LLMs: the price of a million prompt tokens. */
+    inputPerMillionTokens?: number;
+    /** For LLMs: the price of a million generated tokens. */
+    outputPerMillionTokens?: number;
+    /** For TTS models: the price of a thousand characters. */
+    perThousandCharacters?: number;
+}
+
+export interface UsageMetricsOptions {
+    /**
+     * Prices keyed by model name, e.g. `{ 'gemini-1.5-flash': { inputPerMillionTokens: 0.075, outputPerMillionTokens: 0.3 } }`.
+     * Usage of models without a price costs nothing.
+     */
+    pricing?: Record<string, ModelPricing>;
+}
+
+export interface UsageTotals {
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    /** Characters sent to TTS providers that charge per character. */
+    characters: number;
+    /** The price of the usage above, according to the configured pricing. */
+    cost: number;
+}
+
+export interface LatencyStats {
+    count: number;
+    totalMs: number;
+    averageMs: number;
+    maxMs: number;
+}
+
+export interface MetricsSnapshot {
+    /** Everything used since the metrics were created or last reset. */
+    session: UsageTotals;
+    /** Usage per player, keyed by the player's `id` (or `name`) from the player state. */
+    players: Record<string, UsageTotals>;
+    latency: Record<MetricsStage, LatencyStats>;
+}
+
+/**
+ * Limits on what a session or a player may use. Tokens count against the LLM, characters
+ * against TTS, and cost against both.
+ */
+export interface UsageLimits {
+    maxTokens?: number;
+    maxCharacters?: number;
+    maxCost?: number;
+}
+
+const STAGES: MetricsStage[] = ['stt', 'state', 'llm', 'tts', 'playback'];
+
+function emptyTotals(): UsageTotals {
+    return { promptTokens: 0, outputTokens: 0, totalTokens: 0, characters: 0, cost: 0 };
+}
+
+/**
+ * Collects the tokens, TTS characters, cost and stage latencies of the requests the AIManager
+ * makes. Available as `aiManager.metrics`.
+ */
+export class UsageMetrics {
+    private pricing: Record<string, ModelPricing>;
+    private session = emptyTotals();
+    private players = new Map<string, UsageTotals>();
+    private latency = new Map<MetricsStage, { count: number; totalMs: number; maxMs: number }>();
+
+    constructor(options: UsageMetricsOptions = {}) {
+        this.pricing = options.pricing || {};
+    }
+
+    /** @internal Called by the AIManager with the usage a provider reported. */
+    public recordLLMUsage(usage: LLMUsage, playerId?: string): void {
+        const price = (usage.model && this.pricing[usage.model]) || {};
+        const cost = (usage.promptTokens * (price.inputPerMillionTokens ?? 0) + usage.outputTokens * (price.outputPerMillionTokens ?? 0)) / 1_000_000;
+        this.add({ ...emptyTotals(), promptTokens: usage.promptTokens, outputTokens: usage.outputTokens, totalTokens: usage.totalTokens, cost }, playerId);
+    }
+
+    /** @internal Called by the AIManager with the usage a provider reported. */
+    public recordTTSUsage(usage: TTSUsage, playerId?: string): void {
+        const price = (usage.model && this.pricing[usage.model]) || {};
+        const cost = (usage.characters * (price.perThousandCharacters ?? 0)) / 1000;
+        this.add({ ...emptyTotals(), characters: usage.characters, cost }, playerId);
+    }
+
+    /** @internal Called by the AIManager when a stage of a line has finished. */
+    public recordLatency(stage: MetricsStage, durationMs: number): void {
+        const stats = this.latency.get(stage) || { count: 0, totalMs: 0, maxMs: 0 };
+        stats.count++;
+        stats.totalMs += durationMs;
+        stats.maxMs = Math.max(stats.maxMs, durationMs);
+        this.latency.set(stage, stats);
+    }
+
+    /**
+     * What the session, or one player, has used so far.
+     */
+    public totals(playerId?: string): UsageTotals {
+        const totals = playerId === undefined ? this.session : this.players.get(playerId);
+        return { ...(totals || emptyTotals()) };
+    }
+
+    /**
+     * Whether usage has reached any of the limits, for the session or for one player.
+     * @returns `llm` if tokens or cost are used up, `tts` if characters or cost are; empty if within limits.
+     */
+    public exceededLimits(limits: UsageLimits, playerId?: string): ('llm' | 'tts')[] {
+        const totals = this.totals(playerId);
+        const costExceeded = limits.maxCost !== undefined && totals.cost >= limits.maxCost;
+        const exceeded: ('llm' | 'tts')[] = [];
+        if (costExceeded || (limits.maxTokens !== undefined && totals.totalTokens >= limits.maxTokens)) {
+            exceeded.push('llm');
+        }
+        if (costExceeded || (limits.maxCharacters !== undefined && totals.characters >= limits.maxCharacters)) {
+            exceeded.push('tts');
+        }
+        return exceeded;
+    }
+
+    public snapshot(): MetricsSnapshot {
+        return {
+            session: this.totals(),
+            players: Object.fromEntries([...this.players.keys()].map((playerId) => [playerId, this.totals(playerId)])),
+            latency: Object.fromEntries(STAGES.map((stage) => {
+                const { count, totalMs, maxMs } = this.latency.get(stage) || { count: 0, totalMs: 0, maxMs: 0 };
+                return [stage, { count, totalMs, maxMs, averageMs: count > 0 ? totalMs / count : 0 }];
+            })) as Record<MetricsStage, LatencyStats>,
+        };
+    }
+
+    /**
+     * Starts a new session: clears all usage and latencies, which also lifts exhausted budgets.
+     */
+    public reset(): void {
+        this.session = emptyTotals();
+        this.players.clear();
+        this.latency.clear();
+    }
+
+    private add(usage: UsageTotals, playerId?: string): void {
+        const targets = [this.session];
+        if (playerId !== undefined) {
+            if (!this.players.has(playerId)) {
+                this.players.set(playerId, emptyTotals());
+            }
+            targets.push(this.players.get(playerId)!);
+        }
+        targets.forEach((totals) => {
+            (Object.keys(usage) as (keyof UsageTotals)[]).forEach((key) => {
+                totals[key] += usage[key];
+            });
+        });
+    }
+}
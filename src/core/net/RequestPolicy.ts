@@ -0,0 +1,176 @@
+import { sleep } from './abort';
+import { AIPluginError, CancelledError, TimeoutError } from './errors';
+
+/**
+ * How a service sends its requests: how long to wait for an answer and how to retry failures.
+ */
+export interface RequestPolicy {
+    /** How long a single attempt may take, in milliseconds. Defaults to 30000. */
+    timeoutMs?: number;
+    /** How many times a retryable failure is retried. Defaults to 2. */
+    maxRetries?: number;
+    /** The wait before the first retry, doubled for each further one. Defaults to 500 ms. */
+    baseDelayMs?: number;
+    /**
+     * The longest wait between attempts. A service asking to wait longer (through Retry-After)
+     * is not retried. Defaults to 10000 ms.
+     */
+    maxDelayMs?: number;
+    /** How long an open stream may go without a chunk, in milliseconds. Defaults to 30000. */
+    idleTimeoutMs?: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: Required<RequestPolicy> = {
+    timeoutMs: 30000,
+    maxRetries: 2,
+    baseDelayMs: 500,
+    maxDelayMs: 10000,
+    idleTimeoutMs: 30000,
+};
+
+/**
+ * Runs a request under a policy. Each attempt gets an AbortSignal that fires when the attempt
+ * times out; the operation must pass it to its HTTP call. Retryable failures (see AIPluginError)
+ * are retried with exponential backoff and jitter, waiting at least as long as the service asked.
+ * Anything else is rethrown immediately.
+ * @param provider The service name, used in timeout errors.
+ * @param operation Sends one attempt.
+ * @param policy Overrides of the default policy.
+ * @param signal Cancels the request from outside: the current attempt is aborted and no retry follows.
+ * @throws The last error once no retry is left, a TimeoutError if the last attempt timed out,
+ * or a CancelledError if `signal` fired.
+ */
+export async function withRequestPolicy<T>(
+    provider: string,
+    operation: (signal: AbortSignal) => Promise<T>,
+    policy: RequestPolicy = {},
+    signal?: AbortSignal,
+): Promise<T> {
+    const { timeoutMs, maxRetries, baseDelayMs, maxDelayMs } = { ...DEFAULT_REQUEST_POLICY, ...policy };
+
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) {
+            throw new CancelledError(provider);
+        }
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        const cancel = () => controller.abort();
+        signal?.addEventListener('abort', cancel, { once: true });
+        try {
+            return await operation(controller.signal);
+        } catch (caught) {
+            if (signal?.aborted) {
+                throw new CancelledError(provider);
+            }
+            const error = controller.signal.aborted ? new TimeoutError(provider, timeoutMs) : caught;
+            if (!(error instanceof AIPluginError) || !error.retryable || attempt >= maxRetries) {
+                throw error;
+            }
+
+            const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs, error.retryAfterMs);
+            if (delay === null) {
+                throw error;
+            }
+            console.warn(`[RequestPolicy] ${error.message} Retrying in ${delay} ms (retry ${attempt + 1} of ${maxRetries}).`);
+            clearTimeout(timer);
+            await sleep(delay, signal, provider);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', cancel);
+        }
+    }
+}
+
+/**
+ * Opens a stream under a policy, then reads it. Opening is retried like `withRequestPolicy`;
+ * the signal passed to `open` stays live until the stream ends, so `signal` still aborts the
+ * download once chunks arrive, and so does a wait of more than `idleTimeoutMs` for the next chunk.
+ * The download is also aborted when the caller stops reading early.
+ * @param provider The service name, used in timeout errors.
+ * @param open Opens one attempt's stream; it must pass the signal to its HTTP call.
+ * @param policy Overrides of the default policy.
+ * @param signal Cancels the stream from outside, while it opens or while it is read.
+ * @throws Like `withRequestPolicy` while opening; a TimeoutError if the stream stalls, a
+ * CancelledError if `signal` fires, or the stream's own error if it breaks off.
+ */
+export async function* streamWithRequestPolicy<T>(
+    provider: string,
+    open: (signal: AbortSignal) => Promise<AsyncIterable<T>>,
+    policy: RequestPolicy = {},
+    signal?: AbortSignal,
+): AsyncGenerator<T> {
+    const { idleTimeoutMs } = { ...DEFAULT_REQUEST_POLICY, ...policy };
+    // Outlives the attempt that opened the stream, which is over once `open` returns.
+    let controller = new AbortController();
+    const stream = await withRequestPolicy(provider, (attemptSignal) => {
+        const attempt = new AbortController();
+        attemptSignal.addEventListener('abort', () => attempt.abort(), { once: true });
+        controller = attempt;
+        return open(attempt.signal);
+    }, policy, signal);
+
+    const iterator = stream[Symbol.asyncIterator]();
+    try {
+        while (true) {
+            const result = await nextChunk(iterator, provider, idleTimeoutMs, controller, signal);
+            if (result.done) {
+                return;
+            }
+            yield result.value;
+        }
+    } finally {
+        controller.abort();
+        Promise.resolve(iterator.return?.()).catch(() => undefined);
+    }
+}
+
+/**
+ * Waits for the next chunk of a stream, aborting the download if it takes longer than
+ * `idleTimeoutMs` or `signal` fires. Rejects right away then, even if the stream ignores the abort.
+ */
+function nextChunk<T>(
+    iterator: AsyncIterator<T>,
+    provider: string,
+    idleTimeoutMs: number,
+    controller: AbortController,
+    signal: AbortSignal | undefined,
+): Promise<IteratorResult<T>> {
+    if (signal?.aborted) {
+        return Promise.reject(new CancelledError(provider));
+    }
+    return new Promise((resolve, reject) => {
+        const fail = (error: AIPluginError) => {
+            cleanup();
+            controller.abort();
+            reject(error);
+        };
+        const timer = setTimeout(() => fail(new TimeoutError(provider, idleTimeoutMs)), idleTimeoutMs);
+        const cancel = () => fail(new CancelledError(provider));
+        const cleanup = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', cancel);
+        };
+        signal?.addEventListener('abort', cancel, { once: true });
+        iterator.next().then((result) => {
+            cleanup();
+            resolve(result);
+        }, (error) => {
+            cleanup();
+            reject(error);
+        });
+    });
+}
+
+/**
+ * The wait before the next attempt: exponential backoff with "equal jitter" (half fixed,
+ * half random), raised to the service's Retry-After if that is longer.
+ * @returns The delay in milliseconds, or null if the service asked to wait longer than `maxDelayMs`.
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, retryAfterMs?: number): number | null {
+    if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) {
+        return null;
+    }
+    const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    const jittered = Math.round(exponential / 2 + Math.random() * (exponential / 2));
+    return Math.max(jittered, retryAfterMs ?? 0);
+}
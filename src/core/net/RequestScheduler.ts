@@ -0,0 +1,261 @@
+import { abortable } from './abort';
+import { CancelledError, RequestDroppedError } from './errors';
+
+/**
+ * How urgently a request is sent when a provider is at its limits. Requests of the NPC the player
+ * is talking to should be `high`, ambient chatter `low`.
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { high: 2, normal: 1, low: 0 };
+
+export interface ProviderLimits {
+    /** How many requests may be in flight at once. Unlimited when omitted. */
+    maxConcurrent?: number;
+    /** How many requests may start within any minute. Unlimited when omitted. */
+    requestsPerMinute?: number;
+}
+
+export interface RequestSchedulerOptions {
+    /**
+     * Limits per provider. The AIManager names its providers `llm` and `tts` for the defaults,
+     * `llm:<name>` for `llmFallbacks` and `tts:<name>` for `ttsProviders` and `ttsFallbacks`.
+     */
+    limits?: Record<string, ProviderLimits>;
+    /** Limits of providers without an entry in `limits`. Unlimited when omitted. */
+    defaultLimits?: ProviderLimits;
+    /**
+     * How many requests may wait per provider. Beyond that, the oldest request of the lowest
+     * waiting priority is dropped; `high` requests are never dropped. Defaults to 50.
+     */
+    maxQueueLength?: number;
+}
+
+export interface ScheduleOptions {
+    /** Defaults to `normal`. */
+    priority?: RequestPriority;
+    /**
+     * Identifies the request. While a request with the same key is pending for the same provider,
+     * the new one shares its outcome instead of being sent again.
+     */
+    key?: string;
+    /** Cancels the request, or stops waiting for a shared one. */
+    signal?: AbortSignal;
+}
+
+interface Waiter {
+    rank: number;
+    start: () => void;
+    reject: (error: unknown) => void;
+}
+
+interface SharedRequest {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    subscribers: number;
+}
+
+/**
+ * The requests of one provider: how many are in flight, when recent ones started, and who waits.
+ */
+class ProviderLane {
+    public active = 0;
+    public waiting: Waiter[] = [];
+    private starts: number[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(private limits: ProviderLimits) {}
+
+    /** Starts waiting requests, best first, for as long as the limits allow. */
+    public pump(): void {
+        while (this.waiting.length > 0 && this.hasCapacity()) {
+            const next = this.waiting.shift()!;
+            this.active++;
+            this.starts.push(Date.now());
+            next.start();
+        }
+    }
+
+    public enqueue(waiter: Waiter): void {
+        // Keeps the queue sorted by priority, first come first served within a priority.
+        const index = this.waiting.findIndex((other) => other.rank < waiter.rank);
+        this.waiting.splice(index === -1 ? this.waiting.length : index, 0, waiter);
+    }
+
+    public remove(waiter: Waiter): boolean {
+        const index = this.waiting.indexOf(waiter);
+        if (index === -1) {
+            return false;
+        }
+        this.waiting.splice(index, 1);
+        return true;
+    }
+
+    /** The oldest waiting request of the lowest priority below `high`, if any. */
+    public dropCandidate(): Waiter | undefined {
+        const lowest = this.waiting[this.waiting.length - 1];
+        if (!lowest || lowest.rank >= PRIORITY_RANK.high) {
+            return undefined;
+        }
+        return this.waiting.find((waiter) => waiter.rank === lowest.rank);
+    }
+
+    private hasCapacity(): boolean {
+        if (this.limits.maxConcurrent !== undefined && this.active >= this.limits.maxConcurrent) {
+            return false;
+        }
+        const perMinute = this.limits.requestsPerMinute;
+        if (perMinute === undefined) {
+            return true;
+        }
+        const now = Date.now();
+        this.starts = this.starts.filter((startedAt) => now - startedAt < 60_000);
+        if (this.starts.length < perMinute) {
+            return true;
+        }
+        // Come back once the oldest start leaves the one-minute window.
+        if (!this.timer) {
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                this.pump();
+            }, this.starts[0] + 60_000 - now);
+        }
+        return false;
+    }
+}
+
+/**
+ * Keeps requests to each provider within its concurrency and requests-per-minute limits. Requests
+ * over the limits wait in a priority queue; identical pending requests are sent only once, and when
+ * too many wait, low-priority ones are dropped with a RequestDroppedError.
+ */
+export class RequestScheduler {
+    private lanes = new Map<string, ProviderLane>();
+    private shared = new Map<string, SharedRequest>();
+    private maxQueueLength: number;
+
+    constructor(private options: RequestSchedulerOptions = {}) {
+        this.maxQueueLength = options.maxQueueLength ?? 50;
+    }
+
+    /**
+     * Runs a request to a provider once the provider's limits allow it.
+     * @param provider The provider's name, which selects its limits.
+     * @param operation Sends the request. It receives the signal to pass on, which for a shared
+     * request only fires once every caller has cancelled.
+     * @throws CancelledError if `signal` fires, or RequestDroppedError if the request gave way to others.
+     */
+    public run<T>(provider: string, operation: (signal?: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+        const { key, signal } = options;
+        if (key === undefined) {
+            return this.acquire(provider, options).then((release) => operation(signal).finally(release));
+        }
+
+        if (signal?.aborted) {
+            // Subscribing would count a caller whose abort has already fired and so never unsubscribes.
+            return Promise.reject(new CancelledError(provider));
+        }
+        const sharedKey = `${provider}\u0000${key}`;
+        let request = this.shared.get(sharedKey);
+        if (!request) {
+            const controller = new AbortController();
+            const promise = this.acquire(provider, { priority: options.priority, signal: controller.signal })
+                .then((release) => operation(controller.signal).finally(release))
+                .finally(() => {
+                    if (this.shared.get(sharedKey) === request) {
+                        this.shared.delete(sharedKey);
+                    }
+                });
+            request = { promise, controller, subscribers: 0 };
+            this.shared.set(sharedKey, request);
+        } else {
+            console.log(`[RequestScheduler] Sharing a pending ${provider} request.`);
+        }
+
+        const subscribed = request;
+        subscribed.subscribers++;
+        if (signal) {
+            const unsubscribe = () => {
+                if (--subscribed.subscribers === 0) {
+                    subscribed.controller.abort();
+                    if (this.shared.get(sharedKey) === subscribed) {
+                        this.shared.delete(sharedKey);
+                    }
+                }
+            };
+            signal.addEventListener('abort', unsubscribe, { once: true });
+            subscribed.promise
+                .finally(() => signal.removeEventListener('abort', unsubscribe))
+                .catch(() => undefined);
+        }
+        return abortable(subscribed.promise as Promise<T>, signal, provider);
+    }
+
+    /**
+     * Waits for a free slot with a provider, e.g. to hold it for the length of a stream.
+     * @returns Releases the slot; must be called exactly once when the request is done.
+     * @throws CancelledError if `signal` fires, or RequestDroppedError if the request gave way to others.
+     */
+    public acquire(provider: string, options: Omit<ScheduleOptions, 'key'> = {}): Promise<() => void> {
+        const lane = this.lane(provider);
+        const { signal } = options;
+        if (signal?.aborted) {
+            return Promise.reject(new CancelledError(provider));
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                if (lane.remove(waiter)) {
+                    reject(new CancelledError(provider));
+                }
+            };
+            const waiter: Waiter = {
+                rank: PRIORITY_RANK[options.priority || 'normal'],
+                start: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    let released = false;
+                    resolve(() => {
+                        if (!released) {
+                            released = true;
+                            lane.active--;
+                            lane.pump();
+                        }
+                    });
+                },
+                reject: (error) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                },
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            lane.enqueue(waiter);
+            lane.pump();
+            if (lane.waiting.length > this.maxQueueLength) {
+                const dropped = lane.dropCandidate();
+                if (dropped) {
+                    lane.remove(dropped);
+                    console.warn(`[RequestScheduler] Too many ${provider} requests are waiting; dropped one.`);
+                    dropped.reject(new RequestDroppedError(provider));
+                }
+            }
+        });
+    }
+
+    /**
+     * How many requests to a provider are in flight and how many are waiting.
+     */
+    public stats(provider: string): { active: number; waiting: number } {
+        const lane = this.lanes.get(provider);
+        return { active: lane?.active ?? 0, waiting: lane?.waiting.length ?? 0 };
+    }
+
+    private lane(provider: string): ProviderLane {
+        let lane = this.lanes.get(provider);
+        if (!lane) {
+            lane = new ProviderLane(this.options.limits?.[provider] || this.options.defaultLimits || {});
+            this.lanes.set(provider, lane);
+        }
+        return lane;
+    }
+}
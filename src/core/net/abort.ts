@@ -0,0 +1,53 @@
+import { CancelledError } from './errors';
+
+/**
+ * Throws a CancelledError if the signal has fired. Used between the steps of a request so
+ * nothing more reaches the game once it was cancelled.
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, provider: string): void {
+    if (signal?.aborted) {
+        throw new CancelledError(provider);
+    }
+}
+
+/**
+ * Settles like `promise`, or rejects with a CancelledError as soon as the signal fires.
+ * Lets callers stop waiting for work that cannot be aborted itself, such as a custom provider
+ * that ignores the signal; that work still runs to completion in the background.
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined, provider: string): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        promise.catch(() => undefined);
+        return Promise.reject(new CancelledError(provider));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new CancelledError(provider));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * Waits for the given time, rejecting with a CancelledError if the signal fires first.
+ */
+export function sleep(ms: number, signal: AbortSignal | undefined, provider: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new CancelledError(provider));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CancelledError(provider));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,182 @@
+/**
+ * Why a request to an AI service failed.
+ */
+export type AIPluginErrorCode =
+    | 'timeout'
+    | 'rate_limited'
+    | 'unavailable'
+    | 'authentication'
+    | 'quota_exceeded'
+    | 'content_blocked'
+    | 'invalid_request'
+    | 'empty_response'
+    | 'cancelled'
+    | 'dropped'
+    | 'budget_exceeded'
+    | 'content_rejected';
+
+/**
+ * Base class of the errors thrown by the built-in services. `retryable` tells whether
+ * sending the same request again may succeed; the request policy only retries those.
+ */
+export class AIPluginError extends Error {
+    public readonly code: AIPluginErrorCode;
+    public readonly retryable: boolean;
+    /** The service that failed, e.g. `gemini` or `elevenlabs`. */
+    public readonly provider: string;
+    /** The HTTP status, if the service answered. */
+    public readonly status?: number;
+    /** How long the service asked us to wait before trying again, in milliseconds. */
+    public readonly retryAfterMs?: number;
+    /** The underlying error, e.g. from the HTTP client. */
+    public readonly cause?: unknown;
+
+    constructor(
+        code: AIPluginErrorCode,
+        message: string,
+        options: { provider: string; retryable: boolean; status?: number; retryAfterMs?: number; cause?: unknown },
+    ) {
+        super(message);
+        this.name = new.target.name;
+        this.code = code;
+        this.retryable = options.retryable;
+        this.provider = options.provider;
+        this.status = options.status;
+        this.retryAfterMs = options.retryAfterMs;
+        this.cause = options.cause;
+    }
+}
+
+/** The request took longer than the policy's timeout. Retryable. */
+export class TimeoutError extends AIPluginError {
+    constructor(provider: string, timeoutMs: number) {
+        super('timeout', `${provider} did not answer within ${timeoutMs} ms.`, { provider, retryable: true });
+    }
+}
+
+/** Too many requests (HTTP 429). Retryable, after `retryAfterMs` if the service said so. */
+export class RateLimitError extends AIPluginError {
+    constructor(provider: string, message: string, retryAfterMs?: number) {
+        super('rate_limited', message, { provider, retryable: true, status: 429, retryAfterMs });
+    }
+}
+
+/** The service is down or overloaded (HTTP 5xx), or could not be reached. Retryable. */
+export class ServiceUnavailableError extends AIPluginError {
+    constructor(provider: string, message: string, status?: number, cause?: unknown) {
+        super('unavailable', message, { provider, retryable: true, status, cause });
+    }
+}
+
+/** The API key is missing, invalid or lacks permission. Fatal. */
+export class AuthenticationError extends AIPluginError {
+    constructor(provider: string, message: string, status?: number) {
+        super('authentication', message, { provider, retryable: false, status });
+    }
+}
+
+/** The account's quota or credits are used up. Fatal until the quota resets. */
+export class QuotaExceededError extends AIPluginError {
+    constructor(provider: string, message: string, status?: number) {
+        super('quota_exceeded', message, { provider, retryable: false, status });
+    }
+}
+
+/** The service refused the content, e.g. a safety filter blocked the prompt or the answer. Fatal. */
+export class ContentBlockedError extends AIPluginError {
+    constructor(provider: string, message: string) {
+        super('content_blocked', message, { provider, retryable: false });
+    }
+}
+
+/** The service rejected the request as malformed (other HTTP 4xx). Fatal. */
+export class InvalidRequestError extends AIPluginError {
+    constructor(provider: string, message: string, status?: number) {
+        super('invalid_request', message, { provider, retryable: false, status });
+    }
+}
+
+/** The service answered but the answer held nothing usable. Fatal. */
+export class EmptyResponseError extends AIPluginError {
+    constructor(provider: string, message: string) {
+        super('empty_response', message, { provider, retryable: false });
+    }
+}
+
+/** The caller aborted the request, e.g. because the player walked away. Never retried. */
+export class CancelledError extends AIPluginError {
+    constructor(provider: string) {
+        super('cancelled', `The ${provider} request was cancelled.`, { provider, retryable: false });
+    }
+}
+
+/** The request waited in a full queue and gave way to more important ones. Never retried. */
+export class RequestDroppedError extends AIPluginError {
+    constructor(provider: string) {
+        super('dropped', `The ${provider} request was dropped because too many requests were waiting.`, { provider, retryable: false });
+    }
+}
+
+/** A configured usage budget is used up, so the request was not sent. Never retried. */
+export class BudgetExceededError extends AIPluginError {
+    constructor(provider: string, scope: string) {
+        super('budget_exceeded', `The ${scope} budget for ${provider} requests is used up.`, { provider, retryable: false });
+    }
+}
+
+/**
+ * A generated line failed moderation and no acceptable line could be generated instead. Never retried;
+ * the AIManager regenerates rejected lines itself. `provider` names the filter that rejected the line.
+ */
+export class ContentRejectedError extends AIPluginError {
+    constructor(filter: string, reason: string) {
+        super('content_rejected', reason, { provider: filter, retryable: false });
+    }
+}
+
+/**
+ * Maps an unsuccessful HTTP answer onto the matching error class.
+ * @param provider The service that answered.
+ * @param status The HTTP status.
+ * @param body The response body, used for the message and to recognize quota errors.
+ * @param retryAfterMs The wait the service asked for, if any.
+ */
+export function errorFromStatus(provider: string, status: number, body: string, retryAfterMs?: number): AIPluginError {
+    const message = `${provider} answered with HTTP ${status}: ${body}`;
+    const mentionsQuota = /quota|credits|insufficient/i.test(body);
+
+    if (status === 401 || status === 403) {
+        return mentionsQuota ? new QuotaExceededError(provider, message, status) : new AuthenticationError(provider, message, status);
+    }
+    if (status === 402) {
+        return new QuotaExceededError(provider, message, status);
+    }
+    if (status === 429) {
+        // Gemini reports both short-term rate limits and an exhausted daily quota as 429.
+        return /per day|billing|exceeded your current quota/i.test(body)
+            ? new QuotaExceededError(provider, message, status)
+            : new RateLimitError(provider, message, retryAfterMs);
+    }
+    if (status === 408) {
+        return new ServiceUnavailableError(provider, message, status);
+    }
+    if (status >= 500) {
+        return new ServiceUnavailableError(provider, message, status);
+    }
+    return new InvalidRequestError(provider, message, status);
+}
+
+/**
+ * Parses an HTTP `Retry-After` header (seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+    if (!header) {
+        return undefined;
+    }
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,73 @@
+/**
+ * Reads a fetch response body chunk by chunk.
+ * Handles both WHATWG ReadableStreams (browsers) and Node.js readable streams (node-fetch,
+ * which cross-fetch uses on the server). If the body cannot be streamed, the whole
+ * response is returned as a single chunk.
+ */
+export async function* readBodyChunks(response: { body?: any; arrayBuffer(): Promise<ArrayBuffer> }): AsyncGenerator<ArrayBuffer> {
+    const body = response.body;
+
+    if (body && typeof body.getReader === 'function') {
+        const reader = body.getReader();
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) {
+                    break;
+                }
+                if (value && value.byteLength > 0) {
+                    yield toArrayBuffer(value);
+                }
+            }
+        } finally {
+            reader.releaseLock();
+        }
+    } else if (body && typeof body[Symbol.asyncIterator] === 'function') {
+        for await (const chunk of body) {
+            if (chunk && chunk.byteLength > 0) {
+                yield toArrayBuffer(chunk);
+            }
+        }
+    } else {
+        yield await response.arrayBuffer();
+    }
+}
+
+/**
+ * Copies a typed array view (such as a Node.js Buffer) into a standalone ArrayBuffer.
+ */
+export function toArrayBuffer(view: ArrayBufferView | ArrayBuffer): ArrayBuffer {
+    if (view instanceof ArrayBuffer) {
+        return view;
+    }
+    return view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Encodes binary data as base64, in Node and browsers.
+ */
+export function toBase64(data: ArrayBuffer): string {
+    if (typeof Buffer !== 'undefined') {
+        return Buffer.from(data).toString('base64');
+    }
+    let binary = '';
+    new Uint8Array(data).forEach((byte) => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+}
+
+/**
+ * Decodes base64, e.g. audio embedded in a JSON response.
+ */
+export function fromBase64(encoded: string): ArrayBuffer {
+    if (typeof Buffer !== 'undefined') {
+        return toArrayBuffer(Buffer.from(encoded, 'base64'));
+    }
+    const binary = atob(encoded);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+}
@@ -0,0 +1,157 @@
+import { PromptTemplate } from './PromptTemplate';
+
+/**
+ * The state a prompt is built from, as returned by the GameAdapter.
+ */
+export interface PromptContext {
+    npc: { [key: string]: any };
+    player: { [key: string]: any };
+    game: { [key: string]: any };
+    /** Pre-formatted list of things the NPC remembers, if memory is enabled. */
+    memories?: string;
+    /** Any further values the templates reference. */
+    [key: string]: unknown;
+}
+
+export interface PromptBuilderOptions {
+    /**
+     * A description of the game world, written once per game: genre, setting, tone, lore.
+     * Available to templates as `{{setting}}`.
+     */
+    setting?: string;
+    /** Templates to add or override, keyed by interaction type. */
+    templates?: Record<string, string | PromptTemplate>;
+}
+
+/**
+ * Entity fields that configure the plugin itself and should never reach the model.
+ */
+const PLUGIN_FIELDS = new Set(['voiceId', 'voice', 'voiceSettings', 'ttsProvider', 'tools', 'fallbackLines', 'position', 'barkRange']);
+
+const CHARACTER_BLOCK = `
+You are {{npc.name}}, a character in a game.
+{{setting}}
+Your personality is: {{npc.personality|a mysterious stranger}}.
+{{npc.details}}
+You are talking to a player named {{player.name}}.
+The player's level is {{player.level}}.
+{{player.details}}
+Current situation: You are at {{game.location}}, and it is {{game.timeOfDay}}.
+{{game.details}}
+{{memories}}`;
+
+/**
+ * Built-in templates. Any of them can be replaced with `registerTemplate`.
+ * `conversation` is the system prompt of multi-turn conversations, and `scene` the prompt of
+ * scenes between NPCs, with the `{{cast}}` and the `{{situation}}` instead of an `npc`.
+ */
+export const DEFAULT_TEMPLATES: Record<string, string> = {
+    greeting: `${CHARACTER_BLOCK}
+Based on this, generate a single, short, engaging line of dialogue for the player. Be creative.`,
+    bark: `${CHARACTER_BLOCK}
+{{event|The player is only passing by.}}
+Say a very short remark (under 12 words) that fits the situation, without expecting an answer.`,
+    'quest-giver': `${CHARACTER_BLOCK}
+You have a task for the player: {{npc.quest|something only the player can help with}}.
+Generate a single, short line of dialogue that hooks the player into the task without giving everything away.`,
+    merchant: `${CHARACTER_BLOCK}
+You are a merchant. Your wares: {{npc.inventory|various goods}}.
+Generate a single, short line of dialogue enticing the player to trade with you.`,
+    conversation: `${CHARACTER_BLOCK}
+Stay in character and answer the player with short, spoken lines of dialogue.`,
+    scene: `You are writing a short scene for a game, in which characters talk among themselves.
+{{setting}}
+The characters, by id:
+{{cast}}
+Current situation: They are at {{game.location}}, and it is {{game.timeOfDay}}.
+{{game.details}}
+The player, {{player.name}}, is nearby but not part of the conversation.
+The scene: {{situation}}
+Write it as a natural exchange of short, spoken lines in which every character stays in character and speaks at least once.`,
+};
+
+/**
+ * Describes the cast of a scene for the `{{cast}}` placeholder: each NPC on its own line with its
+ * id, name and personality, followed by the rest of its state.
+ */
+export function describeCast(cast: { entityId: string; state: { [key: string]: any } }[]): string {
+    return cast.map(({ entityId, state }) => {
+        const details = Object.entries(state)
+            .filter(([key, value]) => key !== 'name' && key !== 'personality' && !PLUGIN_FIELDS.has(key) && value !== undefined && value !== null && value !== '')
+            .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`);
+        const description = `- ${entityId}: ${state.name || entityId}, ${state.personality || 'a mysterious stranger'}`;
+        return details.length > 0 ? `${description} (${details.join('; ')})` : description;
+    }).join('\n');
+}
+
+/**
+ * Builds prompts from named templates, one per interaction type (greeting, bark, quest-giver,
+ * merchant, ...). Fields of the NPC, player and game state that a template does not reference
+ * directly are serialized into its `{{npc.details}}`, `{{player.details}}` and `{{game.details}}`
+ * placeholders, so extra state the adapter returns reaches the model without template changes.
+ */
+export class PromptBuilder {
+    private templates = new Map<string, PromptTemplate>();
+    private setting?: string;
+
+    constructor(options: PromptBuilderOptions = {}) {
+        Object.entries(DEFAULT_TEMPLATES).forEach(([type, source]) => this.registerTemplate(type, source));
+        Object.entries(options.templates || {}).forEach(([type, template]) => this.registerTemplate(type, template));
+        this.setting = options.setting;
+    }
+
+    /**
+     * Sets the world description available to every template as `{{setting}}`.
+     */
+    public setSetting(setting: string | undefined): void {
+        this.setting = setting;
+    }
+
+    public registerTemplate(type: string, template: string | PromptTemplate): void {
+        this.templates.set(type, typeof template === 'string' ? new PromptTemplate(template) : template);
+    }
+
+    public hasTemplate(type: string): boolean {
+        return this.templates.has(type);
+    }
+
+    /**
+     * Renders the template registered for an interaction type.
+     * Unknown types fall back to the `greeting` template.
+     */
+    public build(type: string, context: PromptContext): string {
+        let template = this.templates.get(type);
+        if (!template) {
+            console.warn(`[PromptBuilder] No template for interaction type "${type}", using "greeting".`);
+            template = this.templates.get('greeting')!;
+        }
+
+        const used = new Set(template.placeholders);
+        return template.render({
+            setting: this.setting,
+            ...context,
+            npc: PromptBuilder.withDetails('npc', context.npc, used),
+            player: PromptBuilder.withDetails('player', context.player, used),
+            game: PromptBuilder.withDetails('game', context.game, used),
+        });
+    }
+
+    /**
+     * Adds a `details` entry listing every field the template does not already reference.
+     */
+    private static withDetails(scope: string, state: { [key: string]: any }, used: Set<string>): { [key: string]: any } {
+        if (state.details !== undefined) {
+            return state;
+        }
+
+        const lines = Object.entries(state)
+            .filter(([key, value]) => !used.has(`${scope}.${key}`) && !PLUGIN_FIELDS.has(key) && value !== undefined && value !== null && value !== '')
+            .map(([key, value]) => `- ${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`);
+
+        if (lines.length === 0) {
+            return state;
+        }
+        const label = scope === 'npc' ? 'More about you' : scope === 'player' ? 'More about the player' : 'More about the world';
+        return { ...state, details: `${label}:\n${lines.join('\n')}` };
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * A prompt with `{{placeholders}}`.
+ *
+ * - `{{npc.name}}` looks up a (dotted) path in the values passed to `render`.
+ * - `{{npc.personality|a mysterious stranger}}` falls back to the text after `|` when the value is missing or empty.
+ * - Arrays are joined with commas; objects are written as JSON.
+ *
+ * Lines left empty by missing values are removed, so optional sections disappear cleanly.
+ */
+export class PromptTemplate {
+    private static readonly PLACEHOLDER = /\{\{\s*([\w.-]+)\s*(?:\|([^}]*))?\}\}/g;
+
+    public readonly source: string;
+
+    constructor(source: string) {
+        this.source = source;
+    }
+
+    /**
+     * The paths of all placeholders in the template, e.g. `['npc.name', 'game.location']`.
+     */
+    public get placeholders(): string[] {
+        const paths = new Set<string>();
+        for (const match of this.source.matchAll(PromptTemplate.PLACEHOLDER)) {
+            paths.add(match[1]);
+        }
+        return Array.from(paths);
+    }
+
+    public render(values: Record<string, unknown>): string {
+        return this.source
+            .split('\n')
+            .map((line) => {
+                const hasPlaceholder = line.search(PromptTemplate.PLACEHOLDER) !== -1;
+                const rendered = line.replace(PromptTemplate.PLACEHOLDER, (_match, path: string, fallback?: string) => {
+                    const value = PromptTemplate.format(PromptTemplate.lookup(values, path));
+                    return value || (fallback ?? '').trim();
+                }).trim();
+                // A line that only held placeholders without values is dropped entirely.
+                return hasPlaceholder && rendered === '' ? null : rendered;
+            })
+            .filter((line): line is string => line !== null)
+            .join('\n')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+    }
+
+    private static lookup(values: Record<string, unknown>, path: string): unknown {
+        return path.split('.').reduce<unknown>((current, key) => {
+            if (current === null || current === undefined || typeof current !== 'object') {
+                return undefined;
+            }
+            return (current as Record<string, unknown>)[key];
+        }, values);
+    }
+
+    private static format(value: unknown): string {
+        if (value === null || value === undefined) {
+            return '';
+        }
+        if (Array.isArray(value)) {
+            return value.map((item) => PromptTemplate.format(item)).filter(Boolean).join(', ');
+        }
+        if (typeof value === 'object') {
+            return JSON.stringify(value);
+        }
+        return String(value).trim();
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * The subset of JSON Schema the plugin understands. It covers what LLM JSON modes support
+ * and what is needed to describe structured NPC responses.
+ */
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: (string | number | boolean)[];
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+    nullable?: boolean;
+}
+
+/**
+ * Validates a value against a schema.
+ * @returns A list of human-readable problems; empty if the value is valid.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    if (value === null && schema.nullable) {
+        return [];
+    }
+
+    const errors: string[] = [];
+    if (schema.type && !matchesType(value, schema.type)) {
+        return [`${path} should be of type ${schema.type}`];
+    }
+    if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+        errors.push(`${path} should be one of ${schema.enum.join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${path} should have at least ${schema.minLength} characters`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${path} should have at most ${schema.maxLength} characters`);
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${path} should be at least ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${path} should be at most ${schema.maximum}`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path} should have at least ${schema.minItems} items`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${path} should have at most ${schema.maxItems} items`);
+        }
+        if (schema.items) {
+            value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)));
+        }
+    }
+
+    if (isPlainObject(value)) {
+        (schema.required || []).forEach((key) => {
+            if (value[key] === undefined) {
+                errors.push(`${path}.${key} is required`);
+            }
+        });
+        Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+            if (value[key] !== undefined) {
+                errors.push(...validateJsonSchema(value[key], propertySchema, `${path}.${key}`));
+            }
+        });
+    }
+
+    return errors;
+}
+
+/**
+ * Parses JSON produced by an LLM, tolerating markdown code fences and prose around the value.
+ * @throws SyntaxError if no JSON value can be parsed.
+ */
+export function parseLLMJson(text: string): unknown {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const candidate = (fenced ? fenced[1] : text).trim();
+    try {
+        return JSON.parse(candidate);
+    } catch (error) {
+        // Fall back to the outermost object or array in the text.
+        const start = candidate.search(/[{[]/);
+        const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+        if (start === -1 || end <= start) {
+            throw error;
+        }
+        return JSON.parse(candidate.slice(start, end + 1));
+    }
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+    switch (type) {
+        case 'object':
+            return isPlainObject(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return typeof value === 'number' && Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'null':
+            return value === null;
+        default:
+            return typeof value === type;
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
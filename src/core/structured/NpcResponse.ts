@@ -0,0 +1,121 @@
+import { VoiceSettings } from '../tts/TTSProvider';
+import { JsonSchema, parseLLMJson, validateJsonSchema } from './JsonSchema';
+
+/**
+ * Something the NPC wants the game to do, e.g. `{ type: 'give_item', argument: 'rusty_key' }`.
+ */
+export interface NpcAction {
+    type: string;
+    argument?: string;
+}
+
+/**
+ * A structured NPC response: the spoken line plus data that drives gameplay.
+ * Custom schemas may add fields; they are passed through untouched.
+ */
+export interface NpcResponse {
+    /** What the character says out loud. */
+    line: string;
+    emotion?: string;
+    /** A gesture or animation to play while speaking, e.g. `wave`. */
+    animation?: string;
+    /** Replies the player can pick from. */
+    playerChoices?: string[];
+    actions?: NpcAction[];
+    [key: string]: unknown;
+}
+
+export const NPC_RESPONSE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        line: { type: 'string', description: 'What the character says out loud.' },
+        emotion: {
+            type: 'string',
+            enum: ['neutral', 'happy', 'sad', 'angry', 'afraid', 'surprised', 'excited'],
+            description: 'The emotion the line is spoken with.',
+        },
+        animation: { type: 'string', description: 'Optional gesture to play while speaking, e.g. wave, shrug, bow.' },
+        playerChoices: {
+            type: 'array',
+            items: { type: 'string' },
+            maxItems: 4,
+            description: 'Short replies the player can choose from. Empty if none make sense.',
+        },
+        actions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    type: { type: 'string', description: 'The game action, e.g. give_item, open_shop, start_quest.' },
+                    argument: { type: 'string', description: 'What the action applies to, e.g. an item or quest id.' },
+                },
+                required: ['type'],
+            },
+            description: 'Game actions the character performs. Empty for most lines.',
+        },
+    },
+    required: ['line', 'emotion'],
+};
+
+/**
+ * Voice settings applied on top of an NPC's voice for each emotion.
+ */
+export const EMOTION_VOICE_SETTINGS: Record<string, VoiceSettings> = {
+    neutral: {},
+    happy: { stability: 0.4, style: 0.5 },
+    sad: { stability: 0.6, style: 0.4, speed: 0.9 },
+    angry: { stability: 0.25, style: 0.8, speed: 1.05 },
+    afraid: { stability: 0.3, style: 0.6, speed: 1.1 },
+    surprised: { stability: 0.3, style: 0.6 },
+    excited: { stability: 0.3, style: 0.7, speed: 1.1 },
+};
+
+/**
+ * Asks for a structured response until one parses and matches the schema.
+ * @param attempt Sends one request. On retries it receives a correction describing what was wrong
+ * with the previous answer, which should be added to the prompt.
+ * @param schema The schema responses must match. It must require a string `line`.
+ * @param maxRetries How many times to ask again after an invalid answer.
+ * @returns The validated response, or null if no valid answer was produced.
+ */
+export async function generateNpcResponse(
+    attempt: (correction?: string) => Promise<string | null>,
+    schema: JsonSchema,
+    maxRetries: number,
+): Promise<NpcResponse | null> {
+    let correction: string | undefined;
+
+    for (let i = 0; i <= maxRetries; i++) {
+        const text = await attempt(correction);
+        if (!text) {
+            // No answer at all (e.g. a network error); retrying with a correction would not help.
+            return null;
+        }
+
+        let errors: string[];
+        try {
+            const value = parseLLMJson(text);
+            errors = validateJsonSchema(value, schema);
+            if (errors.length === 0 && typeof (value as NpcResponse).line === 'string') {
+                return value as NpcResponse;
+            }
+            if (errors.length === 0) {
+                errors = ['$.line should be of type string'];
+            }
+        } catch (error) {
+            errors = ['the answer is not valid JSON'];
+        }
+
+        console.error(`Invalid structured response (attempt ${i + 1} of ${maxRetries + 1}): ${errors.join('; ')}`);
+        correction = `Your previous answer was invalid: ${errors.join('; ')}. Answer again with a single JSON object matching the schema and nothing else.`;
+    }
+
+    return null;
+}
+
+/**
+ * The instruction added to prompts in structured mode, for providers without a native JSON mode.
+ */
+export function structuredResponseInstruction(schema: JsonSchema): string {
+    return `Respond with a single JSON object and nothing else. It must match this JSON Schema:\n${JSON.stringify(schema)}`;
+}
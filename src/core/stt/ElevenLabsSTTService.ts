@@ -0,0 +1,107 @@
+import fetch from 'cross-fetch';
+import { EmptyResponseError, errorFromStatus, parseRetryAfter, ServiceUnavailableError } from '../net/errors';
+import { RequestPolicy, withRequestPolicy } from '../net/RequestPolicy';
+import { STTOptions, STTProvider, STTResult } from './STTProvider';
+
+/**
+ * Transcribes recordings with ElevenLabs' speech-to-text API.
+ */
+export class ElevenLabsSTTService implements STTProvider {
+    private apiKey: string;
+    public readonly modelId: string;
+    private baseUrl: string;
+    private requestPolicy: RequestPolicy;
+
+    /**
+     * @param apiKey The ElevenLabs API key.
+     * @param modelId The model to transcribe with.
+     * @param requestPolicy Timeout and retry settings for every request.
+     * @param baseUrl Where the API is, e.g. a local `MockElevenLabsServer` in tests.
+     */
+    constructor(apiKey: string, modelId?: string, requestPolicy: RequestPolicy = {}, baseUrl?: string) {
+        if (!apiKey) {
+            throw new Error("ElevenLabs API key is required.");
+        }
+        this.apiKey = apiKey;
+        // Priority: provided modelId > environment variable > default
+        this.modelId = modelId || process.env.ELEVENLABS_STT_MODEL_ID || 'scribe_v1';
+        // Priority: provided baseUrl > environment variable > the public API
+        this.baseUrl = (baseUrl || process.env.ELEVENLABS_BASE_URL || 'https://api.elevenlabs.io').replace(/\/+$/, '');
+        this.requestPolicy = requestPolicy;
+    }
+
+    /**
+     * @throws AIPluginError when the request fails after all retries or the answer holds no transcript.
+     */
+    public async transcribe(audioData: ArrayBuffer, options?: STTOptions): Promise<STTResult> {
+        console.log(`Requesting a transcript from ElevenLabs for ${audioData.byteLength} bytes of audio...`);
+
+        return withRequestPolicy('elevenlabs', async (signal) => {
+            const form = multipartForm([
+                { name: 'model_id', value: this.modelId },
+                { name: 'file', value: audioData, fileName: 'speech', contentType: options?.mimeType || 'application/octet-stream' },
+                ...(options?.languageCode ? [{ name: 'language_code', value: options.languageCode }] : []),
+            ]);
+
+            const response = await fetch(`${this.baseUrl}/v1/speech-to-text`, {
+                method: 'POST',
+                signal,
+                headers: { 'xi-api-key': this.apiKey, 'Content-Type': form.contentType },
+                body: form.body,
+            }).catch((error) => {
+                if (error?.name === 'AbortError') {
+                    throw error;
+                }
+                throw new ServiceUnavailableError('elevenlabs', `Could not reach ElevenLabs: ${error?.message || error}`, undefined, error);
+            });
+
+            if (!response.ok) {
+                const errorBody = await response.text();
+                throw errorFromStatus('elevenlabs', response.status, errorBody, parseRetryAfter(response.headers?.get('retry-after')));
+            }
+
+            const result = await response.json();
+            if (typeof result?.text !== 'string') {
+                throw new EmptyResponseError('elevenlabs', `No transcript in the ElevenLabs response: ${JSON.stringify(result)}`);
+            }
+            return { text: result.text.trim(), ...(result.language_code && { languageCode: result.language_code }) };
+        }, this.requestPolicy, options?.signal);
+    }
+}
+
+interface FormPart {
+    name: string;
+    value: string | ArrayBuffer;
+    /** Set for file uploads. */
+    fileName?: string;
+    contentType?: string;
+}
+
+/**
+ * Encodes a `multipart/form-data` body by hand: the Node.js fetch behind cross-fetch does not
+ * understand `FormData` and would send it as the text `[object FormData]`.
+ */
+function multipartForm(parts: FormPart[]): { body: ArrayBuffer; contentType: string } {
+    const boundary = `----GameAIPluginBoundary${Math.random().toString(16).slice(2)}${Date.now().toString(16)}`;
+    const encoder = new TextEncoder();
+    const chunks = parts.flatMap(({ name, value, fileName, contentType }) => [
+        encoder.encode([
+            `--${boundary}`,
+            `Content-Disposition: form-data; name="${name}"${fileName ? `; filename="${fileName}"` : ''}`,
+            ...(contentType ? [`Content-Type: ${contentType}`] : []),
+            '',
+            '',
+        ].join('\r\n')),
+        typeof value === 'string' ? encoder.encode(value) : new Uint8Array(value),
+        encoder.encode('\r\n'),
+    ]);
+    chunks.push(encoder.encode(`--${boundary}--\r\n`));
+
+    const body = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach((chunk) => {
+        body.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return { body: body.buffer, contentType: `multipart/form-data; boundary=${boundary}` };
+}
@@ -0,0 +1,38 @@
+/**
+ * Per-request options for speech recognition.
+ */
+export interface STTOptions {
+    /** MIME type of the recording, e.g. `audio/webm` or `audio/wav`. Providers detect it when omitted. */
+    mimeType?: string;
+    /** The language spoken, as an ISO 639 code such as `en` or `de`. Providers detect it when omitted. */
+    languageCode?: string;
+    /** Aborts the request, e.g. when the player walks away. Providers should pass it to their HTTP calls. */
+    signal?: AbortSignal;
+}
+
+/**
+ * What the player said.
+ */
+export interface STTResult {
+    /** The transcript. Empty if the recording held no speech. */
+    text: string;
+    /** The language detected or used, if the provider reports it. */
+    languageCode?: string;
+}
+
+/**
+ * The STTProvider interface is the contract between the AIManager and a speech recognition backend,
+ * used for players talking to NPCs through a microphone. ElevenLabsSTTService is the default
+ * implementation; StubSTTService stands in for it offline and in tests.
+ * Failures may be reported by returning null or by throwing; the built-in ElevenLabsSTTService
+ * throws AIPluginError subclasses.
+ */
+export interface STTProvider {
+    /**
+     * Converts recorded speech to text.
+     * @param audioData The encoded recording.
+     * @param options The recording's format and language.
+     * @returns The transcript, or null if recognition failed.
+     */
+    transcribe(audioData: ArrayBuffer, options?: STTOptions): Promise<STTResult | null>;
+}
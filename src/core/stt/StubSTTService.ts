@@ -0,0 +1,28 @@
+import { STTOptions, STTProvider, STTResult } from './STTProvider';
+
+/**
+ * An STTProvider that does not listen: it returns scripted transcripts, one per recording. Useful
+ * for offline builds, automated playtests and CI, where no speech recognition service is available.
+ */
+export class StubSTTService implements STTProvider {
+    private calls = 0;
+
+    /**
+     * @param script The transcript of every recording; a list returned in turn, starting over after
+     * the last one; or a function that picks the transcript of a recording. Defaults to silence.
+     */
+    constructor(private script: string | string[] | ((audioData: ArrayBuffer, options?: STTOptions) => string) = '') {}
+
+    public async transcribe(audioData: ArrayBuffer, options?: STTOptions): Promise<STTResult> {
+        let text: string;
+        if (typeof this.script === 'function') {
+            text = this.script(audioData, options);
+        } else if (Array.isArray(this.script)) {
+            text = this.script.length > 0 ? this.script[this.calls % this.script.length] : '';
+        } else {
+            text = this.script;
+        }
+        this.calls++;
+        return { text, ...(options?.languageCode && { languageCode: options.languageCode }) };
+    }
+}
@@ -0,0 +1,137 @@
+import { MockHttpServer, MockRequest, MockResponse, MockServerOptions } from './MockHttpServer';
+
+export interface MockElevenLabsServerOptions extends MockServerOptions {
+    /** How long each character of a line is spoken, in milliseconds. Defaults to 60. */
+    msPerCharacter?: number;
+    /** The transcripts `speech-to-text` answers with, in order; the last one is repeated. Defaults to a greeting. */
+    transcripts?: string[];
+}
+
+/**
+ * A local stand-in for the ElevenLabs API: `text-to-speech` with its `stream` and `with-timestamps`
+ * variants and output formats, and `speech-to-text`, so the ElevenLabs services can be pointed at it
+ * with `ELEVENLABS_BASE_URL` or their `baseUrl` argument. Lines last `msPerCharacter` per character:
+ * PCM, ulaw and alaw formats are silence of that length, other formats placeholder bytes. Requests
+ * without an API key are rejected, and so are recordings not uploaded as a multipart form with a
+ * `file` and a `model_id`, like the real API does.
+ */
+export class MockElevenLabsServer extends MockHttpServer {
+    private msPerCharacter: number;
+    private transcripts: string[];
+
+    constructor(options: MockElevenLabsServerOptions = {}) {
+        super(options);
+        this.msPerCharacter = options.msPerCharacter ?? 60;
+        this.transcripts = [...(options.transcripts || ['Hello there.'])];
+    }
+
+    /**
+     * Replaces the transcripts of the next recordings; the last one is repeated.
+     */
+    public transcribe(...transcripts: string[]): void {
+        this.transcripts = transcripts;
+    }
+
+    /**
+     * The text of every speech request received, in order.
+     */
+    public get lines(): string[] {
+        return this.requests.filter(({ path }) => path.startsWith('/v1/text-to-speech/')).map(({ json }) => json?.text);
+    }
+
+    protected handle(request: MockRequest): MockResponse {
+        if (!request.headers['xi-api-key']) {
+            return this.error(401, 'invalid_api_key', 'Invalid API key.');
+        }
+        if (request.method === 'POST' && request.path === '/v1/speech-to-text') {
+            const form = MockElevenLabsServer.formParts(request);
+            if (!form) {
+                return this.error(422, 'invalid_content_type', 'The body must be multipart/form-data.');
+            }
+            if (!form.file || !form.model_id) {
+                return this.error(422, 'missing_field', `${!form.file ? 'file' : 'model_id'} is required.`);
+            }
+            const text = this.transcripts.length > 1 ? this.transcripts.shift()! : this.transcripts[0];
+            return MockElevenLabsServer.json({ text, language_code: 'en' });
+        }
+        const match = request.path.match(/^\/v1\/text-to-speech\/([^/]+)(\/stream|\/with-timestamps)?$/);
+        if (request.method !== 'POST' || !match) {
+            return this.error(404, 'not_found', `No route for ${request.method} ${request.path}.`);
+        }
+        const text = request.json?.text;
+        if (typeof text !== 'string' || !text) {
+            return this.error(422, 'invalid_text', 'text is required.');
+        }
+
+        const format = request.query.output_format || 'mp3_44100_128';
+        const audio = this.audio(text, format);
+        const headers = { 'character-cost': String(text.length) };
+        if (match[2] === '/with-timestamps') {
+            return MockElevenLabsServer.json({
+                audio_base64: Buffer.from(audio).toString('base64'),
+                alignment: {
+                    characters: Array.from(text),
+                    character_start_times_seconds: Array.from(text, (_, i) => i * this.msPerCharacter / 1000),
+                    character_end_times_seconds: Array.from(text, (_, i) => (i + 1) * this.msPerCharacter / 1000),
+                },
+            }, headers);
+        }
+        const contentType = { 'Content-Type': format.startsWith('pcm') ? 'audio/pcm' : format.startsWith('opus') ? 'audio/ogg' : 'audio/mpeg', ...headers };
+        if (match[2] === '/stream') {
+            const half = Math.ceil(audio.length / 2);
+            return { headers: contentType, chunks: [audio.slice(0, half), audio.slice(half)] };
+        }
+        return { headers: contentType, body: audio };
+    }
+
+    protected errorBody(status: number, message: string): string {
+        return JSON.stringify({ detail: { status: status === 429 ? 'too_many_concurrent_requests' : 'error', message } });
+    }
+
+    private error(status: number, code: string, message: string): MockResponse {
+        return MockElevenLabsServer.json({ detail: { status: code, message } }, {}, status);
+    }
+
+    /**
+     * The audio of a line in an output format such as `pcm_24000`.
+     */
+    private audio(text: string, format: string): Uint8Array {
+        const [codec, rate] = format.split('_');
+        const samples = Math.round(text.length * this.msPerCharacter * Number(rate) / 1000);
+        switch (codec) {
+            case 'pcm':
+                return new Uint8Array(samples * 2);
+            case 'ulaw':
+                return new Uint8Array(samples).fill(0xff);
+            case 'alaw':
+                return new Uint8Array(samples).fill(0xd5);
+            default:
+                return new Uint8Array(Buffer.from(`mock ${codec} audio: ${text}`, 'utf8'));
+        }
+    }
+
+    /**
+     * The parts of a multipart/form-data body by name, or null if the body is not one.
+     */
+    private static formParts(request: MockRequest): Record<string, Buffer> | null {
+        const boundary = (request.headers['content-type'] || '').match(/^multipart\/form-data;.*boundary="?([^";]+)"?/i)?.[1];
+        const raw = Buffer.from(request.body).toString('latin1');
+        if (!boundary || !raw.includes(`--${boundary}--`)) {
+            return null;
+        }
+        const parts: Record<string, Buffer> = {};
+        raw.split(`--${boundary}`).slice(1, -1).forEach((part) => {
+            const separator = part.indexOf('\r\n\r\n');
+            const name = part.slice(0, separator).match(/name="([^"]+)"/)?.[1];
+            if (separator >= 0 && name) {
+                // Each part is framed by a line break after the boundary and one before the next.
+                parts[name] = Buffer.from(part.slice(separator + 4, -2), 'latin1');
+            }
+        });
+        return parts;
+    }
+
+    private static json(body: unknown, headers: Record<string, string> = {}, status = 200): MockResponse {
+        return { status, headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) };
+    }
+}
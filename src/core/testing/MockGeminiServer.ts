@@ -0,0 +1,144 @@
+import { MockHttpServer, MockRequest, MockResponse, MockServerOptions } from './MockHttpServer';
+
+/**
+ * What the mock Gemini API answers: a line of text, a full candidate, or a function of the request.
+ */
+export type GeminiMockReply =
+    | string
+    | {
+        text?: string;
+        functionCalls?: { name: string; args?: Record<string, unknown> }[];
+        /** e.g. `SAFETY` for an answer withheld by a safety filter. Defaults to `STOP`. */
+        finishReason?: string;
+        /** Blocks the prompt itself, e.g. `SAFETY`. */
+        blockReason?: string;
+    }
+    | ((request: MockRequest) => GeminiMockReply);
+
+export interface MockGeminiServerOptions extends MockServerOptions {
+    /** The answers, in order; the last one is repeated. Defaults to a single greeting. */
+    replies?: GeminiMockReply[];
+}
+
+const STATUS_NAMES: Record<number, string> = {
+    400: 'INVALID_ARGUMENT',
+    401: 'UNAUTHENTICATED',
+    403: 'PERMISSION_DENIED',
+    404: 'NOT_FOUND',
+    429: 'RESOURCE_EXHAUSTED',
+    500: 'INTERNAL',
+    503: 'UNAVAILABLE',
+};
+
+/**
+ * A local stand-in for the Gemini API: answers `generateContent` and `streamGenerateContent`
+ * like Google does, with token usage, so `GeminiService` can be pointed at it with `GEMINI_BASE_URL`
+ * or its `baseUrl` argument. Requests without an API key are rejected.
+ */
+export class MockGeminiServer extends MockHttpServer {
+    private replies: GeminiMockReply[];
+
+    constructor(options: MockGeminiServerOptions = {}) {
+        super(options);
+        this.replies = [...(options.replies || ['Well met, traveler.'])];
+    }
+
+    /**
+     * Replaces the answers to the next requests; the last one is repeated.
+     */
+    public reply(...replies: GeminiMockReply[]): void {
+        this.replies = replies;
+    }
+
+    /**
+     * The text of the user turns of every request received, in order.
+     */
+    public get prompts(): string[] {
+        return this.requests
+            .filter(({ json }) => Array.isArray(json?.contents))
+            .map(({ json }) => json.contents
+                .filter((content: any) => content.role !== 'model')
+                .flatMap((content: any) => (content.parts || []).map((part: any) => part.text).filter(Boolean))
+                .join('\n'));
+    }
+
+    protected handle(request: MockRequest): MockResponse {
+        const match = request.path.match(/^\/[^/]+\/models\/([^/:]+):(generateContent|streamGenerateContent)$/);
+        if (request.method !== 'POST' || !match) {
+            return this.error(404, `Method not found: ${request.method} ${request.path}.`);
+        }
+        if (!request.headers['x-goog-api-key'] && !request.query.key) {
+            return this.error(403, 'Method doesn\'t allow unregistered callers. Please use an API key.');
+        }
+        if (!Array.isArray(request.json?.contents)) {
+            return this.error(400, 'Invalid JSON payload: contents is required.');
+        }
+
+        const reply = this.nextReply(request);
+        const promptTokens = Math.ceil(JSON.stringify(request.json.contents).length / 4);
+        if (match[2] === 'generateContent') {
+            return { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(MockGeminiServer.response(reply, promptTokens, reply.text)) };
+        }
+
+        // Streams send the text a few words at a time, each chunk repeating the usage so far.
+        const words = (reply.text || '').match(/\S+\s*/g) || [''];
+        const pieces = Array.from({ length: Math.ceil(words.length / 3) }, (_, i) => words.slice(i * 3, i * 3 + 3).join(''));
+        let sent = '';
+        return {
+            headers: { 'Content-Type': 'text/event-stream' },
+            chunks: pieces.map((piece, i) => {
+                sent += piece;
+                const last = i === pieces.length - 1;
+                return `data: ${JSON.stringify(MockGeminiServer.response(last ? reply : { text: piece }, promptTokens, sent, piece, last))}\r\n\r\n`;
+            }),
+        };
+    }
+
+    protected errorBody(status: number, message: string): string {
+        return JSON.stringify({ error: { code: status, message, status: STATUS_NAMES[status] || 'UNKNOWN' } });
+    }
+
+    private error(status: number, message: string): MockResponse {
+        return { status, headers: { 'Content-Type': 'application/json' }, body: this.errorBody(status, message) };
+    }
+
+    private nextReply(request: MockRequest): Exclude<GeminiMockReply, string | Function> {
+        let reply = this.replies.length > 1 ? this.replies.shift()! : this.replies[0];
+        while (typeof reply === 'function') {
+            reply = reply(request);
+        }
+        return typeof reply === 'string' ? { text: reply } : reply;
+    }
+
+    /**
+     * A GenerateContentResponse for a reply.
+     * @param totalText The text so far, for the token count.
+     * @param text The text of this response, for streamed chunks.
+     * @param final Whether the response ends the answer, and so carries the finish reason.
+     */
+    private static response(
+        reply: Exclude<GeminiMockReply, string | Function>,
+        promptTokens: number,
+        totalText = '',
+        text = reply.text,
+        final = true,
+    ): Record<string, unknown> {
+        const outputTokens = Math.ceil(totalText.length / 4);
+        const usageMetadata = { promptTokenCount: promptTokens, candidatesTokenCount: outputTokens, totalTokenCount: promptTokens + outputTokens };
+        if (reply.blockReason) {
+            return { promptFeedback: { blockReason: reply.blockReason }, usageMetadata };
+        }
+        const parts = [
+            ...(text ? [{ text }] : []),
+            ...(final ? (reply.functionCalls || []).map(({ name, args }) => ({ functionCall: { name, args: args || {} } })) : []),
+        ];
+        return {
+            candidates: [{
+                content: { role: 'model', parts },
+                ...(final && { finishReason: reply.finishReason || 'STOP' }),
+                index: 0,
+            }],
+            usageMetadata,
+        };
+    }
+}
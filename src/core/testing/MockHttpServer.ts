@@ -0,0 +1,208 @@
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+
+/**
+ * A request as received by a mock server.
+ */
+export interface MockRequest {
+    method: string;
+    /** The path without the query string, e.g. `/v1/text-to-speech/voice-1`. */
+    path: string;
+    query: Record<string, string>;
+    /** Header names are lower case. */
+    headers: Record<string, string>;
+    body: Uint8Array;
+    /** The body parsed as JSON, or undefined if it is not JSON. */
+    json?: any;
+}
+
+export interface MockResponse {
+    status?: number;
+    headers?: Record<string, string>;
+    body?: string | Uint8Array;
+    /** Sent one after the other instead of `body`, e.g. the events of a stream. */
+    chunks?: (string | Uint8Array)[];
+}
+
+/**
+ * A failure to answer the next requests with instead of the normal response.
+ */
+export interface MockFault {
+    /** The HTTP status to answer with. Ignored when `disconnect` is set. */
+    status?: number;
+    headers?: Record<string, string>;
+    /** Defaults to the server's usual error body for the status. */
+    body?: string;
+    /** Closes the connection without answering, like a network failure. */
+    disconnect?: boolean;
+    /** How many requests fail. Defaults to 1. */
+    times?: number;
+}
+
+export interface MockServerOptions {
+    /** The port to listen on. Defaults to a free one. */
+    port?: number;
+    /** How long every answer is delayed, in milliseconds. Defaults to 0. */
+    latencyMs?: number;
+}
+
+/**
+ * A local HTTP server standing in for a provider's API in tests, so the real services can be run
+ * against it without network. Records the requests it receives, and can answer with errors and
+ * delays to exercise retries, timeouts and fallbacks. Node.js only.
+ */
+export abstract class MockHttpServer {
+    /** Every request received, in order. */
+    public readonly requests: MockRequest[] = [];
+    /** How long every answer is delayed, in milliseconds. */
+    public latencyMs: number;
+    private port: number;
+    private server: Server | null = null;
+    private baseUrl: string | null = null;
+    private faults: MockFault[] = [];
+
+    constructor(options: MockServerOptions = {}) {
+        this.port = options.port ?? 0;
+        this.latencyMs = options.latencyMs ?? 0;
+    }
+
+    /**
+     * The server's address, e.g. `http://127.0.0.1:53122`, to pass to a service as its base URL.
+     * @throws Error if the server is not started.
+     */
+    public get url(): string {
+        if (!this.baseUrl) {
+            throw new Error('The mock server is not started.');
+        }
+        return this.baseUrl;
+    }
+
+    /**
+     * Starts listening on localhost.
+     * @returns The server's address.
+     */
+    public async start(): Promise<string> {
+        if (this.baseUrl) {
+            return this.baseUrl;
+        }
+        // Imported lazily so that browser bundles which never use the mock servers do not pull in http.
+        const http = await import('http');
+        const server = http.createServer((request, response) => {
+            this.respond(request, response).catch((error) => {
+                console.error('[MockHttpServer] Error answering a request:', error);
+                if (!response.headersSent) {
+                    response.writeHead(500, { 'Content-Type': 'text/plain' });
+                }
+                response.end(error instanceof Error ? error.message : String(error));
+            });
+        });
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.port, '127.0.0.1', () => resolve());
+        });
+        const address = server.address();
+        this.server = server;
+        this.baseUrl = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : this.port}`;
+        return this.baseUrl;
+    }
+
+    /**
+     * Stops listening and closes open connections.
+     */
+    public async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+        this.server = null;
+        this.baseUrl = null;
+        await new Promise<void>((resolve) => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        });
+    }
+
+    /**
+     * Makes the next requests fail. Faults queue up: `failNext({ status: 429 })` twice fails two requests.
+     */
+    public failNext(fault: MockFault): void {
+        for (let i = 0; i < (fault.times ?? 1); i++) {
+            this.faults.push(fault);
+        }
+    }
+
+    /**
+     * Forgets the recorded requests and pending faults.
+     */
+    public reset(): void {
+        this.requests.length = 0;
+        this.faults = [];
+    }
+
+    /**
+     * Answers a request the way the emulated API would.
+     */
+    protected abstract handle(request: MockRequest): MockResponse | Promise<MockResponse>;
+
+    /**
+     * The body of an error answer with the given status, in the emulated API's shape.
+     */
+    protected errorBody(status: number, message: string): string {
+        return JSON.stringify({ error: { code: status, message } });
+    }
+
+    private async respond(incoming: IncomingMessage, outgoing: ServerResponse): Promise<void> {
+        const request = await MockHttpServer.readRequest(incoming);
+        this.requests.push(request);
+        if (this.latencyMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+        }
+
+        const fault = this.faults.shift();
+        if (fault?.disconnect) {
+            incoming.socket.destroy();
+            return;
+        }
+        const response: MockResponse = fault
+            ? {
+                status: fault.status ?? 500,
+                headers: { 'Content-Type': 'application/json', ...fault.headers },
+                body: fault.body ?? this.errorBody(fault.status ?? 500, `Simulated failure with status ${fault.status ?? 500}.`),
+            }
+            : await this.handle(request);
+
+        outgoing.writeHead(response.status ?? 200, response.headers);
+        for (const chunk of response.chunks || []) {
+            outgoing.write(chunk);
+        }
+        outgoing.end(response.body);
+    }
+
+    private static async readRequest(incoming: IncomingMessage): Promise<MockRequest> {
+        const parts: Uint8Array[] = [];
+        for await (const part of incoming) {
+            parts.push(part);
+        }
+        const body = new Uint8Array(Buffer.concat(parts));
+        const url = new URL(incoming.url || '/', 'http://localhost');
+        const headers: Record<string, string> = {};
+        Object.entries(incoming.headers).forEach(([name, value]) => {
+            if (value !== undefined) {
+                headers[name] = Array.isArray(value) ? value.join(', ') : value;
+            }
+        });
+        let json: any;
+        try {
+            json = body.length > 0 ? JSON.parse(Buffer.from(body).toString('utf8')) : undefined;
+        } catch {
+            json = undefined;
+        }
+        return {
+            method: incoming.method || 'GET',
+            path: decodeURIComponent(url.pathname),
+            query: Object.fromEntries(url.searchParams),
+            headers,
+            body,
+            ...(json !== undefined && { json }),
+        };
+    }
+}
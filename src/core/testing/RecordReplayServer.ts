@@ -0,0 +1,190 @@
+import fetch from 'cross-fetch';
+import { MockHttpServer, MockRequest, MockResponse, MockServerOptions } from './MockHttpServer';
+
+/**
+ * `record` forwards every request to the real API and saves the answers, `replay` answers from the
+ * fixture file only, and `auto` replays what was recorded and records the rest.
+ */
+export type RecordReplayMode = 'record' | 'replay' | 'auto';
+
+export interface RecordReplayOptions extends MockServerOptions {
+    /** The real API, e.g. `https://generativelanguage.googleapis.com` or `https://api.elevenlabs.io`. */
+    upstream: string;
+    /** The JSON file the request/response pairs are kept in. */
+    fixturePath: string;
+    /** Defaults to the `FIXTURE_MODE` environment variable, or `replay`. */
+    mode?: RecordReplayMode;
+}
+
+/**
+ * A recorded request and the answer the real API gave to it. Request headers are not kept, so
+ * recordings hold no API keys.
+ */
+export interface FixtureInteraction {
+    request: {
+        method: string;
+        /** The path and query string, without any `key` parameter. */
+        path: string;
+        /** The JSON body; absent for requests without one or with another kind of body, e.g. uploaded recordings. */
+        body?: unknown;
+    };
+    response: {
+        status: number;
+        headers: Record<string, string>;
+        body: string;
+        encoding: 'utf8' | 'base64';
+    };
+}
+
+export interface FixtureFile {
+    version: number;
+    interactions: FixtureInteraction[];
+}
+
+/** The response headers worth keeping: the ones the services read. */
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'character-cost'];
+
+/** Request headers that describe the connection to this server rather than the request. */
+const HOP_HEADERS = new Set(['host', 'connection', 'content-length', 'accept-encoding', 'transfer-encoding']);
+
+/**
+ * Sits between a service and the real API it talks to, pointed at like the mock servers. In `record`
+ * mode it passes requests on and writes each request/response pair to a fixture file; in `replay`
+ * mode it answers from that file without network, so tests recorded once against the real API
+ * run offline and deterministically. Requests are matched by method, path and JSON body; identical
+ * requests get the recorded answers in order, the last one repeated. Node.js only.
+ */
+export class RecordReplayServer extends MockHttpServer {
+    public readonly mode: RecordReplayMode;
+    private upstream: string;
+    private fixturePath: string;
+    private interactions: FixtureInteraction[] | null = null;
+    /** How many times each recorded request has been replayed, by match key. */
+    private replayed = new Map<string, number>();
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(options: RecordReplayOptions) {
+        super(options);
+        if (!options.upstream || !options.fixturePath) {
+            throw new Error("An upstream URL and a fixture path are required.");
+        }
+        this.upstream = options.upstream.replace(/\/+$/, '');
+        this.fixturePath = options.fixturePath;
+        // Priority: provided mode > environment variable > replay
+        this.mode = options.mode || (process.env.FIXTURE_MODE as RecordReplayMode | undefined) || 'replay';
+    }
+
+    public async start(): Promise<string> {
+        await this.loadFixtures();
+        return super.start();
+    }
+
+    /**
+     * Stops the server once every recording is written.
+     */
+    public async stop(): Promise<void> {
+        await this.saving;
+        await super.stop();
+    }
+
+    protected async handle(request: MockRequest): Promise<MockResponse> {
+        const interactions = await this.loadFixtures();
+        const recorded = RecordReplayServer.recordedRequest(request);
+        const key = RecordReplayServer.matchKey(recorded);
+
+        if (this.mode !== 'record') {
+            const matches = interactions.filter((interaction) => RecordReplayServer.matchKey(interaction.request) === key);
+            if (matches.length > 0) {
+                const count = this.replayed.get(key) || 0;
+                this.replayed.set(key, count + 1);
+                const { status, headers, body, encoding } = matches[Math.min(count, matches.length - 1)].response;
+                return { status, headers, body: encoding === 'base64' ? new Uint8Array(Buffer.from(body, 'base64')) : body };
+            }
+            if (this.mode === 'replay') {
+                return {
+                    status: 501,
+                    headers: { 'Content-Type': 'text/plain' },
+                    body: `No recorded response for ${request.method} ${recorded.path} in ${this.fixturePath}. Record it with FIXTURE_MODE=record.`,
+                };
+            }
+        }
+
+        const response = await this.forward(request);
+        interactions.push({ request: recorded, response });
+        this.save();
+        return { status: response.status, headers: response.headers, body: response.encoding === 'base64' ? new Uint8Array(Buffer.from(response.body, 'base64')) : response.body };
+    }
+
+    /**
+     * Sends a request to the real API and reads its whole answer; streamed answers are replayed in one piece.
+     */
+    private async forward(request: MockRequest): Promise<FixtureInteraction['response']> {
+        const query = new URLSearchParams(request.query).toString();
+        const headers = Object.fromEntries(Object.entries(request.headers).filter(([name]) => !HOP_HEADERS.has(name)));
+        const response = await fetch(`${this.upstream}${request.path}${query ? `?${query}` : ''}`, {
+            method: request.method,
+            headers,
+            ...(request.body.length > 0 && { body: Buffer.from(request.body) }),
+        });
+        const body = Buffer.from(await response.arrayBuffer());
+        const contentType = response.headers.get('content-type') || '';
+        const text = /json|text|event-stream/.test(contentType);
+        return {
+            status: response.status,
+            headers: Object.fromEntries(RECORDED_HEADERS
+                .map((name) => [name, response.headers.get(name)])
+                .filter((header): header is [string, string] => typeof header[1] === 'string')),
+            body: body.toString(text ? 'utf8' : 'base64'),
+            encoding: text ? 'utf8' : 'base64',
+        };
+    }
+
+    private async loadFixtures(): Promise<FixtureInteraction[]> {
+        if (this.interactions) {
+            return this.interactions;
+        }
+        // Imported lazily so that browser bundles which never use this server do not pull in fs.
+        const fs = await import('fs/promises');
+        try {
+            const fixtures: FixtureFile = JSON.parse(await fs.readFile(this.fixturePath, 'utf8'));
+            this.interactions = this.mode === 'record' ? [] : fixtures.interactions;
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                throw error;
+            }
+            this.interactions = [];
+        }
+        return this.interactions;
+    }
+
+    /**
+     * Writes the fixture file. Writes happen one at a time, so the last one holds every recording.
+     */
+    private save(): void {
+        this.saving = this.saving.then(async () => {
+            const fs = await import('fs/promises');
+            const path = await import('path');
+            const fixtures: FixtureFile = { version: 1, interactions: this.interactions || [] };
+            await fs.mkdir(path.dirname(this.fixturePath), { recursive: true });
+            await fs.writeFile(this.fixturePath, JSON.stringify(fixtures, null, 2), 'utf8');
+        }).catch((error) => {
+            console.error(`[RecordReplayServer] Error writing ${this.fixturePath}:`, error);
+        });
+    }
+
+    /**
+     * A request as it is recorded: the path without the API key and the body if it is JSON.
+     */
+    private static recordedRequest(request: MockRequest): FixtureInteraction['request'] {
+        const query = new URLSearchParams(Object.entries(request.query).filter(([name]) => name !== 'key')).toString();
+        return {
+            method: request.method,
+            path: `${request.path}${query ? `?${query}` : ''}`,
+            ...(request.json !== undefined && { body: request.json }),
+        };
+    }
+
+    private static matchKey(request: FixtureInteraction['request']): string {
+        return JSON.stringify([request.method, request.path, request.body ?? null]);
+    }
+}
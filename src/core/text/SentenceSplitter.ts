@@ -0,0 +1,43 @@
+/**
+ * Incrementally splits streamed text into sentences, so that each sentence can be
+ * sent to TTS as soon as it is complete rather than waiting for the whole response.
+ */
+export class SentenceSplitter {
+    // Sentence-ending punctuation, optionally followed by closing quotes/brackets, then whitespace.
+    private static readonly BOUNDARY = /[.!?…]+["'”’)\]]*\s+|\n+/g;
+
+    private buffer = '';
+
+    /**
+     * Adds a chunk of text.
+     * @returns The sentences completed by this chunk, in order. May be empty.
+     */
+    public push(text: string): string[] {
+        this.buffer += text;
+        const sentences: string[] = [];
+
+        let start = 0;
+        SentenceSplitter.BOUNDARY.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = SentenceSplitter.BOUNDARY.exec(this.buffer)) !== null) {
+            const end = match.index + match[0].length;
+            const sentence = this.buffer.slice(start, end).trim();
+            if (sentence) {
+                sentences.push(sentence);
+            }
+            start = end;
+        }
+
+        this.buffer = this.buffer.slice(start);
+        return sentences;
+    }
+
+    /**
+     * Returns whatever text is left once the stream has ended, or null if there is none.
+     */
+    public flush(): string | null {
+        const rest = this.buffer.trim();
+        this.buffer = '';
+        return rest || null;
+    }
+}
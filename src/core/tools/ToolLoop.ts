@@ -0,0 +1,68 @@
+import { LLMMessage, LLMToolCall, LLMToolResult, LLMTurn } from '../llm/LLMProvider';
+import { ToolDefinition, validateToolCall } from './ToolRegistry';
+
+/**
+ * Generates a reply while letting the model call tools. Each round, the model's calls are validated,
+ * executed in order and their results sent back, until it answers with text alone or `maxRounds`
+ * rounds of calls have been made. Invalid calls and failed executions are reported to the model
+ * as errors so it can correct itself or explain the failure in character.
+ * @param messages The exchange so far. Not modified.
+ * @param tools The tools the model may call.
+ * @param generate Requests the next model turn.
+ * @param execute Carries out a validated call and returns its result.
+ * @param maxRounds The maximum number of rounds of tool calls.
+ * @returns The model's final text, or null if it produced none.
+ */
+export async function runToolLoop(
+    messages: LLMMessage[],
+    tools: ToolDefinition[],
+    generate: (messages: LLMMessage[]) => Promise<LLMTurn | null>,
+    execute: (call: LLMToolCall) => Promise<unknown>,
+    maxRounds: number,
+): Promise<string | null> {
+    let exchange = messages;
+
+    for (let round = 0; ; round++) {
+        const turn = await generate(exchange);
+        if (!turn) {
+            return null;
+        }
+        if (turn.toolCalls.length === 0 || round >= maxRounds) {
+            if (turn.toolCalls.length > 0) {
+                console.warn(`[ToolLoop] Ignoring tool calls after ${maxRounds} rounds.`);
+            }
+            return turn.text;
+        }
+
+        const results: LLMToolResult[] = [];
+        for (const call of turn.toolCalls) {
+            results.push(await callTool(call, tools, execute));
+        }
+        exchange = [
+            ...exchange,
+            { role: 'model', text: turn.text || '', toolCalls: turn.toolCalls },
+            { role: 'user', text: '', toolResults: results },
+        ];
+    }
+}
+
+async function callTool(
+    call: LLMToolCall,
+    tools: ToolDefinition[],
+    execute: (call: LLMToolCall) => Promise<unknown>,
+): Promise<LLMToolResult> {
+    const base = { ...(call.id && { id: call.id }), name: call.name };
+
+    const errors = validateToolCall(call, tools);
+    if (errors.length > 0) {
+        console.error(`[ToolLoop] Rejected call to "${call.name}": ${errors.join('; ')}`);
+        return { ...base, error: `Invalid call: ${errors.join('; ')}` };
+    }
+
+    try {
+        return { ...base, result: await execute(call) };
+    } catch (error) {
+        console.error(`[ToolLoop] Error executing "${call.name}":`, error);
+        return { ...base, error: error instanceof Error ? error.message : String(error) };
+    }
+}
@@ -0,0 +1,83 @@
+import { LLMToolCall } from '../llm/LLMProvider';
+import { JsonSchema, validateJsonSchema } from '../structured/JsonSchema';
+
+/**
+ * A game action the model may call, e.g. `give_item` with an `item` argument.
+ */
+export interface ToolDefinition {
+    /** Letters, digits and underscores, e.g. `open_shop`. */
+    name: string;
+    /** When and why to use the tool. The model relies on this to decide whether to call it. */
+    description: string;
+    /** The arguments as an object schema. Omit for tools without arguments. */
+    parameters?: JsonSchema;
+}
+
+/**
+ * The game actions NPCs can trigger through function calling.
+ *
+ * Registering a tool does not let any NPC use it: each NPC lists the tools it may call in its
+ * entity state, e.g. `{ name: 'Greta', tools: ['open_shop', 'give_item'] }`.
+ */
+export class ToolRegistry {
+    private tools = new Map<string, ToolDefinition>();
+
+    constructor(tools: ToolDefinition[] = []) {
+        tools.forEach((tool) => this.register(tool));
+    }
+
+    /**
+     * Adds a tool, replacing any tool registered under the same name.
+     */
+    public register(tool: ToolDefinition): void {
+        this.tools.set(tool.name, tool);
+    }
+
+    public unregister(name: string): void {
+        this.tools.delete(name);
+    }
+
+    public has(name: string): boolean {
+        return this.tools.has(name);
+    }
+
+    public get(name: string): ToolDefinition | undefined {
+        return this.tools.get(name);
+    }
+
+    public list(): ToolDefinition[] {
+        return Array.from(this.tools.values());
+    }
+
+    /**
+     * The registered tools an NPC may call, from the `tools` field of its entity state.
+     * Names that are not registered are skipped with a warning.
+     */
+    public allowedFor(npcState: { [key: string]: any }): ToolDefinition[] {
+        const names: unknown = npcState.tools;
+        if (!Array.isArray(names)) {
+            return [];
+        }
+
+        return names.flatMap((name) => {
+            const tool = this.tools.get(name);
+            if (!tool) {
+                console.warn(`[ToolRegistry] Unknown tool "${name}" in the allowlist of ${npcState.name || 'an entity'}.`);
+                return [];
+            }
+            return [tool];
+        });
+    }
+}
+
+/**
+ * Checks a function call requested by the model against the tools it was offered.
+ * @returns A list of human-readable problems; empty if the call may be dispatched.
+ */
+export function validateToolCall(call: LLMToolCall, allowed: ToolDefinition[]): string[] {
+    const tool = allowed.find((candidate) => candidate.name === call.name);
+    if (!tool) {
+        return [`the tool "${call.name}" is not available`];
+    }
+    return tool.parameters ? validateJsonSchema(call.args, tool.parameters, 'args') : [];
+}
@@ -0,0 +1,77 @@
+import { toArrayBuffer } from '../net/streams';
+import { formatFromMimeType, TTSProvider, TTSResult, TTSSpeechOptions } from './TTSProvider';
+
+export interface CommandTTSServiceOptions {
+    /** Executable to run, e.g. `espeak-ng` or `piper`. */
+    command: string;
+    /**
+     * Arguments for the executable. The text is written to stdin and the audio read from stdout,
+     * so the engine must be told to do so, e.g. `['--stdout']` for espeak-ng or
+     * `['--model', 'voice.onnx', '--output_file', '-']` for Piper.
+     */
+    args?: string[];
+    /** MIME type of the audio the command writes. Defaults to `audio/wav`. */
+    mimeType?: string;
+}
+
+/**
+ * A TTSProvider that synthesizes speech by running a local engine as a subprocess.
+ * Node.js only; it needs no network access, which makes it suitable for offline builds and CI.
+ */
+export class CommandTTSService implements TTSProvider {
+    private command: string;
+    private args: string[];
+    private mimeType: string;
+
+    constructor(options: CommandTTSServiceOptions) {
+        if (!options.command) {
+            throw new Error("A TTS command is required.");
+        }
+        this.command = options.command;
+        this.args = options.args || [];
+        this.mimeType = options.mimeType || 'audio/wav';
+    }
+
+    /**
+     * @param options Only `signal` is used; it kills the process. Voices are chosen through the command's arguments.
+     */
+    public async generateSpeech(text: string, options?: TTSSpeechOptions): Promise<TTSResult | null> {
+        console.log(`Running ${this.command} for: "${text}"`);
+
+        try {
+            const output = await this.run(text, options?.signal);
+            // Copy into a standalone ArrayBuffer; Buffers may share a larger pooled allocation.
+            const audioData = toArrayBuffer(output);
+            return { audioData, mimeType: this.mimeType, format: formatFromMimeType(this.mimeType) };
+        } catch (error) {
+            console.error("Error running local TTS command:", error);
+            return null;
+        }
+    }
+
+    private async run(text: string, signal?: AbortSignal): Promise<Buffer> {
+        // Imported lazily so that browser bundles which never use this provider do not pull in child_process.
+        const { spawn } = await import('child_process');
+
+        return new Promise((resolve, reject) => {
+            const child = spawn(this.command, this.args, { stdio: ['pipe', 'pipe', 'pipe'], signal });
+            const stdout: Buffer[] = [];
+            const stderr: Buffer[] = [];
+
+            child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+            child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+            child.on('error', reject);
+            child.on('close', (code) => {
+                if (code !== 0) {
+                    reject(new Error(`${this.command} exited with code ${code}: ${Buffer.concat(stderr).toString()}`));
+                } else if (stdout.length === 0) {
+                    reject(new Error(`${this.command} produced no audio.`));
+                } else {
+                    resolve(Buffer.concat(stdout));
+                }
+            });
+
+            child.stdin.end(text);
+        });
+    }
+}
@@ -1,52 +1,199 @@
 import fetch from 'cross-fetch';
+import { AIPluginError, EmptyResponseError, errorFromStatus, parseRetryAfter, ServiceUnavailableError } from '../net/errors';
+import { RequestPolicy, streamWithRequestPolicy, withRequestPolicy } from '../net/RequestPolicy';
+import { fromBase64, readBodyChunks } from '../net/streams';
+import { CharacterTiming, TTSProvider, TTSResult, TTSSpeechOptions, VoiceSettings } from './TTSProvider';
 
-export class ElevenLabsTTSService {
+const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+    stability: 0.5,
+    similarityBoost: 0.5,
+};
+
+/**
+ * Models that accept a `language_code`. The others detect the language from the text and reject
+ * requests that set one.
+ */
+const LANGUAGE_CODE_MODELS = ['eleven_turbo_v2_5', 'eleven_flash_v2_5', 'eleven_v3'];
+
+/**
+ * The audio formats ElevenLabs can return: codec, sample rate and, for compressed formats, bitrate.
+ * PCM is signed 16-bit little-endian mono; ulaw and alaw are for telephony.
+ */
+export type ElevenLabsOutputFormat =
+    | 'mp3_22050_32' | 'mp3_44100_32' | 'mp3_44100_64' | 'mp3_44100_96' | 'mp3_44100_128' | 'mp3_44100_192'
+    | 'pcm_8000' | 'pcm_16000' | 'pcm_22050' | 'pcm_24000' | 'pcm_44100' | 'pcm_48000'
+    | 'ulaw_8000' | 'alaw_8000'
+    | 'opus_48000_32' | 'opus_48000_64' | 'opus_48000_96' | 'opus_48000_128' | 'opus_48000_192';
+
+/** The format ElevenLabs uses when none is requested. */
+const DEFAULT_OUTPUT_FORMAT: ElevenLabsOutputFormat = 'mp3_44100_128';
+
+const DEFAULT_BASE_URL = 'https://api.elevenlabs.io';
+
+export class ElevenLabsTTSService implements TTSProvider {
     private apiKey: string;
-    private voiceId = '21m00Tcm4TlvDq8ikWAM'; // A default voice ID, e.g., "Rachel"
-    private modelId: string;
+    private defaultVoiceId = '21m00Tcm4TlvDq8ikWAM'; // A default voice ID, e.g., "Rachel"
+    public readonly modelId: string;
+    public readonly outputFormat: ElevenLabsOutputFormat;
+    private baseUrl: string;
+    private requestPolicy: RequestPolicy;
+    private audioFormat: Pick<TTSResult, 'mimeType' | 'format' | 'sampleRate'>;
 
-    constructor(apiKey: string, modelId?: string) {
+    /**
+     * @param apiKey The ElevenLabs API key.
+     * @param modelId The model to synthesize with.
+     * @param requestPolicy Timeout and retry settings for every request.
+     * @param outputFormat The format of the returned audio, e.g. `pcm_24000` for Web Audio or `opus_48000_64`.
+     * @param baseUrl Where the API is, e.g. a local `MockElevenLabsServer` in tests.
+     */
+    constructor(apiKey: string, modelId?: string, requestPolicy: RequestPolicy = {}, outputFormat?: ElevenLabsOutputFormat, baseUrl?: string) {
         if (!apiKey) {
             throw new Error("ElevenLabs API key is required.");
         }
         this.apiKey = apiKey;
         // Priority: provided modelId > environment variable > new default
         this.modelId = modelId || process.env.ELEVENLABS_MODEL_ID || 'eleven_multilingual_v2';
+        // Priority: provided outputFormat > environment variable > the API's default
+        this.outputFormat = outputFormat || (process.env.ELEVENLABS_OUTPUT_FORMAT as ElevenLabsOutputFormat | undefined) || DEFAULT_OUTPUT_FORMAT;
+        this.audioFormat = ElevenLabsTTSService.describeOutputFormat(this.outputFormat);
+        // Priority: provided baseUrl > environment variable > the public API
+        this.baseUrl = (baseUrl || process.env.ELEVENLABS_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.requestPolicy = requestPolicy;
     }
 
-    public async generateSpeech(text: string): Promise<ArrayBuffer | null> {
+    /**
+     * With `withTimings`, the audio is requested from the `with-timestamps` endpoint, which also
+     * reports when each character is spoken.
+     * @throws AIPluginError when the request fails after all retries.
+     */
+    public async generateSpeech(text: string, options?: TTSSpeechOptions): Promise<TTSResult> {
         console.log(`Requesting TTS from ElevenLabs for: "${text}"`);
 
-        const url = `https://api.elevenlabs.io/v1/text-to-speech/${this.voiceId}`;
-        try {
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Accept': 'audio/mpeg',
-                    'Content-Type': 'application/json',
-                    'xi-api-key': this.apiKey,
-                },
-                body: JSON.stringify({
-                    text: text,
-                    model_id: this.modelId,
-                    voice_settings: {
-                        stability: 0.5,
-                        similarity_boost: 0.5,
-                    },
-                }),
-            });
-
-            if (!response.ok) {
-                const errorBody = await response.text();
-                throw new Error(`HTTP error! status: ${response.status}, body: ${errorBody}`);
+        // Reading the body is part of the attempt, so a download that stalls also times out.
+        return withRequestPolicy('elevenlabs', async (signal) => {
+            if (options?.withTimings) {
+                const response = await this.requestSpeech('/with-timestamps', text, options, signal);
+                return { ...ElevenLabsTTSService.parseTimedSpeech(await response.json()), ...this.audioFormat };
             }
-
+            const response = await this.requestSpeech('', text, options, signal);
             const audioData = await response.arrayBuffer();
-            return audioData;
+            return { audioData, ...this.audioFormat };
+        }, this.requestPolicy, options?.signal);
+    }
+
+    /**
+     * Streams the audio. Opening the stream follows the request policy; a failure after
+     * audio has arrived ends the stream with an error. `options.signal` aborts the download at
+     * any point, and a stream that stalls for the policy's `idleTimeoutMs` ends with a TimeoutError.
+     * @throws AIPluginError when the stream cannot be opened, stalls or breaks off.
+     */
+    public async *generateSpeechStream(text: string, options?: TTSSpeechOptions): AsyncGenerator<TTSResult> {
+        console.log(`Streaming TTS from ElevenLabs for: "${text}"`);
 
+        const stream = streamWithRequestPolicy('elevenlabs', async (signal) => readBodyChunks(await this.requestSpeech('/stream', text, options, signal)), this.requestPolicy, options?.signal);
+        try {
+            for await (const audioData of stream) {
+                yield { audioData, ...this.audioFormat };
+            }
         } catch (error) {
-            console.error("Error calling ElevenLabs TTS API:", error);
-            return null;
+            if (error instanceof AIPluginError) {
+                throw error;
+            }
+            throw new ServiceUnavailableError('elevenlabs', 'The ElevenLabs audio stream broke off.', undefined, error);
+        }
+    }
+
+    /**
+     * Sends a text-to-speech request and returns the successful response.
+     * @param endpointSuffix Appended to the voice URL, e.g. `/stream`.
+     * @throws AIPluginError matching the HTTP status, or ServiceUnavailableError if ElevenLabs could not be reached.
+     */
+    private async requestSpeech(endpointSuffix: string, text: string, options: TTSSpeechOptions | undefined, signal: AbortSignal): Promise<Response> {
+        const voiceId = options?.voiceId || this.defaultVoiceId;
+        // Only a format other than the API's default needs the parameter.
+        const query = this.outputFormat !== DEFAULT_OUTPUT_FORMAT ? `?output_format=${this.outputFormat}` : '';
+        const url = `${this.baseUrl}/v1/text-to-speech/${voiceId}${endpointSuffix}${query}`;
+        const response = await fetch(url, {
+            method: 'POST',
+            signal,
+            headers: {
+                'Accept': endpointSuffix === '/with-timestamps' ? 'application/json' : this.audioFormat.mimeType,
+                'Content-Type': 'application/json',
+                'xi-api-key': this.apiKey,
+            },
+            body: JSON.stringify({
+                text: text,
+                model_id: this.modelId,
+                voice_settings: ElevenLabsTTSService.toApiVoiceSettings({ ...DEFAULT_VOICE_SETTINGS, ...options?.voiceSettings }),
+                ...(options?.languageCode && LANGUAGE_CODE_MODELS.includes(this.modelId) && { language_code: options.languageCode }),
+            }),
+        }).catch((error) => {
+            if (error?.name === 'AbortError') {
+                throw error;
+            }
+            throw new ServiceUnavailableError('elevenlabs', `Could not reach ElevenLabs: ${error?.message || error}`, undefined, error);
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            throw errorFromStatus('elevenlabs', response.status, errorBody, parseRetryAfter(response.headers?.get('retry-after')));
         }
+
+        // ElevenLabs reports the billed characters in a header; the text length is a close estimate otherwise.
+        const billed = Number(response.headers?.get('character-cost'));
+        options?.onUsage?.({ model: this.modelId, characters: billed > 0 ? billed : text.length });
+        return response;
+    }
+
+    /**
+     * Decodes a `with-timestamps` response: base64 audio and the start and end of each character in seconds.
+     * @throws EmptyResponseError if the response holds no audio.
+     */
+    private static parseTimedSpeech(result: any): Omit<TTSResult, 'mimeType' | 'format'> {
+        if (typeof result?.audio_base64 !== 'string' || !result.audio_base64) {
+            throw new EmptyResponseError('elevenlabs', 'No audio in the ElevenLabs response.');
+        }
+        const { characters = [], character_start_times_seconds: starts = [], character_end_times_seconds: ends = [] } = result.alignment || {};
+        const alignment: CharacterTiming[] = characters.map((character: string, i: number) => ({
+            character,
+            startMs: Math.round(starts[i] * 1000),
+            endMs: Math.round(ends[i] * 1000),
+        }));
+        return {
+            audioData: fromBase64(result.audio_base64),
+            ...(alignment.length > 0 && { durationMs: alignment[alignment.length - 1].endMs, alignment }),
+        };
+    }
+
+    /**
+     * The MIME type, format identifier and, for raw audio, sample rate of an output format.
+     */
+    private static describeOutputFormat(outputFormat: ElevenLabsOutputFormat): Pick<TTSResult, 'mimeType' | 'format' | 'sampleRate'> {
+        const [codec, sampleRate] = outputFormat.split('_');
+        switch (codec) {
+            case 'pcm':
+                return { mimeType: `audio/pcm;rate=${sampleRate}`, format: 'pcm', sampleRate: Number(sampleRate) };
+            case 'ulaw':
+                return { mimeType: 'audio/basic', format: 'ulaw', sampleRate: Number(sampleRate) };
+            case 'alaw':
+                return { mimeType: 'audio/x-alaw-basic', format: 'alaw', sampleRate: Number(sampleRate) };
+            case 'opus':
+                return { mimeType: 'audio/ogg;codecs=opus', format: 'opus' };
+            default:
+                return { mimeType: 'audio/mpeg', format: 'mp3' };
+        }
+    }
+
+    /**
+     * Converts voice settings to the snake_case shape the API expects, leaving out unset fields.
+     */
+    private static toApiVoiceSettings(settings: VoiceSettings): Record<string, number | boolean> {
+        const apiSettings: Record<string, number | boolean> = {};
+        if (settings.stability !== undefined) apiSettings.stability = settings.stability;
+        if (settings.similarityBoost !== undefined) apiSettings.similarity_boost = settings.similarityBoost;
+        if (settings.style !== undefined) apiSettings.style = settings.style;
+        if (settings.useSpeakerBoost !== undefined) apiSettings.use_speaker_boost = settings.useSpeakerBoost;
+        if (settings.speed !== undefined) apiSettings.speed = settings.speed;
+        return apiSettings;
     }
 }
@@ -0,0 +1,69 @@
+import fetch from 'cross-fetch';
+import { formatFromMimeType, TTSProvider, TTSResult, TTSSpeechOptions } from './TTSProvider';
+
+export interface HttpTTSServiceOptions {
+    /** Endpoint of the local speech server, e.g. `http://localhost:5000` for Piper's HTTP server. */
+    url?: string;
+    /**
+     * `GET` sends the text as a `text` query parameter, `POST` sends it as the plain-text request body.
+     * Defaults to `POST`.
+     */
+    method?: 'GET' | 'POST';
+    /** Extra query parameters, e.g. `{ speaker: '3' }`. */
+    params?: Record<string, string>;
+    /** MIME type to assume when the server does not send a Content-Type header. */
+    defaultMimeType?: string;
+}
+
+/**
+ * A TTSProvider for a self-hosted speech server that accepts text over HTTP and
+ * answers with an audio file, such as Piper's or Coqui's built-in HTTP server.
+ * Useful for offline builds and CI where the ElevenLabs API is unavailable.
+ */
+export class HttpTTSService implements TTSProvider {
+    private url: string;
+    private method: 'GET' | 'POST';
+    private params: Record<string, string>;
+    private defaultMimeType: string;
+
+    constructor(options: HttpTTSServiceOptions = {}) {
+        // Priority: provided url > environment variable > default
+        this.url = options.url || process.env.LOCAL_TTS_URL || 'http://localhost:5000';
+        this.method = options.method || 'POST';
+        this.params = options.params || {};
+        this.defaultMimeType = options.defaultMimeType || 'audio/wav';
+    }
+
+    public async generateSpeech(text: string, options?: TTSSpeechOptions): Promise<TTSResult | null> {
+        console.log(`Requesting TTS from ${this.url} for: "${text}"`);
+
+        const query = new URLSearchParams(this.params);
+        if (options?.voiceId) {
+            query.set('voice', options.voiceId);
+        }
+        if (this.method === 'GET') {
+            query.set('text', text);
+        }
+        const queryString = query.toString();
+        const url = queryString ? `${this.url}${this.url.includes('?') ? '&' : '?'}${queryString}` : this.url;
+
+        try {
+            const response = await fetch(url, this.method === 'GET'
+                ? { method: 'GET', signal: options?.signal }
+                : { method: 'POST', signal: options?.signal, headers: { 'Content-Type': 'text/plain; charset=utf-8' }, body: text });
+
+            if (!response.ok) {
+                const errorBody = await response.text();
+                throw new Error(`HTTP error! status: ${response.status}, body: ${errorBody}`);
+            }
+
+            const mimeType = response.headers?.get('Content-Type') || this.defaultMimeType;
+            const audioData = await response.arrayBuffer();
+            return { audioData, mimeType, format: formatFromMimeType(mimeType) };
+
+        } catch (error) {
+            console.error("Error calling local TTS server:", error);
+            return null;
+        }
+    }
+}
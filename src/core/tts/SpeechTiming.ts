@@ -0,0 +1,143 @@
+import { audioDurationMs } from '../audio/duration';
+import { CharacterTiming, TTSResult } from './TTSProvider';
+
+/**
+ * Mouth shapes, following the 15 visemes used by Oculus/Meta lip-sync and many rigs:
+ * silence, p/b/m, f/v, th, t/d, k/g, ch/j/sh, s/z, n/l, r, and the vowels a, e, i, o, u.
+ */
+export type Viseme = 'sil' | 'PP' | 'FF' | 'TH' | 'DD' | 'kk' | 'CH' | 'SS' | 'nn' | 'RR' | 'aa' | 'E' | 'ih' | 'oh' | 'ou';
+
+export interface WordTiming {
+    word: string;
+    /** Index of the word's first character in the spoken text. */
+    offset: number;
+    startMs: number;
+    endMs: number;
+}
+
+export interface VisemeCue {
+    viseme: Viseme;
+    startMs: number;
+    endMs: number;
+}
+
+/**
+ * When each part of a line is heard, in milliseconds from the start of its audio. Passed to
+ * `adapter.animateSpeech` as the audio starts playing.
+ */
+export interface SpeechTimings {
+    text: string;
+    durationMs: number;
+    characters: CharacterTiming[];
+    /** For karaoke-style subtitles. */
+    words: WordTiming[];
+    /** For lip-sync. Derived from the spelling, so they are approximate, and best for Latin-script languages. */
+    visemes: VisemeCue[];
+}
+
+const LETTER_PAIRS: Record<string, Viseme> = {
+    th: 'TH', ch: 'CH', sh: 'CH', ph: 'FF', ck: 'kk', qu: 'kk', ng: 'nn', oo: 'ou', ee: 'E',
+};
+
+const LETTERS: Record<string, Viseme> = {
+    a: 'aa', e: 'E', i: 'ih', y: 'ih', o: 'oh', u: 'ou', w: 'ou',
+    b: 'PP', m: 'PP', p: 'PP', f: 'FF', v: 'FF', d: 'DD', t: 'DD',
+    c: 'kk', g: 'kk', k: 'kk', q: 'kk', x: 'kk', j: 'CH', s: 'SS', z: 'SS', n: 'nn', l: 'nn', r: 'RR',
+};
+
+const WORD_CHARACTER = /[\p{L}\p{N}'’-]/u;
+
+/**
+ * Groups character timings into words.
+ */
+export function wordTimings(characters: CharacterTiming[]): WordTiming[] {
+    const words: WordTiming[] = [];
+    let current: WordTiming | null = null;
+    characters.forEach(({ character, startMs, endMs }, offset) => {
+        if (!WORD_CHARACTER.test(character)) {
+            current = null;
+            return;
+        }
+        if (!current) {
+            current = { word: '', offset, startMs, endMs };
+            words.push(current);
+        }
+        current.word += character;
+        current.endMs = endMs;
+    });
+    return words;
+}
+
+/**
+ * Derives mouth shapes from character timings. Letters are mapped by their spelling, two-letter
+ * sounds such as `th` first; letters of other scripts open the mouth, and anything that is not a
+ * letter closes it. Consecutive cues with the same viseme are merged.
+ */
+export function visemeCues(characters: CharacterTiming[]): VisemeCue[] {
+    const cues: VisemeCue[] = [];
+    // Where the next cue starts when an h was folded into it.
+    let pendingStartMs: number | undefined;
+    const push = (viseme: Viseme, startMs: number, endMs: number) => {
+        const last = cues[cues.length - 1];
+        if (last && last.viseme === viseme) {
+            last.endMs = endMs;
+        } else {
+            cues.push({ viseme, startMs: pendingStartMs ?? startMs, endMs });
+        }
+        pendingStartMs = undefined;
+    };
+
+    for (let i = 0; i < characters.length; i++) {
+        const letter = baseLetter(characters[i].character);
+        const next = characters[i + 1];
+        const pair = next && LETTER_PAIRS[letter + baseLetter(next.character)];
+        const last = cues[cues.length - 1];
+        if (pair) {
+            push(pair, characters[i].startMs, next.endMs);
+            i++;
+        } else if (letter === 'h') {
+            // An h has no shape of its own: it keeps the mouth as it was, or takes the shape of the next sound.
+            if (last && last.viseme !== 'sil') {
+                last.endMs = characters[i].endMs;
+            } else if (next) {
+                pendingStartMs ??= characters[i].startMs;
+            } else {
+                push('sil', characters[i].startMs, characters[i].endMs);
+            }
+        } else {
+            push(LETTERS[letter] || (/\p{L}/u.test(letter) ? 'aa' : 'sil'), characters[i].startMs, characters[i].endMs);
+        }
+    }
+    return cues;
+}
+
+/**
+ * How long synthesized speech plays: as reported by the provider, from its timings or from its headers.
+ */
+export function speechDurationMs(speech: TTSResult): number | undefined {
+    return speech.durationMs ?? speech.alignment?.[speech.alignment.length - 1]?.endMs ?? audioDurationMs(speech.audioData, speech.format, speech.sampleRate);
+}
+
+/**
+ * Collects the timings of a line for lip-sync and subtitles.
+ * @returns The timings, or null if the provider did not report an alignment.
+ */
+export function speechTimings(text: string, speech: TTSResult): SpeechTimings | null {
+    if (!speech.alignment?.length) {
+        return null;
+    }
+    return {
+        text,
+        durationMs: speechDurationMs(speech)!,
+        characters: speech.alignment,
+        words: wordTimings(speech.alignment),
+        visemes: visemeCues(speech.alignment),
+    };
+}
+
+/**
+ * A character in lower case without its accents, e.g. `e` for `É`.
+ */
+function baseLetter(character: string): string {
+    return character.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
@@ -0,0 +1,129 @@
+/**
+ * Synthesized speech together with the information needed to decode it.
+ */
+export interface TTSResult {
+    /** The encoded audio. */
+    audioData: ArrayBuffer;
+    /** MIME type of `audioData`, e.g. `audio/mpeg` or `audio/wav`. */
+    mimeType: string;
+    /** Short container/codec identifier, e.g. `mp3`, `wav`, `opus` or `pcm`. */
+    format: string;
+    /**
+     * Samples per second of raw audio without a header (`pcm`, `ulaw`, `alaw`). Raw PCM is signed
+     * 16-bit little-endian mono.
+     */
+    sampleRate?: number;
+    /** Length of the audio in milliseconds, if the provider reports it. */
+    durationMs?: number;
+    /** When each character of the text is spoken, from providers asked for it with `withTimings`. */
+    alignment?: CharacterTiming[];
+}
+
+/**
+ * When one character of the spoken text is heard, in milliseconds from the start of the audio.
+ */
+export interface CharacterTiming {
+    character: string;
+    startMs: number;
+    endMs: number;
+}
+
+/**
+ * Voice tuning parameters. Named after ElevenLabs' voice settings; other providers
+ * map what they can and ignore the rest.
+ */
+export interface VoiceSettings {
+    /** 0-1. Lower values are more expressive, higher values more consistent. */
+    stability?: number;
+    /** 0-1. How closely the output should match the original voice. */
+    similarityBoost?: number;
+    /** 0-1. Exaggerates the speaking style of the voice. */
+    style?: number;
+    /** Boosts similarity to the original speaker at the cost of latency. */
+    useSpeakerBoost?: boolean;
+    /** Speaking rate, 1.0 being normal speed. */
+    speed?: number;
+}
+
+/**
+ * Per-request options for speech synthesis.
+ */
+export interface TTSSpeechOptions {
+    /** Provider-specific voice identifier. Providers use their default voice when omitted. */
+    voiceId?: string;
+    voiceSettings?: VoiceSettings;
+    /** The language of the text as an ISO 639 code, e.g. `de`. Providers that detect it themselves may ignore it. */
+    languageCode?: string;
+    /** Asks for the `alignment` of the text with the audio. Providers that cannot time it ignore this. */
+    withTimings?: boolean;
+    /** Aborts the request, e.g. when the line is interrupted. Providers should pass it to their HTTP calls. */
+    signal?: AbortSignal;
+    /** Called with the characters the request was billed for, by providers that charge per character. */
+    onUsage?: (usage: TTSUsage) => void;
+}
+
+/**
+ * The characters one request was billed for, as reported by the provider.
+ */
+export interface TTSUsage {
+    /** The model that synthesized the line, used to look up its price. */
+    model?: string;
+    characters: number;
+}
+
+/**
+ * The TTSProvider interface is the contract between the AIManager and a speech synthesis backend.
+ * ElevenLabsTTSService is the default implementation; local engines such as Piper or espeak
+ * can be plugged in through `AIManagerOptions.ttsProvider` or `AIManagerOptions.ttsProviders`.
+ * Failures may be reported by returning null or by throwing; the built-in ElevenLabsTTSService
+ * throws AIPluginError subclasses.
+ */
+export interface TTSProvider {
+    /**
+     * The model the provider synthesizes with, if it has one. Part of the audio cache key, so
+     * switching models does not replay audio made by the old one.
+     */
+    readonly modelId?: string;
+
+    /**
+     * The format the provider returns audio in, if it can be configured. Part of the audio cache
+     * key like `modelId`.
+     */
+    readonly outputFormat?: string;
+
+    /**
+     * Converts text to speech.
+     * @param text The text to speak.
+     * @param options Optional voice selection and tuning.
+     * @returns The audio and its format, or null if synthesis failed.
+     */
+    generateSpeech(text: string, options?: TTSSpeechOptions): Promise<TTSResult | null>;
+
+    /**
+     * Streams synthesized speech as it is produced, so playback can start before the whole
+     * clip is ready. Optional; when a provider does not implement it, streaming callers
+     * fall back to `generateSpeech`.
+     * @param text The text to speak.
+     * @param options Optional voice selection and tuning.
+     * @returns Consecutive pieces of one audio stream, each tagged with its format.
+     */
+    generateSpeechStream?(text: string, options?: TTSSpeechOptions): AsyncIterable<TTSResult>;
+}
+
+/**
+ * Maps a MIME type reported by a server onto the short format identifier used in TTSResult.
+ */
+export function formatFromMimeType(mimeType: string): string {
+    const subtype = mimeType.split(';')[0].trim().split('/')[1] || '';
+    switch (subtype) {
+        case 'mpeg':
+        case 'mp3':
+            return 'mp3';
+        case 'wav':
+        case 'wave':
+        case 'x-wav':
+            return 'wav';
+        default:
+            return subtype || 'unknown';
+    }
+}
@@ -0,0 +1,113 @@
+import { lookupLocale } from '../locale/Locale';
+import { TTSSpeechOptions, VoiceSettings } from './TTSProvider';
+
+/**
+ * A voice as understood by the TTS provider, plus optional tuning.
+ */
+export interface VoiceProfile {
+    voiceId: string;
+    settings?: VoiceSettings;
+    /**
+     * Voices used instead when the line is spoken in another language, keyed by locale (`de-DE`) or
+     * language (`de`). Their settings are layered on top of this profile's.
+     */
+    locales?: Record<string, VoiceProfile>;
+}
+
+export interface VoiceRegistryConfig {
+    /** Used when nothing more specific matches an entity. */
+    defaultVoice?: VoiceProfile;
+    /** Named profiles an entity can pick with a `voice` field in its state. */
+    voices?: Record<string, VoiceProfile>;
+    /** Profiles keyed by the entity's `archetype` field (e.g. `merchant`, `guard`). Matched case-insensitively. */
+    archetypes?: Record<string, VoiceProfile>;
+    /** Profiles keyed by the entity's `gender` field. Matched case-insensitively. */
+    genders?: Record<string, VoiceProfile>;
+}
+
+/**
+ * Resolves which voice an NPC speaks with from the fields of its entity state.
+ *
+ * Resolution order, most specific first:
+ * 1. `voiceId` - a raw provider voice id set directly on the entity.
+ * 2. `voice` - the name of a profile registered with `registerVoice`.
+ * 3. `archetype` - a profile registered with `registerArchetype`.
+ * 4. `gender` - a profile registered with `registerGender`.
+ * 5. The default voice.
+ *
+ * For lines in a locale, the matched profile's voice for that locale (or its language) is used if
+ * it has one. An entity's own `voiceSettings` field is layered on top of the matched profile's settings.
+ */
+export class VoiceRegistry {
+    private defaultVoice?: VoiceProfile;
+    private voices = new Map<string, VoiceProfile>();
+    private archetypes = new Map<string, VoiceProfile>();
+    private genders = new Map<string, VoiceProfile>();
+
+    constructor(config: VoiceRegistryConfig = {}) {
+        this.defaultVoice = config.defaultVoice;
+        Object.entries(config.voices || {}).forEach(([name, profile]) => this.registerVoice(name, profile));
+        Object.entries(config.archetypes || {}).forEach(([archetype, profile]) => this.registerArchetype(archetype, profile));
+        Object.entries(config.genders || {}).forEach(([gender, profile]) => this.registerGender(gender, profile));
+    }
+
+    public setDefaultVoice(profile: VoiceProfile): void {
+        this.defaultVoice = profile;
+    }
+
+    public registerVoice(name: string, profile: VoiceProfile): void {
+        this.voices.set(name, profile);
+    }
+
+    public registerArchetype(archetype: string, profile: VoiceProfile): void {
+        this.archetypes.set(archetype.toLowerCase(), profile);
+    }
+
+    public registerGender(gender: string, profile: VoiceProfile): void {
+        this.genders.set(gender.toLowerCase(), profile);
+    }
+
+    /**
+     * Finds the voice for an entity.
+     * @param entityState The state returned by `GameAdapter.getEntityState`.
+     * @param locale The locale the line is spoken in, e.g. `de-DE`.
+     * @returns Speech options for the TTS provider. Fields left unset fall back to the provider's defaults.
+     */
+    public resolve(entityState: { [key: string]: any }, locale?: string): TTSSpeechOptions {
+        const profile = this.localize(this.match(entityState), locale);
+        const overrides: VoiceSettings | undefined = entityState.voiceSettings;
+        const options: TTSSpeechOptions = {};
+        if (profile) {
+            options.voiceId = profile.voiceId;
+        }
+        if (profile?.settings || overrides) {
+            options.voiceSettings = { ...profile?.settings, ...overrides };
+        }
+        return options;
+    }
+
+    private localize(profile: VoiceProfile | undefined, locale?: string): VoiceProfile | undefined {
+        const localized = profile && locale ? lookupLocale(profile.locales, locale) : undefined;
+        if (!localized) {
+            return profile;
+        }
+        const settings = profile!.settings || localized.settings ? { ...profile!.settings, ...localized.settings } : undefined;
+        return { voiceId: localized.voiceId, ...(settings && { settings }) };
+    }
+
+    private match(entityState: { [key: string]: any }): VoiceProfile | undefined {
+        if (typeof entityState.voiceId === 'string' && entityState.voiceId) {
+            return { voiceId: entityState.voiceId };
+        }
+        if (typeof entityState.voice === 'string' && this.voices.has(entityState.voice)) {
+            return this.voices.get(entityState.voice);
+        }
+        if (typeof entityState.archetype === 'string' && this.archetypes.has(entityState.archetype.toLowerCase())) {
+            return this.archetypes.get(entityState.archetype.toLowerCase());
+        }
+        if (typeof entityState.gender === 'string' && this.genders.has(entityState.gender.toLowerCase())) {
+            return this.genders.get(entityState.gender.toLowerCase());
+        }
+        return this.defaultVoice;
+    }
+}
@@ -1,3 +1,121 @@
 export { AIManager } from './AIManager';
+export type {
+    AIManagerOptions,
+    AudioCacheOptions,
+    BudgetOptions,
+    DialogueRequestOptions,
+    MemoryOptions,
+    PlayerSpeechOptions,
+    PrewarmLine,
+    SceneOptions,
+    StructuredOutputOptions,
+} from './AIManager';
 export type { GameAdapter } from './integrations/GameAdapter';
 export * from './integrations/GameEvents';
+
+export type { LLMProvider, LLMGenerationOptions, LLMMessage, LLMTool, LLMToolCall, LLMSafetySetting, LLMToolResult, LLMTurn, LLMUsage } from './core/llm/LLMProvider';
+export { GeminiService } from './core/llm/GeminiService';
+export { OpenAICompatibleService } from './core/llm/OpenAICompatibleService';
+export type { OpenAICompatibleServiceOptions } from './core/llm/OpenAICompatibleService';
+
+export type { CharacterTiming, TTSProvider, TTSResult, TTSSpeechOptions, TTSUsage, VoiceSettings } from './core/tts/TTSProvider';
+export { speechDurationMs, speechTimings, visemeCues, wordTimings } from './core/tts/SpeechTiming';
+export type { SpeechTimings, Viseme, VisemeCue, WordTiming } from './core/tts/SpeechTiming';
+export { audioDurationMs } from './core/audio/duration';
+export { pcmToWav, readWav } from './core/audio/wav';
+export type { PcmFormat, WavContents } from './core/audio/wav';
+export { concatBuffers, concatSpeech, DEFAULT_LOUDNESS_DBFS, normalizeLoudness, processSpeech, wrapPcm } from './core/audio/processing';
+export type { AudioProcessingOptions } from './core/audio/processing';
+export { ElevenLabsTTSService } from './core/tts/ElevenLabsTTSService';
+export type { ElevenLabsOutputFormat } from './core/tts/ElevenLabsTTSService';
+export { HttpTTSService } from './core/tts/HttpTTSService';
+export type { HttpTTSServiceOptions } from './core/tts/HttpTTSService';
+export { CommandTTSService } from './core/tts/CommandTTSService';
+export type { CommandTTSServiceOptions } from './core/tts/CommandTTSService';
+export { VoiceRegistry } from './core/tts/VoiceRegistry';
+export type { VoiceProfile, VoiceRegistryConfig } from './core/tts/VoiceRegistry';
+
+export type { STTProvider, STTOptions, STTResult } from './core/stt/STTProvider';
+export { ElevenLabsSTTService } from './core/stt/ElevenLabsSTTService';
+export { StubSTTService } from './core/stt/StubSTTService';
+
+export { InMemoryAudioCacheStore } from './core/cache/AudioCacheStore';
+export type { AudioCacheStore, CachedAudio } from './core/cache/AudioCacheStore';
+export { FileAudioCacheStore } from './core/cache/FileAudioCacheStore';
+export { AdapterAudioCacheStore } from './core/cache/AdapterAudioCacheStore';
+export { CachedTTSProvider, audioCacheKey } from './core/cache/CachedTTSProvider';
+export type { CachedTTSProviderOptions, AudioCacheLookup } from './core/cache/CachedTTSProvider';
+
+export { ConversationSession } from './core/conversation/ConversationSession';
+export type { ConversationOptions } from './core/conversation/ConversationSession';
+
+export { DialogueHandle, DialogueQueue } from './core/dialogue/DialogueQueue';
+export type { DialogueControlOptions, DialogueStatus, InterruptPolicy } from './core/dialogue/DialogueQueue';
+export { generateScene, sceneSchema } from './core/dialogue/Scene';
+export { BarkDirector } from './core/barks/BarkDirector';
+export type { BarkOptions, BarkReaction, BarkRule, GameEvent, Position } from './core/barks/BarkDirector';
+export type { SceneLine } from './core/dialogue/Scene';
+export { AssetLibrary, ASSET_INDEX_FILE, bakedAudioKey } from './core/assets/AssetLibrary';
+export type { AssetIndex, BakedAudio, BakedLine } from './core/assets/AssetLibrary';
+export { AssetBaker } from './core/assets/AssetBaker';
+export type { AssetBakerOptions, BakeProgress, BakeReport } from './core/assets/AssetBaker';
+export { loadManifest, parseManifest } from './core/assets/AssetManifest';
+export type { AssetManifest, ManifestLine, ManifestNpc } from './core/assets/AssetManifest';
+
+export { UsageMetrics } from './core/metrics/UsageMetrics';
+export type { LatencyStats, MetricsSnapshot, MetricsStage, ModelPricing, UsageLimits, UsageMetricsOptions, UsageTotals } from './core/metrics/UsageMetrics';
+
+export { ContentModerator, DEFAULT_PROFANITY } from './core/moderation/ContentModerator';
+export type { LineValidator, ModerationContext, ModerationFilter, ModerationOptions, ModerationVerdict } from './core/moderation/ContentModerator';
+
+export { isSameLanguage, languageInstruction, languageName, languageOf, lookupLocale, translationPrompt } from './core/locale/Locale';
+
+export { InMemoryMemoryStore, createMemory } from './core/memory/MemoryStore';
+export type { MemoryStore, MemoryEntry, MemorySnapshot } from './core/memory/MemoryStore';
+export { JsonFileMemoryStore } from './core/memory/JsonFileMemoryStore';
+export { AdapterMemoryStore } from './core/memory/AdapterMemoryStore';
+
+export { PromptBuilder, DEFAULT_TEMPLATES, describeCast } from './core/prompt/PromptBuilder';
+export type { PromptBuilderOptions, PromptContext } from './core/prompt/PromptBuilder';
+export { PromptTemplate } from './core/prompt/PromptTemplate';
+
+export { validateJsonSchema, parseLLMJson } from './core/structured/JsonSchema';
+export type { JsonSchema } from './core/structured/JsonSchema';
+export { NPC_RESPONSE_SCHEMA, EMOTION_VOICE_SETTINGS } from './core/structured/NpcResponse';
+export type { NpcResponse, NpcAction } from './core/structured/NpcResponse';
+
+export {
+    AIPluginError,
+    TimeoutError,
+    RateLimitError,
+    ServiceUnavailableError,
+    AuthenticationError,
+    QuotaExceededError,
+    ContentBlockedError,
+    InvalidRequestError,
+    EmptyResponseError,
+    CancelledError,
+    RequestDroppedError,
+    BudgetExceededError,
+    ContentRejectedError,
+    errorFromStatus,
+    parseRetryAfter,
+} from './core/net/errors';
+export type { AIPluginErrorCode } from './core/net/errors';
+export { withRequestPolicy, streamWithRequestPolicy, DEFAULT_REQUEST_POLICY } from './core/net/RequestPolicy';
+export type { RequestPolicy } from './core/net/RequestPolicy';
+export { abortable, throwIfAborted } from './core/net/abort';
+export { RequestScheduler } from './core/net/RequestScheduler';
+export type { ProviderLimits, RequestPriority, RequestSchedulerOptions, ScheduleOptions } from './core/net/RequestScheduler';
+
+export { ToolRegistry, validateToolCall } from './core/tools/ToolRegistry';
+export type { ToolDefinition } from './core/tools/ToolRegistry';
+
+export { MockHttpServer } from './core/testing/MockHttpServer';
+export type { MockFault, MockRequest, MockResponse, MockServerOptions } from './core/testing/MockHttpServer';
+export { MockGeminiServer } from './core/testing/MockGeminiServer';
+export type { GeminiMockReply, MockGeminiServerOptions } from './core/testing/MockGeminiServer';
+export { MockElevenLabsServer } from './core/testing/MockElevenLabsServer';
+export type { MockElevenLabsServerOptions } from './core/testing/MockElevenLabsServer';
+export { RecordReplayServer } from './core/testing/RecordReplayServer';
+export type { FixtureFile, FixtureInteraction, RecordReplayMode, RecordReplayOptions } from './core/testing/RecordReplayServer';
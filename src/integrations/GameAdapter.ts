@@ -1,3 +1,6 @@
+import { NpcAction } from '../core/structured/NpcResponse';
+import { SpeechTimings } from '../core/tts/SpeechTiming';
+
 /**
  * The GameAdapter interface is the contract between the AI plugin and the game.
  * The game developer is responsible for creating a concrete implementation of this interface.
@@ -9,9 +12,10 @@ export interface GameAdapter {
      * Plays audio data. The game should handle the creation of an audio source
      * and its playback.
      * @param audioData The raw audio data (e.g., from an MP3 file) as an ArrayBuffer.
-     * @param options Optional parameters, like which entity is "speaking".
+     * @param options Optional parameters, like which entity is "speaking" and the MIME type of the audio
+     * (e.g. `audio/mpeg` or `audio/wav`), which depends on the TTS provider in use.
      */
-    playAudio(audioData: ArrayBuffer, options?: { entityId?: string }): Promise<void>;
+    playAudio(audioData: ArrayBuffer, options?: { entityId?: string; mimeType?: string }): Promise<void>;
 
     /**
      * Stops any audio currently playing, potentially scoped to a specific entity.
@@ -25,8 +29,12 @@ export interface GameAdapter {
      * a dialogue panel, etc.
      * @param text The text to display.
      * @param options Optional parameters, like which entity is speaking and for how long.
+     * The line is shown as soon as its text is known; once it has been voiced, it is shown again
+     * with `duration` set to the length of its audio in milliseconds (not in streaming mode).
+     * With structured output enabled, also the emotion and animation the NPC chose for the line.
+     * With a `subtitleLocale`, also the line translated into that language, e.g. for subtitles.
      */
-    showDialogue(text: string, options: { entityId: string; duration?: number }): void;
+    showDialogue(text: string, options: { entityId: string; duration?: number; emotion?: string; animation?: string; translation?: string }): void;
 
     /**
      * Hides the dialogue UI for a specific entity.
@@ -34,6 +42,88 @@ export interface GameAdapter {
      */
     hideDialogue(entityId: string): void;
 
+    /**
+     * Shows what the player said into the microphone, e.g. as a subtitle. Only used by
+     * `aiManager.sendPlayerSpeech`.
+     * @param text The transcript of the player's recording.
+     * @param options The entity the player is talking to.
+     */
+    showTranscript?(text: string, options: { entityId: string }): void;
+
+    /**
+     * Drives lip-sync and karaoke-style subtitles for a line whose audio is about to play. Called
+     * right before `playAudio`, with timings relative to the start of the audio. Implementing it
+     * makes the AIManager ask TTS providers for timings; only providers that report them (such as
+     * ElevenLabs) trigger it, and not for audio streamed with `enqueueAudioChunk`.
+     * @param timings The characters, words and mouth shapes of the line, and its length.
+     * @param options Which entity is speaking.
+     */
+    animateSpeech?(timings: SpeechTimings, options: { entityId: string }): void;
+
+    // --- Gameplay (optional) ---
+    /**
+     * Offers the player a set of replies to choose from. Only used with structured output.
+     * @param choices The replies suggested by the NPC's response.
+     * @param options Which entity the player is talking to.
+     */
+    showChoices?(choices: string[], options: { entityId: string }): void;
+
+    /**
+     * Carries out a game action an NPC decided on, e.g. giving an item or opening a shop.
+     * Only used with structured output. The game is responsible for checking the action is allowed.
+     * @param action The action and its argument.
+     * @param options Which entity performs the action.
+     */
+    performAction?(action: NpcAction, options: { entityId: string }): void | Promise<void>;
+
+    /**
+     * Runs a tool an NPC called through function calling, e.g. `give_item` with `{ item: 'rusty_key' }`.
+     * The call has already been checked against the NPC's allowlist and the tool's parameter schema.
+     * Required for NPCs to use tools registered with `aiManager.tools`.
+     * @param call The tool name and its arguments.
+     * @param options Which entity called the tool.
+     * @returns A JSON-serializable result the NPC is told about, e.g. `{ given: true }`.
+     * Throw to report a failure to the NPC.
+     */
+    executeTool?(call: { name: string; args: Record<string, unknown> }, options: { entityId: string }): Promise<unknown>;
+
+    // --- Streaming (optional) ---
+    /**
+     * Appends a piece of streamed dialogue text to the line currently shown for an entity.
+     * Only used when the AIManager runs in streaming mode: the first piece of a line is shown
+     * with `showDialogue` and later pieces are appended here. If not implemented, `showDialogue`
+     * is called again with the whole text received so far.
+     * @param text The new piece of text.
+     * @param options Which entity is speaking.
+     */
+    appendDialogue?(text: string, options: { entityId: string }): void;
+
+    /**
+     * Queues a chunk of audio to play as soon as the previously queued chunks for the same
+     * entity have finished. Consecutive chunks are pieces of one encoded stream, so a game can
+     * feed them to e.g. a MediaSource buffer. Only used in streaming mode; if not implemented,
+     * each sentence is synthesized in full and played with `playAudio`.
+     * @param audioData The audio chunk.
+     * @param options Which entity is speaking and the MIME type of the audio.
+     */
+    enqueueAudioChunk?(audioData: ArrayBuffer, options: { entityId: string; mimeType?: string }): void;
+
+    // --- Persistence (optional) ---
+    /**
+     * Saves plugin data (e.g. NPC memories) with the game's own save system.
+     * Only needed when using stores that persist through the adapter, such as AdapterMemoryStore.
+     * @param key Identifies the data, e.g. `ai-plugin:npc-memories`.
+     * @param data A JSON-serializable value.
+     */
+    saveData?(key: string, data: unknown): Promise<void>;
+
+    /**
+     * Loads data previously stored with `saveData`.
+     * @param key The key the data was saved under.
+     * @returns The saved value, or undefined if nothing was saved under that key.
+     */
+    loadData?(key: string): Promise<unknown | undefined>;
+
     // --- Game State Retrieval ---
     /**
      * Gets the general state of the game world.
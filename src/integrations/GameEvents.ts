@@ -1,3 +1,6 @@
+import { ModerationFilter } from '../core/moderation/ContentModerator';
+import { AIPluginErrorCode } from '../core/net/errors';
+
 /**
  * This file can be used to define standardized event types and data structures
  * that are passed between the game and the AI plugin.
@@ -10,9 +13,157 @@ export enum AIPluginEvent {
     DialogueEnd = 'ai:dialogue-end',
     AudioStart = 'ai:audio-start',
     AudioEnd = 'ai:audio-end',
+    LLMRequestStart = 'ai:llm-request-start',
+    LLMRequestEnd = 'ai:llm-request-end',
+    TTSRequestStart = 'ai:tts-request-start',
+    TTSRequestEnd = 'ai:tts-request-end',
+    Error = 'ai:error',
+    Fallback = 'ai:fallback',
+    LineRejected = 'ai:line-rejected',
+    PlayerTranscript = 'ai:player-transcript',
+    AudioCacheHit = 'ai:audio-cache-hit',
+    AudioCacheMiss = 'ai:audio-cache-miss',
 }
 
 export interface DialogueEventData {
     entityId: string;
+    /** The line of dialogue. Empty when the event marks the start or end of a whole conversation. */
+    text: string;
+    /** On DialogueEnd of a line: milliseconds from the request to the end of its audio. */
+    durationMs?: number;
+    /**
+     * On DialogueStart with a `subtitleLocale`: the line translated into that language. Not set for
+     * streamed lines, which are only translated once the stream has ended.
+     */
+    translation?: string;
+}
+
+/**
+ * Audio events fire around `adapter.playAudio`. Audio queued with `enqueueAudioChunk`
+ * is played by the game on its own schedule and does not fire them.
+ */
+export interface AudioEventData {
+    entityId: string;
+    /** The text being spoken. */
+    text: string;
+    mimeType: string;
+    /** On AudioEnd: milliseconds the adapter took to play the audio. */
+    durationMs?: number;
+}
+
+export interface LLMRequestStartEventData {
+    entityId: string;
+    /** The prompt, or the latest message of a conversation. */
+    prompt: string;
+}
+
+export interface LLMRequestEndEventData {
+    entityId: string;
+    /** The generated text, or null if the request failed or only produced tool calls. */
+    text: string | null;
+    success: boolean;
+    durationMs: number;
+}
+
+export interface TTSRequestStartEventData {
+    entityId: string;
+    text: string;
+    voiceId?: string;
+}
+
+export interface TTSRequestEndEventData {
+    entityId: string;
+    text: string;
+    success: boolean;
+    durationMs: number;
+}
+
+/**
+ * Where in the pipeline an error happened.
+ */
+export type AIPluginErrorStage = 'llm' | 'tts' | 'stt' | 'audio' | 'memory' | 'dialogue';
+
+export interface ErrorEventData {
+    /** The NPC concerned, if the error is tied to one. */
+    entityId?: string;
+    stage: AIPluginErrorStage;
+    message: string;
+    /** The original error, if there was one. Built-in services throw AIPluginError subclasses. */
+    error?: unknown;
+}
+
+/**
+ * How the plugin degraded after a failure:
+ * - `llm-provider`: an LLM request failed and the next provider in `llmFallbacks` is tried.
+ * - `canned-line`: no LLM could answer; a line from the NPC's `fallbackLines` (or the `fallbackLines` option) is used.
+ * - `placeholder`: no LLM could answer and there are no canned lines; `...` is shown.
+ * - `tts-provider`: speech synthesis failed and the next provider in `ttsFallbacks` is tried.
+ * - `text-only`: no TTS provider could voice the line; it stays visible without audio.
+ */
+export type FallbackKind = 'llm-provider' | 'canned-line' | 'placeholder' | 'tts-provider' | 'text-only';
+
+export interface FallbackEventData {
+    entityId: string;
+    kind: FallbackKind;
+    /** The line shown or spoken. Omitted for `llm-provider`, where the line is not known yet. */
+    text?: string;
+    /** The provider tried next, for `llm-provider` and `tts-provider`. */
+    provider?: string;
+    /** Why the fallback was used. */
+    reason: string;
+    /** The kind of failure, when a built-in service reported it with an AIPluginError. */
+    code?: AIPluginErrorCode;
+}
+
+/**
+ * A generated line failed moderation and was not shown.
+ */
+export interface LineRejectedEventData {
+    entityId: string;
+    /** The rejected line. Omitted when the provider's safety filter withheld it. */
+    text?: string;
+    filter: ModerationFilter;
+    reason: string;
+    /** Whether the line is generated again; otherwise a canned line is used, or a streamed line ends early. */
+    regenerating: boolean;
+}
+
+/**
+ * The player spoke to an NPC and the recording was transcribed.
+ */
+export interface PlayerTranscriptEventData {
+    entityId: string;
+    text: string;
+    /** The language spoken, if the speech recognition provider reports it. */
+    languageCode?: string;
+    /** Milliseconds the transcription took. */
+    durationMs: number;
+}
+
+export interface AudioCacheEventData {
+    /** The cache key of the line. */
+    key: string;
     text: string;
+    voiceId?: string;
+}
+
+/**
+ * Maps each event the AIManager emits to the type of its payload.
+ * Subscribe with `aiManager.on(AIPluginEvent.DialogueStart, (data) => ...)`.
+ */
+export interface AIPluginEventMap {
+    [AIPluginEvent.DialogueStart]: DialogueEventData;
+    [AIPluginEvent.DialogueEnd]: DialogueEventData;
+    [AIPluginEvent.AudioStart]: AudioEventData;
+    [AIPluginEvent.AudioEnd]: AudioEventData;
+    [AIPluginEvent.LLMRequestStart]: LLMRequestStartEventData;
+    [AIPluginEvent.LLMRequestEnd]: LLMRequestEndEventData;
+    [AIPluginEvent.TTSRequestStart]: TTSRequestStartEventData;
+    [AIPluginEvent.TTSRequestEnd]: TTSRequestEndEventData;
+    [AIPluginEvent.Error]: ErrorEventData;
+    [AIPluginEvent.Fallback]: FallbackEventData;
+    [AIPluginEvent.LineRejected]: LineRejectedEventData;
+    [AIPluginEvent.PlayerTranscript]: PlayerTranscriptEventData;
+    [AIPluginEvent.AudioCacheHit]: AudioCacheEventData;
+    [AIPluginEvent.AudioCacheMiss]: AudioCacheEventData;
 }